@@ -1,45 +1,54 @@
 'use client'
 
 import { useState, useRef, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { extractPostText, stripPostTags, type AgentSkills, type ContentFormat } from '@/lib/agent-skills'
+import { HookType, BodyType, CTAType } from '@/lib/types/social-media'
+import {
+  HOOK_TYPES,
+  BODY_TYPES,
+  CTA_TYPES,
+  HOOK_LABELS,
+  BODY_LABELS,
+  CTA_LABELS,
+  parseContentFormat,
+  parseContentFormats,
+} from '@/lib/taxonomy'
+import { parseJsonLoose } from '@/lib/structured-output'
+import type { AnalysisJob, AnalysisJobStatus, AnalysisJobSummary } from '@/lib/analysis-jobs'
+import { diffFormats, isEmptyDiff, type FormatDiff } from '@/lib/format-diff'
+import { DEFAULT_MODEL } from '@/lib/openrouter'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-interface ContentFormat {
-  id: string
-  name: string
-  description: string
-  hookType: string
-  bodyStructure: string
-  ctaType: string
-  template: string
-  example: string
-  platform: 'linkedin' | 'twitter' | 'both'
-  effectivenessIndicators: string[]
-  sourcePosts: string[]
-  createdAt: string
-}
-
-interface AgentSkills {
-  version: string
-  formats: ContentFormat[]
-  brandVoice: string
-  targetAudience: string
-  useCases: string[]
-  updatedAt: string
-}
-
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  /** Assistant replies: the model that wrote it */
+  model?: string
+  /** Assistant replies: the platform it was written for */
+  platform?: 'linkedin' | 'twitter'
+  /** Assistant replies: the learned format the agent was told to follow */
+  format?: { id: string; name: string }
 }
 
 type AnalyzeStep = 'idle' | 'starting' | 'scraping' | 'analyzing' | 'done' | 'error'
 
-const HOOK_TYPES = ['BOLD_STATEMENT', 'QUESTION', 'PERSONAL_STORY', 'COUNTERINTUITIVE_TAKE', 'STATISTIC', 'HOW_TO', 'CONTROVERSIAL', 'LIST_PREVIEW', 'FAILURE_ADMISSION']
-const BODY_STRUCTURES = ['NUMBERED_LIST', 'STORY_ARC', 'PROBLEM_SOLUTION', 'INSIGHT_DUMP', 'STEP_BY_STEP', 'COMPARISON', 'MYTH_BUSTING', 'LESSON_LEARNED', 'BEFORE_AFTER']
-const CTA_TYPES = ['COMMENT_PROMPT', 'SAVE_FOR_LATER', 'FOLLOW_FOR_MORE', 'SHARE', 'SOFT_SELL', 'NO_CTA', 'AGREE_DISAGREE']
+const TAB_LABELS = {
+  learn: '① Learn Formats',
+  history: 'History',
+  manage: '② Manage Skills',
+  create: '③ Create Content',
+} as const
+
+const JOB_STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  scraping: 'Scraping',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  error: 'Failed',
+}
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -76,21 +85,45 @@ Tell me what you want to post about — or just describe the situation/result/id
   timestamp: new Date(),
 }
 
-// ─── localStorage helpers ─────────────────────────────────────────────────────
+// ─── Skills sync helpers ──────────────────────────────────────────────────────
 
-function loadSkills(): AgentSkills {
-  if (typeof window === 'undefined') return DEFAULT_SKILLS
+// Skills used to live only in localStorage; they are migrated to the server on first load
+function loadLegacySkills(): AgentSkills | null {
+  if (typeof window === 'undefined') return null
   try {
     const raw = localStorage.getItem(STORAGE_KEY)
-    return raw ? { ...DEFAULT_SKILLS, ...JSON.parse(raw) } : DEFAULT_SKILLS
+    if (!raw) return null
+    const legacy = { ...DEFAULT_SKILLS, ...JSON.parse(raw) }
+    // Older copies used SCREAMING_CASE taxonomy labels
+    return { ...legacy, formats: parseContentFormats(legacy.formats).formats }
   } catch {
-    return DEFAULT_SKILLS
+    return null
   }
 }
 
-function persistSkills(skills: AgentSkills): void {
+function clearLegacySkills(): void {
   if (typeof window === 'undefined') return
-  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...skills, updatedAt: new Date().toISOString() }))
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+async function fetchSkills(): Promise<{ skills: AgentSkills; stored: boolean }> {
+  const res = await fetch('/api/agent/skills')
+  const data = await res.json()
+  if (!data.success) throw new Error(data.error ?? 'Failed to load skills')
+  return { skills: data.skills, stored: data.stored }
+}
+
+async function putSkills(
+  skills: AgentSkills,
+  expectedUpdatedAt: string
+): Promise<{ skills?: AgentSkills; current?: AgentSkills; error?: string }> {
+  const res = await fetch('/api/agent/skills', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ skills, expectedUpdatedAt }),
+  })
+  const data = await res.json()
+  return data.success ? { skills: data.skills } : { current: data.current, error: data.error }
 }
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
@@ -141,17 +174,124 @@ function CopyButton({ text }: { text: string }) {
   )
 }
 
+function SaveDraftButton({
+  text,
+  platform,
+  topic,
+  model,
+  format: written,
+  formats,
+}: {
+  text: string
+  platform: 'linkedin' | 'twitter'
+  topic?: string
+  model?: string
+  /** Format the reply was written with, as reported by the chat route */
+  format?: { id: string; name: string }
+  formats: ContentFormat[]
+}) {
+  const candidates = formats.filter((f) => f.platform === platform || f.platform === 'both')
+  const [open, setOpen] = useState(false)
+  const [formatId, setFormatId] = useState(written?.id ?? '')
+  const [state, setState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  const [error, setError] = useState('')
+
+  const handleSave = async () => {
+    setState('saving')
+    const format = candidates.find((f) => f.id === formatId) ?? (written?.id === formatId ? written : undefined)
+    try {
+      const res = await fetch('/api/drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          platform,
+          content: extractPostText(text) ?? text,
+          topic: topic?.slice(0, 200),
+          source: 'chat',
+          formatId: format?.id,
+          formatName: format?.name,
+          model,
+        }),
+      })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+      setState('saved')
+      setOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the draft.')
+      setState('error')
+    }
+  }
+
+  if (state === 'saved') {
+    return (
+      <Link
+        href="/admin/drafts"
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border border-green-500/30 text-green-400 hover:border-green-400 transition-colors"
+      >
+        Saved · Open drafts
+      </Link>
+    )
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition-colors"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" />
+        </svg>
+        Save as draft
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={formatId}
+        onChange={(e) => setFormatId(e.target.value)}
+        className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+        title="Learned format this post follows"
+      >
+        <option value="">No specific format</option>
+        {written && !candidates.some((f) => f.id === written.id) && <option value={written.id}>{written.name}</option>}
+        {candidates.map((f) => (
+          <option key={f.id} value={f.id}>{f.name}</option>
+        ))}
+      </select>
+      {state === 'error' && <span className="text-xs text-red-400">{error}</span>}
+      <button
+        onClick={() => setOpen(false)}
+        className="px-2 py-1.5 text-xs text-gray-500 hover:text-white transition-colors"
+      >
+        Cancel
+      </button>
+      <button
+        onClick={handleSave}
+        disabled={state === 'saving'}
+        className="px-3 py-1.5 text-xs rounded bg-white text-black font-medium hover:bg-gray-200 disabled:opacity-50 transition-colors"
+      >
+        {state === 'saving' ? 'Saving…' : 'Save'}
+      </button>
+    </div>
+  )
+}
+
 function FormatCard({ format, onRemove }: { format: ContentFormat; onRemove: () => void }) {
   const [expanded, setExpanded] = useState(false)
-  const hookColors: Record<string, 'blue' | 'purple' | 'orange' | 'green'> = {
-    BOLD_STATEMENT: 'orange',
-    QUESTION: 'blue',
-    PERSONAL_STORY: 'purple',
-    COUNTERINTUITIVE_TAKE: 'orange',
-    STATISTIC: 'blue',
-    FAILURE_ADMISSION: 'purple',
-    HOW_TO: 'green',
-    CONTROVERSIAL: 'orange',
+  const hookColors: Partial<Record<HookType, 'blue' | 'purple' | 'orange' | 'green'>> = {
+    [HookType.BOLD_STATEMENT]: 'orange',
+    [HookType.QUESTION]: 'blue',
+    [HookType.STORY]: 'purple',
+    [HookType.COUNTERINTUITIVE]: 'orange',
+    [HookType.STATISTIC]: 'blue',
+    [HookType.FAILURE_ADMISSION]: 'purple',
+    [HookType.HOW_TO]: 'green',
+    [HookType.CONTROVERSIAL_TAKE]: 'orange',
+    [HookType.MYTH_BUSTER]: 'orange',
   }
 
   return (
@@ -173,9 +313,9 @@ function FormatCard({ format, onRemove }: { format: ContentFormat; onRemove: ()
           </button>
         </div>
         <div className="flex flex-wrap gap-1.5 mb-3">
-          <Badge label={format.hookType} color={hookColors[format.hookType] ?? 'blue'} />
-          <Badge label={format.bodyStructure} color="purple" />
-          <Badge label={format.ctaType} color="green" />
+          <Badge label={HOOK_LABELS[format.hookType]} color={hookColors[format.hookType] ?? 'blue'} />
+          <Badge label={BODY_LABELS[format.bodyStructure]} color="purple" />
+          <Badge label={CTA_LABELS[format.ctaType]} color="green" />
           <Badge label={format.platform} color="gray" />
         </div>
         {format.effectivenessIndicators.length > 0 && (
@@ -257,11 +397,11 @@ function FormatEditor({
           <label className="block text-xs text-gray-400 mb-1">Hook Type</label>
           <select
             value={edit.hookType}
-            onChange={(e) => setEdit({ ...edit, hookType: e.target.value })}
+            onChange={(e) => setEdit({ ...edit, hookType: e.target.value as HookType })}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-gray-500"
           >
             {HOOK_TYPES.map((t) => (
-              <option key={t} value={t}>{t}</option>
+              <option key={t} value={t}>{HOOK_LABELS[t]}</option>
             ))}
           </select>
         </div>
@@ -269,11 +409,11 @@ function FormatEditor({
           <label className="block text-xs text-gray-400 mb-1">Body Structure</label>
           <select
             value={edit.bodyStructure}
-            onChange={(e) => setEdit({ ...edit, bodyStructure: e.target.value })}
+            onChange={(e) => setEdit({ ...edit, bodyStructure: e.target.value as BodyType })}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-gray-500"
           >
-            {BODY_STRUCTURES.map((t) => (
-              <option key={t} value={t}>{t}</option>
+            {BODY_TYPES.map((t) => (
+              <option key={t} value={t}>{BODY_LABELS[t]}</option>
             ))}
           </select>
         </div>
@@ -281,11 +421,11 @@ function FormatEditor({
           <label className="block text-xs text-gray-400 mb-1">CTA Type</label>
           <select
             value={edit.ctaType}
-            onChange={(e) => setEdit({ ...edit, ctaType: e.target.value })}
+            onChange={(e) => setEdit({ ...edit, ctaType: e.target.value as CTAType })}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-gray-500"
           >
             {CTA_TYPES.map((t) => (
-              <option key={t} value={t}>{t}</option>
+              <option key={t} value={t}>{CTA_LABELS[t]}</option>
             ))}
           </select>
         </div>
@@ -360,12 +500,317 @@ function FormatEditor({
   )
 }
 
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(' · ') || '—'
+  if (typeof value === 'string' && value in HOOK_LABELS) return HOOK_LABELS[value as HookType]
+  if (typeof value === 'string' && value in BODY_LABELS) return BODY_LABELS[value as BodyType]
+  if (typeof value === 'string' && value in CTA_LABELS) return CTA_LABELS[value as CTAType]
+  return String(value ?? '—')
+}
+
+function FormatDiffView({ diff }: { diff: FormatDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-xs text-gray-500">No differences — both runs produced the same formats.</p>
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      {diff.added.map((format) => (
+        <div key={`added-${format.id}`} className="border border-green-500/20 bg-green-500/5 rounded-lg px-3 py-2">
+          <span className="text-green-400 font-medium">+ {format.name}</span>
+          <span className="text-gray-500 ml-2">
+            {HOOK_LABELS[format.hookType]} · {BODY_LABELS[format.bodyStructure]} · {CTA_LABELS[format.ctaType]}
+          </span>
+        </div>
+      ))}
+      {diff.removed.map((format) => (
+        <div key={`removed-${format.id}`} className="border border-red-500/20 bg-red-500/5 rounded-lg px-3 py-2">
+          <span className="text-red-400 font-medium">− {format.name}</span>
+          <span className="text-gray-500 ml-2">
+            {HOOK_LABELS[format.hookType]} · {BODY_LABELS[format.bodyStructure]} · {CTA_LABELS[format.ctaType]}
+          </span>
+        </div>
+      ))}
+      {diff.changed.map(({ before, after, changes }) => (
+        <div key={`changed-${after.id}`} className="border border-yellow-500/20 bg-yellow-500/5 rounded-lg px-3 py-2 space-y-1.5">
+          <p className="text-yellow-400 font-medium">~ {after.name}</p>
+          {changes.map((change) => (
+            <div key={change.field} className="grid grid-cols-[7rem_1fr] gap-2">
+              <span className="text-gray-500">{change.field}</span>
+              <span className="whitespace-pre-wrap">
+                <span className="text-red-400/80 line-through">{describeValue(change.before)}</span>
+                <span className="text-gray-600"> → </span>
+                <span className="text-green-400/90">{describeValue(change.after)}</span>
+              </span>
+            </div>
+          ))}
+          {before.id !== after.id && <p className="text-gray-600">Matched by structure ({before.id} → {after.id})</p>}
+        </div>
+      ))}
+      {diff.unchanged.length > 0 && (
+        <p className="text-gray-500">Unchanged: {diff.unchanged.map((format) => format.name).join(', ')}</p>
+      )}
+    </div>
+  )
+}
+
+function AnalysisHistory({
+  jobs,
+  onJobsChanged,
+  onUseFormats,
+}: {
+  jobs: AnalysisJobSummary[]
+  onJobsChanged: () => void
+  onUseFormats: (formats: ContentFormat[]) => void
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [job, setJob] = useState<AnalysisJob | null>(null)
+  const [error, setError] = useState('')
+  const [viewedExtractionId, setViewedExtractionId] = useState<string | null>(null)
+  const [compareToId, setCompareToId] = useState<string>('')
+  const [rerunModel, setRerunModel] = useState('')
+  const [isRerunning, setIsRerunning] = useState(false)
+  const [showPosts, setShowPosts] = useState(false)
+
+  const openJob = async (jobId: string) => {
+    setSelectedId(jobId)
+    setError('')
+    setShowPosts(false)
+    try {
+      const res = await fetch(`/api/agent/analyze/jobs/${jobId}`)
+      const data = await res.json()
+      if (!data.success) {
+        setJob(null)
+        setError(data.error ?? 'Could not load the analysis.')
+        return
+      }
+      selectExtraction(data.job, data.job.extractions[data.job.extractions.length - 1]?.id ?? null)
+    } catch {
+      setError('Could not load the analysis.')
+    }
+  }
+
+  // Shows an extraction and compares it with the successful run before it
+  const selectExtraction = (next: AnalysisJob, extractionId: string | null) => {
+    const index = next.extractions.findIndex((e) => e.id === extractionId)
+    const earlier = next.extractions.slice(0, Math.max(index, 0)).reverse().find((e) => e.status === 'done')
+    setJob(next)
+    setViewedExtractionId(extractionId)
+    setCompareToId(earlier?.id ?? '')
+  }
+
+  const handleRerun = async () => {
+    if (!job) return
+    setIsRerunning(true)
+    setError('')
+    try {
+      const res = await fetch(`/api/agent/analyze/jobs/${job.id}/extract`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rerunModel.trim() ? { model: rerunModel.trim() } : {}),
+      })
+      const data = await res.json()
+      if (data.job) {
+        selectExtraction(data.job, data.extraction?.id ?? null)
+        onJobsChanged()
+      }
+      if (!data.success) setError(data.error ?? 'Extraction failed.')
+    } catch {
+      setError('Could not reach the analysis service.')
+    } finally {
+      setIsRerunning(false)
+    }
+  }
+
+  const viewed = job?.extractions.find((e) => e.id === viewedExtractionId) ?? null
+  const compareTo = job?.extractions.find((e) => e.id === compareToId) ?? null
+  const diff = viewed?.status === 'done' && compareTo ? diffFormats(compareTo.formats, viewed.formats) : null
+  const doneExtractions = job?.extractions.filter((e) => e.status === 'done' && e.id !== viewedExtractionId) ?? []
+  const canRerun = job !== null && (job.status === 'done' || job.status === 'error') && job.posts.length > 0
+
+  return (
+    <div className="grid grid-cols-[18rem_1fr] gap-6">
+      {/* Job list */}
+      <div className="space-y-2">
+        {jobs.length === 0 && (
+          <p className="text-sm text-gray-500">No analyses yet. Run one from the Learn tab.</p>
+        )}
+        {jobs.map((summary) => (
+          <button
+            key={summary.id}
+            onClick={() => openJob(summary.id)}
+            className={`w-full text-left bg-gray-800/40 border rounded-xl px-4 py-3 transition-colors ${
+              summary.id === selectedId ? 'border-gray-500' : 'border-gray-700/50 hover:border-gray-600'
+            }`}
+          >
+            <p className="text-sm text-gray-200">
+              {summary.postCount} post{summary.postCount !== 1 ? 's' : ''} · {summary.formatCount} format{summary.formatCount !== 1 ? 's' : ''}
+            </p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {new Date(summary.createdAt).toLocaleString()} · {JOB_STATUS_LABELS[summary.status]}
+            </p>
+            {summary.model && (
+              <p className="text-xs text-gray-600 mt-0.5 truncate">
+                {summary.model} · {summary.extractionCount} extraction{summary.extractionCount !== 1 ? 's' : ''}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Job detail */}
+      <div className="space-y-5 min-w-0">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!job && !error && <p className="text-sm text-gray-500">Select an analysis to see its posts and extractions.</p>}
+
+        {job && (
+          <>
+            <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl p-4 space-y-2">
+              <div className="flex flex-wrap gap-1.5">
+                <Badge label={JOB_STATUS_LABELS[job.status]} color={job.status === 'error' ? 'orange' : job.status === 'done' ? 'green' : 'blue'} />
+                {job.runs.map((run) => (
+                  <Badge key={run.runId} label={`${run.platform === 'twitter' ? 'X' : 'LinkedIn'} · ${run.actorId}`} color="gray" />
+                ))}
+              </div>
+              <ul className="text-xs text-gray-400 space-y-0.5">
+                {job.urls.map((url) => (
+                  <li key={url} className="truncate font-mono">{url}</li>
+                ))}
+              </ul>
+              <button onClick={() => setShowPosts(!showPosts)} className="text-xs text-gray-500 hover:text-gray-300">
+                {showPosts ? 'Hide' : 'Show'} {job.posts.length} scraped post{job.posts.length !== 1 ? 's' : ''}
+              </button>
+              {showPosts && (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  {job.posts.map((post, i) => (
+                    <div key={`${post.url}-${i}`} className="bg-black/30 rounded-lg p-3">
+                      <p className="text-xs text-gray-500 mb-1">
+                        {post.authorName || 'unknown'} · {post.likesCount} likes · {post.commentsCount} comments
+                        {post.parts ? ` · thread of ${post.parts.length}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-300 whitespace-pre-wrap line-clamp-6">{post.text}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Extractions */}
+            <div>
+              <h4 className="text-sm font-semibold text-white mb-2">Extractions</h4>
+              <div className="flex flex-wrap gap-2">
+                {job.extractions.map((extraction, i) => (
+                  <button
+                    key={extraction.id}
+                    onClick={() => selectExtraction(job, extraction.id)}
+                    className={`px-3 py-1.5 text-xs rounded-lg border transition-colors ${
+                      extraction.id === viewedExtractionId
+                        ? 'border-white text-white'
+                        : 'border-gray-700 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    #{i + 1} {extraction.model}
+                    {extraction.promptVersion ? ` · prompt ${extraction.promptVersion}` : ''}
+                    {extraction.status === 'error' ? ' · failed' : ` · ${extraction.formats.length}`}
+                    {extraction.rejected?.length ? ` (${extraction.rejected.length} rejected)` : ''}
+                  </button>
+                ))}
+              </div>
+              {canRerun && (
+                <div className="flex gap-2 mt-3">
+                  <input
+                    value={rerunModel}
+                    onChange={(e) => setRerunModel(e.target.value)}
+                    placeholder={`Model (default ${DEFAULT_MODEL})`}
+                    className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500 font-mono"
+                  />
+                  <button
+                    onClick={handleRerun}
+                    disabled={isRerunning}
+                    className="px-4 py-2 text-xs font-medium bg-white text-black rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40"
+                  >
+                    {isRerunning ? 'Extracting…' : 'Re-run extraction'}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {viewed?.status === 'error' && (
+              <div className="bg-red-500/5 border border-red-500/20 rounded-xl p-4 space-y-2">
+                <p className="text-sm text-red-400">{viewed.error}</p>
+                {viewed.rawAnalysis && (
+                  <pre className="text-xs text-gray-400 whitespace-pre-wrap max-h-60 overflow-y-auto">{viewed.rawAnalysis}</pre>
+                )}
+              </div>
+            )}
+
+            {viewed?.status === 'done' && (
+              <>
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold text-white">Compare</h4>
+                    <select
+                      value={compareToId}
+                      onChange={(e) => setCompareToId(e.target.value)}
+                      className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-300"
+                    >
+                      <option value="">Nothing</option>
+                      {doneExtractions.map((extraction) => (
+                        <option key={extraction.id} value={extraction.id}>
+                          #{job.extractions.indexOf(extraction) + 1} {extraction.model}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {diff ? (
+                    <FormatDiffView diff={diff} />
+                  ) : (
+                    <p className="text-xs text-gray-500">Pick an earlier extraction to see what changed.</p>
+                  )}
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold text-white">
+                      Formats <span className="text-xs font-normal text-gray-500">({viewed.formats.length})</span>
+                    </h4>
+                    {viewed.formats.length > 0 && (
+                      <button
+                        onClick={() => onUseFormats(viewed.formats)}
+                        className="px-3 py-1.5 text-xs text-gray-300 border border-gray-700 hover:border-gray-500 hover:text-white rounded-lg transition-colors"
+                      >
+                        Review in Learn tab
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {viewed.formats.map((format) => (
+                      <div key={format.id} className="bg-gray-900 border border-gray-800 rounded-lg px-4 py-3">
+                        <p className="text-sm text-white">{format.name}</p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {HOOK_LABELS[format.hookType]} · {BODY_LABELS[format.bodyStructure]} · {CTA_LABELS[format.ctaType]} · {format.platform}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
 // ─── Main Page ────────────────────────────────────────────────────────────────
 
 export default function ContentWriterPage() {
-  const [activeTab, setActiveTab] = useState<'learn' | 'manage' | 'create'>('learn')
+  const [activeTab, setActiveTab] = useState<'learn' | 'history' | 'manage' | 'create'>('learn')
   const [platform, setPlatform] = useState<'linkedin' | 'twitter'>('linkedin')
   const [agentSkills, setAgentSkills] = useState<AgentSkills>(DEFAULT_SKILLS)
+  const [skillsError, setSkillsError] = useState('')
+  const skillsVersionRef = useRef('')
 
   // Learn tab
   const [postUrls, setPostUrls] = useState('')
@@ -375,6 +820,8 @@ export default function ContentWriterPage() {
   const [extractedFormats, setExtractedFormats] = useState<ContentFormat[]>([])
   const [rawAnalysis, setRawAnalysis] = useState('')
   const pollRef = useRef<ReturnType<typeof setInterval>>()
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJobSummary[]>([])
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
 
   // Manage tab
   const [editingFormat, setEditingFormat] = useState<ContentFormat | null>(null)
@@ -387,12 +834,61 @@ export default function ContentWriterPage() {
   const [chatInput, setChatInput] = useState('')
   const [isSending, setIsSending] = useState(false)
   const [showSkillsPanel, setShowSkillsPanel] = useState(true)
+  const [streamingId, setStreamingId] = useState<string | null>(null)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const chatInputRef = useRef<HTMLTextAreaElement>(null)
+  const chatAbortRef = useRef<AbortController | null>(null)
 
-  // Load skills from localStorage
+  // Cancel an in-flight reply when leaving the page
+  useEffect(() => () => chatAbortRef.current?.abort(), [])
+
+  // Load skills from the server, migrating any localStorage copy
   useEffect(() => {
-    setAgentSkills(loadSkills())
+    let cancelled = false
+
+    const init = async () => {
+      try {
+        const { skills, stored } = await fetchSkills()
+        const legacy = loadLegacySkills()
+
+        if (!stored && legacy) {
+          const result = await putSkills(legacy, skills.updatedAt)
+          if (result.skills) {
+            clearLegacySkills()
+            if (!cancelled) {
+              skillsVersionRef.current = result.skills.updatedAt
+              setAgentSkills(result.skills)
+            }
+            return
+          }
+        }
+
+        if (!cancelled) {
+          skillsVersionRef.current = skills.updatedAt
+          setAgentSkills(skills)
+        }
+      } catch {
+        if (!cancelled) setSkillsError('Could not load Agent Skills from the server.')
+      }
+    }
+
+    init()
+    return () => { cancelled = true }
+  }, [])
+
+  const persistSkills = useCallback(async (updated: AgentSkills) => {
+    try {
+      const result = await putSkills(updated, skillsVersionRef.current)
+      const next = result.skills ?? result.current
+
+      if (next) {
+        skillsVersionRef.current = next.updatedAt
+        setAgentSkills(next)
+      }
+      setSkillsError(result.skills ? '' : result.error ?? 'Failed to save Agent Skills.')
+    } catch {
+      setSkillsError('Could not save Agent Skills. Check your connection and try again.')
+    }
   }, [])
 
   // Cleanup polling on unmount
@@ -405,46 +901,81 @@ export default function ContentWriterPage() {
 
   // ── Analyze flow ────────────────────────────────────────────────────────────
 
-  const pollStatus = useCallback(async (runId: string) => {
+  const loadJobs = useCallback(async () => {
     try {
-      const res = await fetch(`/api/agent/analyze/status?runId=${runId}`)
+      const res = await fetch('/api/agent/analyze/jobs')
       const data = await res.json()
+      if (data.success) setAnalysisJobs(data.jobs ?? [])
+    } catch {
+      // The list is a convenience; the active job keeps working without it
+    }
+  }, [])
+
+  useEffect(() => { loadJobs() }, [loadJobs])
+
+  const stopPolling = () => {
+    if (pollRef.current) clearInterval(pollRef.current)
+    pollRef.current = undefined
+  }
 
-      if (!data.success && ['FAILED', 'TIMED-OUT', 'ABORTED'].includes(data.status ?? '')) {
-        clearInterval(pollRef.current)
+  // Applies a job's state to the Learn tab. Returns true once the job is finished.
+  const showJob = useCallback((job: AnalysisJob): boolean => {
+    if (job.status === 'done') {
+      setExtractedFormats(job.formats)
+      setRawAnalysis('')
+      setAnalyzeStep('done')
+      setAnalyzeLog(job.formats.length > 0
+        ? `Extracted ${job.formats.length} format pattern${job.formats.length !== 1 ? 's' : ''} from ${job.posts.length} posts`
+        : 'Analysis complete — no distinct formats found')
+      return true
+    }
+
+    if (job.status === 'error') {
+      setRawAnalysis(job.rawAnalysis ?? '')
+      setAnalyzeStep('error')
+      setAnalyzeError(job.error ?? 'Analysis failed')
+      return true
+    }
+
+    if (job.status === 'analyzing') {
+      setAnalyzeStep('analyzing')
+      setAnalyzeLog(`Scraped ${job.posts.length} posts. Analyzing formats…`)
+    } else {
+      const finished = job.runs.filter((run) => run.status !== 'running').length
+      setAnalyzeStep('scraping')
+      setAnalyzeLog(`Waiting for Apify (${finished}/${job.runs.length} run${job.runs.length !== 1 ? 's' : ''} finished)…`)
+    }
+    return false
+  }, [])
+
+  const pollJob = useCallback(async (jobId: string) => {
+    try {
+      const res = await fetch(`/api/agent/analyze/jobs/${jobId}`)
+      const data = await res.json()
+
+      if (!data.success) {
+        stopPolling()
         setAnalyzeStep('error')
-        setAnalyzeError(data.error ?? `Apify run ${data.status}`)
+        setAnalyzeError(data.error ?? 'Could not load the analysis job.')
         return
       }
 
-      if (data.status === 'SUCCEEDED' && data.posts) {
-        clearInterval(pollRef.current)
-        setAnalyzeLog(`Scraped ${data.postCount ?? data.posts.length} posts. Analyzing formats…`)
-        setAnalyzeStep('analyzing')
-
-        const extractRes = await fetch('/api/agent/analyze/extract', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ posts: data.posts }),
-        })
-        const extractData = await extractRes.json()
-
-        if (extractData.success) {
-          setExtractedFormats(extractData.formats ?? [])
-          setRawAnalysis(extractData.rawAnalysis ?? '')
-          setAnalyzeStep('done')
-          setAnalyzeLog(extractData.message ?? 'Analysis complete')
-        } else {
-          setAnalyzeStep('error')
-          setAnalyzeError(extractData.error ?? 'Format extraction failed')
-        }
+      if (showJob(data.job)) {
+        stopPolling()
+        loadJobs()
       }
     } catch {
-      clearInterval(pollRef.current)
+      stopPolling()
       setAnalyzeStep('error')
-      setAnalyzeError('Lost connection during scrape. Try again.')
+      setAnalyzeError('Lost connection while waiting for the analysis. Resume it from Recent analyses.')
     }
-  }, [])
+  }, [showJob, loadJobs])
+
+  const watchJob = (jobId: string) => {
+    setActiveJobId(jobId)
+    stopPolling()
+    pollRef.current = setInterval(() => pollJob(jobId), 5000)
+  }
 
   const handleAnalyze = async () => {
     const urls = postUrls
@@ -458,7 +989,7 @@ export default function ContentWriterPage() {
     setAnalyzeError('')
     setExtractedFormats([])
     setRawAnalysis('')
-    setAnalyzeLog('Finding LinkedIn scraper on Apify…')
+    setAnalyzeLog('Finding scrapers on Apify…')
 
     try {
       const res = await fetch('/api/agent/analyze/start', {
@@ -474,17 +1005,29 @@ export default function ContentWriterPage() {
         return
       }
 
-      setAnalyzeLog(`Started scraping with ${data.actorId}. Waiting for results…`)
+      const skipped = data.unsupported?.length ? ` Skipped ${data.unsupported.length} unsupported URL${data.unsupported.length !== 1 ? 's' : ''}.` : ''
+      const background = data.webhook ? ' You can close this tab; the analysis finishes on the server.' : ''
+      setAnalyzeLog(`${data.message}. Waiting for results…${skipped}${background}`)
       setAnalyzeStep('scraping')
 
-      if (pollRef.current) clearInterval(pollRef.current)
-      pollRef.current = setInterval(() => pollStatus(data.runId), 5000)
+      watchJob(data.jobId)
+      loadJobs()
     } catch {
       setAnalyzeStep('error')
       setAnalyzeError('Could not reach the analysis service. Check your API keys.')
     }
   }
 
+  const handleResumeJob = async (jobId: string) => {
+    setAnalyzeError('')
+    setExtractedFormats([])
+    setRawAnalysis('')
+    setAnalyzeStep('starting')
+    setAnalyzeLog('Loading analysis…')
+    watchJob(jobId)
+    await pollJob(jobId)
+  }
+
   const handleSaveToSkills = () => {
     const newFormats = extractedFormats.filter(
       (f) => !agentSkills.formats.find((existing) => existing.id === f.id)
@@ -536,51 +1079,31 @@ export default function ContentWriterPage() {
   const handleImportJson = () => {
     setJsonImportError('')
     try {
-      let jsonStr = jsonImport.trim()
-      // Try to extract JSON array
-      const jsonMatch = jsonStr.match(/\[[\s\S]*\]/)
-      if (!jsonMatch) {
-        setJsonImportError('No JSON array found. Paste an array of format objects.')
-        return
-      }
-      let arrayStr = jsonMatch[0]
-      // Handle truncated JSON
-      if (!arrayStr.trim().endsWith(']')) {
-        let openBraces = 0, openBrackets = 0, inString = false, escape = false
-        for (const char of arrayStr) {
-          if (escape) { escape = false; continue }
-          if (char === '\\') { escape = true; continue }
-          if (char === '"') { inString = !inString; continue }
-          if (!inString) {
-            if (char === '{') openBraces++
-            if (char === '}') openBraces--
-            if (char === '[') openBrackets++
-            if (char === ']') openBrackets--
-          }
-        }
-        if (inString) arrayStr += '"'
-        while (openBraces > 0) { arrayStr += '}'; openBraces-- }
-        while (openBrackets > 0) { arrayStr += ']'; openBrackets-- }
-      }
-      const parsed = JSON.parse(arrayStr)
+      const value = parseJsonLoose(jsonImport)
+      const parsed = Array.isArray(value) ? value : (value as { formats?: unknown })?.formats
       if (!Array.isArray(parsed)) {
         setJsonImportError('Input must be an array of format objects.')
         return
       }
-      const newFormats: ContentFormat[] = parsed.map((f: any, i: number) => ({
-        id: f.id || `imported-${Date.now()}-${i}`,
-        name: f.name || 'Untitled Format',
-        description: f.description || '',
-        hookType: f.hookType || 'BOLD_STATEMENT',
-        bodyStructure: f.bodyStructure || 'PROBLEM_SOLUTION',
-        ctaType: f.ctaType || 'COMMENT_PROMPT',
-        template: f.template || '',
-        example: f.example || '',
-        platform: f.platform || 'linkedin',
-        effectivenessIndicators: f.effectivenessIndicators || [],
-        sourcePosts: f.sourcePosts || [],
-        createdAt: new Date().toISOString(),
-      }))
+      const newFormats: ContentFormat[] = []
+      const skipped: string[] = []
+      parsed.forEach((f: any, i: number) => {
+        const result = parseContentFormat({
+          id: `imported-${Date.now()}-${i}`,
+          name: 'Untitled Format',
+          hookType: HookType.BOLD_STATEMENT,
+          bodyStructure: BodyType.PROBLEM_SOLUTION,
+          ctaType: CTAType.COMMENT_PROMPT,
+          ...f,
+          createdAt: new Date().toISOString(),
+        })
+        if (result.ok) newFormats.push(result.format)
+        else skipped.push(`#${i + 1}: ${result.errors.join(', ')}`)
+      })
+      if (newFormats.length === 0) {
+        setJsonImportError(`No valid formats found. ${skipped.join('; ')}`)
+        return
+      }
       const updated: AgentSkills = {
         ...agentSkills,
         formats: [...agentSkills.formats, ...newFormats],
@@ -588,7 +1111,7 @@ export default function ContentWriterPage() {
       setAgentSkills(updated)
       persistSkills(updated)
       setJsonImport('')
-      setJsonImportError('')
+      setJsonImportError(skipped.length > 0 ? `Imported ${newFormats.length}, skipped ${skipped.length}: ${skipped.join('; ')}` : '')
     } catch (err) {
       setJsonImportError(`Parse error: ${err instanceof Error ? err.message : 'Invalid JSON'}`)
     }
@@ -611,41 +1134,75 @@ export default function ContentWriterPage() {
     setChatInput('')
     setIsSending(true)
 
+    const replyId = `agent-${Date.now()}`
+    const controller = new AbortController()
+    chatAbortRef.current = controller
+
+    let model: string | undefined
+    let format: ChatMessage['format']
+    const replyPlatform = platform
+    const setReply = (content: string) =>
+      setMessages((prev) =>
+        prev.some((m) => m.id === replyId)
+          ? prev.map((m) => (m.id === replyId ? { ...m, content, model, format } : m))
+          : [...prev, { id: replyId, role: 'assistant', content, timestamp: new Date(), model, platform: replyPlatform, format }]
+      )
+
+    let reply = ''
     try {
       const history = [...messages, userMsg].map((m) => ({ role: m.role, content: m.content }))
 
       const res = await fetch('/api/agent/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: history, skills: agentSkills, platform }),
+        body: JSON.stringify({ messages: history, platform, stream: true }),
+        signal: controller.signal,
       })
-      const data = await res.json()
 
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: `agent-${Date.now()}`,
-          role: 'assistant',
-          content: data.success ? data.message : `⚠️ ${data.error}`,
-          timestamp: new Date(),
-        },
-      ])
-    } catch {
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: `err-${Date.now()}`,
-          role: 'assistant',
-          content: '⚠️ Something went wrong. Check your OPENROUTER_API_KEY and try again.',
-          timestamp: new Date(),
-        },
-      ])
+      // Errors before the model starts answering still come back as JSON
+      if (!res.ok || !res.body || res.headers.get('content-type')?.includes('application/json')) {
+        const data = await res.json()
+        model = data.model
+        format = data.format
+        setReply(data.success ? data.message : `⚠️ ${data.error}`)
+        return
+      }
+
+      model = res.headers.get('x-model') ?? undefined
+      const formatId = res.headers.get('x-format-id')
+      format = formatId
+        ? { id: decodeURIComponent(formatId), name: decodeURIComponent(res.headers.get('x-format-name') ?? formatId) }
+        : undefined
+
+      setStreamingId(replyId)
+      const reader = res.body.getReader()
+      const decoder = new TextDecoder()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        reply += decoder.decode(value, { stream: true })
+        setReply(reply)
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        setReply(reply ? `${reply}\n\n⏹ Stopped.` : '⏹ Stopped.')
+      } else if (reply) {
+        setReply(`${reply}\n\n⚠️ The response was interrupted.`)
+      } else {
+        setReply('⚠️ Something went wrong. Check your OPENROUTER_API_KEY and try again.')
+      }
     } finally {
+      chatAbortRef.current = null
+      setStreamingId(null)
       setIsSending(false)
       chatInputRef.current?.focus()
     }
   }
 
+  const handleStop = () => {
+    chatAbortRef.current?.abort()
+  }
+
   const handleChatKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -658,7 +1215,7 @@ export default function ContentWriterPage() {
   const stepLabels: Record<AnalyzeStep, string> = {
     idle: '',
     starting: 'Connecting to Apify…',
-    scraping: 'Scraping LinkedIn posts…',
+    scraping: 'Scraping posts…',
     analyzing: 'Analyzing with z-ai/glm-5…',
     done: 'Analysis complete',
     error: 'Error',
@@ -722,7 +1279,7 @@ export default function ContentWriterPage() {
 
       {/* ── Tabs ── */}
       <div className="flex-shrink-0 flex border-b border-gray-800 px-8">
-        {(['learn', 'manage', 'create'] as const).map((tab) => (
+        {(['learn', 'history', 'manage', 'create'] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -732,11 +1289,17 @@ export default function ContentWriterPage() {
                 : 'border-transparent text-gray-500 hover:text-gray-300'
             }`}
           >
-            {tab === 'learn' ? '① Learn Formats' : tab === 'manage' ? '② Manage Skills' : '③ Create Content'}
+            {TAB_LABELS[tab]}
           </button>
         ))}
       </div>
 
+      {skillsError && (
+        <div className="flex-shrink-0 px-8 py-2 bg-yellow-500/10 border-b border-yellow-500/20 text-xs text-yellow-400">
+          {skillsError}
+        </div>
+      )}
+
       {/* ── Learn Tab ── */}
       {activeTab === 'learn' && (
         <div className="flex-1 overflow-y-auto p-8">
@@ -745,8 +1308,8 @@ export default function ContentWriterPage() {
             <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl p-5">
               <h3 className="text-sm font-semibold text-white mb-2">How it works</h3>
               <ol className="space-y-1.5 text-sm text-gray-400">
-                <li>1. Paste LinkedIn post URLs (one per line) that you want the agent to learn from</li>
-                <li>2. The agent connects to Apify, finds a LinkedIn post scraper, and runs it</li>
+                <li>1. Paste LinkedIn or X post URLs (one per line) that you want the agent to learn from</li>
+                <li>2. The agent connects to Apify and runs the right scraper for each platform (X threads are captured in full)</li>
                 <li>3. Scraped posts are analyzed by z-ai/glm-5 to extract the format patterns</li>
                 <li>4. Save the extracted formats to Agent Skills — used for all future content creation</li>
               </ol>
@@ -755,13 +1318,13 @@ export default function ContentWriterPage() {
             {/* URL Input */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                LinkedIn Post URLs
+                Post URLs
                 <span className="ml-2 text-xs text-gray-500">(one per line)</span>
               </label>
               <textarea
                 value={postUrls}
                 onChange={(e) => setPostUrls(e.target.value)}
-                placeholder={`https://www.linkedin.com/posts/example-post-1\nhttps://www.linkedin.com/posts/example-post-2\nhttps://www.linkedin.com/posts/example-post-3`}
+                placeholder={`https://www.linkedin.com/posts/example-post-1\nhttps://www.linkedin.com/posts/example-post-2\nhttps://x.com/example/status/1234567890`}
                 rows={6}
                 className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500 resize-none font-mono"
                 disabled={analyzeStep !== 'idle' && analyzeStep !== 'error'}
@@ -775,6 +1338,8 @@ export default function ContentWriterPage() {
                   {(analyzeStep === 'done' || analyzeStep === 'error') && (
                     <button
                       onClick={() => {
+                        stopPolling()
+                        setActiveJobId(null)
                         setAnalyzeStep('idle')
                         setAnalyzeError('')
                         setExtractedFormats([])
@@ -889,9 +1454,9 @@ export default function ContentWriterPage() {
                         </div>
                       </div>
                       <div className="flex flex-wrap gap-1.5">
-                        <Badge label={`Hook: ${format.hookType}`} color="blue" />
-                        <Badge label={`Body: ${format.bodyStructure}`} color="purple" />
-                        <Badge label={`CTA: ${format.ctaType}`} color="green" />
+                        <Badge label={`Hook: ${HOOK_LABELS[format.hookType]}`} color="blue" />
+                        <Badge label={`Body: ${BODY_LABELS[format.bodyStructure]}`} color="purple" />
+                        <Badge label={`CTA: ${CTA_LABELS[format.ctaType]}`} color="green" />
                       </div>
                       {format.effectivenessIndicators?.length > 0 && (
                         <p className="text-xs text-gray-500">
@@ -919,6 +1484,62 @@ export default function ContentWriterPage() {
                 <pre className="text-xs text-gray-300 whitespace-pre-wrap overflow-x-auto">{rawAnalysis}</pre>
               </div>
             )}
+
+            {/* Recent analyses */}
+            {analysisJobs.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-white mb-3">Recent analyses</h3>
+                <div className="space-y-2">
+                  {analysisJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className={`flex items-center justify-between gap-4 bg-gray-800/40 border rounded-xl px-4 py-3 ${
+                        job.id === activeJobId ? 'border-gray-500' : 'border-gray-700/50'
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-200 truncate">
+                          {job.urls.length} URL{job.urls.length !== 1 ? 's' : ''} · {job.runs.map((run) => (run.platform === 'twitter' ? 'X' : 'LinkedIn')).join(' + ')}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {new Date(job.createdAt).toLocaleString()} · {JOB_STATUS_LABELS[job.status]}
+                          {job.status === 'done' && ` · ${job.formatCount} format${job.formatCount !== 1 ? 's' : ''}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleResumeJob(job.id)}
+                        disabled={job.id === activeJobId && analyzeStep !== 'done' && analyzeStep !== 'error'}
+                        className="shrink-0 px-3 py-1.5 text-xs text-gray-300 border border-gray-700 hover:border-gray-500 hover:text-white rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {job.status === 'scraping' || job.status === 'analyzing' ? 'Resume' : 'Open'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* ── History Tab ── */}
+      {activeTab === 'history' && (
+        <div className="flex-1 overflow-y-auto p-8">
+          <div className="max-w-5xl mx-auto">
+            <AnalysisHistory
+              jobs={analysisJobs}
+              onJobsChanged={loadJobs}
+              onUseFormats={(formats) => {
+                stopPolling()
+                setActiveJobId(null)
+                setExtractedFormats(formats)
+                setRawAnalysis('')
+                setAnalyzeError('')
+                setAnalyzeStep('done')
+                setAnalyzeLog(`Loaded ${formats.length} format pattern${formats.length !== 1 ? 's' : ''} from history`)
+                setActiveTab('learn')
+              }}
+            />
           </div>
         </div>
       )}
@@ -995,9 +1616,9 @@ export default function ContentWriterPage() {
                             <h5 className="text-sm font-semibold text-white">{format.name}</h5>
                             <p className="text-xs text-gray-400 mt-0.5">{format.description}</p>
                             <div className="flex flex-wrap gap-1.5 mt-2">
-                              <Badge label={format.hookType} color="orange" />
-                              <Badge label={format.bodyStructure} color="purple" />
-                              <Badge label={format.ctaType} color="green" />
+                              <Badge label={HOOK_LABELS[format.hookType]} color="orange" />
+                              <Badge label={BODY_LABELS[format.bodyStructure]} color="purple" />
+                              <Badge label={CTA_LABELS[format.ctaType]} color="green" />
                               <Badge label={format.platform} color="gray" />
                             </div>
                           </div>
@@ -1047,9 +1668,9 @@ export default function ContentWriterPage() {
                         id: `manual-${Date.now()}`,
                         name: '',
                         description: '',
-                        hookType: 'BOLD_STATEMENT',
-                        bodyStructure: 'PROBLEM_SOLUTION',
-                        ctaType: 'COMMENT_PROMPT',
+                        hookType: HookType.BOLD_STATEMENT,
+                        bodyStructure: BodyType.PROBLEM_SOLUTION,
+                        ctaType: CTAType.COMMENT_PROMPT,
                         template: '',
                         example: '',
                         platform: 'linkedin',
@@ -1075,7 +1696,7 @@ export default function ContentWriterPage() {
           <div className="flex-1 flex flex-col overflow-hidden">
             {/* Messages */}
             <div className="flex-1 overflow-y-auto px-6 py-5 space-y-4">
-              {messages.map((msg) => (
+              {messages.map((msg, i) => (
                 <div
                   key={msg.id}
                   className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -1092,17 +1713,27 @@ export default function ContentWriterPage() {
                         : 'bg-gray-800/80 border border-gray-700/50 text-gray-100 rounded-2xl rounded-tl-sm px-4 py-3'
                     }`}
                   >
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
-                    {msg.role === 'assistant' && msg.content.length > 100 && (
-                      <div className="mt-2 pt-2 border-t border-gray-700/50 flex justify-end">
-                        <CopyButton text={msg.content} />
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{stripPostTags(msg.content)}</p>
+                    {msg.role === 'assistant' && msg.id !== streamingId && msg.content.length > 100 && (
+                      <div className="mt-2 pt-2 border-t border-gray-700/50 flex justify-end gap-2">
+                        {msg.id !== 'welcome' && (
+                          <SaveDraftButton
+                            text={msg.content}
+                            platform={msg.platform ?? platform}
+                            topic={messages.slice(0, i).reverse().find((m) => m.role === 'user')?.content}
+                            model={msg.model}
+                            format={msg.format}
+                            formats={agentSkills.formats}
+                          />
+                        )}
+                        <CopyButton text={extractPostText(msg.content) ?? msg.content} />
                       </div>
                     )}
                   </div>
                 </div>
               ))}
 
-              {isSending && (
+              {isSending && !streamingId && (
                 <div className="flex justify-start">
                   <div className="w-7 h-7 rounded-full bg-white flex items-center justify-center flex-shrink-0 mr-3">
                     <span className="text-black font-bold text-xs">Z</span>
@@ -1128,7 +1759,7 @@ export default function ContentWriterPage() {
                   </svg>
                   No formats in Skills yet.{' '}
                   <button onClick={() => setActiveTab('learn')} className="underline hover:no-underline">
-                    Learn from LinkedIn posts first
+                    Learn from LinkedIn or X posts first
                   </button>{' '}
                   for best results.
                 </div>
@@ -1143,15 +1774,27 @@ export default function ContentWriterPage() {
                   rows={2}
                   className="flex-1 bg-transparent text-sm text-gray-100 placeholder-gray-600 resize-none focus:outline-none"
                 />
-                <button
-                  onClick={handleSend}
-                  disabled={!chatInput.trim() || isSending}
-                  className="flex-shrink-0 p-2.5 bg-white text-black rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                >
-                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                  </svg>
-                </button>
+                {isSending ? (
+                  <button
+                    onClick={handleStop}
+                    title="Stop generating"
+                    className="flex-shrink-0 p-2.5 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="6" y="6" width="12" height="12" rx="1.5" />
+                    </svg>
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSend}
+                    disabled={!chatInput.trim()}
+                    className="flex-shrink-0 p-2.5 bg-white text-black rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                    </svg>
+                  </button>
+                )}
               </div>
               <p className="text-xs text-gray-600 mt-2 text-center">
                 Enter to send · Shift+Enter for new line
@@ -1191,7 +1834,7 @@ export default function ContentWriterPage() {
                       >
                         Learn tab
                       </button>{' '}
-                      and analyze some high-performing LinkedIn posts.
+                      and analyze some high-performing LinkedIn or X posts.
                     </p>
                   </div>
                 ) : (
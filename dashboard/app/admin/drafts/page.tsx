@@ -0,0 +1,588 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Draft, DraftCounts } from '@/lib/drafts'
+import type { DraftRevisionSummary, RevisionComparison } from '@/lib/draft-revisions'
+import { DRAFT_STATUSES, DRAFT_STATUS_LABELS, DRAFT_TRANSITIONS, type DraftStatus } from '@/lib/draft-status'
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const STATUS_COLORS: Record<DraftStatus, string> = {
+  idea: 'bg-gray-700/50 text-gray-300 border-gray-600/30',
+  draft: 'bg-blue-500/15 text-blue-400 border-blue-500/20',
+  in_review: 'bg-yellow-500/15 text-yellow-400 border-yellow-500/20',
+  approved: 'bg-purple-500/15 text-purple-400 border-purple-500/20',
+  scheduled: 'bg-orange-500/15 text-orange-400 border-orange-500/20',
+  published: 'bg-green-500/15 text-green-400 border-green-500/20',
+  archived: 'bg-gray-800 text-gray-500 border-gray-700',
+}
+
+const REVISION_KIND_LABELS: Record<DraftRevisionSummary['kind'], string> = {
+  original: 'Original',
+  edit: 'Edited',
+  refinement: 'Refined',
+  revert: 'Reverted',
+}
+
+// ─── API helpers ──────────────────────────────────────────────────────────────
+
+async function patchDraft(draft: Draft, patch: Record<string, unknown>): Promise<Draft> {
+  const res = await fetch(`/api/drafts/${draft.id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...patch, expectedUpdatedAt: draft.updatedAt }),
+  })
+  const data = await res.json()
+  if (!data.success) throw new Error(data.error ?? 'Failed to update the draft')
+  return data.data
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function StatusBadge({ status }: { status: DraftStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs border font-medium ${STATUS_COLORS[status]}`}>
+      {DRAFT_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+function NewDraftForm({ onCreated, onCancel }: { onCreated: (draft: Draft) => void; onCancel: () => void }) {
+  const [platform, setPlatform] = useState<'linkedin' | 'twitter'>('linkedin')
+  const [status, setStatus] = useState<DraftStatus>('idea')
+  const [title, setTitle] = useState('')
+  const [content, setContent] = useState('')
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      const res = await fetch('/api/drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform, status, title, content, source: 'manual' }),
+      })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+      onCreated(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the draft')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4 space-y-3">
+      <div className="flex gap-3">
+        <select
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value as 'linkedin' | 'twitter')}
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200"
+        >
+          <option value="linkedin">LinkedIn</option>
+          <option value="twitter">𝕏</option>
+        </select>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as DraftStatus)}
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200"
+        >
+          <option value="idea">Idea</option>
+          <option value="draft">Draft</option>
+        </select>
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title (optional)"
+          className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
+        />
+      </div>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={status === 'idea' ? 'Jot down the idea…' : 'Write the post…'}
+        rows={5}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleCreate}
+          disabled={isSaving}
+          className="px-4 py-1.5 text-sm rounded bg-white text-black font-medium hover:bg-gray-200 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function RevisionHistory({ draft, onReverted }: { draft: Draft; onReverted: (draft: Draft) => void }) {
+  const [revisions, setRevisions] = useState<DraftRevisionSummary[]>([])
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null)
+  const [error, setError] = useState('')
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/content/revisions/${draft.id}`)
+    const data = await res.json()
+    if (data.success) setRevisions(data.data)
+    else setError(data.error)
+  }, [draft.id])
+
+  useEffect(() => {
+    load()
+  }, [load, draft.updatedAt])
+
+  const latest = revisions[revisions.length - 1]
+
+  const handleCompare = async (number: number) => {
+    const res = await fetch(`/api/content/revisions/${draft.id}?from=${number}&to=${latest.number}`)
+    const data = await res.json()
+    if (data.success) setComparison(data.data)
+    else setError(data.error)
+  }
+
+  const handleRevert = async (number: number) => {
+    const res = await fetch(`/api/content/revisions/${draft.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ revert_to: number }),
+    })
+    const data = await res.json()
+    if (!data.success) {
+      setError(data.error)
+      return
+    }
+    setComparison(null)
+    if (data.draft) onReverted(data.draft)
+  }
+
+  if (error) return <p className="text-xs text-red-400">{error}</p>
+  if (revisions.length === 0) return <p className="text-xs text-gray-500">No revisions yet.</p>
+
+  return (
+    <div className="space-y-2">
+      {[...revisions].reverse().map((revision) => {
+        const before = revision.scores.before?.viralityScore
+        const after = revision.scores.after.viralityScore
+        return (
+          <div key={revision.id} className="flex items-start justify-between gap-3 text-xs">
+            <div className="min-w-0">
+              <p className="text-gray-300">
+                #{revision.number} {REVISION_KIND_LABELS[revision.kind]}
+                {revision.revertedTo && ` to #${revision.revertedTo}`}
+                <span className="text-gray-500"> · {formatDate(revision.createdAt)}</span>
+              </p>
+              {revision.feedback && <p className="text-gray-500 truncate">“{revision.feedback}”</p>}
+              {revision.changes.length > 0 && (
+                <p className="text-gray-500 truncate">{revision.changes.join(' · ')}</p>
+              )}
+              <p className="text-gray-500">
+                +{revision.diffStats.added} / −{revision.diffStats.removed} words · score{' '}
+                {before !== undefined && `${before} → `}
+                <span className={before !== undefined && after < before ? 'text-red-400' : 'text-gray-300'}>{after}</span>
+              </p>
+            </div>
+            {revision.number !== latest.number && (
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => handleCompare(revision.number)} className="text-gray-400 hover:text-white">
+                  Compare
+                </button>
+                <button onClick={() => handleRevert(revision.number)} className="text-gray-400 hover:text-white">
+                  Revert
+                </button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {comparison && (
+        <div className="mt-3 p-3 bg-gray-900 border border-gray-700 rounded">
+          <p className="text-xs text-gray-400 mb-2">
+            #{comparison.from.number} → #{comparison.to.number} · score {comparison.scoreDelta >= 0 ? '+' : ''}
+            {comparison.scoreDelta}
+          </p>
+          <p className="text-sm leading-relaxed whitespace-pre-wrap text-gray-300">
+            {comparison.diff.map((op, i) =>
+              op.type === 'equal' ? (
+                <span key={i}>{op.text}</span>
+              ) : op.type === 'insert' ? (
+                <ins key={i} className="bg-green-500/20 text-green-300 no-underline">{op.text}</ins>
+              ) : (
+                <del key={i} className="bg-red-500/20 text-red-300">{op.text}</del>
+              )
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DraftCard({
+  draft,
+  onChange,
+  onDelete,
+}: {
+  draft: Draft
+  onChange: (draft: Draft) => void
+  onDelete: () => void
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [content, setContent] = useState(draft.content)
+  const [title, setTitle] = useState(draft.title ?? '')
+  const [tags, setTags] = useState(draft.tags.join(', '))
+  const [scheduledFor, setScheduledFor] = useState('')
+  const [pendingStatus, setPendingStatus] = useState<DraftStatus | null>(null)
+  const [feedback, setFeedback] = useState('')
+  const [isRefining, setIsRefining] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setContent(draft.content)
+    setTitle(draft.title ?? '')
+    setTags(draft.tags.join(', '))
+  }, [draft])
+
+  const run = async (action: () => Promise<void>) => {
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    }
+  }
+
+  const handleStatus = (status: DraftStatus) =>
+    run(async () => {
+      if (status === 'scheduled' && !scheduledFor) {
+        setPendingStatus('scheduled')
+        return
+      }
+      const scheduled = status === 'scheduled' ? { scheduledFor: new Date(scheduledFor).toISOString() } : {}
+      onChange(await patchDraft(draft, { status, ...scheduled }))
+      setPendingStatus(null)
+    })
+
+  const handleSave = () =>
+    run(async () => {
+      onChange(await patchDraft(draft, { content, title, tags: tags.split(',') }))
+      setIsEditing(false)
+    })
+
+  const handleRefine = () =>
+    run(async () => {
+      setIsRefining(true)
+      try {
+        const res = await fetch('/api/content/refine', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ draft_id: draft.id, feedback }),
+        })
+        const data = await res.json()
+        if (!data.success) throw new Error(data.error)
+        if (data.data.draft) onChange(data.data.draft)
+        setFeedback('')
+        setShowHistory(true)
+      } finally {
+        setIsRefining(false)
+      }
+    })
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!confirm('Delete this draft and its history?')) return
+      const res = await fetch(`/api/drafts/${draft.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+      onDelete()
+    })
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <StatusBadge status={draft.status} />
+            <span className="text-xs text-gray-400">{draft.platform === 'linkedin' ? 'LinkedIn' : '𝕏'}</span>
+            {draft.title && <span className="text-sm font-semibold text-white truncate">{draft.title}</span>}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Updated {formatDate(draft.updatedAt)}
+            {draft.scheduledFor && draft.status === 'scheduled' && ` · Scheduled for ${formatDate(draft.scheduledFor)}`}
+            {draft.publishedAt && ` · Published ${formatDate(draft.publishedAt)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleStatus(e.target.value as DraftStatus)}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            <option value="">Move to…</option>
+            {DRAFT_TRANSITIONS[draft.status].map((status) => (
+              <option key={status} value={status}>{DRAFT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <button onClick={handleDelete} className="text-gray-600 hover:text-red-400 transition-colors" title="Delete draft">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {pendingStatus === 'scheduled' && (
+        <div className="flex items-center gap-2 mb-3">
+          <input
+            type="datetime-local"
+            value={scheduledFor}
+            onChange={(e) => setScheduledFor(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+          />
+          <button
+            onClick={() => handleStatus('scheduled')}
+            disabled={!scheduledFor}
+            className="px-3 py-1 text-xs rounded bg-white text-black font-medium disabled:opacity-50"
+          >
+            Schedule
+          </button>
+          <button onClick={() => setPendingStatus(null)} className="text-xs text-gray-500 hover:text-white">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title"
+            className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-gray-500"
+          />
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={8}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-gray-500"
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-gray-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsEditing(false)} className="px-3 py-1.5 text-xs text-gray-400 hover:text-white">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-3 py-1.5 text-xs rounded bg-white text-black font-medium hover:bg-gray-200">
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p
+          onClick={() => setIsEditing(true)}
+          className="text-sm text-gray-200 leading-relaxed whitespace-pre-wrap cursor-text line-clamp-6"
+          title="Click to edit"
+        >
+          {draft.content || <span className="text-gray-600">No text yet</span>}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap mt-3">
+        {draft.formatName && (
+          <span className="text-xs px-2 py-0.5 bg-purple-500/10 text-purple-400 border border-purple-500/20 rounded">
+            {draft.formatName}
+          </span>
+        )}
+        {draft.model && (
+          <span className="text-xs px-2 py-0.5 bg-green-500/10 text-green-400 border border-green-500/20 rounded">
+            {draft.model}
+          </span>
+        )}
+        {draft.tags.map((tag) => (
+          <span key={tag} className="text-xs px-2 py-0.5 bg-gray-700/50 text-gray-300 rounded">#{tag}</span>
+        ))}
+        {draft.topic && <span className="text-xs text-gray-500 truncate max-w-xs">From: {draft.topic}</span>}
+      </div>
+
+      {draft.content && draft.status !== 'published' && draft.status !== 'archived' && (
+        <div className="flex gap-2 mt-3">
+          <input
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && feedback.trim() && !isRefining && handleRefine()}
+            placeholder="Feedback to refine with, e.g. “shorter hook, add a number”"
+            className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
+          />
+          <button
+            onClick={handleRefine}
+            disabled={!feedback.trim() || isRefining}
+            className="px-3 py-1.5 text-xs rounded border border-gray-600 text-gray-300 hover:text-white hover:border-gray-400 disabled:opacity-50 transition-colors"
+          >
+            {isRefining ? 'Refining…' : 'Refine'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      <div className="mt-3 pt-3 border-t border-gray-700/50">
+        <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-gray-400 hover:text-white">
+          {showHistory ? 'Hide history' : 'History'}
+        </button>
+        {showHistory && (
+          <div className="mt-2">
+            <RevisionHistory draft={draft} onReverted={onChange} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function DraftsPage() {
+  const [drafts, setDrafts] = useState<Draft[]>([])
+  const [counts, setCounts] = useState<DraftCounts | null>(null)
+  const [status, setStatus] = useState<DraftStatus | ''>('')
+  const [platform, setPlatform] = useState<'linkedin' | 'twitter' | ''>('')
+  const [query, setQuery] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (status) params.set('status', status)
+    if (platform) params.set('platform', platform)
+    if (query.trim()) params.set('q', query.trim())
+
+    try {
+      const res = await fetch(`/api/drafts?${params}`)
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+      setDrafts(data.data)
+      setCounts(data.counts)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drafts')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, platform, query])
+
+  useEffect(() => {
+    const timer = setTimeout(load, query ? 300 : 0)
+    return () => clearTimeout(timer)
+  }, [load, query])
+
+  return (
+    <div className="p-8">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Drafts</h1>
+          <p className="mt-1 text-gray-400">Every post worth keeping, from idea to published</p>
+        </div>
+        <button
+          onClick={() => setIsCreating(true)}
+          className="px-4 py-2 text-sm rounded-lg bg-white text-black font-medium hover:bg-gray-200 transition-colors"
+        >
+          New draft
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap mb-4">
+        <button
+          onClick={() => setStatus('')}
+          className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
+            status === '' ? 'bg-white text-black border-white' : 'border-gray-700 text-gray-400 hover:text-white'
+          }`}
+        >
+          All {counts && <span className="opacity-60">{counts.total}</span>}
+        </button>
+        {DRAFT_STATUSES.map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
+              status === s ? 'bg-white text-black border-white' : 'border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            {DRAFT_STATUS_LABELS[s]} {counts && <span className="opacity-60">{counts.byStatus[s]}</span>}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <select
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value as 'linkedin' | 'twitter' | '')}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-300"
+        >
+          <option value="">All platforms</option>
+          <option value="linkedin">LinkedIn</option>
+          <option value="twitter">𝕏</option>
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search…"
+          className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
+        />
+      </div>
+
+      {isCreating && (
+        <div className="mb-4">
+          <NewDraftForm
+            onCreated={() => {
+              setIsCreating(false)
+              load()
+            }}
+            onCancel={() => setIsCreating(false)}
+          />
+        </div>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading drafts…</p>
+      ) : drafts.length === 0 ? (
+        <div className="p-8 text-center border border-dashed border-gray-700 rounded-lg">
+          <p className="text-sm text-gray-400">No drafts here yet.</p>
+          <p className="text-xs text-gray-600 mt-1">Save posts from the Content Writer chat, or start one with New draft.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {drafts.map((draft) => (
+            <DraftCard
+              key={draft.id}
+              draft={draft}
+              onChange={(updated) => {
+                setDrafts((prev) => prev.map((d) => (d.id === updated.id ? updated : d)))
+                if (updated.status !== draft.status) load()
+              }}
+              onDelete={() => load()}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
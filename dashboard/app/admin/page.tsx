@@ -1,13 +1,25 @@
 import StatCard from '@/components/ui/StatCard'
 import ActivityFeed from '@/components/ui/ActivityFeed'
 import Link from 'next/link'
+import { countDrafts, type DraftCounts } from '@/lib/drafts'
 
-const stats = [
-  { title: 'Active Agents', value: '1', change: 'LinkedIn/𝕏 Content Writer', changeType: 'positive' as const },
-  { title: 'Formats in Skills', value: '—', change: 'Grow by analyzing posts', changeType: 'neutral' as const },
-  { title: 'Posts Generated', value: '0', change: 'Start creating content', changeType: 'neutral' as const },
-  { title: 'GTM Campaigns', value: '4', change: '2 active this week', changeType: 'positive' as const },
-]
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+function draftsStat(counts: DraftCounts | null) {
+  if (!counts) {
+    return { title: 'Drafts', value: '—', change: 'Could not load drafts', changeType: 'neutral' as const }
+  }
+  if (counts.total === 0) {
+    return { title: 'Drafts', value: '0', change: 'Save posts from the Content Writer', changeType: 'neutral' as const }
+  }
+  return {
+    title: 'Drafts',
+    value: String(counts.total),
+    change: `${counts.byStatus.published} published · ${counts.byStatus.in_review} in review`,
+    changeType: 'positive' as const,
+  }
+}
 
 const recentActivity = [
   { id: '1', type: 'agent' as const, message: 'LinkedIn/𝕏 Content Writer Agent activated — powered by z-ai/glm-5', timestamp: 'Just now' },
@@ -18,7 +30,15 @@ const recentActivity = [
   { id: '6', type: 'content' as const, message: 'Conversational content generation interface live', timestamp: 'Just now' },
 ]
 
-export default function AdminPage() {
+export default async function AdminPage() {
+  const counts = await countDrafts().catch(() => null)
+  const stats = [
+    { title: 'Active Agents', value: '1', change: 'LinkedIn/𝕏 Content Writer', changeType: 'positive' as const },
+    { title: 'Formats in Skills', value: '—', change: 'Grow by analyzing posts', changeType: 'neutral' as const },
+    draftsStat(counts),
+    { title: 'GTM Campaigns', value: '4', change: '2 active this week', changeType: 'positive' as const },
+  ]
+
   return (
     <div className="p-8">
       <div className="mb-8">
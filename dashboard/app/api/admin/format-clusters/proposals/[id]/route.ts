@@ -0,0 +1,74 @@
+/**
+ * Single Format Cluster Proposal Admin API Route
+ *
+ * - GET: The proposal
+ * - POST: Resolve a pending proposal. Body: { action: 'apply' | 'reject' }
+ *   Applying a proposal whose formats changed since it was made marks it
+ *   stale instead (returned with 409); generate proposals again to review
+ *   the current clusters.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  applyClusterProposal,
+  ClusterProposalNotFoundError,
+  ClusterProposalStateError,
+  getClusterProposal,
+  rejectClusterProposal,
+} from '@/lib/format-cluster-review'
+import { FormatClusterError } from '@/lib/format-clustering'
+
+export const runtime = 'edge'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const proposal = await getClusterProposal(id)
+    if (!proposal) {
+      return NextResponse.json({ success: false, error: 'Cluster proposal not found.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, proposal })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load the cluster proposal.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = (await request.json().catch(() => ({}))) as { action?: unknown }
+
+    if (body.action === 'reject') {
+      return NextResponse.json({ success: true, proposal: await rejectClusterProposal(id) })
+    }
+    if (body.action !== 'apply') {
+      return NextResponse.json({ success: false, error: 'action must be "apply" or "reject".' }, { status: 400 })
+    }
+
+    const proposal = await applyClusterProposal(id)
+    if (proposal.status === 'stale') {
+      return NextResponse.json(
+        { success: false, error: 'The formats changed since this proposal was made.', proposal },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ success: true, proposal })
+  } catch (error) {
+    if (error instanceof ClusterProposalNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 })
+    }
+    if (error instanceof ClusterProposalStateError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    if (error instanceof FormatClusterError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to resolve the cluster proposal.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Format Cluster Proposals Admin API Route
+ *
+ * - GET: Proposals, optionally filtered by ?status=pending|applied|rejected|stale
+ * - POST: Record proposals for review. Nothing is applied until approved.
+ *   Body:
+ *   - { platform?: 'linkedin' | 'twitter' } scans clusters for merges and splits
+ *   - { type: 'merge', targetId, sourceId, reason? } proposes a merge by hand
+ *   - { type: 'split', formatId, postIds, reason? } proposes a split by hand
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  generateClusterProposals,
+  listClusterProposals,
+  proposeMerge,
+  proposeSplit,
+  type ClusterProposalStatus,
+} from '@/lib/format-cluster-review'
+import { FormatClusterError } from '@/lib/format-clustering'
+import type { Platform } from '@/lib/types/social-media'
+
+export const runtime = 'edge'
+
+const STATUSES: ClusterProposalStatus[] = ['pending', 'applied', 'rejected', 'stale']
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !STATUSES.includes(status as ClusterProposalStatus)) {
+      return NextResponse.json({ success: false, error: `status must be one of ${STATUSES.join(', ')}.` }, { status: 400 })
+    }
+
+    const proposals = await listClusterProposals((status as ClusterProposalStatus | null) ?? undefined)
+    return NextResponse.json({ success: true, proposals })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list cluster proposals.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as {
+      type?: unknown
+      platform?: unknown
+      targetId?: unknown
+      sourceId?: unknown
+      formatId?: unknown
+      postIds?: unknown
+      reason?: unknown
+    }
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined
+
+    if (body.type === 'merge') {
+      if (typeof body.targetId !== 'string' || typeof body.sourceId !== 'string') {
+        return NextResponse.json({ success: false, error: 'targetId and sourceId are required.' }, { status: 400 })
+      }
+      const proposal = await proposeMerge(body.targetId, body.sourceId, reason)
+      if (!proposal) {
+        return NextResponse.json({ success: false, error: 'Format not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, proposal }, { status: 201 })
+    }
+
+    if (body.type === 'split') {
+      if (
+        typeof body.formatId !== 'string' ||
+        !Array.isArray(body.postIds) ||
+        !body.postIds.every((postId) => typeof postId === 'string')
+      ) {
+        return NextResponse.json({ success: false, error: 'formatId and postIds (string[]) are required.' }, { status: 400 })
+      }
+      const proposal = await proposeSplit(body.formatId, body.postIds as string[], reason)
+      if (!proposal) {
+        return NextResponse.json({ success: false, error: 'Format not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, proposal }, { status: 201 })
+    }
+
+    if (body.type !== undefined) {
+      return NextResponse.json({ success: false, error: 'type must be "merge" or "split".' }, { status: 400 })
+    }
+    if (body.platform !== undefined && body.platform !== 'linkedin' && body.platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be linkedin or twitter.' }, { status: 400 })
+    }
+
+    const proposals = await generateClusterProposals(body.platform as Platform | undefined)
+    return NextResponse.json({ success: true, proposals })
+  } catch (error) {
+    if (error instanceof FormatClusterError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create cluster proposals.' },
+      { status: 500 }
+    )
+  }
+}
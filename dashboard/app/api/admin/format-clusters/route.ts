@@ -0,0 +1,38 @@
+/**
+ * GET /api/admin/format-clusters
+ *
+ * Lists format clusters (optionally for ?platform=) with their size,
+ * centroid and exemplar posts, for reviewing what each format stands for.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { clusterExemplars, listFormatClusters, STRUCTURAL_FEATURES } from '@/lib/format-clustering'
+import type { Platform } from '@/lib/types/social-media'
+
+export const runtime = 'edge'
+
+export async function GET(request: NextRequest) {
+  try {
+    const platform = request.nextUrl.searchParams.get('platform')
+    if (platform && platform !== 'linkedin' && platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be linkedin or twitter.' }, { status: 400 })
+    }
+
+    const clusters = await listFormatClusters((platform as Platform | null) ?? undefined)
+    return NextResponse.json({
+      success: true,
+      features: STRUCTURAL_FEATURES,
+      clusters: clusters.map(({ members, ...cluster }) => ({
+        ...cluster,
+        memberCount: members.length,
+        postIds: members.map((member) => member.postId),
+        exemplars: clusterExemplars({ ...cluster, members }),
+      })),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list format clusters.' },
+      { status: 500 }
+    )
+  }
+}
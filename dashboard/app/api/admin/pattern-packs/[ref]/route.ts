@@ -0,0 +1,27 @@
+/**
+ * GET /api/admin/pattern-packs/:ref
+ *
+ * Returns a full pattern pack by ref (`id@version`), e.g. to copy the core
+ * pack as the starting point for a new one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPatternPack } from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ ref: string }> }) {
+  try {
+    const { ref } = await params
+    const pack = await getPatternPack(decodeURIComponent(ref))
+    if (!pack) {
+      return NextResponse.json({ success: false, error: 'Pattern pack not found.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, pack })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load the pattern pack.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Active Pattern Packs Admin API Route
+ *
+ * - GET: Packs active for ?workspace= (every built-in pack when none were set)
+ * - PUT: Activate packs for a workspace, in compile order
+ *   Body: { workspace?: string, packs: string[] } (refs such as "core-en@1.0.0")
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  activatePatternPacks,
+  assertWorkspace,
+  getPackActivation,
+  InvalidWorkspaceError,
+  UnknownPatternPackError,
+  workspaceFromRequest,
+} from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ success: true, active: await getPackActivation(workspaceFromRequest(request)) })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load active pattern packs.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { workspace?: string; packs?: unknown }
+
+    if (
+      !Array.isArray(body.packs) ||
+      body.packs.length === 0 ||
+      !body.packs.every((ref) => typeof ref === 'string')
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'packs must be a non-empty array of pack refs (id@version).' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = body.workspace !== undefined ? assertWorkspace(body.workspace) : workspaceFromRequest(request)
+    const active = await activatePatternPacks(workspace, body.packs as string[])
+    return NextResponse.json({ success: true, active })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError || error instanceof UnknownPatternPackError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to activate pattern packs.' },
+      { status: 500 }
+    )
+  }
+}
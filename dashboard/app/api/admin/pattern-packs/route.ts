@@ -0,0 +1,60 @@
+/**
+ * Pattern Packs Admin API Route
+ *
+ * - GET: Built-in and uploaded packs, plus the packs active for ?workspace=
+ * - POST: Upload a pack (the pack JSON is the body). 201 when stored, 200
+ *   when the identical version already exists, 409 when the version exists
+ *   with different content.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { PatternPackError } from '@/lib/pattern-packs'
+import {
+  getPackActivation,
+  InvalidWorkspaceError,
+  listPatternPacks,
+  PatternPackConflictError,
+  uploadPatternPack,
+  workspaceFromRequest,
+} from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = workspaceFromRequest(request)
+    const [packs, active] = await Promise.all([listPatternPacks(), getPackActivation(workspace)])
+    return NextResponse.json({ success: true, packs, active })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list pattern packs.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (body === null) {
+      return NextResponse.json({ success: false, error: 'Body must be a pattern pack JSON document.' }, { status: 400 })
+    }
+
+    const { pack, created } = await uploadPatternPack(body)
+    return NextResponse.json({ success: true, pack, created }, { status: created ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof PatternPackError) {
+      return NextResponse.json({ success: false, error: error.message, issues: error.issues }, { status: 400 })
+    }
+    if (error instanceof PatternPackConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to upload the pattern pack.' },
+      { status: 500 }
+    )
+  }
+}
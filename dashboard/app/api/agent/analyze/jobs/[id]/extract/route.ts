@@ -0,0 +1,56 @@
+/**
+ * POST /api/agent/analyze/jobs/:id/extract
+ *
+ * Re-runs format extraction over a job's stored posts, optionally with a
+ * different model. Body: { model?: string }
+ * Returns the updated job, the new extraction and its diff against the
+ * previous successful extraction (null if there was none).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AnalysisJobNotFoundError,
+  AnalysisJobStateError,
+  rerunExtraction,
+} from '@/lib/analysis-jobs'
+import { extractFormats } from '@/lib/format-extraction'
+import { diffFormats } from '@/lib/format-diff'
+
+export const runtime = 'edge'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json().catch(() => ({}))) as { model?: unknown }
+
+    if (body.model !== undefined && (typeof body.model !== 'string' || !body.model.trim())) {
+      return NextResponse.json({ success: false, error: 'model must be a non-empty string.' }, { status: 400 })
+    }
+
+    const model = typeof body.model === 'string' ? body.model.trim() : undefined
+    const { job, extraction, previous } = await rerunExtraction(id, model, { extractFormats })
+
+    return NextResponse.json({
+      success: extraction.status === 'done',
+      job,
+      extraction,
+      previous: previous && { id: previous.id, model: previous.model, promptVersion: previous.promptVersion },
+      diff: previous && extraction.status === 'done' ? diffFormats(previous.formats, extraction.formats) : null,
+      ...(extraction.status === 'error' ? { error: extraction.error } : {}),
+    }, { status: extraction.status === 'done' ? 200 : 502 })
+  } catch (error) {
+    if (error instanceof AnalysisJobNotFoundError) {
+      return NextResponse.json({ success: false, error: 'Analysis job not found.' }, { status: 404 })
+    }
+    if (error instanceof AnalysisJobStateError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to re-run extraction.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * GET /api/agent/analyze/jobs/:id
+ *
+ * Returns an analysis job. While it is still scraping, its Apify runs are
+ * checked first, so a job completes on poll even when no webhook fired.
+ * Extraction, once due, runs after the response, as it does for webhooks.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getOptionalRequestContext } from '@cloudflare/next-on-pages'
+import { AnalysisJobNotFoundError, apifyJobDeps, getAnalysisJob, refreshAnalysisJob } from '@/lib/analysis-jobs'
+
+export const runtime = 'edge'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const apiKey = process.env.APIFY_API_KEY
+    // Answer the poll right away and let extraction finish in the background
+    const ctx = getOptionalRequestContext()?.ctx
+
+    const job = apiKey
+      ? await refreshAnalysisJob(id, apifyJobDeps(apiKey), {
+          defer: ctx ? (work) => ctx.waitUntil(work) : undefined,
+        })
+      : await getAnalysisJob(id)
+
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Analysis job not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    if (error instanceof AnalysisJobNotFoundError) {
+      return NextResponse.json({ success: false, error: 'Analysis job not found.' }, { status: 404 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load analysis job.' },
+      { status: 500 }
+    )
+  }
+}
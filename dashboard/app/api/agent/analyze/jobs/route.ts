@@ -0,0 +1,23 @@
+/**
+ * GET /api/agent/analyze/jobs?limit=20
+ *
+ * Lists recent analysis jobs, newest first, without their posts and formats.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listAnalysisJobs } from '@/lib/analysis-jobs'
+
+export const runtime = 'edge'
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || 20
+    const jobs = await listAnalysisJobs(Math.min(Math.max(limit, 1), 100))
+    return NextResponse.json({ success: true, jobs })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list analysis jobs.' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,16 @@
 /**
  * POST /api/agent/analyze/start
  *
- * Kicks off an Apify LinkedIn post scrape.
- * Returns a runId that the client polls against /api/agent/analyze/status
+ * Kicks off Apify scrapes for LinkedIn and X post URLs, one run per platform,
+ * and records them as an analysis job. When APIFY_WEBHOOK_SECRET is set each
+ * run calls /api/agent/analyze/webhook on completion; either way the client
+ * can poll /api/agent/analyze/jobs/:id for the result.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { startLinkedInScrape } from '@/lib/apify-linkedin'
+import { routeUrls, type ScrapeRun } from '@/lib/social-scraper'
+import { createAnalysisJob } from '@/lib/analysis-jobs'
+import { buildRunWebhooks, getWebhookSecret } from '@/lib/apify-webhook'
 
 export const runtime = 'edge'
 
@@ -17,7 +21,7 @@ export async function POST(request: NextRequest) {
 
     if (!Array.isArray(urls) || urls.length === 0) {
       return NextResponse.json(
-        { success: false, error: 'Provide at least one LinkedIn post URL.' },
+        { success: false, error: 'Provide at least one LinkedIn or X post URL.' },
         { status: 400 }
       )
     }
@@ -30,31 +34,47 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate — only LinkedIn URLs
-    const validUrls = urls.filter((url) => {
-      try {
-        return new URL(url).hostname.includes('linkedin.com')
-      } catch {
-        return false
-      }
-    })
+    // Route each URL to its platform's scraper by host
+    const { groups, unsupported } = routeUrls(urls.map((url) => String(url).trim()))
 
-    if (validUrls.length === 0) {
+    if (groups.length === 0) {
       return NextResponse.json(
-        { success: false, error: 'No valid LinkedIn URLs found. Make sure URLs contain linkedin.com.' },
+        { success: false, error: 'No supported URLs found. Use linkedin.com, x.com or twitter.com post URLs.' },
         { status: 400 }
       )
     }
 
-    const { runId, datasetId, actorId } = await startLinkedInScrape(validUrls, apiKey)
+    const jobId = crypto.randomUUID()
+    const secret = getWebhookSecret()
+    const webhooks = secret
+      ? await buildRunWebhooks(jobId, process.env.APP_BASE_URL || request.nextUrl.origin, secret)
+      : undefined
+
+    const runs: ScrapeRun[] = await Promise.all(
+      groups.map(async ({ scraper, urls: platformUrls }) => ({
+        ...(await scraper.startScrape(platformUrls, apiKey, { webhooks })),
+        platform: scraper.platform,
+        urlCount: platformUrls.length,
+      }))
+    )
+
+    const urlCount = runs.reduce((sum, run) => sum + run.urlCount, 0)
+    const job = await createAnalysisJob({
+      id: jobId,
+      urls: groups.flatMap((group) => group.urls),
+      unsupported,
+      runs,
+      webhook: Boolean(webhooks),
+    })
 
     return NextResponse.json({
       success: true,
-      runId,
-      datasetId,
-      actorId,
-      urlCount: validUrls.length,
-      message: `Started scraping ${validUrls.length} post${validUrls.length !== 1 ? 's' : ''} using actor: ${actorId}`,
+      jobId: job.id,
+      webhook: job.webhook,
+      runs,
+      urlCount,
+      unsupported,
+      message: `Started scraping ${urlCount} post${urlCount !== 1 ? 's' : ''} using ${runs.map((run) => run.actorId).join(', ')}`,
     })
   } catch (error) {
     return NextResponse.json(
@@ -1,12 +1,14 @@
 /**
- * GET /api/agent/analyze/status?runId=xxx
+ * GET /api/agent/analyze/status?runId=xxx&platform=linkedin|twitter
  *
  * Polls the Apify run status.
- * Returns posts when the run has SUCCEEDED.
+ * Returns posts, normalized by the platform's scraper, when the run has SUCCEEDED.
+ * `platform` defaults to linkedin.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getRunStatus, getDatasetItems } from '@/lib/apify-linkedin'
+import { getRunStatus } from '@/lib/apify'
+import { getScraper, scrapeDataset } from '@/lib/social-scraper'
 
 export const runtime = 'edge'
 
@@ -19,6 +21,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'runId is required.' }, { status: 400 })
     }
 
+    const platform = searchParams.get('platform') ?? 'linkedin'
+    const scraper = getScraper(platform)
+    if (!scraper) {
+      return NextResponse.json({ success: false, error: `Unsupported platform: ${platform}` }, { status: 400 })
+    }
+
     const apiKey = process.env.APIFY_API_KEY
     if (!apiKey) {
       return NextResponse.json({ success: false, error: 'APIFY_API_KEY is not configured.' }, { status: 500 })
@@ -27,10 +35,11 @@ export async function GET(request: NextRequest) {
     const { status, datasetId } = await getRunStatus(runId, apiKey)
 
     if (status === 'SUCCEEDED') {
-      const posts = await getDatasetItems(datasetId, apiKey)
+      const posts = await scrapeDataset(scraper, datasetId, apiKey)
       return NextResponse.json({
         success: true,
         status,
+        platform,
         posts,
         postCount: posts.length,
       })
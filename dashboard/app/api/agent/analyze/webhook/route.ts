@@ -0,0 +1,34 @@
+/**
+ * POST /api/agent/analyze/webhook?jobId=xxx
+ *
+ * Called by Apify when a scrape run finishes. Verifies the job signature,
+ * then fetches the run's posts and, once every run of the job is done,
+ * extracts formats server-side. Exempt from Cloudflare Access (see middleware.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getOptionalRequestContext } from '@cloudflare/next-on-pages'
+import { apifyJobDeps } from '@/lib/analysis-jobs'
+import { getWebhookSecret, handleApifyWebhook } from '@/lib/apify-webhook'
+
+export const runtime = 'edge'
+
+export async function POST(request: NextRequest) {
+  const secret = getWebhookSecret()
+  const apiKey = process.env.APIFY_API_KEY
+  if (!secret || !apiKey) {
+    return NextResponse.json(
+      { success: false, error: 'Apify webhooks are not configured.' },
+      { status: 503 }
+    )
+  }
+
+  // Answer Apify right away and let extraction finish in the background
+  const ctx = getOptionalRequestContext()?.ctx
+
+  return handleApifyWebhook(request, {
+    secret,
+    deps: apifyJobDeps(apiKey),
+    defer: ctx ? (work) => ctx.waitUntil(work) : undefined,
+  })
+}
@@ -3,11 +3,28 @@
  *
  * Conversational endpoint for the LinkedIn/X Content Writer Agent.
  * Uses z-ai/glm-5 via OpenRouter, with Agent Skills injected as context.
+ * Skills are loaded from the server-side store unless the request supplies them.
+ *
+ * With `stream: true` the reply is streamed back as plain text chunks instead
+ * of a JSON body. Closing the connection cancels the upstream completion.
+ * The model that wrote the reply is returned as `model` (JSON) or the
+ * X-Model header (stream), so a saved draft can record it. Likewise the
+ * learned format the agent was told to follow (`format` / X-Format-Id and
+ * X-Format-Name, URI-encoded) and the platform the reply was written for
+ * (`platform` / X-Platform). The format is the request's `format_id`, or
+ * the platform's format closest to the latest message (selectChatFormat).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { chatCompletion, type OpenRouterMessage } from '@/lib/openrouter'
-import { buildSkillsSystemPrompt, DEFAULT_SKILLS, type AgentSkills } from '@/lib/agent-skills'
+import { chatCompletion, chatCompletionStream, DEFAULT_MODEL, type OpenRouterMessage } from '@/lib/openrouter'
+import {
+  buildFormatInstruction,
+  buildSkillsSystemPrompt,
+  selectChatFormat,
+  type AgentSkills,
+  type ContentFormat,
+} from '@/lib/agent-skills'
+import { loadSkills } from '@/lib/skills-store'
 
 export const runtime = 'edge'
 
@@ -18,34 +35,56 @@ export async function POST(request: NextRequest) {
       messages,
       skills,
       platform,
+      format_id: formatId,
+      stream,
     } = body as {
       messages: { role: 'user' | 'assistant'; content: string }[]
       skills?: AgentSkills
       platform?: 'linkedin' | 'twitter'
+      format_id?: string
+      stream?: boolean
     }
 
     if (!messages || messages.length === 0) {
       return NextResponse.json({ success: false, error: 'No messages provided.' }, { status: 400 })
     }
 
-    const agentSkills = skills ?? DEFAULT_SKILLS
+    const agentSkills = skills ?? (await loadSkills())
     const systemPrompt = buildSkillsSystemPrompt(agentSkills)
 
     const platformInstruction = platform
       ? `\n\nThe admin is currently focused on **${platform === 'linkedin' ? 'LinkedIn' : 'X (Twitter)'}** content. Optimize all generated posts for that platform.`
       : ''
 
+    const latestRequest = [...messages].reverse().find((m) => m.role === 'user')?.content ?? ''
+    const format = platform ? selectChatFormat(agentSkills.formats, platform, latestRequest, formatId) : undefined
+    if (formatId && !format) {
+      return NextResponse.json({ success: false, error: `Format not found for ${platform ?? 'this platform'}: ${formatId}` }, { status: 404 })
+    }
+    const formatInstruction = format ? buildFormatInstruction(format) : ''
+
     const openRouterMessages: OpenRouterMessage[] = [
-      { role: 'system', content: systemPrompt + platformInstruction },
+      { role: 'system', content: systemPrompt + platformInstruction + formatInstruction },
       ...messages,
     ]
 
+    if (stream) {
+      return streamReply(openRouterMessages, request.signal, { platform, format })
+    }
+
     const response = await chatCompletion(openRouterMessages, {
+      model: DEFAULT_MODEL,
       temperature: 0.8,
       maxTokens: 2000,
     })
 
-    return NextResponse.json({ success: true, message: response })
+    return NextResponse.json({
+      success: true,
+      message: response,
+      model: DEFAULT_MODEL,
+      platform,
+      format: format && { id: format.id, name: format.name },
+    })
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Chat request failed.' },
@@ -53,3 +92,53 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+async function streamReply(
+  messages: OpenRouterMessage[],
+  clientSignal: AbortSignal,
+  written: { platform?: string; format?: ContentFormat }
+): Promise<Response> {
+  const upstream = new AbortController()
+  clientSignal.addEventListener('abort', () => upstream.abort())
+
+  const deltas = await chatCompletionStream(messages, {
+    model: DEFAULT_MODEL,
+    temperature: 0.8,
+    maxTokens: 2000,
+    signal: upstream.signal,
+  })
+
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await deltas.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(value))
+        }
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Model': DEFAULT_MODEL,
+      ...(written.platform ? { 'X-Platform': written.platform } : {}),
+      ...(written.format
+        ? {
+            'X-Format-Id': encodeURIComponent(written.format.id),
+            'X-Format-Name': encodeURIComponent(written.format.name),
+          }
+        : {}),
+    },
+  })
+}
@@ -0,0 +1,127 @@
+/**
+ * /api/agent/skills
+ *
+ * Server-side Agent Skills for the LinkedIn/X Content Writer.
+ * - GET: Current skills (defaults if nothing saved yet, with stored: false)
+ * - PUT: Replace the skills document
+ * - PATCH: Partial update (fields, addFormats, removeFormatIds)
+ *
+ * Writes are optimistic: send the last seen `updatedAt` as `expectedUpdatedAt`
+ * (or an If-Match header). A stale write returns 409 with the current skills.
+ * PUT requires one of them (428 without), so a replace never overwrites
+ * blindly; PATCH without one applies to whatever is stored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { AgentSkills } from '@/lib/agent-skills'
+import {
+  getStoredSkills,
+  loadSkills,
+  saveSkills,
+  patchSkills,
+  SkillsConflictError,
+  type SkillsPatch,
+} from '@/lib/skills-store'
+import { parseContentFormats } from '@/lib/taxonomy'
+
+export const runtime = 'edge'
+
+export async function GET() {
+  try {
+    const stored = await getStoredSkills()
+    const skills = stored ?? (await loadSkills())
+    return NextResponse.json({ success: true, skills, stored: stored !== null })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load skills.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await readJson(request)
+    if (!body) return invalidJsonResponse()
+    const { skills, expectedUpdatedAt } = body as { skills?: AgentSkills; expectedUpdatedAt?: string }
+
+    if (!skills || !Array.isArray(skills.formats)) {
+      return NextResponse.json({ success: false, error: 'Provide a skills object with a formats array.' }, { status: 400 })
+    }
+
+    const expected = typeof expectedUpdatedAt === 'string' ? expectedUpdatedAt : request.headers.get('if-match')
+    // The defaults' empty updatedAt stands for "nothing stored yet"
+    if (expected === null) {
+      return NextResponse.json(
+        { success: false, error: 'Send the updatedAt you last loaded as expectedUpdatedAt or an If-Match header.' },
+        { status: 428 }
+      )
+    }
+
+    const { formats, rejected } = parseContentFormats(skills.formats)
+    if (rejected.length > 0) {
+      return invalidFormatsResponse(rejected)
+    }
+
+    const saved = await saveSkills({ ...skills, formats }, expected)
+    return NextResponse.json({ success: true, skills: saved })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await readJson(request)
+    if (!body) return invalidJsonResponse()
+    const { patch, expectedUpdatedAt } = body as { patch?: SkillsPatch; expectedUpdatedAt?: string }
+
+    if (!patch || typeof patch !== 'object') {
+      return NextResponse.json({ success: false, error: 'Provide a patch object.' }, { status: 400 })
+    }
+
+    for (const key of ['formats', 'addFormats'] as const) {
+      if (patch[key] === undefined) continue
+      const { formats, rejected } = parseContentFormats(patch[key])
+      if (rejected.length > 0) {
+        return invalidFormatsResponse(rejected)
+      }
+      patch[key] = formats
+    }
+
+    const saved = await patchSkills(patch, expectedUpdatedAt ?? request.headers.get('if-match') ?? undefined)
+    return NextResponse.json({ success: true, skills: saved })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+async function readJson(request: NextRequest): Promise<Record<string, unknown> | null> {
+  const body = await request.json().catch(() => null)
+  return body && typeof body === 'object' && !Array.isArray(body) ? body : null
+}
+
+function invalidJsonResponse() {
+  return NextResponse.json({ success: false, error: 'Request body must be a JSON object.' }, { status: 400 })
+}
+
+function invalidFormatsResponse(rejected: { index: number; errors: string[] }[]) {
+  return NextResponse.json(
+    { success: false, error: 'One or more formats are invalid.', rejected },
+    { status: 400 }
+  )
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof SkillsConflictError) {
+    return NextResponse.json(
+      { success: false, error: error.message, current: error.current },
+      { status: 409 }
+    )
+  }
+
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : 'Failed to save skills.' },
+    { status: 500 }
+  )
+}
@@ -4,6 +4,11 @@ export const runtime = 'edge'
 
 import {
   generatePost,
+  generatePostWithLLM,
+  requireFormat,
+  FormatNotFoundError,
+  ContentGenerationError,
+  GenerationMode,
   validateContent,
   optimizeForPlatform,
   addViralElements,
@@ -13,27 +18,43 @@ import {
 } from '../../../../lib/content-generator';
 import { 
   hookTemplates, 
-  HookType, 
-  getHookByType 
+  TemplateHookType, 
+  hasHookTemplate 
 } from '../../../../lib/hooks-library';
 import { 
   ctaTemplates, 
-  CTAType, 
-  getCTAByType 
+  TemplateCTAType, 
+  hasCTATemplate 
 } from '../../../../lib/cta-library';
+import { toHookType, toCTAType } from '../../../../lib/taxonomy';
+import { InvalidWorkspaceError, workspaceFromRequest } from '../../../../lib/pattern-registry';
+import {
+  generateVariations,
+  MAX_VARIANTS,
+  DEFAULT_MAX_SIMILARITY,
+  VariationRequestError
+} from '../../../../lib/content-variations';
 
 interface GenerateRequest {
   topic: string;
   platform: 'linkedin' | 'twitter';
+  mode?: GenerationMode;
+  model?: string;
   format_id?: string;
   tone?: 'professional' | 'casual' | 'bold';
   target_audience?: string;
-  hook_type?: HookType;
-  cta_type?: CTAType;
+  hook_type?: string;
+  cta_type?: string;
   key_points?: string[];
   max_length?: number;
   include_emojis?: boolean;
   include_hashtags?: boolean;
+  variants?: number;
+  diversity?: {
+    distinct_hooks?: boolean;
+    distinct_emotions?: boolean;
+    max_similarity?: number;
+  };
 }
 
 export async function POST(request: NextRequest) {
@@ -56,28 +77,121 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    if (body.hook_type && !hookTemplates[body.hook_type]) {
+    // Accept canonical values and legacy aliases (e.g. "listicle", "debate")
+    const hookType = body.hook_type ? toHookType(body.hook_type) : undefined;
+    if (body.hook_type && !(hookType && hasHookTemplate(hookType))) {
       return NextResponse.json(
         { error: `Invalid hook_type. Valid types: ${Object.keys(hookTemplates).join(', ')}` },
         { status: 400 }
       );
     }
     
-    if (body.cta_type && !ctaTemplates[body.cta_type]) {
+    const ctaType = body.cta_type ? toCTAType(body.cta_type) : undefined;
+    if (body.cta_type && !(ctaType && hasCTATemplate(ctaType))) {
       return NextResponse.json(
         { error: `Invalid cta_type. Valid types: ${Object.keys(ctaTemplates).join(', ')}` },
         { status: 400 }
       );
     }
     
+    const mode = body.mode ?? 'template';
+    if (mode !== 'template' && mode !== 'llm') {
+      return NextResponse.json(
+        { error: 'Mode must be either "template" or "llm"' },
+        { status: 400 }
+      );
+    }
+    
+    if (body.variants !== undefined) {
+      if (!Number.isInteger(body.variants) || body.variants < 1 || body.variants > MAX_VARIANTS) {
+        return NextResponse.json(
+          { error: `variants must be an integer from 1 to ${MAX_VARIANTS}` },
+          { status: 400 }
+        );
+      }
+      if (hookType) {
+        return NextResponse.json(
+          { error: 'hook_type cannot be combined with variants; each variant uses a different hook' },
+          { status: 400 }
+        );
+      }
+      
+      const diversity = body.diversity ?? {};
+      const set = await generateVariations({
+        topic,
+        platform: platform as Platform,
+        formatId: body.format_id,
+        tone: body.tone as Tone,
+        targetAudience: body.target_audience,
+        ctaType: ctaType ?? undefined,
+        keyPoints: body.key_points,
+        maxLength: body.max_length,
+        includeEmojis: body.include_emojis ?? true,
+        includeHashtags: body.include_hashtags ?? true,
+        variants: body.variants,
+        mode,
+        model: body.model,
+        workspace: workspaceFromRequest(request),
+        diversity: {
+          distinctHooks: diversity.distinct_hooks,
+          distinctEmotions: diversity.distinct_emotions,
+          maxSimilarity: diversity.max_similarity
+        }
+      });
+      
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...set,
+          metadata: {
+            generated_at: new Date().toISOString(),
+            platform,
+            topic,
+            tone: body.tone || 'professional',
+            mode
+          }
+        }
+      });
+    }
+    
+    if (mode === 'llm') {
+      const generated = await generatePostWithLLM({
+        topic,
+        platform: platform as Platform,
+        formatId: body.format_id,
+        tone: body.tone as Tone,
+        targetAudience: body.target_audience,
+        hookType: hookType ?? undefined,
+        ctaType: ctaType ?? undefined,
+        keyPoints: body.key_points,
+        includeHashtags: body.include_hashtags ?? true,
+        model: body.model
+      });
+      
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...generated,
+          metadata: {
+            generated_at: new Date().toISOString(),
+            platform,
+            topic,
+            tone: body.tone || 'professional',
+            mode
+          }
+        }
+      });
+    }
+    
     const generated = generatePost({
       topic,
       platform: platform as Platform,
       formatId: body.format_id,
+      format: body.format_id ? await requireFormat(body.format_id) : undefined,
       tone: body.tone as Tone,
       targetAudience: body.target_audience,
-      hookType: body.hook_type,
-      ctaType: body.cta_type,
+      hookType: hookType ?? undefined,
+      ctaType: ctaType ?? undefined,
       keyPoints: body.key_points,
       maxLength: body.max_length,
       includeEmojis: body.include_emojis ?? true,
@@ -95,6 +209,7 @@ export async function POST(request: NextRequest) {
         platform: string;
         topic: string;
         tone: string;
+        mode: GenerationMode;
       };
     } = {
       ...generated,
@@ -104,7 +219,8 @@ export async function POST(request: NextRequest) {
         generated_at: new Date().toISOString(),
         platform,
         topic,
-        tone: body.tone || 'professional'
+        tone: body.tone || 'professional',
+        mode
       }
     };
     
@@ -114,6 +230,18 @@ export async function POST(request: NextRequest) {
     });
     
   } catch (error) {
+    if (error instanceof VariationRequestError || error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof FormatNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof ContentGenerationError) {
+      return NextResponse.json(
+        { error: 'The model did not return usable content', details: error.message, issues: error.issues },
+        { status: 502 }
+      );
+    }
     console.error('Content generation error:', error);
     return NextResponse.json(
       { error: 'Failed to generate content', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -125,8 +253,8 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   
-  const hookTypes = Object.keys(hookTemplates) as HookType[];
-  const ctaTypes = Object.keys(ctaTemplates) as CTAType[];
+  const hookTypes = Object.keys(hookTemplates) as TemplateHookType[];
+  const ctaTypes = Object.keys(ctaTemplates) as TemplateCTAType[];
   
   return NextResponse.json({
     success: true,
@@ -161,15 +289,28 @@ export async function OPTIONS() {
         parameters: {
           topic: { type: 'string', required: true, description: 'The main topic for the content' },
           platform: { type: 'string', required: true, enum: ['linkedin', 'twitter'] },
-          format_id: { type: 'string', required: false, description: 'ID of a learned format to apply' },
+          mode: { type: 'string', required: false, enum: ['template', 'llm'], default: 'template', description: 'llm writes the post with OpenRouter following a learned format' },
+          model: { type: 'string', required: false, description: 'OpenRouter model for llm mode' },
+          format_id: { type: 'string', required: false, description: 'ID of a learned format to apply (llm mode picks the best match when omitted; template mode lays the post out with it when its slots can be filled)' },
           tone: { type: 'string', required: false, enum: ['professional', 'casual', 'bold'], default: 'professional' },
           target_audience: { type: 'string', required: false, description: 'Target audience description' },
-          hook_type: { type: 'string', required: false, enum: ['question', 'bold_statement', 'story', 'listicle', 'controversial', 'how_to', 'myth_buster', 'counterintuitive'] },
-          cta_type: { type: 'string', required: false, enum: ['question', 'engagement', 'link', 'save', 'follow', 'share', 'comment', 'debate'] },
+          hook_type: { type: 'string', required: false, enum: Object.keys(hookTemplates), description: 'Legacy aliases (e.g. "listicle") are accepted' },
+          cta_type: { type: 'string', required: false, enum: Object.keys(ctaTemplates), description: 'Legacy aliases (e.g. "save") are accepted' },
           key_points: { type: 'string[]', required: false, description: 'Key points to include in the content' },
           max_length: { type: 'number', required: false, description: 'Maximum character length' },
           include_emojis: { type: 'boolean', required: false, default: true },
-          include_hashtags: { type: 'boolean', required: false, default: true }
+          include_hashtags: { type: 'boolean', required: false, default: true },
+          variants: { type: 'number', required: false, description: `Return 1-${MAX_VARIANTS} ranked drafts, each with a different hook and emotion (cannot be combined with hook_type), scored with the patterns of the workspace named by ?workspace= or x-bigzec-workspace` },
+          diversity: {
+            type: 'object',
+            required: false,
+            description: 'Constraints on variants',
+            properties: {
+              distinct_hooks: { type: 'boolean', default: true },
+              distinct_emotions: { type: 'boolean', default: true },
+              max_similarity: { type: 'number', default: DEFAULT_MAX_SIMILARITY, description: 'Drafts at least this similar (0-1, word trigram overlap) count as duplicates' }
+            }
+          }
         },
         response: {
           content: 'string - The generated content',
@@ -182,7 +323,11 @@ export async function OPTIONS() {
           suggestions: 'string[]',
           isThread: 'boolean (for Twitter)',
           threadContent: 'string[] | null',
-          validation: { isValid: 'boolean', errors: 'string[]', warnings: 'string[]', score: 'number' }
+          validation: { isValid: 'boolean', errors: 'string[]', warnings: 'string[]', score: 'number' },
+          format: '{ id, name, matchScore? } - llm mode only',
+          model: 'string - llm mode only',
+          templateReport: '{ hook?, cta?, format?: { missing, invalid } } - template mode, parts that fell back because their template could not be filled',
+          variants: '{ requested, variations: [{ rank, content, hookType, focusEmotion, viralityScore, distinctLines, differences, validation, ... }], duplicatesDropped } - replaces the above when variants is set'
         }
       },
       'GET /api/content/generate': {
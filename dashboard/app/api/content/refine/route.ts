@@ -0,0 +1,81 @@
+/**
+ * Refine API Route
+ *
+ * POST: Apply feedback to a draft with the LLM and record the result as a
+ * tracked revision (see lib/draft-revisions).
+ *   Body:
+ *   - feedback (required), platform (required unless draft_id is a saved draft), model
+ *   - draft_id: continue this draft's revision history; omit to start one.
+ *     For a draft in the library (lib/drafts) the refined text becomes the
+ *     draft's text
+ *   - content: text to refine. Required without draft_id; with one, it is
+ *     recorded as a manual edit first if it differs from the latest revision
+ *
+ * Revisions are browsed, compared and reverted at /api/content/revisions/:draftId.
+ * Patterns come from the workspace named by ?workspace= or x-bigzec-workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DraftRevisionNotFoundError, refineDraft, RefinementError } from '@/lib/draft-revisions'
+import { applyRevision, getDraft } from '@/lib/drafts'
+import { InvalidWorkspaceError, workspaceFromRequest } from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+interface RefineRequest {
+  draft_id?: unknown
+  content?: unknown
+  feedback?: unknown
+  platform?: unknown
+  model?: unknown
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as RefineRequest
+    const draftId = typeof body.draft_id === 'string' && body.draft_id.trim() ? body.draft_id.trim() : undefined
+    const draft = draftId ? await getDraft(draftId) : null
+    const content = typeof body.content === 'string' && body.content.trim() ? body.content : draft?.content || undefined
+    const platform = body.platform ?? draft?.platform
+
+    if (typeof body.feedback !== 'string' || !body.feedback.trim()) {
+      return NextResponse.json({ success: false, error: 'feedback is required.' }, { status: 400 })
+    }
+    if (platform !== 'linkedin' && platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be "linkedin" or "twitter".' }, { status: 400 })
+    }
+    if (!draftId && !content) {
+      return NextResponse.json({ success: false, error: 'content is required to start a new draft.' }, { status: 400 })
+    }
+
+    const result = await refineDraft({
+      draftId,
+      content,
+      feedback: body.feedback.trim(),
+      platform,
+      model: typeof body.model === 'string' && body.model ? body.model : undefined,
+      workspace: workspaceFromRequest(request),
+    })
+    const updatedDraft = draft ? await applyRevision(result.revision) : null
+
+    return NextResponse.json({ success: true, data: { ...result, ...(updatedDraft ? { draft: updatedDraft } : {}) } })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    if (error instanceof DraftRevisionNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 })
+    }
+    if (error instanceof RefinementError) {
+      return NextResponse.json(
+        { success: false, error: 'The model did not return a usable refinement', details: error.message, issues: error.issues },
+        { status: 502 }
+      )
+    }
+    console.error('Refinement error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to refine content' },
+      { status: 500 }
+    )
+  }
+}
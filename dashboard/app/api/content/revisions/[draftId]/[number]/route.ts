@@ -0,0 +1,30 @@
+/**
+ * GET /api/content/revisions/:draftId/:number
+ *
+ * One revision in full: text, word diff against the revision before it,
+ * feedback and changes, and before/after scores.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getRevision } from '@/lib/draft-revisions'
+
+export const runtime = 'edge'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ draftId: string; number: string }> }
+) {
+  try {
+    const { draftId, number } = await params
+    const revision = Number.isInteger(Number(number)) ? await getRevision(draftId, Number(number)) : null
+    if (!revision) {
+      return NextResponse.json({ success: false, error: 'Revision not found.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: revision })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load the revision.' },
+      { status: 500 }
+    )
+  }
+}
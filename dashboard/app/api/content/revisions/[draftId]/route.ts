@@ -0,0 +1,81 @@
+/**
+ * Draft Revisions API Route
+ *
+ * - GET: The draft's revisions, oldest first, without text and diffs.
+ *   `?from=2&to=5` compares two revisions instead: their word diff and
+ *   score change.
+ * - POST: { revert_to: n } restores revision n's text as a new revision,
+ *   and as the draft's text when the draft is in the library. Scored with
+ *   the workspace named by ?workspace= or x-bigzec-workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  compareRevisions,
+  DraftRevisionNotFoundError,
+  listRevisions,
+  revertDraft,
+  summarizeRevision,
+} from '@/lib/draft-revisions'
+import { applyRevision } from '@/lib/drafts'
+import { InvalidWorkspaceError, workspaceFromRequest } from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ draftId: string }> }) {
+  try {
+    const { draftId } = await params
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (from !== null || to !== null) {
+      const [fromNumber, toNumber] = [Number(from), Number(to)]
+      if (!Number.isInteger(fromNumber) || !Number.isInteger(toNumber) || fromNumber < 1 || toNumber < 1) {
+        return NextResponse.json({ success: false, error: 'from and to must both be revision numbers.' }, { status: 400 })
+      }
+      const comparison = await compareRevisions(draftId, fromNumber, toNumber)
+      return NextResponse.json({ success: true, data: comparison })
+    }
+
+    const revisions = await listRevisions(draftId)
+    if (revisions.length === 0) {
+      return NextResponse.json({ success: false, error: 'Draft has no revisions.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: revisions.map(summarizeRevision) })
+  } catch (error) {
+    if (error instanceof DraftRevisionNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load revisions.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ draftId: string }> }) {
+  try {
+    const { draftId } = await params
+    const body = (await request.json().catch(() => ({}))) as { revert_to?: unknown }
+
+    if (!Number.isInteger(body.revert_to) || (body.revert_to as number) < 1) {
+      return NextResponse.json({ success: false, error: 'revert_to must be a revision number.' }, { status: 400 })
+    }
+
+    const revision = await revertDraft(draftId, body.revert_to as number, workspaceFromRequest(request))
+    const draft = await applyRevision(revision)
+    return NextResponse.json({ success: true, data: revision, ...(draft ? { draft } : {}) })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    if (error instanceof DraftRevisionNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to revert the draft.' },
+      { status: 500 }
+    )
+  }
+}
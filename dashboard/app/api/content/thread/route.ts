@@ -0,0 +1,121 @@
+/**
+ * Thread API Route
+ *
+ * POST: Compose an X thread (hook tweet, body tweets, CTA tweet).
+ *   Body:
+ *   - mode: 'deterministic' (default) splits `content` without the LLM;
+ *     'llm' has the model plan the thread from `content` or `topic`
+ *   - content, topic, tone, model
+ *   - numbering: 'fraction' | 'slash' | 'parenthesized' | 'none'
+ *   - thread_marker: append 🧵 to the hook tweet
+ *   - hashtags, cta, min_body_tweets, max_body_tweets
+ *
+ * Every tweet is checked against X's weighted 280-character limit, and the
+ * body tweet count against min/max_body_tweets; the result's `validation`
+ * lists errors and warnings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  composeThread,
+  composeThreadWithLLM,
+  MAX_BODY_TWEETS,
+  MIN_BODY_TWEETS,
+  ThreadCompositionError,
+  type ThreadNumbering,
+  type ThreadOptions,
+} from '@/lib/thread-composer'
+
+export const runtime = 'edge'
+
+const NUMBERINGS: ThreadNumbering[] = ['fraction', 'slash', 'parenthesized', 'none']
+
+interface ThreadRequest {
+  mode?: unknown
+  content?: unknown
+  topic?: unknown
+  tone?: unknown
+  model?: unknown
+  numbering?: unknown
+  thread_marker?: unknown
+  hashtags?: unknown
+  cta?: unknown
+  min_body_tweets?: unknown
+  max_body_tweets?: unknown
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as ThreadRequest
+    const mode = body.mode ?? 'deterministic'
+    const content = typeof body.content === 'string' && body.content.trim() ? body.content : undefined
+    const topic = typeof body.topic === 'string' && body.topic.trim() ? body.topic.trim() : undefined
+
+    if (mode !== 'deterministic' && mode !== 'llm') {
+      return NextResponse.json({ success: false, error: 'mode must be "deterministic" or "llm".' }, { status: 400 })
+    }
+    if (mode === 'deterministic' && !content) {
+      return NextResponse.json({ success: false, error: 'content is required.' }, { status: 400 })
+    }
+    if (mode === 'llm' && !content && !topic) {
+      return NextResponse.json({ success: false, error: 'content or topic is required.' }, { status: 400 })
+    }
+    if (body.numbering !== undefined && !NUMBERINGS.includes(body.numbering as ThreadNumbering)) {
+      return NextResponse.json({ success: false, error: `numbering must be one of ${NUMBERINGS.join(', ')}.` }, { status: 400 })
+    }
+    if (body.tone !== undefined && body.tone !== 'professional' && body.tone !== 'casual' && body.tone !== 'bold') {
+      return NextResponse.json({ success: false, error: 'tone must be professional, casual or bold.' }, { status: 400 })
+    }
+    if (body.hashtags !== undefined && !(Array.isArray(body.hashtags) && body.hashtags.every((tag) => typeof tag === 'string'))) {
+      return NextResponse.json({ success: false, error: 'hashtags must be a string array.' }, { status: 400 })
+    }
+
+    const minBodyTweets = body.min_body_tweets ?? MIN_BODY_TWEETS
+    const maxBodyTweets = body.max_body_tweets ?? MAX_BODY_TWEETS
+    if (
+      !Number.isInteger(minBodyTweets) ||
+      !Number.isInteger(maxBodyTweets) ||
+      (minBodyTweets as number) < 1 ||
+      (minBodyTweets as number) > (maxBodyTweets as number) ||
+      (maxBodyTweets as number) > 25
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'min_body_tweets and max_body_tweets must be integers with 1 <= min <= max <= 25.' },
+        { status: 400 }
+      )
+    }
+
+    const options: ThreadOptions = {
+      numbering: body.numbering as ThreadNumbering | undefined,
+      threadMarker: body.thread_marker === true,
+      minBodyTweets: minBodyTweets as number,
+      maxBodyTweets: maxBodyTweets as number,
+      hashtags: body.hashtags as string[] | undefined,
+      cta: typeof body.cta === 'string' && body.cta.trim() ? body.cta : undefined,
+    }
+
+    const thread = mode === 'llm'
+      ? await composeThreadWithLLM({
+        ...options,
+        content,
+        topic,
+        tone: body.tone as 'professional' | 'casual' | 'bold' | undefined,
+        model: typeof body.model === 'string' && body.model ? body.model : undefined,
+      })
+      : composeThread(content!, options)
+
+    return NextResponse.json({ success: true, data: { ...thread, mode } })
+  } catch (error) {
+    if (error instanceof ThreadCompositionError) {
+      return NextResponse.json(
+        { success: false, error: 'The model did not return a usable thread', details: error.message, issues: error.issues },
+        { status: 502 }
+      )
+    }
+    console.error('Thread composition error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to compose thread' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Single Draft API Route
+ *
+ * - GET: One draft
+ * - PATCH: Update content, status, title, topic, tags, formatId, formatName
+ *   or scheduledFor. Status changes follow the workflow in lib/drafts (409
+ *   otherwise); a text change is recorded as a revision. Send the last seen
+ *   `updatedAt` as `expectedUpdatedAt` (or If-Match) to reject stale edits
+ *   with 409 and the current draft.
+ * - DELETE: Remove the draft and its revision history
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  deleteDraft,
+  DraftConflictError,
+  DraftNotFoundError,
+  DraftTransitionError,
+  DraftValidationError,
+  getDraft,
+  readDraftPatch,
+  updateDraft,
+} from '@/lib/drafts'
+import { InvalidWorkspaceError, workspaceFromRequest } from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const draft = await getDraft(id)
+    if (!draft) {
+      return NextResponse.json({ success: false, error: 'Draft not found.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: draft })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load the draft.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>
+    const expectedUpdatedAt = typeof body.expectedUpdatedAt === 'string'
+      ? body.expectedUpdatedAt
+      : request.headers.get('if-match') ?? undefined
+
+    const draft = await updateDraft(id, readDraftPatch(body), expectedUpdatedAt, workspaceFromRequest(request))
+    return NextResponse.json({ success: true, data: draft })
+  } catch (error) {
+    if (error instanceof DraftNotFoundError) {
+      return NextResponse.json({ success: false, error: 'Draft not found.' }, { status: 404 })
+    }
+    if (error instanceof DraftValidationError || error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    if (error instanceof DraftTransitionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    if (error instanceof DraftConflictError) {
+      return NextResponse.json({ success: false, error: error.message, current: error.current }, { status: 409 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update the draft.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const deleted = await deleteDraft(id)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Draft not found.' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, deletedId: id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to delete the draft.' },
+      { status: 500 }
+    )
+  }
+}
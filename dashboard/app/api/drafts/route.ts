@@ -0,0 +1,93 @@
+/**
+ * Drafts API Route
+ *
+ * The draft library (see lib/drafts).
+ * - GET: Drafts, most recently updated first, with counts per status and
+ *   platform. Filters: ?status=, ?platform=, ?tag=, ?q= (text search)
+ * - POST: Save a draft. Body: platform and content (required), status
+ *   (idea or draft, default draft), title, topic, tags, source (chat | generator | manual),
+ *   formatId, formatName, model, scheduledFor
+ *
+ * A draft's text history lives at /api/content/revisions/:id. Revisions are
+ * scored with the workspace named by ?workspace= or x-bigzec-workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  countDrafts,
+  createDraft,
+  DraftValidationError,
+  listDrafts,
+  readDraftPatch,
+  type DraftSource,
+} from '@/lib/drafts'
+import { isDraftStatus } from '@/lib/draft-status'
+import { InvalidWorkspaceError, workspaceFromRequest } from '@/lib/pattern-registry'
+
+export const runtime = 'edge'
+
+const SOURCES: DraftSource[] = ['chat', 'generator', 'manual']
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const platform = searchParams.get('platform')
+
+    if (status !== null && !isDraftStatus(status)) {
+      return NextResponse.json({ success: false, error: 'Unknown status.' }, { status: 400 })
+    }
+    if (platform !== null && platform !== 'linkedin' && platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be "linkedin" or "twitter".' }, { status: 400 })
+    }
+
+    const [drafts, counts] = await Promise.all([
+      listDrafts({
+        status: status ?? undefined,
+        platform: platform ?? undefined,
+        tag: searchParams.get('tag') ?? undefined,
+        query: searchParams.get('q') ?? undefined,
+      }),
+      countDrafts(),
+    ])
+
+    return NextResponse.json({ success: true, data: drafts, counts })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load drafts.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>
+
+    if (body.platform !== 'linkedin' && body.platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be "linkedin" or "twitter".' }, { status: 400 })
+    }
+    if (body.source !== undefined && !SOURCES.includes(body.source as DraftSource)) {
+      return NextResponse.json({ success: false, error: `source must be one of ${SOURCES.join(', ')}.` }, { status: 400 })
+    }
+
+    const fields = readDraftPatch(body)
+    const draft = await createDraft({
+      ...fields,
+      platform: body.platform,
+      content: fields.content ?? '',
+      source: body.source as DraftSource | undefined,
+      model: typeof body.model === 'string' && body.model ? body.model : undefined,
+    }, workspaceFromRequest(request))
+
+    return NextResponse.json({ success: true, data: draft }, { status: 201 })
+  } catch (error) {
+    if (error instanceof DraftValidationError || error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to save the draft.' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,9 +2,12 @@
  * Single Format API Route
  * 
  * Handles operations on individual format patterns:
- * - GET: Retrieve a specific format by ID
- * - PUT: Update a format pattern
+ * - GET: Retrieve a specific format by ID; `?learning=true` adds statistics
+ *   computed from the posts it was learned from
+ * - PUT: Update a format pattern; a template must parse (see lib/template-engine)
  * - DELETE: Remove a format pattern
+ * - PATCH: { incrementUsage: true } counts a use; { updateScore: 0-100 } records
+ *   how a post written with the format performed
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -15,9 +18,11 @@ import {
   getFormatById,
   updateFormat,
   deleteFormat,
-  getLearningData
+  getLearningData,
+  recordFormatOutcome
 } from '@/lib/format-learner'
 import { FormatPattern } from '@/lib/types/social-media'
+import { templateSyntaxError } from '@/lib/template-engine'
 
 export async function GET(
   request: NextRequest,
@@ -28,7 +33,7 @@ export async function GET(
     const { searchParams } = new URL(request.url)
     const includeLearning = searchParams.get('learning') === 'true'
     
-    const format = getFormatById(id)
+    const format = await getFormatById(id)
     
     if (!format) {
       return NextResponse.json(
@@ -38,7 +43,7 @@ export async function GET(
     }
     
     if (includeLearning) {
-      const learningData = getLearningData(id)
+      const learningData = await getLearningData(id)
       return NextResponse.json({
         success: true,
         data: {
@@ -69,7 +74,7 @@ export async function PUT(
     const { id } = await params
     const body = await request.json()
     
-    const existingFormat = getFormatById(id)
+    const existingFormat = await getFormatById(id)
     if (!existingFormat) {
       return NextResponse.json(
         { success: false, error: 'Format not found' },
@@ -81,7 +86,16 @@ export async function PUT(
     
     if (body.name !== undefined) updates.name = body.name
     if (body.description !== undefined) updates.description = body.description
-    if (body.template !== undefined) updates.template = body.template
+    if (body.template !== undefined) {
+      const syntaxError = typeof body.template === 'string' ? templateSyntaxError(body.template) : 'template must be a string'
+      if (syntaxError) {
+        return NextResponse.json(
+          { success: false, error: `Invalid template: ${syntaxError}` },
+          { status: 400 }
+        )
+      }
+      updates.template = body.template
+    }
     if (body.examplePost !== undefined) updates.examplePost = body.examplePost
     if (body.tags !== undefined) updates.tags = body.tags
     if (body.effectivenessScore !== undefined) {
@@ -91,7 +105,7 @@ export async function PUT(
     if (body.bodyType !== undefined) updates.bodyType = body.bodyType
     if (body.ctaType !== undefined) updates.ctaType = body.ctaType
     
-    const updatedFormat = updateFormat(id, updates)
+    const updatedFormat = await updateFormat(id, updates)
     
     return NextResponse.json({
       success: true,
@@ -114,7 +128,7 @@ export async function DELETE(
   try {
     const { id } = await params
     
-    const existingFormat = getFormatById(id)
+    const existingFormat = await getFormatById(id)
     if (!existingFormat) {
       return NextResponse.json(
         { success: false, error: 'Format not found' },
@@ -122,7 +136,7 @@ export async function DELETE(
       )
     }
     
-    const deleted = deleteFormat(id)
+    const deleted = await deleteFormat(id)
     
     if (!deleted) {
       return NextResponse.json(
@@ -153,7 +167,7 @@ export async function PATCH(
     const { id } = await params
     const body = await request.json()
     
-    const existingFormat = getFormatById(id)
+    const existingFormat = await getFormatById(id)
     if (!existingFormat) {
       return NextResponse.json(
         { success: false, error: 'Format not found' },
@@ -162,7 +176,7 @@ export async function PATCH(
     }
     
     if (body.incrementUsage) {
-      const updatedFormat = updateFormat(id, {
+      const updatedFormat = await updateFormat(id, {
         usageCount: existingFormat.usageCount + 1
       })
       
@@ -174,10 +188,14 @@ export async function PATCH(
     }
     
     if (body.updateScore !== undefined) {
-      const newScore = (existingFormat.effectivenessScore + body.updateScore) / 2
-      const updatedFormat = updateFormat(id, {
-        effectivenessScore: Math.round(newScore)
-      })
+      if (typeof body.updateScore !== 'number' || body.updateScore < 0 || body.updateScore > 100) {
+        return NextResponse.json(
+          { success: false, error: 'updateScore must be a number from 0 to 100' },
+          { status: 400 }
+        )
+      }
+      
+      const updatedFormat = await recordFormatOutcome(id, body.updateScore)
       
       return NextResponse.json({
         success: true,
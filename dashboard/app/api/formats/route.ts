@@ -2,9 +2,15 @@
  * Formats API Route
  * 
  * Handles CRUD operations for format patterns:
- * - GET: List all stored formats
+ * - GET: List all stored formats, best first; ?match=<topic> ranks them for a
+ *   topic instead (top ?limit=, default 3, blending keyword and embedding
+ *   scores). ?ranking=ucb|thompson|mean picks how effectiveness is ranked
+ *   (default ucb, which favours formats with little evidence).
  * - POST: Save a new format pattern
  * - DELETE: Remove multiple formats (bulk delete)
+ *
+ * Learning analyzes posts with the pattern packs active for the workspace
+ * named by ?workspace= or the x-bigzec-workspace header.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -13,11 +19,13 @@ export const runtime = 'edge'
 
 import {
   getStoredFormats,
+  findBestMatch,
   learnFromPost,
   batchLearn,
   clearFormats,
   getFormatStats
 } from '@/lib/format-learner'
+import { InvalidWorkspaceError, loadPatternCatalog, workspaceFromRequest } from '@/lib/pattern-registry'
 import { ViralPost, FormatPattern, Platform } from '@/lib/types/social-media'
 
 export async function GET(request: NextRequest) {
@@ -25,16 +33,44 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const platform = searchParams.get('platform') as Platform | null
     const stats = searchParams.get('stats') === 'true'
+    const match = searchParams.get('match')
+    const ranking = searchParams.get('ranking') ?? 'ucb'
+    
+    if (ranking !== 'ucb' && ranking !== 'thompson' && ranking !== 'mean') {
+      return NextResponse.json(
+        { success: false, error: 'ranking must be ucb, thompson or mean' },
+        { status: 400 }
+      )
+    }
+    
+    if (match) {
+      if (platform !== 'linkedin' && platform !== 'twitter') {
+        return NextResponse.json(
+          { success: false, error: 'platform (linkedin or twitter) is required with match' },
+          { status: 400 }
+        )
+      }
+      const limit = Number(searchParams.get('limit') ?? 3)
+      const candidates = await findBestMatch(match, platform, {
+        limit: Number.isFinite(limit) ? Math.min(Math.max(1, Math.floor(limit)), 20) : 3,
+        ranking
+      })
+      return NextResponse.json({
+        success: true,
+        data: candidates,
+        count: candidates.length
+      })
+    }
     
     if (stats) {
-      const formatStats = getFormatStats(platform || undefined)
+      const formatStats = await getFormatStats(platform || undefined)
       return NextResponse.json({
         success: true,
         data: formatStats
       })
     }
     
-    const formats = getStoredFormats(platform || undefined)
+    const formats = await getStoredFormats(platform || undefined, ranking)
     
     return NextResponse.json({
       success: true,
@@ -52,11 +88,13 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const patterns = await loadPatternCatalog(workspaceFromRequest(request))
     const body = await request.json()
     
     if (body.formats && Array.isArray(body.formats)) {
       const formats = body.formats as FormatPattern[]
-      const results = formats.map(format => {
+      const results: FormatPattern[] = []
+      for (const format of formats) {
         const viralPost: ViralPost = {
           id: format.id,
           platform: format.platform,
@@ -69,8 +107,8 @@ export async function POST(request: NextRequest) {
           },
           createdAt: format.createdAt
         }
-        return learnFromPost(viralPost)
-      })
+        results.push(await learnFromPost(viralPost, undefined, patterns))
+      }
       
       return NextResponse.json({
         success: true,
@@ -81,7 +119,7 @@ export async function POST(request: NextRequest) {
     
     if (body.post) {
       const post = body.post as ViralPost
-      const format = learnFromPost(post)
+      const format = await learnFromPost(post, undefined, patterns)
       
       return NextResponse.json({
         success: true,
@@ -113,7 +151,7 @@ export async function POST(request: NextRequest) {
         createdAt: new Date().toISOString()
       }
       
-      const format = learnFromPost(viralPost)
+      const format = await learnFromPost(viralPost, undefined, patterns)
       
       return NextResponse.json({
         success: true,
@@ -124,7 +162,7 @@ export async function POST(request: NextRequest) {
     
     if (body.posts && Array.isArray(body.posts)) {
       const posts = body.posts as ViralPost[]
-      const results = batchLearn(posts)
+      const results = await batchLearn(posts, patterns)
       
       return NextResponse.json({
         success: true,
@@ -138,6 +176,9 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     )
   } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
     console.error('Error processing format:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to process format' },
@@ -153,7 +194,7 @@ export async function DELETE(request: NextRequest) {
     const ids = searchParams.get('ids')
     
     if (all) {
-      clearFormats()
+      await clearFormats()
       return NextResponse.json({
         success: true,
         message: 'All formats cleared'
@@ -163,7 +204,10 @@ export async function DELETE(request: NextRequest) {
     if (ids) {
       const formatIds = ids.split(',').map(id => id.trim())
       const { deleteFormat } = await import('@/lib/format-learner')
-      const deleted = formatIds.filter(id => deleteFormat(id))
+      const deleted: string[] = []
+      for (const id of formatIds) {
+        if (await deleteFormat(id)) deleted.push(id)
+      }
       
       return NextResponse.json({
         success: true,
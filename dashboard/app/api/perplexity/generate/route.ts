@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server'
 export const runtime = 'edge'
 
 import { createPerplexityClient, PerplexityAPIError, PerplexityRateLimitError, PerplexityAuthError, GenerateContentParams } from '@/lib/perplexity'
+import { StructuredOutputError } from '@/lib/structured-output'
 
 export async function POST(request: NextRequest) {
   try {
@@ -94,6 +95,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: `Perplexity returned an invalid response: ${error.message}`, issues: error.issues },
+        { status: 502 }
+      )
+    }
+
     if (error instanceof PerplexityAPIError) {
       return NextResponse.json(
         { error: error.message },
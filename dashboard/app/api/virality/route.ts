@@ -0,0 +1,74 @@
+/**
+ * Virality Model API Route
+ *
+ * Manages the engagement-calibrated virality model:
+ * - GET: Current model (weights and held-out evaluation), or null
+ * - POST: Recalibrate on posts scraped by analysis jobs and activate the result
+ *   Body (optional): { lambda?, holdoutFraction?, seed? }
+ * - DELETE: Drop the model and fall back to heuristic scoring
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteViralityModel, getViralityModel, recalibrateViralityModel } from '@/lib/virality-calibration'
+import { ViralityTrainingError } from '@/lib/virality-model'
+
+export const runtime = 'edge'
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, model: await getViralityModel() })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load the virality model.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as {
+      lambda?: number
+      holdoutFraction?: number
+      seed?: number
+    }
+
+    if (body.holdoutFraction !== undefined && !(body.holdoutFraction > 0 && body.holdoutFraction < 1)) {
+      return NextResponse.json(
+        { success: false, error: 'holdoutFraction must be between 0 and 1.' },
+        { status: 400 }
+      )
+    }
+    if (body.lambda !== undefined && !(body.lambda > 0)) {
+      return NextResponse.json({ success: false, error: 'lambda must be positive.' }, { status: 400 })
+    }
+
+    const result = await recalibrateViralityModel({
+      lambda: body.lambda,
+      holdoutFraction: body.holdoutFraction,
+      seed: body.seed,
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof ViralityTrainingError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 422 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to calibrate the virality model.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    const deleted = await deleteViralityModel()
+    return NextResponse.json({ success: true, deleted })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to delete the virality model.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * POST /api/virality/score
+ *
+ * Analyzes a draft or post and returns its virality score with the factors
+ * behind it. Uses the calibrated model when one has been trained.
+ *
+ * Body: { content: string, platform?: 'linkedin' | 'twitter' }
+ * Patterns come from the workspace named by ?workspace= or x-bigzec-workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzePost } from '@/lib/viral-analyzer'
+import { getViralityModel } from '@/lib/virality-calibration'
+import { InvalidWorkspaceError, loadPatternCatalog, workspaceFromRequest } from '@/lib/pattern-registry'
+import type { Platform } from '@/lib/types/social-media'
+
+export const runtime = 'edge'
+
+export async function POST(request: NextRequest) {
+  try {
+    const patterns = await loadPatternCatalog(workspaceFromRequest(request))
+    const { content, platform = 'linkedin' } = (await request.json()) as { content?: string; platform?: Platform }
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ success: false, error: 'Provide the post content to score.' }, { status: 400 })
+    }
+    if (platform !== 'linkedin' && platform !== 'twitter') {
+      return NextResponse.json({ success: false, error: 'platform must be linkedin or twitter.' }, { status: 400 })
+    }
+
+    const analysis = analyzePost(
+      {
+        id: `score-${Date.now()}`,
+        platform,
+        content,
+        metrics: { likes: 0, comments: 0, shares: 0 },
+        createdAt: new Date().toISOString(),
+      },
+      { model: await getViralityModel(), patterns }
+    )
+
+    return NextResponse.json({ success: true, analysis })
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to score the post.' },
+      { status: 500 }
+    )
+  }
+}
@@ -8,6 +8,7 @@ const navItems = [
   { name: 'Dashboard', href: '/admin', icon: DashboardIcon },
   { name: 'GTM Hub', href: '/admin/gtm-hub', icon: ChartIcon },
   { name: 'LinkedIn/𝕏 Content Writer', href: '/admin/content-writer', icon: ContentWriterIcon },
+  { name: 'Drafts', href: '/admin/drafts', icon: DraftsIcon },
   { name: 'Settings', href: '/admin/settings', icon: SettingsIcon },
 ]
 
@@ -19,6 +20,14 @@ function ContentWriterIcon({ className }: { className?: string }) {
   )
 }
 
+function DraftsIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+    </svg>
+  )
+}
+
 function DashboardIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -5,16 +5,23 @@
  * Manages the learned format patterns for viral LinkedIn and X posts.
  */
 
+import { HookType, BodyType, CTAType, Platform } from './types/social-media'
+import { HOOK_LABELS, BODY_LABELS, CTA_LABELS } from './taxonomy'
+
+/**
+ * A learned format as the agent sees it. Taxonomy fields use the canonical
+ * enums; validate untrusted input with parseContentFormat (./taxonomy).
+ */
 export interface ContentFormat {
   id: string
   name: string
   description: string
-  hookType: string
-  bodyStructure: string
-  ctaType: string
+  hookType: HookType
+  bodyStructure: BodyType
+  ctaType: CTAType
   template: string
   example: string
-  platform: 'linkedin' | 'twitter' | 'both'
+  platform: Platform | 'both'
   effectivenessIndicators: string[]
   sourcePosts: string[]
   createdAt: string
@@ -29,6 +36,12 @@ export interface AgentSkills {
   updatedAt: string
 }
 
+/** The chat agent wraps the post itself in these lines, commentary outside */
+export const POST_START = '<post>'
+export const POST_END = '</post>'
+// A post marker with the rest of its line, so no blank line is left behind
+const POST_TAG_LINE = new RegExp(`[ \\t]*(?:${POST_START}|${POST_END})[ \\t]*\\n?`, 'g')
+
 export const DEFAULT_SKILLS: AgentSkills = {
   version: '1.0',
   formats: [],
@@ -52,9 +65,9 @@ export function buildSkillsSystemPrompt(skills: AgentSkills): string {
       ? skills.formats
           .map(
             (f, i) => `### Format ${i + 1}: ${f.name}
-- **Hook:** ${f.hookType}
-- **Body:** ${f.bodyStructure}
-- **CTA:** ${f.ctaType}
+- **Hook:** ${HOOK_LABELS[f.hookType] ?? f.hookType}
+- **Body:** ${BODY_LABELS[f.bodyStructure] ?? f.bodyStructure}
+- **CTA:** ${CTA_LABELS[f.ctaType] ?? f.ctaType}
 - **Why it works:** ${f.effectivenessIndicators.join(' · ')}
 - **Template:**
 ${f.template}
@@ -311,6 +324,69 @@ ${formatsBlock}
 5. Keep it conversational — the user (Razvan) talks to you directly.
 6. Never be generic. Every post should feel specific and real.
 7. ALWAYS follow the formatting rules: one idea per line, blank lines between thoughts, specific numbers.
+8. Put the post itself on the lines between ${POST_START} and ${POST_END}, and any explanation or variations outside them.
 
 When generating a post, format it EXACTLY as it should appear — ready to copy-paste to LinkedIn or X.`
 }
+
+/**
+ * Picks the learned format the chat agent writes the next post with: the
+ * requested one, or the platform's format sharing the most words with the
+ * request (the first one on a tie).
+ */
+export function selectChatFormat(
+  formats: ContentFormat[],
+  platform: Platform,
+  request: string,
+  formatId?: string
+): ContentFormat | undefined {
+  const candidates = formats.filter((f) => f.platform === platform || f.platform === 'both')
+  if (formatId) return candidates.find((f) => f.id === formatId)
+
+  const words = new Set(significantWords(request))
+  let best: ContentFormat | undefined
+  let bestOverlap = -1
+  for (const format of candidates) {
+    const text = [format.name, format.description, format.example, ...format.effectivenessIndicators].join(' ')
+    const overlap = new Set(significantWords(text).filter((word) => words.has(word))).size
+    if (overlap > bestOverlap) {
+      best = format
+      bestOverlap = overlap
+    }
+  }
+  return best
+}
+
+export function buildFormatInstruction(format: ContentFormat): string {
+  return `\n\nIf you write a post in this reply, follow the learned format **${format.name}** (see "Your Learned Content Formats"):
+- **Hook:** ${HOOK_LABELS[format.hookType] ?? format.hookType} · **Body:** ${BODY_LABELS[format.bodyStructure] ?? format.bodyStructure} · **CTA:** ${CTA_LABELS[format.ctaType] ?? format.ctaType}
+- **Template:**
+${format.template}`
+}
+
+/**
+ * The post from a chat reply without the commentary around it, or null
+ * when the reply has no `<post>` line. A reply cut off before `</post>`
+ * runs to the end.
+ */
+export function extractPostText(reply: string): string | null {
+  const start = reply.indexOf(POST_START)
+  if (start === -1) return null
+
+  const body = reply.slice(start + POST_START.length)
+  const end = body.indexOf(POST_END)
+  const post = (end === -1 ? body : body.slice(0, end)).trim()
+  return post || null
+}
+
+/**
+ * A chat reply as the user reads it: the post and the commentary around it,
+ * without the `<post>` and `</post>` markers.
+ */
+export function stripPostTags(reply: string): string {
+  return reply.replace(POST_TAG_LINE, '')
+}
+
+function significantWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []
+}
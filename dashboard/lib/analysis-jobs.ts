@@ -0,0 +1,465 @@
+/**
+ * Analysis Jobs
+ *
+ * Server-side record of one "learn from posts" request: the Apify runs it
+ * started, the posts they returned and the formats extracted from them.
+ * Jobs advance when Apify calls the webhook, or when a client polls a job,
+ * so closing the tab mid-scrape no longer loses the result.
+ *
+ * Every extraction over a job's posts is kept (model, prompt version and
+ * the formats it produced), so extraction can be re-run with another model
+ * and compared against earlier results with diffFormats.
+ *
+ * Storage: one KV entry per job (`analysis-job:<id>`) plus one per Apify run
+ * (`analysis-run:<runId>`). Runs are written to their own keys so two runs
+ * finishing at once cannot overwrite each other; the job's run list and
+ * status are re-derived from the run records on every update.
+ *
+ * Duplicate webhooks, or a poll racing a webhook, may all see the last run
+ * succeed. Extraction is claimed first: the job is written as `analyzing`
+ * with a random token and read back, and only the caller whose token
+ * survived extracts. KV has no compare-and-set, so this narrows the window
+ * rather than closing it; a lost race costs one extra model call.
+ *
+ * A claim is a lease: if the worker holding it dies, the job would stay
+ * `analyzing` forever, so a claim older than EXTRACTION_LEASE_MS may be
+ * taken over by the next poll or re-run.
+ */
+
+import type { ContentFormat } from './agent-skills'
+import { getRunStatus } from './apify'
+import { DEFAULT_MODEL } from './openrouter'
+import { extractFormats, type FormatExtractionResult } from './format-extraction'
+import type { SchemaIssue } from './schema'
+import { getScraper, scrapeDataset, type ScrapedPost, type ScrapeRun } from './social-scraper'
+import { getKVStore } from './storage'
+import { StructuredOutputError } from './structured-output'
+import type { RejectedFormat } from './taxonomy'
+
+const JOB_KEY_PREFIX = 'analysis-job:'
+const RUN_KEY_PREFIX = 'analysis-run:'
+
+const FAILED_RUN_STATUSES = ['FAILED', 'TIMED-OUT', 'ABORTED']
+
+/** How long an extraction claim holds before another caller may take over */
+export const EXTRACTION_LEASE_MS = 5 * 60 * 1000
+
+export type AnalysisJobStatus = 'scraping' | 'analyzing' | 'done' | 'error'
+export type AnalysisRunStatus = 'running' | 'succeeded' | 'failed'
+
+export interface AnalysisRun extends ScrapeRun {
+  status: AnalysisRunStatus
+  /** Last status reported by Apify (RUNNING, SUCCEEDED, FAILED…) */
+  apifyStatus?: string
+  postCount?: number
+  finishedAt?: string
+}
+
+export interface FormatExtraction {
+  id: string
+  status: 'done' | 'error'
+  model: string
+  promptVersion?: string
+  formats: ContentFormat[]
+  /** Formats in the reply that failed validation and were left out */
+  rejected?: RejectedFormat[]
+  attempts?: number
+  error?: string
+  issues?: SchemaIssue[]
+  rawAnalysis?: string
+  createdAt: string
+}
+
+export interface AnalysisJob {
+  id: string
+  status: AnalysisJobStatus
+  urls: string[]
+  /** Submitted URLs no scraper handles */
+  unsupported: string[]
+  runs: AnalysisRun[]
+  /** Whether Apify was asked to call the webhook when runs finish */
+  webhook: boolean
+  posts: ScrapedPost[]
+  /** Formats from the latest successful extraction */
+  formats: ContentFormat[]
+  /** Every extraction run over `posts`, oldest first */
+  extractions: FormatExtraction[]
+  error?: string
+  issues?: SchemaIssue[]
+  rawAnalysis?: string
+  /** Token of the caller running the extraction, while analyzing */
+  extractionClaim?: string
+  /** When the extraction was claimed; see EXTRACTION_LEASE_MS */
+  extractionClaimedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/** Job without its posts, formats and extractions, for listings */
+export type AnalysisJobSummary = Omit<AnalysisJob, 'posts' | 'formats' | 'extractions'> & {
+  postCount: number
+  formatCount: number
+  extractionCount: number
+  /** Model of the latest extraction */
+  model?: string
+}
+
+interface RunRecord {
+  jobId: string
+  status: AnalysisRunStatus
+  apifyStatus?: string
+  posts?: ScrapedPost[]
+  finishedAt?: string
+}
+
+/**
+ * External calls a job makes. The defaults talk to Apify and OpenRouter;
+ * the webhook replay harness substitutes recorded responses.
+ */
+export interface AnalysisJobDeps {
+  getRunStatus(runId: string): Promise<{ status: string; datasetId: string }>
+  fetchPosts(run: AnalysisRun, datasetId: string): Promise<ScrapedPost[]>
+  extractFormats(posts: ScrapedPost[], model?: string): Promise<FormatExtractionResult>
+}
+
+export interface RefreshJobOptions {
+  /**
+   * Runs a due extraction. Routes pass the request context's waitUntil so
+   * the poll answers with the scrape status right away; defaults to awaiting.
+   */
+  defer?: (work: Promise<unknown>) => void | Promise<unknown>
+}
+
+export class AnalysisJobNotFoundError extends Error {
+  constructor(public jobId: string) {
+    super(`Analysis job not found: ${jobId}`)
+    this.name = 'AnalysisJobNotFoundError'
+  }
+}
+
+export class AnalysisJobStateError extends Error {
+  constructor(public jobId: string, public status: AnalysisJobStatus) {
+    super(`Analysis job ${jobId} has no scraped posts to extract from yet (status: ${status}).`)
+    this.name = 'AnalysisJobStateError'
+  }
+}
+
+export function apifyJobDeps(apiKey: string): AnalysisJobDeps {
+  return {
+    getRunStatus: (runId) => getRunStatus(runId, apiKey),
+    fetchPosts: async (run, datasetId) => {
+      const scraper = getScraper(run.platform)
+      if (!scraper) throw new Error(`No scraper for platform: ${run.platform}`)
+      return scrapeDataset(scraper, datasetId, apiKey)
+    },
+    extractFormats,
+  }
+}
+
+/**
+ * Stores a new job for runs that have just been started.
+ */
+export async function createAnalysisJob(input: {
+  id: string
+  urls: string[]
+  unsupported: string[]
+  runs: ScrapeRun[]
+  webhook: boolean
+}): Promise<AnalysisJob> {
+  const store = getKVStore()
+  const now = new Date().toISOString()
+
+  const job: AnalysisJob = {
+    ...input,
+    status: 'scraping',
+    runs: input.runs.map((run) => ({ ...run, status: 'running' })),
+    posts: [],
+    formats: [],
+    extractions: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await Promise.all(
+    job.runs.map((run) => store.put<RunRecord>(RUN_KEY_PREFIX + run.runId, { jobId: job.id, status: 'running' }))
+  )
+  await store.put(JOB_KEY_PREFIX + job.id, job)
+  return job
+}
+
+export async function getAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  const job = await getKVStore().get<AnalysisJob>(JOB_KEY_PREFIX + id)
+  // Jobs stored before extraction history existed have no extractions
+  return job && { ...job, extractions: job.extractions ?? [] }
+}
+
+/**
+ * Returns the id of the job an Apify run belongs to, if any.
+ */
+export async function getJobIdForRun(runId: string): Promise<string | null> {
+  const record = await getKVStore().get<RunRecord>(RUN_KEY_PREFIX + runId)
+  return record?.jobId ?? null
+}
+
+/**
+ * Lists jobs newest first, without their posts and formats.
+ */
+export async function listAnalysisJobs(limit = 20): Promise<AnalysisJobSummary[]> {
+  const store = getKVStore()
+  const keys = await store.list(JOB_KEY_PREFIX)
+  const jobs = await Promise.all(keys.map((key) => store.get<AnalysisJob>(key)))
+
+  return jobs
+    .filter((job): job is AnalysisJob => job !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map(({ posts, formats, extractions = [], ...job }) => ({
+      ...job,
+      postCount: posts.length,
+      formatCount: formats.length,
+      extractionCount: extractions.length,
+      model: extractions[extractions.length - 1]?.model,
+    }))
+}
+
+/**
+ * Runs extraction again over a finished job's stored posts, optionally with
+ * another model. The result is appended to the job's extractions; the job's
+ * formats only change if the new extraction succeeds.
+ *
+ * @throws AnalysisJobNotFoundError if the job does not exist
+ * @throws AnalysisJobStateError if the job is still scraping, or analyzing
+ *   under a claim that has not expired
+ */
+export async function rerunExtraction(
+  jobId: string,
+  model: string | undefined,
+  deps: Pick<AnalysisJobDeps, 'extractFormats'>
+): Promise<{ job: AnalysisJob; extraction: FormatExtraction; previous: FormatExtraction | null }> {
+  const job = await getAnalysisJob(jobId)
+  if (!job) throw new AnalysisJobNotFoundError(jobId)
+  if (job.status === 'scraping' || (job.status === 'analyzing' && !isClaimStale(job)) || job.posts.length === 0) {
+    throw new AnalysisJobStateError(jobId, job.status)
+  }
+
+  const previous = [...job.extractions].reverse().find((extraction) => extraction.status === 'done') ?? null
+  // Taking over a stale claim makes the worker that held it drop its result
+  const updated = { ...(await runExtraction(job, deps, model)), extractionClaim: undefined, extractionClaimedAt: undefined }
+  await getKVStore().put(JOB_KEY_PREFIX + jobId, updated)
+
+  return { job: updated, extraction: updated.extractions[updated.extractions.length - 1], previous }
+}
+
+/**
+ * Records the outcome of a finished Apify run and advances its job:
+ * once every run has succeeded the posts are combined and extracted.
+ * The run's status is read from Apify, never from the caller, and runs
+ * that already finished are left alone, so repeated calls are harmless.
+ *
+ * @throws AnalysisJobNotFoundError if the job does not exist
+ */
+export async function finishRun(jobId: string, runId: string, deps: AnalysisJobDeps): Promise<AnalysisJob> {
+  const job = await getAnalysisJob(jobId)
+  if (!job) throw new AnalysisJobNotFoundError(jobId)
+
+  const run = job.runs.find((r) => r.runId === runId)
+  if (!run) throw new Error(`Run ${runId} does not belong to job ${jobId}`)
+
+  await recordRunOutcome(job.id, run, deps)
+  return syncJob(job.id, deps)
+}
+
+/**
+ * Checks Apify for runs the job is still waiting on and records their
+ * outcome. Used when polling, so jobs complete even without a webhook.
+ * Once every run has succeeded, or a claim has gone stale, extraction is
+ * handed to `options.defer` and the job is returned as scraped.
+ *
+ * @throws AnalysisJobNotFoundError if the job does not exist
+ */
+export async function refreshAnalysisJob(
+  jobId: string,
+  deps: AnalysisJobDeps,
+  options: RefreshJobOptions = {}
+): Promise<AnalysisJob> {
+  const job = await getAnalysisJob(jobId)
+  if (!job) throw new AnalysisJobNotFoundError(jobId)
+  if (job.status !== 'scraping' && !isClaimStale(job)) return job
+
+  await Promise.all(
+    job.runs.filter((run) => run.status === 'running').map((run) => recordRunOutcome(job.id, run, deps))
+  )
+  const synced = await syncRuns(job.id)
+  if (!isExtractionDue(synced)) return synced
+
+  if (!options.defer) return extractJob(synced, deps)
+  await options.defer(
+    extractJob(synced, deps).catch((error) => {
+      console.error('Analysis job extraction failed:', error)
+    })
+  )
+  return synced
+}
+
+async function recordRunOutcome(jobId: string, run: AnalysisRun, deps: AnalysisJobDeps): Promise<void> {
+  const store = getKVStore()
+  const key = RUN_KEY_PREFIX + run.runId
+  const record = (await store.get<RunRecord>(key)) ?? { jobId, status: 'running' }
+  if (record.status !== 'running') return
+
+  const { status: apifyStatus, datasetId } = await deps.getRunStatus(run.runId)
+
+  if (apifyStatus === 'SUCCEEDED') {
+    const posts = await deps.fetchPosts(run, datasetId || run.datasetId)
+    await store.put<RunRecord>(key, { jobId, status: 'succeeded', apifyStatus, posts, finishedAt: new Date().toISOString() })
+  } else if (FAILED_RUN_STATUSES.includes(apifyStatus)) {
+    await store.put<RunRecord>(key, { jobId, status: 'failed', apifyStatus, finishedAt: new Date().toISOString() })
+  } else if (apifyStatus !== record.apifyStatus) {
+    await store.put<RunRecord>(key, { ...record, apifyStatus })
+  }
+}
+
+/**
+ * Re-derives the job from its run records and, when all runs succeeded,
+ * claims and runs format extraction over the combined posts.
+ */
+async function syncJob(jobId: string, deps: AnalysisJobDeps): Promise<AnalysisJob> {
+  const job = await syncRuns(jobId)
+  return isExtractionDue(job) ? extractJob(job, deps) : job
+}
+
+/**
+ * Re-derives a scraping job's runs from their run records, failing the job
+ * if any run failed. Jobs past scraping are returned as stored, so a late
+ * caller cannot overwrite the result of the one that extracted.
+ */
+async function syncRuns(jobId: string): Promise<AnalysisJob> {
+  const store = getKVStore()
+  const job = await getAnalysisJob(jobId)
+  if (!job) throw new AnalysisJobNotFoundError(jobId)
+  if (job.status !== 'scraping') return job
+
+  const records = await Promise.all(job.runs.map((run) => store.get<RunRecord>(RUN_KEY_PREFIX + run.runId)))
+  const runs: AnalysisRun[] = job.runs.map((run, i) => {
+    const record = records[i]
+    if (!record) return run
+    return {
+      ...run,
+      status: record.status,
+      apifyStatus: record.apifyStatus,
+      postCount: record.posts?.length,
+      finishedAt: record.finishedAt,
+    }
+  })
+
+  let updated: AnalysisJob = { ...job, runs, updatedAt: new Date().toISOString() }
+
+  const failed = runs.find((run) => run.status === 'failed')
+  if (failed) {
+    updated = { ...updated, status: 'error', error: `Apify run ${failed.apifyStatus?.toLowerCase() ?? 'failed'} (${failed.platform}). Try again.` }
+  }
+
+  await store.put(JOB_KEY_PREFIX + jobId, updated)
+  return updated
+}
+
+/**
+ * Claims the job's extraction and runs it over the combined posts of its
+ * runs. Returns the job as stored when another caller holds the claim, and
+ * drops the result when the claim was taken over while the model ran.
+ */
+async function extractJob(job: AnalysisJob, deps: AnalysisJobDeps): Promise<AnalysisJob> {
+  const store = getKVStore()
+  const key = JOB_KEY_PREFIX + job.id
+  const records = await Promise.all(job.runs.map((run) => store.get<RunRecord>(RUN_KEY_PREFIX + run.runId)))
+  const posts = records.flatMap((record) => record?.posts ?? [])
+
+  const claim = crypto.randomUUID()
+  await store.put(key, {
+    ...job,
+    status: 'analyzing',
+    posts,
+    extractionClaim: claim,
+    extractionClaimedAt: new Date().toISOString(),
+  })
+
+  const claimed = await getAnalysisJob(job.id)
+  if (claimed?.extractionClaim !== claim) {
+    return claimed ?? job
+  }
+  const updated = { ...(await runExtraction(claimed, deps)), extractionClaim: undefined, extractionClaimedAt: undefined }
+
+  const current = await getAnalysisJob(job.id)
+  if (current?.extractionClaim !== claim) {
+    return current ?? updated
+  }
+  await store.put(key, updated)
+  return updated
+}
+
+function isExtractionDue(job: AnalysisJob): boolean {
+  if (job.status === 'analyzing') return isClaimStale(job)
+  return job.status === 'scraping' && job.runs.every((run) => run.status === 'succeeded')
+}
+
+// Claims written before claims carried a timestamp count as stale
+function isClaimStale(job: AnalysisJob): boolean {
+  if (job.status !== 'analyzing') return false
+  const claimedAt = job.extractionClaimedAt ? Date.parse(job.extractionClaimedAt) : 0
+  return Date.now() - claimedAt >= EXTRACTION_LEASE_MS
+}
+
+async function runExtraction(
+  job: AnalysisJob,
+  deps: Pick<AnalysisJobDeps, 'extractFormats'>,
+  model?: string
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString()
+  const id = crypto.randomUUID()
+
+  try {
+    const result = await deps.extractFormats(job.posts, model)
+    const extraction: FormatExtraction = {
+      id,
+      status: 'done',
+      model: result.model,
+      promptVersion: result.promptVersion,
+      formats: result.formats,
+      ...(result.rejected.length ? { rejected: result.rejected } : {}),
+      attempts: result.attempts,
+      createdAt: now,
+    }
+    return {
+      ...job,
+      status: 'done',
+      formats: result.formats,
+      extractions: [...job.extractions, extraction],
+      error: undefined,
+      issues: undefined,
+      rawAnalysis: undefined,
+      updatedAt: now,
+    }
+  } catch (error) {
+    const extraction: FormatExtraction = {
+      id,
+      status: 'error',
+      model: model ?? DEFAULT_MODEL,
+      formats: [],
+      error: error instanceof Error ? error.message : 'Format extraction failed.',
+      issues: error instanceof StructuredOutputError ? error.issues : undefined,
+      rawAnalysis: error instanceof StructuredOutputError ? error.rawResponse : undefined,
+      createdAt: now,
+    }
+    // A failed re-run keeps the job's earlier formats
+    const hasFormats = job.extractions.some((e) => e.status === 'done')
+    return {
+      ...job,
+      status: hasFormats ? 'done' : 'error',
+      extractions: [...job.extractions, extraction],
+      error: hasFormats ? job.error : extraction.error,
+      issues: hasFormats ? job.issues : extraction.issues,
+      rawAnalysis: hasFormats ? job.rawAnalysis : extraction.rawAnalysis,
+      updatedAt: now,
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Apify Webhook
+ *
+ * Apify calls /api/agent/analyze/webhook when a scrape run finishes, so
+ * analysis jobs complete server-side. The route is exempt from Cloudflare
+ * Access (Apify cannot log in); instead each webhook carries an HMAC of its
+ * job id, signed with APIFY_WEBHOOK_SECRET. The secret itself never leaves
+ * the dashboard, and the run's outcome is always re-read from Apify rather
+ * than taken from the payload.
+ *
+ * Configuration (env):
+ * - APIFY_WEBHOOK_SECRET  Enables webhooks; without it jobs advance by polling
+ * - APP_BASE_URL          Public origin Apify should call (defaults to the
+ *                         origin of the request that started the job)
+ */
+
+import { RUN_FINISHED_EVENTS, type ApifyWebhook } from './apify'
+import { AnalysisJobNotFoundError, finishRun, getJobIdForRun, type AnalysisJobDeps } from './analysis-jobs'
+
+export const WEBHOOK_PATH = '/api/agent/analyze/webhook'
+export const WEBHOOK_SIGNATURE_HEADER = 'x-bigzec-signature'
+
+export interface ApifyWebhookPayload {
+  eventType?: string
+  eventData?: { actorId?: string; actorRunId?: string }
+  resource?: { id?: string; status?: string; defaultDatasetId?: string }
+}
+
+export interface HandleWebhookOptions {
+  secret: string
+  deps: AnalysisJobDeps
+  /**
+   * Runs the (slow) job update. Routes pass the request context's waitUntil
+   * so Apify gets its response before extraction starts; defaults to awaiting.
+   */
+  defer?: (work: Promise<unknown>) => void | Promise<unknown>
+}
+
+export function getWebhookSecret(): string | null {
+  return process.env.APIFY_WEBHOOK_SECRET || null
+}
+
+/**
+ * Returns the hex HMAC-SHA256 signature for a job's webhook.
+ */
+export async function signWebhook(jobId: string, secret: string): Promise<string> {
+  const key = await importKey(secret, 'sign')
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(jobId))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function verifyWebhookSignature(jobId: string, signature: string, secret: string): Promise<boolean> {
+  if (!/^[0-9a-f]{64}$/i.test(signature)) return false
+  const bytes = new Uint8Array(signature.match(/../g)!.map((pair) => parseInt(pair, 16)))
+  const key = await importKey(secret, 'verify')
+  return crypto.subtle.verify('HMAC', key, bytes, new TextEncoder().encode(jobId))
+}
+
+/**
+ * Builds the ad-hoc webhook to register with each run of a job.
+ */
+export async function buildRunWebhooks(jobId: string, baseUrl: string, secret: string): Promise<ApifyWebhook[]> {
+  const url = new URL(WEBHOOK_PATH, baseUrl)
+  url.searchParams.set('jobId', jobId)
+
+  return [
+    {
+      eventTypes: RUN_FINISHED_EVENTS,
+      requestUrl: url.toString(),
+      headersTemplate: JSON.stringify({ [WEBHOOK_SIGNATURE_HEADER]: await signWebhook(jobId, secret) }),
+    },
+  ]
+}
+
+/**
+ * Verifies and processes an Apify webhook request.
+ *
+ * Responds 401 for a bad signature, 404 for an unknown job or a run that
+ * belongs to a different job, and 202 once the run has been handed off.
+ */
+export async function handleApifyWebhook(request: Request, options: HandleWebhookOptions): Promise<Response> {
+  const jobId = new URL(request.url).searchParams.get('jobId')
+  const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? ''
+
+  if (!jobId || !(await verifyWebhookSignature(jobId, signature, options.secret))) {
+    return Response.json({ success: false, error: 'Invalid webhook signature.' }, { status: 401 })
+  }
+
+  let payload: ApifyWebhookPayload
+  try {
+    payload = (await request.json()) as ApifyWebhookPayload
+  } catch {
+    return Response.json({ success: false, error: 'Invalid JSON payload.' }, { status: 400 })
+  }
+
+  const runId = payload.eventData?.actorRunId ?? payload.resource?.id
+  if (!runId) {
+    return Response.json({ success: false, error: 'Payload has no run id.' }, { status: 400 })
+  }
+
+  // A signature only vouches for the job id, so the run must belong to it
+  if ((await getJobIdForRun(runId)) !== jobId) {
+    return Response.json({ success: false, error: 'Unknown run for this job.' }, { status: 404 })
+  }
+
+  const work = finishRun(jobId, runId, options.deps).catch((error) => {
+    if (!(error instanceof AnalysisJobNotFoundError)) {
+      console.error('Apify webhook processing failed:', error)
+    }
+  })
+
+  if (options.defer) {
+    await options.defer(work)
+  } else {
+    await work
+  }
+
+  return Response.json({ success: true, jobId, runId }, { status: 202 })
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  )
+}
@@ -0,0 +1,138 @@
+/**
+ * Apify X/Twitter Post Scraper
+ *
+ * Uses apidojo/tweet-scraper (override with APIFY_X_ACTOR) to fetch tweets
+ * and the conversations they belong to. The actor returns one item per
+ * tweet; collectThreads folds an author's self-replies back into a single
+ * post whose parts are in reading order.
+ */
+
+import { startActorRun, type ApifyRunResult, type StartRunOptions } from './apify'
+import type { ScrapedPost, ScrapedPostPart, SocialScraper } from './social-scraper'
+
+const DEFAULT_ACTOR = 'apidojo/tweet-scraper'
+
+// Upper bound on tweets fetched per submitted URL (thread parts plus replies)
+const MAX_ITEMS_PER_URL = 50
+
+const X_HOSTS = ['x.com', 'twitter.com', 'mobile.x.com', 'mobile.twitter.com', 'www.x.com', 'www.twitter.com']
+
+/**
+ * Returns the tweet id from a status URL (x.com/user/status/123…).
+ */
+export function tweetIdFromUrl(url: string): string | null {
+  const match = url.match(/\/status(?:es)?\/(\d+)/)
+  return match ? match[1] : null
+}
+
+/**
+ * Starts an Apify X scraper run for the given tweet URLs, including the
+ * conversations they start so threads can be reassembled.
+ */
+export async function startXScrape(
+  postUrls: string[],
+  apiKey: string,
+  options: StartRunOptions = {}
+): Promise<ApifyRunResult> {
+  const actorId = process.env.APIFY_X_ACTOR || DEFAULT_ACTOR
+  const conversationIds = postUrls
+    .map(tweetIdFromUrl)
+    .filter((id): id is string => id !== null)
+
+  return startActorRun(
+    actorId,
+    {
+      startUrls: postUrls,
+      conversationIds,
+      maxItems: postUrls.length * MAX_ITEMS_PER_URL,
+    },
+    apiKey,
+    options
+  )
+}
+
+/**
+ * Normalizes one tweet from the dataset. Placeholder items (no results,
+ * retweets without text) are dropped.
+ */
+export function normalizeXItem(item: any): ScrapedPost | null {
+  const text: string = (item.fullText || item.full_text || item.text || '').trim()
+  const id = item.id ?? item.id_str
+  if (!text || item.noResults || item.type === 'mock_tweet') return null
+
+  const author = item.author ?? item.user ?? {}
+  const handle: string = author.userName ?? author.screen_name ?? ''
+
+  return {
+    platform: 'twitter',
+    id: id ? String(id) : undefined,
+    threadId: item.conversationId ? String(item.conversationId) : undefined,
+    url: item.url || item.twitterUrl || (handle && id ? `https://x.com/${handle}/status/${id}` : ''),
+    text,
+    likesCount: item.likeCount ?? item.favorite_count ?? 0,
+    commentsCount: item.replyCount ?? item.reply_count ?? 0,
+    sharesCount: (item.retweetCount ?? item.retweet_count ?? 0) + (item.quoteCount ?? 0),
+    repostsCount: item.retweetCount ?? item.retweet_count ?? 0,
+    authorName: author.name ?? handle,
+    authorHandle: handle,
+    authorHeadline: author.description ?? '',
+    publishedAt: item.createdAt ?? item.created_at ?? '',
+  }
+}
+
+/**
+ * Folds tweets sharing a conversation into one post per thread. Only the
+ * thread author's tweets count as parts; replies from others are dropped.
+ * Engagement comes from the first tweet, since that is what was shared.
+ */
+export function collectThreads(posts: ScrapedPost[]): ScrapedPost[] {
+  const conversations = new Map<string, ScrapedPost[]>()
+
+  for (const post of posts) {
+    const key = post.threadId ?? post.id ?? post.url
+    const tweets = conversations.get(key) ?? []
+    if (!tweets.some((tweet) => tweet.id !== undefined && tweet.id === post.id)) {
+      tweets.push(post)
+    }
+    conversations.set(key, tweets)
+  }
+
+  return [...conversations.entries()].map(([key, tweets]) => {
+    const ordered = [...tweets].sort(compareTweets)
+    const root = ordered.find((tweet) => tweet.id === key) ?? ordered[0]
+    const authored = ordered.filter((tweet) => tweet.authorHandle === root.authorHandle)
+
+    if (authored.length < 2) return root
+
+    const parts: ScrapedPostPart[] = authored.map((tweet, i) => ({
+      position: i + 1,
+      text: tweet.text,
+      url: tweet.url,
+      likesCount: tweet.likesCount,
+      publishedAt: tweet.publishedAt,
+    }))
+
+    return {
+      ...root,
+      text: parts.map((part) => part.text).join('\n\n'),
+      parts,
+    }
+  })
+}
+
+// Tweet ids are time-ordered snowflakes; compare them as big integers
+function compareTweets(a: ScrapedPost, b: ScrapedPost): number {
+  if (a.id && b.id && /^\d+$/.test(a.id) && /^\d+$/.test(b.id)) {
+    return a.id.length - b.id.length || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  }
+  return Date.parse(a.publishedAt ?? '') - Date.parse(b.publishedAt ?? '') || 0
+}
+
+export const xScraper: SocialScraper = {
+  platform: 'twitter',
+  label: 'X',
+  matchesHost: (hostname) => X_HOSTS.includes(hostname),
+  startScrape: startXScrape,
+  normalizeItem: normalizeXItem,
+  collect: collectThreads,
+}
@@ -0,0 +1,152 @@
+/**
+ * Apify API Client
+ *
+ * Thin wrapper over the Apify REST API shared by the platform scrapers:
+ * actor discovery, starting runs, polling run status and reading datasets.
+ */
+
+const APIFY_BASE_URL = 'https://api.apify.com/v2'
+
+export interface ApifyRunResult {
+  runId: string
+  datasetId: string
+  actorId: string
+}
+
+/**
+ * Ad-hoc webhook registered with a run. See
+ * https://docs.apify.com/platform/integrations/webhooks/ad-hoc-webhooks
+ */
+export interface ApifyWebhook {
+  eventTypes: string[]
+  requestUrl: string
+  /** JSON template for extra request headers, e.g. a signature */
+  headersTemplate?: string
+}
+
+export interface StartRunOptions {
+  webhooks?: ApifyWebhook[]
+}
+
+export const RUN_FINISHED_EVENTS = [
+  'ACTOR.RUN.SUCCEEDED',
+  'ACTOR.RUN.FAILED',
+  'ACTOR.RUN.TIMED_OUT',
+  'ACTOR.RUN.ABORTED',
+]
+
+export class ApifyError extends Error {
+  constructor(message: string, public statusCode: number, public errorType?: string) {
+    super(message)
+    this.name = 'ApifyError'
+  }
+}
+
+/**
+ * Returns the first of `candidates` rented on this account, or `fallback`
+ * when none is (or the store lookup fails).
+ */
+export async function findAvailableActor(
+  apiKey: string,
+  candidates: string[],
+  fallback: string
+): Promise<string> {
+  try {
+    const res = await fetch(
+      `${APIFY_BASE_URL}/store?token=${apiKey}&rented=true&limit=50`,
+      { method: 'GET' }
+    )
+    if (res.ok) {
+      const data = await res.json()
+      const items: any[] = data.data?.items ?? []
+
+      for (const candidate of candidates) {
+        const [username, name] = candidate.split('/')
+        const found = items.find(
+          (a) => a.username === username && a.name === name
+        )
+        if (found) return candidate
+      }
+    }
+  } catch {
+    // Fall through to the fallback actor
+  }
+
+  return fallback
+}
+
+/**
+ * Starts an actor run with the given input, registering any webhooks.
+ *
+ * @throws ApifyError with the Apify error type (e.g. actor-is-not-rented)
+ */
+export async function startActorRun(
+  actorId: string,
+  input: Record<string, unknown>,
+  apiKey: string,
+  options: StartRunOptions = {}
+): Promise<ApifyRunResult> {
+  const webhooks = options.webhooks?.length
+    ? `&webhooks=${encodeURIComponent(btoa(JSON.stringify(options.webhooks)))}`
+    : ''
+
+  const res = await fetch(
+    `${APIFY_BASE_URL}/acts/${encodeURIComponent(actorId)}/runs?token=${apiKey}${webhooks}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }
+  )
+
+  if (!res.ok) {
+    const errorText = await res.text()
+    let errorData: any = {}
+    try { errorData = JSON.parse(errorText) } catch { /* raw text */ }
+
+    throw new ApifyError(
+      `Failed to start Apify run: ${res.status} — ${errorText}`,
+      res.status,
+      errorData?.error?.type
+    )
+  }
+
+  const data = await res.json()
+  return {
+    runId: data.data.id,
+    datasetId: data.data.defaultDatasetId,
+    actorId,
+  }
+}
+
+/**
+ * Gets the current status of an Apify run.
+ */
+export async function getRunStatus(
+  runId: string,
+  apiKey: string
+): Promise<{ status: string; datasetId: string }> {
+  const res = await fetch(`${APIFY_BASE_URL}/actor-runs/${runId}?token=${apiKey}`)
+  if (!res.ok) throw new ApifyError(`Failed to get run status: ${res.status}`, res.status)
+  const data = await res.json()
+  return {
+    status: data.data.status,
+    datasetId: data.data.defaultDatasetId,
+  }
+}
+
+/**
+ * Retrieves the raw items of an Apify dataset.
+ */
+export async function getDatasetItems(
+  datasetId: string,
+  apiKey: string,
+  limit = 50
+): Promise<unknown[]> {
+  const res = await fetch(
+    `${APIFY_BASE_URL}/datasets/${datasetId}/items?token=${apiKey}&clean=true&limit=${limit}`
+  )
+  if (!res.ok) throw new ApifyError(`Failed to get dataset items: ${res.status}`, res.status)
+  const data = await res.json()
+  return Array.isArray(data) ? data : []
+}
@@ -0,0 +1,288 @@
+/**
+ * Cloudflare Access JWT Verification
+ *
+ * Verifies the `Cf-Access-Jwt-Assertion` header that Cloudflare Access adds
+ * to every request it lets through. Runs on the edge runtime using WebCrypto.
+ *
+ * Configuration (env):
+ * - CF_ACCESS_TEAM_DOMAIN  e.g. razvan-667.cloudflareaccess.com
+ * - CF_ACCESS_AUD          Application Audience (AUD) tag from the Access app
+ * - CF_ACCESS_TEST_SECRET  Non-production only: also accept HS256 tokens
+ *                          signed with this secret (see signTestAccessToken)
+ */
+
+export const ACCESS_JWT_HEADER = 'cf-access-jwt-assertion'
+export const ACCESS_COOKIE = 'CF_Authorization'
+export const AUTHENTICATED_EMAIL_HEADER = 'x-access-authenticated-email'
+
+const JWKS_TTL_MS = 60 * 60 * 1000
+// Tokens with made-up key ids must not turn into a fetch per request
+const JWKS_REFETCH_INTERVAL_MS = 30 * 1000
+const CLOCK_SKEW_SECONDS = 60
+
+export interface AccessConfig {
+  teamDomain: string
+  audience: string
+  testSecret?: string
+}
+
+export interface AccessIdentity {
+  email: string | null
+  subject: string
+  claims: AccessJwtPayload
+}
+
+export interface AccessJwtPayload {
+  aud: string | string[]
+  iss: string
+  exp: number
+  nbf?: number
+  iat?: number
+  sub?: string
+  email?: string
+  common_name?: string
+  [claim: string]: unknown
+}
+
+interface JwtHeader {
+  alg: string
+  kid?: string
+  typ?: string
+}
+
+interface AccessJwk extends JsonWebKey {
+  kid: string
+}
+
+export class AccessVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccessVerificationError'
+  }
+}
+
+/**
+ * Reads Access configuration from the environment.
+ * Returns null when the team domain or audience is missing.
+ */
+export function getAccessConfig(): AccessConfig | null {
+  const teamDomain = process.env.CF_ACCESS_TEAM_DOMAIN
+  const audience = process.env.CF_ACCESS_AUD
+  if (!teamDomain || !audience) return null
+
+  const testSecret = process.env.NODE_ENV !== 'production' ? process.env.CF_ACCESS_TEST_SECRET : undefined
+
+  return {
+    teamDomain: teamDomain.replace(/^https?:\/\//, '').replace(/\/+$/, ''),
+    audience,
+    testSecret: testSecret || undefined,
+  }
+}
+
+/**
+ * Verifies an Access JWT and returns the authenticated identity.
+ *
+ * @throws AccessVerificationError if the token is malformed, expired,
+ *   signed by an unknown key, or issued for another team or audience
+ */
+export async function verifyAccessJwt(token: string, config: AccessConfig): Promise<AccessIdentity> {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new AccessVerificationError('Malformed token')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+  const header = decodeJson<JwtHeader>(encodedHeader)
+  const payload = decodeJson<AccessJwtPayload>(encodedPayload)
+  const signedData = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  const signature = base64UrlDecode(encodedSignature)
+
+  let valid: boolean
+  if (header.alg === 'RS256') {
+    const key = await getSigningKey(config.teamDomain, header.kid)
+    valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData)
+  } else if (header.alg === 'HS256' && config.testSecret) {
+    const key = await importHmacKey(config.testSecret, 'verify')
+    valid = await crypto.subtle.verify('HMAC', key, signature, signedData)
+  } else {
+    throw new AccessVerificationError(`Unsupported algorithm: ${header.alg}`)
+  }
+
+  if (!valid) {
+    throw new AccessVerificationError('Invalid signature')
+  }
+
+  validateClaims(payload, config)
+
+  return {
+    email: typeof payload.email === 'string' ? payload.email : null,
+    subject: payload.sub ?? payload.common_name ?? '',
+    claims: payload,
+  }
+}
+
+/**
+ * Signs an HS256 token that verifyAccessJwt accepts when CF_ACCESS_TEST_SECRET
+ * is configured. Lets the middleware be exercised without Cloudflare.
+ */
+export async function signTestAccessToken(
+  claims: Partial<AccessJwtPayload> & { email: string },
+  config: AccessConfig & { testSecret: string },
+  expiresInSeconds = 3600
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const payload: AccessJwtPayload = {
+    aud: [config.audience],
+    iss: `https://${config.teamDomain}`,
+    iat: now,
+    exp: now + expiresInSeconds,
+    sub: claims.email,
+    ...claims,
+  }
+
+  const encodedHeader = base64UrlEncode(new TextEncoder().encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })))
+  const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)))
+  const key = await importHmacKey(config.testSecret, 'sign')
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`))
+
+  return `${encodedHeader}.${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/**
+ * Returns the email the middleware authenticated for this request, if any.
+ */
+export function getAuthenticatedEmail(request: Request): string | null {
+  return request.headers.get(AUTHENTICATED_EMAIL_HEADER)
+}
+
+function validateClaims(payload: AccessJwtPayload, config: AccessConfig): void {
+  const now = Math.floor(Date.now() / 1000)
+
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AccessVerificationError('Token expired')
+  }
+
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AccessVerificationError('Token not yet valid')
+  }
+
+  if (payload.iss !== `https://${config.teamDomain}`) {
+    throw new AccessVerificationError('Unexpected issuer')
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+  if (!audiences.includes(config.audience)) {
+    throw new AccessVerificationError('Audience mismatch')
+  }
+}
+
+// ─── JWKS cache ───────────────────────────────────────────────────────────────
+
+let jwksCache: { teamDomain: string; keys: Map<string, CryptoKey>; expiresAt: number; fetchedAt: number } | null = null
+let jwksFetch: { teamDomain: string; keys: Promise<Map<string, CryptoKey>> } | null = null
+
+async function getSigningKey(teamDomain: string, kid?: string): Promise<CryptoKey> {
+  if (!kid) {
+    throw new AccessVerificationError('Token has no key id')
+  }
+
+  let cache = jwksCache
+  const now = Date.now()
+  const cacheValid = cache !== null && cache.teamDomain === teamDomain && cache.expiresAt > now
+
+  // Refetch on an unknown kid as well, since Access rotates its signing keys,
+  // but at most once per JWKS_REFETCH_INTERVAL_MS
+  const refetch = !cache || !cacheValid || (!cache.keys.has(kid) && now - cache.fetchedAt >= JWKS_REFETCH_INTERVAL_MS)
+  if (refetch) {
+    // A failed refetch also waits out the interval
+    if (cache && cacheValid) cache.fetchedAt = now
+    cache = await refreshJwks(teamDomain)
+  }
+
+  const key = cache!.keys.get(kid)
+  if (!key) {
+    throw new AccessVerificationError('Unknown signing key')
+  }
+  return key
+}
+
+// Concurrent requests share one fetch
+async function refreshJwks(teamDomain: string): Promise<NonNullable<typeof jwksCache>> {
+  if (jwksFetch?.teamDomain !== teamDomain) {
+    const keys = fetchJwks(teamDomain)
+    jwksFetch = { teamDomain, keys }
+    keys.catch(() => undefined).finally(() => {
+      if (jwksFetch?.keys === keys) jwksFetch = null
+    })
+  }
+
+  const keys = await jwksFetch.keys
+  if (jwksCache?.teamDomain !== teamDomain || jwksCache.keys !== keys) {
+    const fetchedAt = Date.now()
+    jwksCache = { teamDomain, keys, expiresAt: fetchedAt + JWKS_TTL_MS, fetchedAt }
+  }
+  return jwksCache
+}
+
+async function fetchJwks(teamDomain: string): Promise<Map<string, CryptoKey>> {
+  const res = await fetch(`https://${teamDomain}/cdn-cgi/access/certs`)
+  if (!res.ok) {
+    throw new AccessVerificationError(`Failed to fetch Access certs: ${res.status}`)
+  }
+
+  const data = (await res.json()) as { keys?: AccessJwk[] }
+  const keys = new Map<string, CryptoKey>()
+
+  for (const jwk of data.keys ?? []) {
+    if (jwk.kty !== 'RSA' || !jwk.kid) continue
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    )
+    keys.set(jwk.kid, key)
+  }
+
+  return keys
+}
+
+// ─── Encoding helpers ─────────────────────────────────────────────────────────
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  )
+}
+
+function decodeJson<T>(segment: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T
+  } catch {
+    throw new AccessVerificationError('Malformed token')
+  }
+}
+
+function base64UrlDecode(input: string): ArrayBuffer {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
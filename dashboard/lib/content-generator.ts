@@ -4,7 +4,9 @@ import {
   getRandomHook, 
   getHookExample,
   getHooksByEmotion,
-  HookType
+  getHookByType,
+  formatHookTemplate,
+  TemplateHookType
 } from './hooks-library';
 import { 
   CTATemplate,
@@ -12,8 +14,33 @@ import {
   getRandomCTA, 
   getCTAExample, 
   getRecommendedCTA,
-  CTAType 
+  getCTAByType,
+  formatCTATemplate,
+  TemplateCTAType
 } from './cta-library';
+import { HookType, CTAType, EmotionalTrigger, FormatPattern } from './types/social-media';
+import { GENERATE_LINKEDIN_PROMPT, GENERATE_TWITTER_PROMPT } from './prompt-templates';
+import { DEFAULT_MODEL, type OpenRouterMessage } from './openrouter';
+import { s } from './schema';
+import type { SchemaIssue } from './schema';
+import { generateStructured, StructuredOutputError } from './structured-output';
+import { findBestMatch, getFormatById, renderFormatTemplate } from './format-learner';
+import {
+  templateSlots,
+  TemplateSyntaxError,
+  type SlotViolation,
+  type TemplateBindings,
+  type TemplateRenderResult
+} from './template-engine';
+import { composeThread } from './thread-composer';
+import {
+  LINKEDIN_MAX_LENGTH,
+  measureText,
+  truncateTweet,
+  tweetLength,
+  TWEET_MAX_LENGTH,
+  type TextMetrics
+} from './text-metrics';
 
 export type Platform = 'linkedin' | 'twitter';
 export type Tone = 'professional' | 'casual' | 'bold';
@@ -33,10 +60,14 @@ export interface GeneratePostOptions {
   topic: string;
   platform: Platform;
   formatId?: string;
+  /** Learned format to lay a template-mode post out with; resolve `formatId` with getFormatById */
+  format?: FormatPattern;
   tone?: Tone;
   targetAudience?: string;
   hookType?: HookType;
   ctaType?: CTAType;
+  /** Emotion the post should lean on; template mode adds an angle line after the hook */
+  focusEmotion?: EmotionalTrigger;
   keyPoints?: string[];
   maxLength?: number;
   includeEmojis?: boolean;
@@ -56,6 +87,41 @@ export interface GeneratedContent {
   suggestions: string[];
   isThread?: boolean;
   threadContent?: string[];
+  /** Template-mode parts whose template could not be filled, and what was wrong with them */
+  templateReport?: TemplateReport;
+}
+
+export interface TemplateFillReport {
+  missing: string[];
+  invalid: SlotViolation[];
+}
+
+export type TemplateReport = Partial<Record<'hook' | 'cta' | 'format', TemplateFillReport>>;
+
+export type GenerationMode = 'template' | 'llm';
+
+export interface LLMGeneratePostOptions extends GeneratePostOptions {
+  model?: string;
+}
+
+export interface LLMGeneratedContent extends GeneratedContent {
+  format: { id: string; name: string; matchScore?: number };
+  model: string;
+  validation: ContentValidation;
+}
+
+export class FormatNotFoundError extends Error {
+  constructor(public formatId: string) {
+    super(`Format not found: ${formatId}`);
+    this.name = 'FormatNotFoundError';
+  }
+}
+
+export class ContentGenerationError extends Error {
+  constructor(message: string, public rawResponse?: string, public issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'ContentGenerationError';
+  }
 }
 
 export interface ContentValidation {
@@ -63,27 +129,73 @@ export interface ContentValidation {
   errors: string[];
   warnings: string[];
   score: number;
+  /** Lengths as the platform counts them, and LinkedIn's "see more" fold */
+  metrics: TextMetrics;
 }
 
 const PLATFORM_LIMITS = {
   linkedin: {
     optimal: 1500,
-    max: 3000,
+    max: LINKEDIN_MAX_LENGTH,
     min: 100
   },
   twitter: {
     optimal: 240,
-    max: 280,
+    max: TWEET_MAX_LENGTH,
     min: 20
   }
 };
 
+// Opening angle per emotion, worded with the trigger words analyzePost looks for
+const EMOTION_ANGLES: Record<EmotionalTrigger, (topic: string) => string> = {
+  [EmotionalTrigger.CURIOSITY]: topic => `Here's the part of ${topic} nobody knows about.`,
+  [EmotionalTrigger.FEAR]: topic => `Careful: the costliest ${topic} mistake is the one you can't see.`,
+  [EmotionalTrigger.EXCITEMENT]: topic => `What's happening in ${topic} right now is a game-changer.`,
+  [EmotionalTrigger.VALIDATION]: topic => `If ${topic} feels hard, you're not alone.`,
+  [EmotionalTrigger.SURPRISE]: topic => `The most surprising thing about ${topic}? The basics still win.`,
+  [EmotionalTrigger.ANGER]: topic => `Most ${topic} advice is ridiculous, and it costs people real results.`,
+  [EmotionalTrigger.NOSTALGIA]: topic => `Remember when ${topic} was simple? It still can be.`,
+  [EmotionalTrigger.INSPIRATION]: topic => `You can do it: ${topic} rewards the people who keep going.`,
+  [EmotionalTrigger.FRUSTRATION]: topic => `Tired of ${topic} advice that never works?`,
+  [EmotionalTrigger.HOPE]: topic => `The opportunity in ${topic} has never been bigger.`,
+  [EmotionalTrigger.URGENCY]: topic => `Start today: every week you wait on ${topic} costs you.`,
+  [EmotionalTrigger.FOMO]: topic => `Everyone is rethinking ${topic}. Don't miss why.`
+};
+
+// Slot values for each library template (see ./hooks-library, ./cta-library)
+const HOOK_BINDINGS: Record<TemplateHookType, (topic: string) => TemplateBindings> = {
+  [HookType.QUESTION]: topic => ({ X: `${topic} the hard way`, Y: 'learn from people who already did it' }),
+  [HookType.BOLD_STATEMENT]: topic => ({ X: `The old way of doing ${topic}` }),
+  [HookType.STORY]: topic => ({ time: 'years', X: topic }),
+  [HookType.LIST]: topic => ({ Number: Math.floor(Math.random() * 7) + 3, topic }),
+  [HookType.CONTROVERSIAL_TAKE]: topic => ({ statement: `Most advice about ${topic} is wrong.` }),
+  [HookType.HOW_TO]: topic => ({ 'achieved result': `got better at ${topic}`, timeframe: '90 days' }),
+  [HookType.MYTH_BUSTER]: topic => ({ 'Common belief': `"${capitalize(topic)} takes years to get right"` }),
+  [HookType.COUNTERINTUITIVE]: topic => ({
+    adjective: 'fastest',
+    goal: `get better at ${topic}`,
+    'counter-intuitive action': 'do less of it'
+  })
+};
+
+const CTA_BINDINGS: Record<TemplateCTAType, (topic: string) => TemplateBindings> = {
+  [CTAType.QUESTION_TO_AUDIENCE]: topic => ({ X: topic }),
+  [CTAType.ENGAGEMENT_BAIT]: () => ({ emoji: '🔥' }),
+  [CTAType.LINK]: () => ({}),
+  [CTAType.SAVE_FOR_LATER]: () => ({}),
+  [CTAType.FOLLOW_UP]: topic => ({ topic }),
+  [CTAType.SHARE]: () => ({}),
+  [CTAType.COMMENT_PROMPT]: topic => ({ keyword: `"${ctaKeyword(topic)}"`, resource: `my ${topic} checklist` }),
+  [CTAType.DEBATE]: () => ({}),
+  [CTAType.SOFT_SELL]: topic => ({ result: `better ${topic} results`, KEYWORD: ctaKeyword(topic) })
+};
+
 const PLATFORM_CONFIGS = {
   linkedin: {
     emojiLimit: 4,
     hashtagRange: [3, 5] as [number, number],
-    preferredHooks: ['story', 'listicle', 'bold_statement', 'counterintuitive'] as HookType[],
-    preferredCTAs: ['question', 'comment', 'save', 'share'] as CTAType[],
+    preferredHooks: [HookType.STORY, HookType.LIST, HookType.BOLD_STATEMENT, HookType.COUNTERINTUITIVE] as TemplateHookType[],
+    preferredCTAs: [CTAType.QUESTION_TO_AUDIENCE, CTAType.COMMENT_PROMPT, CTAType.SAVE_FOR_LATER, CTAType.SHARE] as TemplateCTAType[],
     lineBreakStyle: 'double',
     toneModifiers: {
       professional: 'Use industry terminology, data-backed insights, and a thought leadership voice.',
@@ -94,8 +206,8 @@ const PLATFORM_CONFIGS = {
   twitter: {
     emojiLimit: 2,
     hashtagRange: [1, 3] as [number, number],
-    preferredHooks: ['question', 'bold_statement', 'controversial'] as HookType[],
-    preferredCTAs: ['engagement', 'debate', 'follow'] as CTAType[],
+    preferredHooks: [HookType.QUESTION, HookType.BOLD_STATEMENT, HookType.CONTROVERSIAL_TAKE] as TemplateHookType[],
+    preferredCTAs: [CTAType.ENGAGEMENT_BAIT, CTAType.DEBATE, CTAType.FOLLOW_UP] as TemplateCTAType[],
     lineBreakStyle: 'single',
     toneModifiers: {
       professional: 'Be concise and authoritative.',
@@ -109,11 +221,12 @@ export function generatePost(options: GeneratePostOptions): GeneratedContent {
   const {
     topic,
     platform,
-    formatId,
+    format,
     tone = 'professional',
     targetAudience,
     hookType,
     ctaType,
+    focusEmotion,
     keyPoints = [],
     maxLength,
     includeEmojis = true,
@@ -124,25 +237,55 @@ export function generatePost(options: GeneratePostOptions): GeneratedContent {
   const limits = PLATFORM_LIMITS[platform];
   const targetLength = maxLength || limits.optimal;
 
-  const hook = selectHook(platform, hookType);
-  const cta = selectCTA(platform, ctaType);
-  
-  const hookText = generateHookContent(hook, topic, tone);
+  const hook = selectHook(platform, hookType ?? format?.hookType);
+  const cta = selectCTA(platform, ctaType ?? format?.ctaType);
+  const report: TemplateReport = {};
+  
+  const hookText = fillTemplate(
+    formatHookTemplate(hook.template, HOOK_BINDINGS[hook.type](topic)),
+    () => getHookExample(hook.type),
+    'hook',
+    report
+  );
+  const opening = focusEmotion
+    ? `${hookText}${platform === 'linkedin' ? '\n\n' : ' '}${EMOTION_ANGLES[focusEmotion](topic)}`
+    : hookText;
   const bodyContent = generateBodyContent(topic, keyPoints, tone, platform, config);
-  const ctaText = generateCTAContent(cta, topic);
+  const ctaText = fillTemplate(
+    formatCTATemplate(cta.template, CTA_BINDINGS[cta.type](topic)),
+    () => getCTAExample(cta.type),
+    'cta',
+    report
+  );
   
   const hashtags = includeHashtags ? generateHashtags(topic, platform) : [];
   
-  let content = assembleContent(hookText, bodyContent, ctaText, platform, config, includeEmojis);
-  
-  if (platform === 'twitter' && content.length > limits.max) {
-    const threadResult = convertToThread(content, topic);
+  const formatted = format && applyFormatTemplate(format, {
+    topic,
+    hook: opening,
+    points: keyPoints.length > 0 ? keyPoints : generateDefaultPoints(topic, 3),
+    cta: ctaText
+  }, report);
+  let content = formatted ?? assembleContent(opening, bodyContent, ctaText, platform, config, includeEmojis);
+  const templateReport = Object.keys(report).length > 0 ? { templateReport: report } : {};
+  
+  if (platform === 'twitter' && tweetLength(content) > limits.max) {
+    const thread = composeThread(formatted ?? `${opening}\n\n${bodyContent.trim()}`, { cta: formatted ? undefined : ctaText, hashtags });
+    const threadContent = thread.tweets.map(tweet => tweet.text);
     return {
-      ...threadResult,
+      content: threadContent[0],
+      hook: thread.hook,
+      cta: thread.cta,
       platform,
-      hashtags,
+      characterCount: thread.tweets[0].length,
+      wordCount: threadContent.join(' ').split(/\s+/).length,
+      hashtags: thread.hashtags,
+      estimatedReadTime: calculateReadTime(threadContent.join(' ')),
       viralScore: calculateViralScore(content, platform),
-      suggestions: generateSuggestions(content, platform)
+      suggestions: [...thread.validation.errors, ...thread.validation.warnings, ...generateSuggestions(content, platform)],
+      isThread: true,
+      threadContent,
+      ...templateReport
     };
   }
 
@@ -153,18 +296,157 @@ export function generatePost(options: GeneratePostOptions): GeneratedContent {
     hook: hookText,
     cta: ctaText,
     platform,
-    characterCount: content.length,
+    characterCount: measureText(content, platform).length,
     wordCount: content.split(/\s+/).length,
     hashtags,
     estimatedReadTime: calculateReadTime(content),
     viralScore: calculateViralScore(content, platform),
-    suggestions: generateSuggestions(content, platform)
+    suggestions: generateSuggestions(content, platform),
+    ...templateReport
+  };
+}
+
+/**
+ * Generates a post with the LLM, following a learned format.
+ *
+ * The format is looked up by `formatId`, or picked with findBestMatch when
+ * none is given. Hook and CTA default to the format's own types.
+ *
+ * @throws FormatNotFoundError if `formatId` does not exist
+ * @throws ContentGenerationError if the model reply is not usable JSON
+ */
+export async function generatePostWithLLM(options: LLMGeneratePostOptions): Promise<LLMGeneratedContent> {
+  const {
+    topic,
+    platform,
+    formatId,
+    tone = 'professional',
+    targetAudience,
+    keyPoints,
+    includeHashtags = true,
+    model = DEFAULT_MODEL
+  } = options;
+
+  const { format, matchScore } = await resolveFormat(topic, platform, formatId, options);
+  const hook = selectHook(platform, options.hookType ?? format.hookType);
+  const cta = selectCTA(platform, options.ctaType ?? format.ctaType);
+
+  const promptParams = {
+    topic,
+    platform,
+    tone,
+    targetAudience,
+    hook,
+    cta,
+    focusEmotion: options.focusEmotion,
+    keyPoints: keyPoints?.length ? keyPoints : undefined,
+    format,
+    toneGuidance: PLATFORM_CONFIGS[platform].toneModifiers[tone]
+  };
+  const prompt = platform === 'linkedin'
+    ? GENERATE_LINKEDIN_PROMPT(promptParams)
+    : GENERATE_TWITTER_PROMPT(promptParams);
+
+  const reply = await generateReply(
+    [
+      { role: 'system', content: 'You are an expert social media ghostwriter. Reply with a single JSON object and nothing else.' },
+      { role: 'user', content: prompt }
+    ],
+    model
+  );
+  const threadContent = reply.threadContent?.filter(t => t.trim().length > 0);
+  const content = (reply.content || threadContent?.join('\n\n') || '').trim();
+
+  const hashtags = reply.hashtags.map(t => (t.startsWith('#') ? t : `#${t}`));
+
+  return {
+    content,
+    hook: reply.hook || content.split('\n')[0],
+    cta: reply.cta || '',
+    platform,
+    characterCount: measureText(content, platform).length,
+    wordCount: content.split(/\s+/).length,
+    hashtags: includeHashtags ? hashtags : [],
+    estimatedReadTime: calculateReadTime(content),
+    viralScore: calculateViralScore(content, platform),
+    suggestions: generateSuggestions(content, platform),
+    ...(platform === 'twitter' && reply.isThread && threadContent?.length
+      ? { isThread: true, threadContent }
+      : {}),
+    format: { id: format.id, name: format.name, matchScore },
+    model,
+    validation: validateContent(content, platform)
   };
 }
 
+/**
+ * Looks up a learned format for `generatePost`'s `format` option.
+ *
+ * @throws FormatNotFoundError if `formatId` does not exist
+ */
+export async function requireFormat(formatId: string): Promise<FormatPattern> {
+  const format = await getFormatById(formatId);
+  if (!format) throw new FormatNotFoundError(formatId);
+  return format;
+}
+
+async function resolveFormat(
+  topic: string,
+  platform: Platform,
+  formatId: string | undefined,
+  options: GeneratePostOptions
+): Promise<{ format: FormatPattern; matchScore?: number }> {
+  if (formatId) {
+    return { format: await requireFormat(formatId) };
+  }
+
+  const [match] = await findBestMatch(topic, platform, {
+    preferredHook: options.hookType,
+    preferredCTA: options.ctaType,
+    limit: 1
+  });
+  const format = match && (await getFormatById(match.formatId));
+  if (!match || !format) {
+    throw new ContentGenerationError(`No format available for ${platform}`);
+  }
+  return { format, matchScore: match.matchScore };
+}
+
+const generationReplySchema = s.object({
+  content: s.string().default(''),
+  hook: s.string().optional(),
+  cta: s.string().optional(),
+  hashtags: s.array(s.string()).default([]),
+  isThread: s.boolean().default(false),
+  threadContent: s.array(s.string()).optional()
+}).refine(
+  reply => reply.content.trim().length > 0 || (reply.threadContent ?? []).some(t => t.trim().length > 0),
+  'Reply must include content or threadContent'
+);
+
+async function generateReply(messages: OpenRouterMessage[], model: string) {
+  try {
+    const { data } = await generateStructured({
+      messages,
+      schema: generationReplySchema,
+      schemaName: 'generated_post',
+      model,
+      temperature: 0.8,
+      maxTokens: 2000
+    });
+    return data;
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw new ContentGenerationError(error.message, error.rawResponse, error.issues);
+    }
+    throw error;
+  }
+}
+
 function selectHook(platform: Platform, preferredType?: HookType): HookTemplate {
-  if (preferredType) {
-    return hookTemplates[preferredType];
+  const preferred = preferredType && getHookByType(preferredType);
+  if (preferred) {
+    return preferred;
   }
   
   const config = PLATFORM_CONFIGS[platform];
@@ -174,35 +456,67 @@ function selectHook(platform: Platform, preferredType?: HookType): HookTemplate
 }
 
 function selectCTA(platform: Platform, preferredType?: CTAType): CTATemplate {
-  if (preferredType) {
-    return ctaTemplates[preferredType];
+  const preferred = preferredType && getCTAByType(preferredType);
+  if (preferred) {
+    return preferred;
   }
   
   return getRecommendedCTA(platform);
 }
 
-function generateHookContent(hook: HookTemplate, topic: string, tone: Tone): string {
-  const example = getHookExample(hook.type);
-  
-  if (hook.type === 'story') {
-    return example.replace(/\[time\]/, 'years').replace(/\[X\]/, `learning about ${topic}`);
-  }
-  
-  if (hook.type === 'listicle') {
-    const number = Math.floor(Math.random() * 7) + 3;
-    return `${number} things I wish I knew about ${topic}:`;
+/**
+ * Returns the rendered text, or the fallback when slots are missing or
+ * invalid, recording what was wrong under `part`.
+ */
+function fillTemplate(
+  result: TemplateRenderResult,
+  fallback: () => string,
+  part: keyof TemplateReport,
+  report: TemplateReport
+): string {
+  if (result.complete) {
+    return result.text;
   }
-  
-  if (hook.type === 'bold_statement') {
-    const statements = [
-      `Most advice about ${topic} is wrong.`,
-      `The old way of doing ${topic} is dead.`,
-      `Everyone's doing ${topic} backwards.`
-    ];
-    return statements[Math.floor(Math.random() * statements.length)];
+  report[part] = { missing: result.missing, invalid: result.invalid };
+  return fallback();
+}
+
+/**
+ * Lays the post out with a learned format's template. Slots named like the
+ * generated parts (topic, hook, point/points, body, cta) are filled; a
+ * template with any other required slot is reported and left unused.
+ */
+function applyFormatTemplate(
+  format: FormatPattern,
+  parts: { topic: string; hook: string; points: string[]; cta: string },
+  report: TemplateReport
+): string | undefined {
+  const values: TemplateBindings = {
+    topic: parts.topic,
+    hook: parts.hook,
+    point: parts.points,
+    points: parts.points,
+    body: parts.points.join('\n\n'),
+    cta: parts.cta,
+    calltoaction: parts.cta
+  };
+
+  try {
+    const bindings: TemplateBindings = {};
+    for (const slot of templateSlots(format.template)) {
+      const value = values[slot.name.toLowerCase().replace(/[^a-z]/g, '')];
+      if (value !== undefined) bindings[slot.name] = value;
+    }
+    const result = renderFormatTemplate(format, bindings);
+    if (result.complete) {
+      return result.text;
+    }
+    report.format = { missing: result.missing, invalid: result.invalid };
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    report.format = { missing: [], invalid: [{ slot: 'template', value: '', reason: error.message }] };
   }
-  
-  return example;
+  return undefined;
 }
 
 function generateBodyContent(
@@ -268,8 +582,12 @@ function generateDefaultPoints(topic: string, count: number): string[] {
   return templates.slice(0, count);
 }
 
-function generateCTAContent(cta: CTATemplate, topic: string): string {
-  return getCTAExample(cta.type);
+function ctaKeyword(topic: string): string {
+  return (topic.trim().split(/\s+/)[0] || 'YES').toUpperCase().slice(0, 20);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
 function assembleContent(
@@ -337,43 +655,6 @@ function generateHashtags(topic: string, platform: Platform): string[] {
   return hashtags;
 }
 
-function convertToThread(content: string, topic: string): GeneratedContent {
-  const sentences = content.match(/[^.!?]+[.!?]+/g) || [content];
-  const tweets: string[] = [];
-  let currentTweet = '';
-  
-  sentences.forEach(sentence => {
-    if ((currentTweet + sentence).length <= 270) {
-      currentTweet += sentence;
-    } else {
-      if (currentTweet) tweets.push(currentTweet.trim());
-      currentTweet = sentence;
-    }
-  });
-  
-  if (currentTweet) tweets.push(currentTweet.trim());
-  
-  const numberedTweets = tweets.map((tweet, i) => {
-    const prefix = i === 0 ? '' : `${i + 1}/${tweets.length} `;
-    return prefix + tweet;
-  });
-  
-  return {
-    content: numberedTweets[0],
-    hook: numberedTweets[0].split(' ').slice(0, 10).join(' '),
-    cta: numberedTweets[numberedTweets.length - 1],
-    platform: 'twitter',
-    characterCount: numberedTweets[0].length,
-    wordCount: numberedTweets.join(' ').split(/\s+/).length,
-    hashtags: [],
-    estimatedReadTime: calculateReadTime(numberedTweets.join(' ')),
-    viralScore: 70,
-    suggestions: ['Thread created for longer content'],
-    isThread: true,
-    threadContent: numberedTweets
-  };
-}
-
 export function applyFormat(content: string, format: ContentFormat): string {
   let formatted = content;
   
@@ -416,8 +697,8 @@ function optimizeTwitterFormatting(content: string): string {
 function ensureOptimalLength(content: string, target: number, platform: Platform): string {
   const limits = PLATFORM_LIMITS[platform];
   
-  if (platform === 'twitter' && content.length > limits.max) {
-    return content.substring(0, limits.max - 3) + '...';
+  if (platform === 'twitter') {
+    return truncateTweet(content, limits.max);
   }
   
   return content;
@@ -454,28 +735,33 @@ export function validateContent(content: string, platform: Platform): ContentVal
   const errors: string[] = [];
   const warnings: string[] = [];
   const limits = PLATFORM_LIMITS[platform];
+  const metrics = measureText(content, platform);
   
-  if (content.length < limits.min) {
-    errors.push(`Content too short (${content.length} chars). Minimum: ${limits.min}`);
+  if (metrics.length < limits.min) {
+    errors.push(`Content too short (${metrics.length} chars). Minimum: ${limits.min}`);
   }
   
-  if (content.length > limits.max) {
-    errors.push(`Content too long (${content.length} chars). Maximum: ${limits.max}`);
+  if (metrics.length > limits.max) {
+    errors.push(`Content too long (${metrics.length} chars). Maximum: ${limits.max}`);
   }
   
   if (!content.trim()) {
     errors.push('Content is empty');
   }
   
-  if (platform === 'twitter' && content.length > 250 && content.length <= 280) {
+  if (platform === 'twitter' && metrics.length > 250 && metrics.length <= limits.max) {
     warnings.push('Content is near character limit');
   }
   
-  const emojiRegex = /[\uD83C-\uDBFF\uDC00-\uDFFF\u2600-\u27BF]/g;
-  const emojiCount = (content.match(emojiRegex) || []).length;
   const config = PLATFORM_CONFIGS[platform];
-  if (emojiCount > config.emojiLimit) {
-    warnings.push(`Too many emojis (${emojiCount}). Recommended: ${config.emojiLimit}`);
+  if (metrics.emoji > config.emojiLimit) {
+    warnings.push(`Too many emojis (${metrics.emoji}). Recommended: ${config.emojiLimit}`);
+  }
+  
+  // The hook has to survive the "…see more" cut, and mobile cuts first
+  const firstLine = content.trim().split('\n')[0];
+  if (metrics.fold?.mobile.truncated && firstLine && !metrics.fold.mobile.visible.includes(firstLine)) {
+    warnings.push(`First line is cut off by "…see more" on mobile; readers only see "${metrics.fold.mobile.visible}"`);
   }
   
   if (platform === 'linkedin') {
@@ -491,7 +777,8 @@ export function validateContent(content: string, platform: Platform): ContentVal
     isValid: errors.length === 0,
     errors,
     warnings,
-    score
+    score,
+    metrics
   };
 }
 
@@ -549,6 +836,7 @@ function calculateReadTime(content: string): string {
 
 function generateSuggestions(content: string, platform: Platform): string[] {
   const suggestions: string[] = [];
+  const { length } = measureText(content, platform);
   
   if (platform === 'linkedin') {
     if (!content.includes('\n\n')) {
@@ -557,13 +845,13 @@ function generateSuggestions(content: string, platform: Platform): string[] {
     if (!content.match(/^\d+\./m)) {
       suggestions.push('Consider using numbered points for clarity');
     }
-    if (content.length < 500) {
+    if (length < 500) {
       suggestions.push('Content could be expanded for more engagement');
     }
   }
   
   if (platform === 'twitter') {
-    if (content.length > 250) {
+    if (length > 250) {
       suggestions.push('Content is close to limit - consider shortening');
     }
   }
@@ -0,0 +1,304 @@
+/**
+ * Content Variations
+ *
+ * Generates several drafts for one topic and format, each pairing a
+ * different hook type from the hook library with a different emotional
+ * trigger. Drafts are scored with analyzePost and returned ranked, each
+ * with what sets it apart from the best one and the lines no other draft
+ * has.
+ *
+ * Near-identical drafts (word trigram Jaccard similarity at or above
+ * `maxSimilarity`) count once: the better-scoring one is kept and unused
+ * hook/emotion pairs are tried in its place.
+ */
+
+import {
+  generatePost,
+  generatePostWithLLM,
+  getPlatformConfig,
+  requireFormat,
+  validateContent,
+  type ContentValidation,
+  type GeneratedContent,
+  type GeneratePostOptions,
+  type GenerationMode,
+  type LLMGeneratedContent,
+} from './content-generator'
+import { hookTemplates, type HookTemplate, type TemplateHookType } from './hooks-library'
+import { HOOK_LABELS } from './taxonomy'
+import { analyzePost } from './viral-analyzer'
+import { getViralityModel } from './virality-calibration'
+import { loadPatternCatalog } from './pattern-registry'
+import { ContentVariation, EmotionalTrigger } from './types/social-media'
+
+/** One variant per hook template at most when hooks must differ */
+export const MAX_VARIANTS = Object.keys(hookTemplates).length
+
+export const DEFAULT_MAX_SIMILARITY = 0.8
+
+export interface DiversityConstraint {
+  /** Every variant uses a different hook type (default true) */
+  distinctHooks?: boolean
+  /** Every variant leans on a different emotion (default true) */
+  distinctEmotions?: boolean
+  /** Drafts at least this similar (0-1) are duplicates (default DEFAULT_MAX_SIMILARITY) */
+  maxSimilarity?: number
+}
+
+export interface VariationRequest extends Omit<GeneratePostOptions, 'hookType' | 'focusEmotion'> {
+  variants: number
+  mode?: GenerationMode
+  model?: string
+  diversity?: DiversityConstraint
+  /** Pattern packs the drafts are scored with (see ./pattern-registry) */
+  workspace?: string
+}
+
+export interface RankedVariation extends ContentVariation {
+  /** 1 is the best predicted performer */
+  rank: number
+  viralityScore: number
+  hook: string
+  cta: string
+  hashtags: string[]
+  /** Whether analyzePost detected the focus emotion in the draft */
+  emotionDetected: boolean
+  /** Lines that appear in no other variant */
+  distinctLines: string[]
+  /** How the variant differs from the top-ranked one */
+  differences: string[]
+  validation: ContentValidation
+  isThread?: boolean
+  threadContent?: string[]
+}
+
+export interface VariationSet {
+  requested: number
+  variations: RankedVariation[]
+  /** Drafts dropped as near-duplicates of a better one */
+  duplicatesDropped: number
+  /** The learned format the drafts follow */
+  format?: { id: string; name: string; matchScore?: number }
+  model?: string
+}
+
+export class VariationRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VariationRequestError'
+  }
+}
+
+type Draft = Omit<RankedVariation, 'rank' | 'distinctLines' | 'differences'>
+
+interface Plan {
+  hookType: TemplateHookType
+  focusEmotion: EmotionalTrigger
+}
+
+// The trigger each hook template naturally plays on
+const HOOK_EMOTION: Record<HookTemplate['emotionTrigger'], EmotionalTrigger> = {
+  curiosity: EmotionalTrigger.CURIOSITY,
+  shock: EmotionalTrigger.SURPRISE,
+  relatability: EmotionalTrigger.VALIDATION,
+  fear: EmotionalTrigger.FEAR,
+  excitement: EmotionalTrigger.EXCITEMENT,
+}
+
+/**
+ * Generates `variants` drafts spanning different hooks and emotions,
+ * ranked by predicted virality.
+ *
+ * @throws VariationRequestError when the request cannot be satisfied
+ * @throws FormatNotFoundError, ContentGenerationError in LLM mode
+ */
+export async function generateVariations(request: VariationRequest): Promise<VariationSet> {
+  const { variants, mode = 'template', diversity = {}, workspace, ...base } = request
+  const distinctHooks = diversity.distinctHooks ?? true
+  const distinctEmotions = diversity.distinctEmotions ?? true
+  const maxSimilarity = diversity.maxSimilarity ?? DEFAULT_MAX_SIMILARITY
+
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    throw new VariationRequestError(`variants must be an integer from 1 to ${MAX_VARIANTS}.`)
+  }
+  if (!(maxSimilarity > 0 && maxSimilarity <= 1)) {
+    throw new VariationRequestError('maxSimilarity must be above 0 and at most 1.')
+  }
+
+  const plans = planVariations(base.platform, variants, distinctHooks, distinctEmotions)
+  const [viralityModel, patterns] = await Promise.all([getViralityModel(), loadPatternCatalog(workspace)])
+  const learned = mode === 'template' && base.formatId ? await requireFormat(base.formatId) : undefined
+  let format: VariationSet['format'] = learned && { id: learned.id, name: learned.name }
+  let model: string | undefined
+
+  const generate = async (plan: Plan): Promise<Draft> => {
+    const options = { ...base, hookType: plan.hookType, focusEmotion: plan.focusEmotion }
+    const generated: GeneratedContent & Partial<LLMGeneratedContent> = mode === 'llm'
+      ? await generatePostWithLLM({ ...options, formatId: options.formatId ?? format?.id, model: request.model })
+      : generatePost({ ...options, format: learned })
+    format ??= generated.format
+    model ??= generated.model
+
+    const text = generated.threadContent?.join('\n\n') ?? generated.content
+    const analysis = analyzePost(
+      {
+        id: `variant-${plan.hookType}-${plan.focusEmotion}`,
+        platform: base.platform,
+        content: text,
+        metrics: { likes: 0, comments: 0, shares: 0 },
+        createdAt: new Date().toISOString(),
+      },
+      { model: viralityModel, patterns }
+    )
+
+    return {
+      content: generated.content,
+      hookType: plan.hookType,
+      focusEmotion: plan.focusEmotion,
+      viralityScore: analysis.viralityScore,
+      hook: generated.hook,
+      cta: generated.cta,
+      hashtags: generated.hashtags,
+      emotionDetected: analysis.viralSignals.emotionalTriggers.includes(plan.focusEmotion),
+      validation: generated.validation ?? validateContent(generated.content, base.platform),
+      ...(generated.isThread ? { isThread: true, threadContent: generated.threadContent } : {}),
+    }
+  }
+
+  const kept: Draft[] = []
+  let duplicatesDropped = 0
+  let next = 0
+
+  // An LLM run resolves the format once, so every variant follows the same one
+  if (mode === 'llm' && !base.formatId && plans.length > 0) {
+    kept.push(await generate(plans[next++]))
+  }
+
+  while (kept.length < variants && next < plans.length) {
+    const batch = plans.slice(next, next + variants - kept.length)
+    next += batch.length
+    const drafts = await Promise.all(batch.map(generate))
+
+    for (const draft of drafts) {
+      const duplicate = kept.findIndex((other) => draftSimilarity(textOf(other), textOf(draft)) >= maxSimilarity)
+      if (duplicate === -1) {
+        kept.push(draft)
+        continue
+      }
+      duplicatesDropped++
+      if (draft.viralityScore > kept[duplicate].viralityScore) kept[duplicate] = draft
+    }
+  }
+
+  return {
+    requested: variants,
+    variations: rankVariations(kept),
+    duplicatesDropped,
+    ...(format ? { format } : {}),
+    ...(model ? { model } : {}),
+  }
+}
+
+/**
+ * Word trigram Jaccard similarity, 0-1. Drafts under three words compare
+ * as whole word sets.
+ */
+export function draftSimilarity(a: string, b: string): number {
+  const [left, right] = [shingles(a), shingles(b)]
+  if (left.size === 0 && right.size === 0) return 1
+
+  let shared = 0
+  for (const shingle of left) {
+    if (right.has(shingle)) shared++
+  }
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Hook/emotion pairs in the order to try them: the platform's preferred
+ * hooks first, each with its natural emotion unless that one is taken.
+ * Holds spare pairs beyond `variants` to replace duplicates.
+ */
+function planVariations(
+  platform: GeneratePostOptions['platform'],
+  variants: number,
+  distinctHooks: boolean,
+  distinctEmotions: boolean
+): Plan[] {
+  const preferred = getPlatformConfig(platform).preferredHooks
+  const hooks = [
+    ...preferred,
+    ...(Object.keys(hookTemplates) as TemplateHookType[]).filter((type) => !preferred.includes(type)),
+  ]
+  const emotions = Object.values(EmotionalTrigger)
+  const count = distinctHooks ? hooks.length : variants * 2
+  const usedEmotions = new Set<EmotionalTrigger>()
+
+  return Array.from({ length: count }, (_, i) => {
+    const hookType = hooks[i % hooks.length]
+    const natural = HOOK_EMOTION[hookTemplates[hookType].emotionTrigger]
+    const candidates = [natural, ...emotions.filter((emotion) => emotion !== natural)]
+    const focusEmotion = distinctEmotions
+      ? candidates.find((emotion) => !usedEmotions.has(emotion)) ?? emotions[i % emotions.length]
+      : i < hooks.length ? natural : emotions[i % emotions.length]
+    usedEmotions.add(focusEmotion)
+    return { hookType, focusEmotion }
+  })
+}
+
+function rankVariations(drafts: Draft[]): RankedVariation[] {
+  const ranked = [...drafts].sort((a, b) =>
+    b.viralityScore - a.viralityScore || b.validation.score - a.validation.score
+  )
+  const lineSets = ranked.map((draft) => new Set(linesOf(draft)))
+  const [top] = ranked
+
+  return ranked.map((draft, i) => {
+    const others = lineSets.filter((_, j) => j !== i)
+    const distinctLines = [...lineSets[i]].filter((line) => !others.some((set) => set.has(line)))
+
+    const differences: string[] = []
+    if (i === 0) {
+      differences.push(`Highest predicted virality (${draft.viralityScore})`)
+    } else {
+      if (draft.hookType !== top.hookType) {
+        differences.push(`Opens with ${HOOK_LABELS[draft.hookType]} instead of ${HOOK_LABELS[top.hookType]}`)
+      }
+      if (draft.focusEmotion !== top.focusEmotion) {
+        differences.push(`Leans on ${draft.focusEmotion} instead of ${top.focusEmotion}`)
+      }
+      const gap = Math.round((top.viralityScore - draft.viralityScore) * 10) / 10
+      if (gap > 0) differences.push(`${gap} point${gap === 1 ? '' : 's'} below #1`)
+    }
+    if (!draft.emotionDetected) {
+      differences.push(`The ${draft.focusEmotion} angle did not register in analysis`)
+    }
+    if (!draft.validation.isValid) {
+      differences.push(`Fails validation: ${draft.validation.errors.join('; ')}`)
+    }
+
+    return { ...draft, rank: i + 1, distinctLines, differences }
+  })
+}
+
+function textOf(draft: Draft): string {
+  return draft.threadContent?.join('\n') ?? draft.content
+}
+
+function linesOf(draft: Draft): string[] {
+  return textOf(draft)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []
+  if (words.length < 3) return new Set(words)
+
+  const result = new Set<string>()
+  for (let i = 0; i + 3 <= words.length; i++) {
+    result.add(words.slice(i, i + 3).join(' '))
+  }
+  return result
+}
@@ -1,15 +1,19 @@
-export type CTAType = 'question' | 'engagement' | 'link' | 'save' | 'follow' | 'share' | 'comment' | 'debate';
+import { CTAType } from './types/social-media';
+import { renderTemplate, type TemplateBindings, type TemplateRenderResult } from './template-engine';
+
+/** CTA types that have a template in this library */
+export type TemplateCTAType = Exclude<CTAType, CTAType.NONE>;
 
 export interface CTATemplate {
-  type: CTAType;
+  type: TemplateCTAType;
   template: string;
   examples: string[];
   engagementLevel: 'low' | 'medium' | 'high';
 }
 
-export const ctaTemplates: Record<CTAType, CTATemplate> = {
-  question: {
-    type: 'question',
+export const ctaTemplates: Record<TemplateCTAType, CTATemplate> = {
+  [CTAType.QUESTION_TO_AUDIENCE]: {
+    type: CTAType.QUESTION_TO_AUDIENCE,
     template: "What's your experience with [X]?",
     examples: [
       "What's your experience with this approach?",
@@ -19,9 +23,9 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'high'
   },
-  engagement: {
-    type: 'engagement',
-    template: "Drop a [emoji] if you agree",
+  [CTAType.ENGAGEMENT_BAIT]: {
+    type: CTAType.ENGAGEMENT_BAIT,
+    template: "Drop a [emoji|enum=🔥,💡,❤️,👇,🙌] if you agree",
     examples: [
       "Drop a 🔥 if you agree",
       "Drop a 💡 if this was helpful",
@@ -30,8 +34,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'medium'
   },
-  link: {
-    type: 'link',
+  [CTAType.LINK]: {
+    type: CTAType.LINK,
     template: "Link in comments 👇",
     examples: [
       "Link in comments 👇",
@@ -41,8 +45,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'medium'
   },
-  save: {
-    type: 'save',
+  [CTAType.SAVE_FOR_LATER]: {
+    type: CTAType.SAVE_FOR_LATER,
     template: "Save this for later",
     examples: [
       "Save this for later 📌",
@@ -52,8 +56,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'low'
   },
-  follow: {
-    type: 'follow',
+  [CTAType.FOLLOW_UP]: {
+    type: CTAType.FOLLOW_UP,
     template: "Follow for more [topic] content",
     examples: [
       "Follow for more content like this",
@@ -63,8 +67,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'low'
   },
-  share: {
-    type: 'share',
+  [CTAType.SHARE]: {
+    type: CTAType.SHARE,
     template: "Share with someone who needs this",
     examples: [
       "Share with someone who needs to hear this",
@@ -74,8 +78,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'medium'
   },
-  comment: {
-    type: 'comment',
+  [CTAType.COMMENT_PROMPT]: {
+    type: CTAType.COMMENT_PROMPT,
     template: "Comment [keyword] and I'll send you [resource]",
     examples: [
       "Comment \"GUIDE\" and I'll send you the full PDF",
@@ -85,8 +89,8 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
     ],
     engagementLevel: 'high'
   },
-  debate: {
-    type: 'debate',
+  [CTAType.DEBATE]: {
+    type: CTAType.DEBATE,
     template: "Agree or disagree? Let's discuss.",
     examples: [
       "Agree or disagree? Let's discuss in the comments.",
@@ -95,20 +99,35 @@ export const ctaTemplates: Record<CTAType, CTATemplate> = {
       "Fight me on this in the comments."
     ],
     engagementLevel: 'high'
+  },
+  [CTAType.SOFT_SELL]: {
+    type: CTAType.SOFT_SELL,
+    template: "If you want [result], DM me \"[KEYWORD|max=20]\"",
+    examples: [
+      "If you want this set up for your team, DM me \"AGENT\"",
+      "Want help rolling this out? Connect with me and send a note.",
+      "If you want the same system, book a call (link in profile)",
+      "DM me \"PLAYBOOK\" and I'll walk you through it"
+    ],
+    engagementLevel: 'medium'
   }
 };
 
-export function getCTAByType(type: CTAType): CTATemplate {
-  return ctaTemplates[type];
+export function hasCTATemplate(type: CTAType): type is TemplateCTAType {
+  return type in ctaTemplates;
+}
+
+export function getCTAByType(type: CTAType): CTATemplate | undefined {
+  return hasCTATemplate(type) ? ctaTemplates[type] : undefined;
 }
 
 export function getRandomCTA(): CTATemplate {
-  const types = Object.keys(ctaTemplates) as CTAType[];
+  const types = Object.keys(ctaTemplates) as TemplateCTAType[];
   const randomType = types[Math.floor(Math.random() * types.length)];
   return ctaTemplates[randomType];
 }
 
-export function getCTAExample(type: CTAType): string {
+export function getCTAExample(type: TemplateCTAType): string {
   const cta = ctaTemplates[type];
   return cta.examples[Math.floor(Math.random() * cta.examples.length)];
 }
@@ -117,12 +136,12 @@ export function getCTAsByEngagement(level: CTATemplate['engagementLevel']): CTAT
   return Object.values(ctaTemplates).filter(c => c.engagementLevel === level);
 }
 
-export function formatCTATemplate(template: string, replacements: Record<string, string>): string {
-  let result = template;
-  Object.entries(replacements).forEach(([key, value]) => {
-    result = result.replace(`[${key}]`, value);
-  });
-  return result;
+/**
+ * Fills a template's slots, reporting any left unfilled, invalid or unused
+ * (see ./template-engine).
+ */
+export function formatCTATemplate(template: string, bindings: TemplateBindings): TemplateRenderResult {
+  return renderTemplate(template, bindings);
 }
 
 export function getHighEngagementCTAs(): CTATemplate[] {
@@ -131,11 +150,11 @@ export function getHighEngagementCTAs(): CTATemplate[] {
 
 export function getRecommendedCTA(platform: 'linkedin' | 'twitter'): CTATemplate {
   if (platform === 'linkedin') {
-    const linkedinCTAs: CTAType[] = ['question', 'comment', 'save', 'share'];
+    const linkedinCTAs: TemplateCTAType[] = [CTAType.QUESTION_TO_AUDIENCE, CTAType.COMMENT_PROMPT, CTAType.SAVE_FOR_LATER, CTAType.SHARE];
     const selectedType = linkedinCTAs[Math.floor(Math.random() * linkedinCTAs.length)];
     return ctaTemplates[selectedType];
   } else {
-    const twitterCTAs: CTAType[] = ['engagement', 'question', 'debate', 'follow'];
+    const twitterCTAs: TemplateCTAType[] = [CTAType.ENGAGEMENT_BAIT, CTAType.QUESTION_TO_AUDIENCE, CTAType.DEBATE, CTAType.FOLLOW_UP];
     const selectedType = twitterCTAs[Math.floor(Math.random() * twitterCTAs.length)];
     return ctaTemplates[selectedType];
   }
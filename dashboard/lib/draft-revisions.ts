@@ -0,0 +1,349 @@
+/**
+ * Draft Revisions
+ *
+ * Tracked history of a draft as it is refined. Each revision stores the full
+ * text, what produced it (the original text, a manual edit, an LLM
+ * refinement with its feedback and change list, or a revert), a word-level
+ * diff against the revision before it and analyzePost scores before and
+ * after, so a refinement that made the post worse is visible and can be
+ * reverted.
+ *
+ * Reverting never deletes history: it appends a revision with the older
+ * text.
+ *
+ * Storage: one KV entry per revision (`draft-revision:<draftId>:<number>`)
+ * and the latest revision number under `draft-revision-head:<draftId>`.
+ * Revisions are numbered from the head rather than by listing keys, since
+ * KV list results can lag recent writes by up to a minute. Revision 1 is
+ * the text the draft started from. KV has no compare-and-set, so two
+ * revisions appended to the same draft at the same moment can still get
+ * the same number; the later write wins.
+ */
+
+import { DEFAULT_MODEL } from './openrouter'
+import { REFINE_CONTENT_PROMPT } from './prompt-templates'
+import { loadPatternCatalog } from './pattern-registry'
+import { s } from './schema'
+import type { SchemaIssue } from './schema'
+import { getKVStore } from './storage'
+import { generateStructured, StructuredOutputError } from './structured-output'
+import { analyzePost } from './viral-analyzer'
+import { getViralityModel } from './virality-calibration'
+import { diffWords, wordDiffStats, type WordDiffOp, type WordDiffStats } from './word-diff'
+import type { Platform, ScoreComponentId } from './types/social-media'
+
+const REVISION_KEY_PREFIX = 'draft-revision:'
+const HEAD_KEY_PREFIX = 'draft-revision-head:'
+
+export type RevisionKind = 'original' | 'edit' | 'refinement' | 'revert'
+
+export interface RevisionScore {
+  viralityScore: number
+  method: 'calibrated' | 'heuristic'
+  /** Heuristic points per score component */
+  components: Partial<Record<ScoreComponentId, number>>
+}
+
+export interface DraftRevision {
+  id: string
+  draftId: string
+  /** 1-based, in the order revisions were made */
+  number: number
+  kind: RevisionKind
+  platform: Platform
+  content: string
+  /** Refinements: the feedback the model was given */
+  feedback?: string
+  /** Refinements: the changes the model reported making */
+  changes: string[]
+  improvementNotes?: string
+  model?: string
+  /** Reverts: the revision whose text was restored */
+  revertedTo?: number
+  /** Against the previous revision; revision 1 is all insertions */
+  diff: WordDiffOp[]
+  diffStats: WordDiffStats
+  scores: {
+    /** Score of the previous revision; null for revision 1 */
+    before: RevisionScore | null
+    after: RevisionScore
+  }
+  createdAt: string
+}
+
+/** Revision without its text and diff, for listings */
+export type DraftRevisionSummary = Omit<DraftRevision, 'content' | 'diff'> & {
+  characterCount: number
+}
+
+export interface RevisionComparison {
+  draftId: string
+  from: DraftRevision
+  to: DraftRevision
+  diff: WordDiffOp[]
+  diffStats: WordDiffStats
+  /** to minus from */
+  scoreDelta: number
+}
+
+export interface RefineDraftOptions {
+  feedback: string
+  platform: Platform
+  /** Continues this draft's history; a new draft is started when omitted */
+  draftId?: string
+  /**
+   * Text to refine. Required for a new draft; for an existing one it is
+   * recorded as a manual edit first when it differs from the latest revision.
+   */
+  content?: string
+  model?: string
+  /** Pattern packs the revisions are scored with (see ./pattern-registry) */
+  workspace?: string
+}
+
+export interface RefineDraftResult {
+  draftId: string
+  revision: DraftRevision
+  /** Set when `content` was recorded as an edit before refining */
+  edit?: DraftRevision
+}
+
+export class DraftRevisionNotFoundError extends Error {
+  constructor(public draftId: string, public number?: number) {
+    super(number === undefined ? `No revisions for draft: ${draftId}` : `Revision ${number} not found for draft: ${draftId}`)
+    this.name = 'DraftRevisionNotFoundError'
+  }
+}
+
+export class RefinementError extends Error {
+  constructor(message: string, public rawResponse?: string, public issues: SchemaIssue[] = []) {
+    super(message)
+    this.name = 'RefinementError'
+  }
+}
+
+const refineReplySchema = s.object({
+  refinedContent: s.string().refine((text) => text.trim().length > 0, 'refinedContent must not be empty'),
+  changes: s.array(s.string()).default([]),
+  improvementNotes: s.string().default(''),
+})
+
+/**
+ * Applies feedback to a draft with the LLM and records the result as a new
+ * revision.
+ *
+ * @throws DraftRevisionNotFoundError if `draftId` has no history and no `content` was given
+ * @throws RefinementError if the model reply is not usable JSON
+ */
+export async function refineDraft(options: RefineDraftOptions): Promise<RefineDraftResult> {
+  const draftId = options.draftId ?? crypto.randomUUID()
+  const model = options.model ?? DEFAULT_MODEL
+  let latest = options.draftId ? await getLatestRevision(options.draftId) : null
+  let edit: DraftRevision | undefined
+
+  if (!latest) {
+    if (options.content === undefined) throw new DraftRevisionNotFoundError(draftId)
+    latest = await appendRevision(null, { draftId, kind: 'original', platform: options.platform, content: options.content }, options.workspace)
+  } else if (options.content !== undefined && options.content !== latest.content) {
+    edit = latest = await appendRevision(latest, { draftId, kind: 'edit', platform: options.platform, content: options.content }, options.workspace)
+  }
+
+  let reply
+  try {
+    ;({ data: reply } = await generateStructured({
+      messages: [
+        { role: 'system', content: `You are an expert ${options.platform === 'linkedin' ? 'LinkedIn' : 'X (Twitter)'} ghostwriter. Reply with a single JSON object and nothing else.` },
+        { role: 'user', content: REFINE_CONTENT_PROMPT(latest.content, options.feedback, options.platform) },
+      ],
+      schema: refineReplySchema,
+      schemaName: 'refinement',
+      model,
+      temperature: 0.7,
+      maxTokens: 2000,
+    }))
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw new RefinementError(error.message, error.rawResponse, error.issues)
+    }
+    throw error
+  }
+
+  const revision = await appendRevision(latest, {
+    draftId,
+    kind: 'refinement',
+    platform: options.platform,
+    content: reply.refinedContent.trim(),
+    feedback: options.feedback,
+    changes: reply.changes.filter((change) => change.trim()),
+    improvementNotes: reply.improvementNotes || undefined,
+    model,
+  }, options.workspace)
+
+  return { draftId, revision, ...(edit ? { edit } : {}) }
+}
+
+/**
+ * Records text written outside the refine loop (e.g. a hand edit) as the
+ * draft's next revision. Starts the history when the draft has none.
+ * Returns the latest revision unchanged when the text is the same.
+ *
+ * @param workspace - Pattern packs to score with (default workspace when omitted)
+ */
+export async function recordRevision(
+  draftId: string,
+  content: string,
+  platform: Platform,
+  workspace?: string
+): Promise<DraftRevision> {
+  const latest = await getLatestRevision(draftId)
+  if (latest?.content === content) return latest
+  return appendRevision(latest, { draftId, kind: latest ? 'edit' : 'original', platform, content }, workspace)
+}
+
+/**
+ * Restores an earlier revision's text as a new revision.
+ *
+ * @param workspace - Pattern packs to score with (default workspace when omitted)
+ * @throws DraftRevisionNotFoundError if the draft or revision does not exist
+ */
+export async function revertDraft(draftId: string, number: number, workspace?: string): Promise<DraftRevision> {
+  const [target, latest] = await Promise.all([getRevision(draftId, number), getLatestRevision(draftId)])
+  if (!target || !latest) throw new DraftRevisionNotFoundError(draftId, number)
+
+  return appendRevision(latest, {
+    draftId,
+    kind: 'revert',
+    platform: target.platform,
+    content: target.content,
+    revertedTo: number,
+  }, workspace)
+}
+
+/**
+ * Diff and score change between any two revisions of a draft.
+ *
+ * @throws DraftRevisionNotFoundError if either revision does not exist
+ */
+export async function compareRevisions(draftId: string, from: number, to: number): Promise<RevisionComparison> {
+  const [before, after] = await Promise.all([getRevision(draftId, from), getRevision(draftId, to)])
+  if (!before) throw new DraftRevisionNotFoundError(draftId, from)
+  if (!after) throw new DraftRevisionNotFoundError(draftId, to)
+
+  const diff = diffWords(before.content, after.content)
+  return {
+    draftId,
+    from: before,
+    to: after,
+    diff,
+    diffStats: wordDiffStats(diff),
+    scoreDelta: after.scores.after.viralityScore - before.scores.after.viralityScore,
+  }
+}
+
+/**
+ * Every revision of a draft, oldest first.
+ */
+export async function listRevisions(draftId: string): Promise<DraftRevision[]> {
+  const numbers = revisionNumbers(await headNumber(draftId))
+  const revisions = await Promise.all(numbers.map((number) => getRevision(draftId, number)))
+  return revisions.filter((revision): revision is DraftRevision => revision !== null)
+}
+
+export async function getRevision(draftId: string, number: number): Promise<DraftRevision | null> {
+  return getKVStore().get<DraftRevision>(revisionKey(draftId, number))
+}
+
+export async function getLatestRevision(draftId: string): Promise<DraftRevision | null> {
+  const head = await headNumber(draftId)
+  return head ? getRevision(draftId, head) : null
+}
+
+export function summarizeRevision(revision: DraftRevision): DraftRevisionSummary {
+  const { content, diff, ...summary } = revision
+  return { ...summary, characterCount: content.length }
+}
+
+/**
+ * Deletes a draft's whole history. Returns the number of revisions removed.
+ */
+export async function deleteRevisions(draftId: string): Promise<number> {
+  const store = getKVStore()
+  const numbers = revisionNumbers(await headNumber(draftId))
+  await Promise.all(numbers.map((number) => store.delete(revisionKey(draftId, number))))
+  await store.delete(headKey(draftId))
+  return numbers.length
+}
+
+type RevisionInput = Pick<DraftRevision, 'draftId' | 'kind' | 'platform' | 'content'> &
+  Partial<Pick<DraftRevision, 'feedback' | 'changes' | 'improvementNotes' | 'model' | 'revertedTo'>>
+
+async function appendRevision(
+  previous: DraftRevision | null,
+  input: RevisionInput,
+  workspace?: string
+): Promise<DraftRevision> {
+  const diff = diffWords(previous?.content ?? '', input.content)
+  const revision: DraftRevision = {
+    ...input,
+    id: crypto.randomUUID(),
+    number: (previous?.number ?? 0) + 1,
+    changes: input.changes ?? [],
+    diff,
+    diffStats: wordDiffStats(diff),
+    scores: {
+      before: previous?.scores.after ?? null,
+      after: await scoreContent(input.content, input.platform, workspace),
+    },
+    createdAt: new Date().toISOString(),
+  }
+
+  const store = getKVStore()
+  await store.put(revisionKey(revision.draftId, revision.number), revision)
+  await store.put(headKey(revision.draftId), revision.number)
+  return revision
+}
+
+async function scoreContent(content: string, platform: Platform, workspace?: string): Promise<RevisionScore> {
+  const [model, patterns] = await Promise.all([getViralityModel(), loadPatternCatalog(workspace)])
+  const analysis = analyzePost(
+    {
+      id: 'draft-revision',
+      platform,
+      content,
+      metrics: { likes: 0, comments: 0, shares: 0 },
+      createdAt: new Date().toISOString(),
+    },
+    { model, patterns }
+  )
+
+  return {
+    viralityScore: analysis.viralityScore,
+    method: analysis.scoring.method,
+    components: Object.fromEntries(
+      analysis.scoreBreakdown.components.map((component) => [component.component, component.score])
+    ),
+  }
+}
+
+/**
+ * Number of the draft's latest revision, 0 when it has none.
+ */
+async function headNumber(draftId: string): Promise<number> {
+  return (await getKVStore().get<number>(headKey(draftId))) ?? 0
+}
+
+function revisionNumbers(head: number): number[] {
+  return Array.from({ length: head }, (_, i) => i + 1)
+}
+
+function headKey(draftId: string): string {
+  return `${HEAD_KEY_PREFIX}${draftId}`
+}
+
+function revisionPrefix(draftId: string): string {
+  return `${REVISION_KEY_PREFIX}${draftId}:`
+}
+
+function revisionKey(draftId: string, number: number): string {
+  return revisionPrefix(draftId) + String(number).padStart(4, '0')
+}
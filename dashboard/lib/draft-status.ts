@@ -0,0 +1,46 @@
+/**
+ * Draft Status
+ *
+ * The draft library's status workflow, kept free of server imports so the
+ * drafts view can use it too:
+ *   idea → draft → in_review → approved → scheduled → published
+ * New drafts start as an idea or draft. Drafts can go back a step for
+ * rework, anything can be archived, and an archived draft can be restored
+ * as an idea or draft.
+ */
+
+export const DRAFT_STATUSES = ['idea', 'draft', 'in_review', 'approved', 'scheduled', 'published', 'archived'] as const
+
+export type DraftStatus = (typeof DRAFT_STATUSES)[number]
+
+export const DRAFT_STATUS_LABELS: Record<DraftStatus, string> = {
+  idea: 'Idea',
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+}
+
+/** Statuses a new draft can be created with */
+export const DRAFT_ENTRY_STATUSES: DraftStatus[] = ['idea', 'draft']
+
+/** Statuses a draft can move to from each status */
+export const DRAFT_TRANSITIONS: Record<DraftStatus, DraftStatus[]> = {
+  idea: ['draft', 'archived'],
+  draft: ['idea', 'in_review', 'approved', 'archived'],
+  in_review: ['draft', 'approved', 'archived'],
+  approved: ['draft', 'scheduled', 'published', 'archived'],
+  scheduled: ['approved', 'published', 'archived'],
+  published: ['archived'],
+  archived: ['idea', 'draft'],
+}
+
+export function isDraftStatus(value: unknown): value is DraftStatus {
+  return typeof value === 'string' && (DRAFT_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: DraftStatus, to: DraftStatus): boolean {
+  return from === to || DRAFT_TRANSITIONS[from].includes(to)
+}
@@ -0,0 +1,299 @@
+/**
+ * Drafts
+ *
+ * The draft library: posts worth keeping, from the content-writer chat, the
+ * generator or written by hand, tracked from idea to published.
+ *
+ * Status changes follow the workflow in ./draft-status; scheduling needs a
+ * `scheduledFor` date.
+ *
+ * Text changes are recorded as revisions (see ./draft-revisions), keyed by
+ * the draft id, so the refine loop and manual edits share one history.
+ *
+ * Storage: one KV entry per draft (`draft:<id>`). Writes are optimistic like
+ * the skills store: pass the `updatedAt` last seen to reject stale edits.
+ * As there, the check is not atomic, so simultaneous edits can both pass it.
+ */
+
+import { deleteRevisions, recordRevision, type DraftRevision } from './draft-revisions'
+import { DRAFT_ENTRY_STATUSES, DRAFT_STATUSES, DRAFT_STATUS_LABELS, isDraftStatus, canTransition, type DraftStatus } from './draft-status'
+import { getKVStore } from './storage'
+import type { Platform } from './types/social-media'
+
+const DRAFT_KEY_PREFIX = 'draft:'
+
+export type DraftSource = 'chat' | 'generator' | 'manual'
+
+export interface Draft {
+  id: string
+  platform: Platform
+  content: string
+  status: DraftStatus
+  title?: string
+  topic?: string
+  tags: string[]
+  source: DraftSource
+  /** Learned format the post was written with */
+  formatId?: string
+  formatName?: string
+  /** Model that wrote the post */
+  model?: string
+  scheduledFor?: string
+  publishedAt?: string
+  createdAt: string
+  updatedAt: string
+  statusChangedAt: string
+}
+
+export type NewDraft = Pick<Draft, 'platform' | 'content'> &
+  Partial<Pick<Draft, 'status' | 'title' | 'topic' | 'tags' | 'source' | 'formatId' | 'formatName' | 'model' | 'scheduledFor'>>
+
+export type DraftPatch = Partial<
+  Pick<Draft, 'content' | 'status' | 'title' | 'topic' | 'tags' | 'formatId' | 'formatName' | 'scheduledFor'>
+>
+
+export interface DraftFilter {
+  status?: DraftStatus
+  platform?: Platform
+  tag?: string
+  /** Case-insensitive match on text, title and topic */
+  query?: string
+}
+
+export interface DraftCounts {
+  total: number
+  byStatus: Record<DraftStatus, number>
+  byPlatform: Record<Platform, number>
+}
+
+export class DraftNotFoundError extends Error {
+  constructor(public draftId: string) {
+    super(`Draft not found: ${draftId}`)
+    this.name = 'DraftNotFoundError'
+  }
+}
+
+export class DraftValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DraftValidationError'
+  }
+}
+
+export class DraftTransitionError extends Error {
+  constructor(public from: DraftStatus, public to: DraftStatus) {
+    super(`A draft cannot move from ${DRAFT_STATUS_LABELS[from]} to ${DRAFT_STATUS_LABELS[to]}.`)
+    this.name = 'DraftTransitionError'
+  }
+}
+
+export class DraftConflictError extends Error {
+  constructor(public current: Draft) {
+    super('The draft was modified by another session. Reload and try again.')
+    this.name = 'DraftConflictError'
+  }
+}
+
+/**
+ * Reads the editable fields of a request body, ignoring everything else.
+ *
+ * @throws DraftValidationError when a field has the wrong type
+ */
+export function readDraftPatch(body: Record<string, unknown>): DraftPatch {
+  const patch: DraftPatch = {}
+
+  for (const field of ['content', 'title', 'topic', 'formatId', 'formatName', 'scheduledFor'] as const) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value !== null && typeof value !== 'string') {
+      throw new DraftValidationError(`${field} must be a string.`)
+    }
+    // null or '' clears an optional field
+    patch[field] = field === 'content' ? (value ?? '') : (value || undefined)
+  }
+
+  if (body.status !== undefined) {
+    if (!isDraftStatus(body.status)) {
+      throw new DraftValidationError(`status must be one of ${DRAFT_STATUSES.join(', ')}.`)
+    }
+    patch.status = body.status
+  }
+
+  if (body.tags !== undefined) {
+    if (!(Array.isArray(body.tags) && body.tags.every((tag) => typeof tag === 'string'))) {
+      throw new DraftValidationError('tags must be a string array.')
+    }
+    patch.tags = body.tags
+  }
+
+  return patch
+}
+
+/**
+ * Saves a new draft as an idea or draft (DRAFT_ENTRY_STATUSES); later
+ * statuses are reached through updateDraft.
+ *
+ * @param workspace - Pattern packs the first revision is scored with
+ * @throws DraftValidationError if the status is not an entry status or an
+ *   empty text is not an idea
+ */
+export async function createDraft(input: NewDraft, workspace?: string): Promise<Draft> {
+  const now = new Date().toISOString()
+  const status = input.status ?? 'draft'
+  if (!DRAFT_ENTRY_STATUSES.includes(status)) {
+    throw new DraftValidationError(
+      `A new draft starts as ${DRAFT_ENTRY_STATUSES.map((entry) => DRAFT_STATUS_LABELS[entry]).join(' or ')}.`
+    )
+  }
+  const draft: Draft = {
+    id: crypto.randomUUID(),
+    platform: input.platform,
+    content: input.content,
+    status,
+    title: input.title,
+    topic: input.topic,
+    tags: normalizeTags(input.tags ?? []),
+    source: input.source ?? 'manual',
+    formatId: input.formatId,
+    formatName: input.formatName,
+    model: input.model,
+    scheduledFor: input.scheduledFor,
+    createdAt: now,
+    updatedAt: now,
+    statusChangedAt: now,
+  }
+  validateDraft(draft)
+
+  if (draft.content.trim()) await recordRevision(draft.id, draft.content, draft.platform, workspace)
+  await getKVStore().put(DRAFT_KEY_PREFIX + draft.id, draft)
+  return draft
+}
+
+export async function getDraft(id: string): Promise<Draft | null> {
+  return getKVStore().get<Draft>(DRAFT_KEY_PREFIX + id)
+}
+
+/**
+ * Drafts matching the filter, most recently updated first.
+ */
+export async function listDrafts(filter: DraftFilter = {}): Promise<Draft[]> {
+  const query = filter.query?.trim().toLowerCase()
+  const drafts = await loadAllDrafts()
+
+  return drafts
+    .filter((draft) =>
+      (!filter.status || draft.status === filter.status) &&
+      (!filter.platform || draft.platform === filter.platform) &&
+      (!filter.tag || draft.tags.includes(filter.tag.toLowerCase())) &&
+      (!query || [draft.content, draft.title, draft.topic].some((text) => text?.toLowerCase().includes(query)))
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function countDrafts(): Promise<DraftCounts> {
+  const counts: DraftCounts = {
+    total: 0,
+    byStatus: Object.fromEntries(DRAFT_STATUSES.map((status) => [status, 0])) as Record<DraftStatus, number>,
+    byPlatform: { linkedin: 0, twitter: 0 },
+  }
+  for (const draft of await loadAllDrafts()) {
+    counts.total++
+    counts.byStatus[draft.status]++
+    counts.byPlatform[draft.platform]++
+  }
+  return counts
+}
+
+/**
+ * Applies a partial update. A text change is recorded as a revision; a
+ * status change must follow DRAFT_TRANSITIONS.
+ *
+ * @param expectedUpdatedAt - `updatedAt` the caller based its edit on. Omit to force the write.
+ * @param workspace - Pattern packs a text change is scored with
+ * @throws DraftNotFoundError, DraftConflictError, DraftTransitionError, DraftValidationError
+ */
+export async function updateDraft(
+  id: string,
+  patch: DraftPatch,
+  expectedUpdatedAt?: string,
+  workspace?: string
+): Promise<Draft> {
+  const current = await getDraft(id)
+  if (!current) throw new DraftNotFoundError(id)
+  if (expectedUpdatedAt !== undefined && current.updatedAt !== expectedUpdatedAt) {
+    throw new DraftConflictError(current)
+  }
+
+  const status = patch.status ?? current.status
+  if (!canTransition(current.status, status)) {
+    throw new DraftTransitionError(current.status, status)
+  }
+
+  const now = nextTimestamp(current.updatedAt)
+  const updated: Draft = {
+    ...current,
+    ...patch,
+    tags: patch.tags ? normalizeTags(patch.tags) : current.tags,
+    status,
+    publishedAt: status === 'published' && current.status !== 'published' ? now : current.publishedAt,
+    updatedAt: now,
+    statusChangedAt: status !== current.status ? now : current.statusChangedAt,
+  }
+  validateDraft(updated)
+
+  if (updated.content !== current.content && updated.content.trim()) {
+    await recordRevision(id, updated.content, updated.platform, workspace)
+  }
+  await getKVStore().put(DRAFT_KEY_PREFIX + id, updated)
+  return updated
+}
+
+/**
+ * Makes a revision's text the draft's current text, after a refinement or
+ * revert that already recorded it. Returns null when no draft has the
+ * revision's draft id (refining text that was never saved).
+ */
+export async function applyRevision(revision: DraftRevision): Promise<Draft | null> {
+  const current = await getDraft(revision.draftId)
+  if (!current) return null
+
+  const updated: Draft = { ...current, content: revision.content, updatedAt: nextTimestamp(current.updatedAt) }
+  await getKVStore().put(DRAFT_KEY_PREFIX + current.id, updated)
+  return updated
+}
+
+/**
+ * Deletes the draft and its revision history.
+ */
+export async function deleteDraft(id: string): Promise<boolean> {
+  const deleted = await getKVStore().delete(DRAFT_KEY_PREFIX + id)
+  if (deleted) await deleteRevisions(id)
+  return deleted
+}
+
+async function loadAllDrafts(): Promise<Draft[]> {
+  const store = getKVStore()
+  const keys = await store.list(DRAFT_KEY_PREFIX)
+  const drafts = await Promise.all(keys.map((key) => store.get<Draft>(key)))
+  return drafts.filter((draft): draft is Draft => draft !== null)
+}
+
+function validateDraft(draft: Draft): void {
+  if (!draft.content.trim() && draft.status !== 'idea') {
+    throw new DraftValidationError('Only an idea can have empty text.')
+  }
+  if (draft.status === 'scheduled' && !(draft.scheduledFor && !Number.isNaN(Date.parse(draft.scheduledFor)))) {
+    throw new DraftValidationError('A scheduled draft needs a valid scheduledFor date.')
+  }
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean))]
+}
+
+// updatedAt doubles as the version token, so it must change on every write
+function nextTimestamp(previous?: string): string {
+  const now = Date.now()
+  const last = previous ? Date.parse(previous) : NaN
+  return new Date(Number.isNaN(last) ? now : Math.max(now, last + 1)).toISOString()
+}
@@ -0,0 +1,133 @@
+/**
+ * Text Embeddings
+ *
+ * Pluggable embedding providers for semantic matching:
+ * - OpenRouterEmbeddingProvider: hosted embedding model via OpenRouter
+ * - HashingEmbeddingProvider: deterministic, offline feature hashing of words
+ *   and character trigrams. Only captures lexical overlap, but needs no API
+ *   key, so it backs local dev, scripts and tests.
+ *
+ * getEmbeddingProvider picks OpenRouter when OPENROUTER_API_KEY is set, unless
+ * EMBEDDING_PROVIDER=hashing. EMBEDDING_MODEL overrides the OpenRouter model.
+ * Vectors from different providers are not comparable, so anything stored
+ * records the provider id it was embedded with.
+ */
+
+import { createEmbeddings, DEFAULT_EMBEDDING_MODEL, isOpenRouterConfigured } from './openrouter'
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space, e.g. openrouter:openai/text-embedding-3-small */
+  id: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// OpenRouter caps inputs per request; larger batches are split
+const OPENROUTER_BATCH_SIZE = 64
+
+export class OpenRouterEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+
+  constructor(private model = DEFAULT_EMBEDDING_MODEL) {
+    this.id = `openrouter:${model}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let i = 0; i < texts.length; i += OPENROUTER_BATCH_SIZE) {
+      vectors.push(...(await createEmbeddings(texts.slice(i, i + OPENROUTER_BATCH_SIZE), { model: this.model })))
+    }
+    return vectors
+  }
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+
+  constructor(private dimensions = 512) {
+    this.id = `hashing:${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature)
+      // The top bit picks the sign so unrelated features cancel out on average
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight
+    }
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1)
+      const padded = `#${word}#`
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5)
+      }
+    }
+
+    return normalize(vector)
+  }
+}
+
+let providerOverride: EmbeddingProvider | null = null
+
+/**
+ * Resolves the embedding provider from the environment.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (providerOverride) return providerOverride
+
+  if (process.env.EMBEDDING_PROVIDER !== 'hashing' && isOpenRouterConfigured()) {
+    return new OpenRouterEmbeddingProvider(process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL)
+  }
+  return new HashingEmbeddingProvider()
+}
+
+/**
+ * Replaces the resolved provider (pass null to reset). Intended for tests.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  providerOverride = provider
+}
+
+/**
+ * Cosine similarity in [-1, 1]; 0 when either vector is all zeros or the
+ * lengths differ.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Short, stable fingerprint of a text, used to notice when stored vectors
+ * are stale.
+ */
+export function fingerprint(text: string): string {
+  return fnv1a(text).toString(16).padStart(8, '0')
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? vector : vector.map((value) => value / norm)
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
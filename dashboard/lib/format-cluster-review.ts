@@ -0,0 +1,304 @@
+/**
+ * Format Cluster Review
+ *
+ * Merges and splits change which posts a format stands for, so they are
+ * proposed first and only applied once an admin approves them:
+ * - generateClusterProposals scans a platform's clusters for pairs similar
+ *   enough to merge (MERGE_THRESHOLD) and for clusters whose members fall
+ *   into two dissimilar groups
+ * - proposeMerge / proposeSplit record a proposal by hand
+ * - applyClusterProposal / rejectClusterProposal resolve one
+ *
+ * Proposals live in KV under `cluster-proposal:<id>`. Ids are derived from
+ * the formats and posts involved, so regenerating never duplicates a
+ * proposal and a rejected one is not proposed again. Each proposal records
+ * the updatedAt of the formats it was computed from; applying it after
+ * either format changed marks it stale instead.
+ */
+
+import { getKVStore } from './storage'
+import { fingerprint } from './embeddings'
+import {
+  bisectMembers,
+  clusterFromMembers,
+  clusterSimilarity,
+  dominantLabels,
+  FormatClusterError,
+  getFormatCluster,
+  listFormatClusters,
+  MERGE_THRESHOLD,
+  type ClusterSimilarity,
+  type FormatCluster,
+} from './format-clustering'
+import { getFormatById, getStoredFormats, mergeFormats, splitFormat } from './format-learner'
+import type { FormatPattern, Platform } from './types/social-media'
+
+const PROPOSAL_KEY_PREFIX = 'cluster-proposal:'
+
+export type ClusterProposalStatus = 'pending' | 'applied' | 'rejected' | 'stale'
+
+interface ClusterProposalBase {
+  id: string
+  platform: Platform
+  status: ClusterProposalStatus
+  /** Similarity behind the proposal; null for hand-made proposals */
+  similarity: ClusterSimilarity | null
+  reason: string
+  /** updatedAt of each involved format when the proposal was made */
+  basis: Record<string, string>
+  createdAt: string
+  resolvedAt?: string
+  /** Formats written when the proposal was applied */
+  result?: string[]
+}
+
+export interface MergeProposal extends ClusterProposalBase {
+  type: 'merge'
+  targetId: string
+  sourceId: string
+}
+
+export interface SplitProposal extends ClusterProposalBase {
+  type: 'split'
+  formatId: string
+  /** Posts that would move to the new format */
+  postIds: string[]
+  /** Posts that would stay */
+  remainingPostIds: string[]
+}
+
+export type ClusterProposal = MergeProposal | SplitProposal
+
+export class ClusterProposalNotFoundError extends Error {
+  constructor(public proposalId: string) {
+    super(`Cluster proposal not found: ${proposalId}`)
+    this.name = 'ClusterProposalNotFoundError'
+  }
+}
+
+export class ClusterProposalStateError extends Error {
+  constructor(public proposalId: string, public status: ClusterProposalStatus) {
+    super(`Cluster proposal ${proposalId} is already ${status}.`)
+    this.name = 'ClusterProposalStateError'
+  }
+}
+
+export async function getClusterProposal(id: string): Promise<ClusterProposal | null> {
+  return getKVStore().get<ClusterProposal>(PROPOSAL_KEY_PREFIX + id)
+}
+
+export async function listClusterProposals(status?: ClusterProposalStatus): Promise<ClusterProposal[]> {
+  const store = getKVStore()
+  const keys = await store.list(PROPOSAL_KEY_PREFIX)
+  const proposals = await Promise.all(keys.map((key) => store.get<ClusterProposal>(key)))
+  return proposals
+    .filter((proposal): proposal is ClusterProposal => proposal !== null && (!status || proposal.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Scans the stored clusters for merges and splits worth reviewing and
+ * records them as pending proposals.
+ *
+ * @returns The proposals found in this scan that are still pending
+ */
+export async function generateClusterProposals(platform?: Platform): Promise<ClusterProposal[]> {
+  const [formats, clusters] = await Promise.all([getStoredFormats(platform), listFormatClusters(platform)])
+  const formatsById = new Map(formats.map((format) => [format.id, format]))
+  const entries = clusters.flatMap((cluster) => {
+    const format = formatsById.get(cluster.formatId)
+    return format ? [{ format, cluster }] : []
+  })
+
+  const found: ClusterProposal[] = []
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [a, b] = [entries[i], entries[j]]
+      if (a.format.platform !== b.format.platform) continue
+
+      // Scored both ways since label agreement is measured against one side's labels
+      const similarity = weakerSimilarity(
+        clusterSimilarity({ ...b.format, features: b.cluster.centroid, embedding: b.cluster.embedding }, a.cluster, a.format),
+        clusterSimilarity({ ...a.format, features: a.cluster.centroid, embedding: a.cluster.embedding }, b.cluster, b.format)
+      )
+      if (similarity.score < MERGE_THRESHOLD) continue
+
+      // The more established format absorbs the other
+      const [target, source] = a.cluster.size >= b.cluster.size ? [a, b] : [b, a]
+      found.push(mergeProposal(target.format, source.format, similarity,
+        `Clusters are ${Math.round(similarity.score * 100)}% similar (structure ${Math.round(similarity.structure * 100)}%).`))
+    }
+  }
+
+  for (const { format, cluster } of entries) {
+    const halves = bisectMembers(cluster.members)
+    if (!halves) continue
+
+    const [kept, moved] = halves[0].length >= halves[1].length ? halves : [halves[1], halves[0]]
+    const keptCluster = clusterFromMembers(format.id, format.platform, kept)
+    const movedCluster = clusterFromMembers(format.id, format.platform, moved)
+    const similarity = clusterSimilarity(
+      { ...dominantLabels(moved), features: movedCluster.centroid },
+      keptCluster,
+      dominantLabels(kept)
+    )
+    if (similarity.score >= MERGE_THRESHOLD) continue
+
+    found.push(splitProposal(format, cluster, moved.map((member) => member.postId), similarity,
+      `${moved.length} of ${cluster.members.length} posts form a group only ${Math.round(similarity.score * 100)}% similar to the rest.`))
+  }
+
+  const stored = await Promise.all(found.map((proposal) => storeProposal(proposal)))
+  return stored.filter((proposal) => proposal.status === 'pending')
+}
+
+/**
+ * Records a hand-made proposal to merge `sourceId` into `targetId`.
+ *
+ * @returns null if either format was not found
+ * @throws FormatClusterError when the formats are the same or on different platforms
+ */
+export async function proposeMerge(targetId: string, sourceId: string, reason = 'Proposed by an admin.'): Promise<ClusterProposal | null> {
+  if (targetId === sourceId) {
+    throw new FormatClusterError('Cannot merge a format into itself.')
+  }
+
+  const [target, source] = await Promise.all([getFormatById(targetId), getFormatById(sourceId)])
+  if (!target || !source) return null
+  if (target.platform !== source.platform) {
+    throw new FormatClusterError(`Cannot merge a ${source.platform} format into a ${target.platform} format.`)
+  }
+
+  return storeProposal(mergeProposal(target, source, null, reason))
+}
+
+/**
+ * Records a hand-made proposal to split `postIds` off a format.
+ *
+ * @returns null if the format was not found
+ * @throws FormatClusterError when the format has no clustered posts or
+ *   the split would leave either side empty
+ */
+export async function proposeSplit(formatId: string, postIds: string[], reason = 'Proposed by an admin.'): Promise<ClusterProposal | null> {
+  const format = await getFormatById(formatId)
+  if (!format) return null
+
+  const cluster = await getFormatCluster(formatId)
+  if (!cluster) {
+    throw new FormatClusterError(`Format ${formatId} has no clustered posts to split.`)
+  }
+
+  const moving = new Set(postIds)
+  const moved = cluster.members.filter((member) => moving.has(member.postId))
+  if (moved.length === 0 || moved.length === cluster.members.length) {
+    throw new FormatClusterError('A split must leave clustered posts in both formats.')
+  }
+
+  return storeProposal(splitProposal(format, cluster, moved.map((member) => member.postId), null, reason))
+}
+
+/**
+ * Applies a pending proposal.
+ *
+ * @returns The proposal, now applied, or stale if its formats changed since it was made
+ * @throws ClusterProposalNotFoundError, ClusterProposalStateError
+ */
+export async function applyClusterProposal(id: string): Promise<ClusterProposal> {
+  const proposal = await pendingProposal(id)
+
+  const basis = Object.entries(proposal.basis)
+  const formats = await Promise.all(basis.map(([formatId]) => getFormatById(formatId)))
+  if (formats.some((format, i) => format?.updatedAt !== basis[i][1])) {
+    return resolveProposal(proposal, 'stale')
+  }
+
+  if (proposal.type === 'merge') {
+    const merged = await mergeFormats(proposal.targetId, proposal.sourceId)
+    return resolveProposal(proposal, merged ? 'applied' : 'stale', merged ? [merged.id] : undefined)
+  }
+
+  const split = await splitFormat(proposal.formatId, proposal.postIds)
+  return resolveProposal(proposal, split ? 'applied' : 'stale', split ? [split.format.id, split.created.id] : undefined)
+}
+
+/**
+ * @throws ClusterProposalNotFoundError, ClusterProposalStateError
+ */
+export async function rejectClusterProposal(id: string): Promise<ClusterProposal> {
+  return resolveProposal(await pendingProposal(id), 'rejected')
+}
+
+function mergeProposal(target: FormatPattern, source: FormatPattern, similarity: ClusterSimilarity | null, reason: string): MergeProposal {
+  return {
+    id: `merge-${fingerprint(`${target.id}|${source.id}`)}`,
+    type: 'merge',
+    platform: target.platform,
+    status: 'pending',
+    targetId: target.id,
+    sourceId: source.id,
+    similarity,
+    reason,
+    basis: { [target.id]: target.updatedAt, [source.id]: source.updatedAt },
+    createdAt: new Date().toISOString(),
+  }
+}
+
+function splitProposal(
+  format: FormatPattern,
+  cluster: FormatCluster,
+  postIds: string[],
+  similarity: ClusterSimilarity | null,
+  reason: string
+): SplitProposal {
+  const moving = new Set(postIds)
+  const sorted = [...postIds].sort()
+  return {
+    id: `split-${fingerprint(`${format.id}|${sorted.join(',')}`)}`,
+    type: 'split',
+    platform: format.platform,
+    status: 'pending',
+    formatId: format.id,
+    postIds: sorted,
+    remainingPostIds: cluster.members.map((member) => member.postId).filter((postId) => !moving.has(postId)),
+    similarity,
+    reason,
+    basis: { [format.id]: format.updatedAt },
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Stores a proposal unless one with the same id exists; a resolved
+ * proposal is kept as it is, a pending one is refreshed.
+ */
+async function storeProposal(proposal: ClusterProposal): Promise<ClusterProposal> {
+  const existing = await getClusterProposal(proposal.id)
+  if (existing && existing.status !== 'pending' && existing.status !== 'stale') {
+    return existing
+  }
+
+  await getKVStore().put(PROPOSAL_KEY_PREFIX + proposal.id, proposal)
+  return proposal
+}
+
+async function pendingProposal(id: string): Promise<ClusterProposal> {
+  const proposal = await getClusterProposal(id)
+  if (!proposal) {
+    throw new ClusterProposalNotFoundError(id)
+  }
+  if (proposal.status !== 'pending') {
+    throw new ClusterProposalStateError(id, proposal.status)
+  }
+  return proposal
+}
+
+async function resolveProposal(proposal: ClusterProposal, status: ClusterProposalStatus, result?: string[]): Promise<ClusterProposal> {
+  const resolved: ClusterProposal = { ...proposal, status, resolvedAt: new Date().toISOString(), result }
+  await getKVStore().put(PROPOSAL_KEY_PREFIX + proposal.id, resolved)
+  return resolved
+}
+
+function weakerSimilarity(a: ClusterSimilarity, b: ClusterSimilarity): ClusterSimilarity {
+  return a.score <= b.score ? a : b
+}
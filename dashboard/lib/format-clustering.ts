@@ -0,0 +1,404 @@
+/**
+ * Format Clustering
+ *
+ * Groups learned posts into formats by how they are built rather than by
+ * their hook/body/CTA labels alone. Each post is described by a structural
+ * feature vector (length, line rhythm, list and question lines, paragraphing,
+ * emoji and hashtag use) taken from ParsedContent; a post joins the closest
+ * cluster on its platform when the blend of label agreement, structural
+ * similarity and (optionally) embedding similarity clears ASSIGN_THRESHOLD,
+ * and founds a new format otherwise.
+ *
+ * Clusters are stored in KV under `format-cluster:<formatId>`, one per
+ * format, with up to MAX_MEMBERS member posts (the best-engaging are kept)
+ * so they can be split later. The best MAX_EXEMPLARS members are the
+ * cluster's exemplars. Formats learned before clustering existed have no
+ * record and are represented by their example post until a post joins them.
+ */
+
+import { getKVStore } from './storage'
+import { cosineSimilarity } from './embeddings'
+import { parsePostContent } from './viral-analyzer'
+import type { BodyType, CTAType, FormatPattern, HookType, ParsedContent, Platform } from './types/social-media'
+
+const CLUSTER_KEY_PREFIX = 'format-cluster:'
+
+/** Minimum similarity for a post to join an existing cluster */
+export const ASSIGN_THRESHOLD = 0.75
+
+/** Minimum similarity between two clusters to propose merging them */
+export const MERGE_THRESHOLD = 0.85
+
+export const MAX_EXEMPLARS = 5
+export const MAX_MEMBERS = 50
+
+// Clusters need this many members before a split is considered, and each half at least half of it
+export const MIN_SPLIT_MEMBERS = 6
+
+// How much hook, body and CTA agreement count towards label agreement
+const LABEL_WEIGHTS = { hookType: 0.45, bodyType: 0.35, ctaType: 0.2 }
+
+// Blend of label agreement, structure and embeddings, with and without embeddings
+const BLEND_WEIGHTS = { labels: 0.4, structure: 0.6, embedding: 0 }
+const BLEND_WEIGHTS_WITH_EMBEDDING = { labels: 0.35, structure: 0.5, embedding: 0.15 }
+
+const LIST_LINE = /^\s*(?:\d+[.)]|[-•*→▪✅✔👉]|[a-z][.)]\s)/u
+
+export const STRUCTURAL_FEATURES = [
+  'length',
+  'lines',
+  'averageLineLength',
+  'shortLines',
+  'mediumLines',
+  'longLines',
+  'paragraphs',
+  'listLines',
+  'questionLines',
+  'emoji',
+  'hashtags',
+  'links',
+  'numbers',
+] as const
+
+export class FormatClusterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FormatClusterError'
+  }
+}
+
+export interface FormatLabels {
+  hookType: HookType
+  bodyType: BodyType
+  ctaType: CTAType
+}
+
+export interface ClusterMember extends FormatLabels {
+  postId: string
+  content: string
+  /** Values for STRUCTURAL_FEATURES, each in [0, 1] */
+  features: number[]
+  /** Weighted engagement; 0 for posts learned without metrics */
+  engagement: number
+  viralityScore: number
+  learnedAt: string
+}
+
+export interface FormatCluster {
+  formatId: string
+  platform: Platform
+  /** Mean feature vector over every post ever assigned, not only the kept members */
+  centroid: number[]
+  /** Mean content embedding, reset when the cluster is split */
+  embedding?: { provider: string; vector: number[] }
+  /** Posts ever assigned */
+  size: number
+  /** Best-engaging members, best first */
+  members: ClusterMember[]
+  updatedAt: string
+}
+
+/** A post being placed into a cluster */
+export interface ClusterCandidate extends FormatLabels {
+  features: number[]
+  embedding?: { provider: string; vector: number[] }
+}
+
+export interface ClusterSimilarity {
+  score: number
+  labels: number
+  structure: number
+  embedding: number | null
+}
+
+/**
+ * Describes a post's structure as values in [0, 1], in STRUCTURAL_FEATURES order.
+ */
+export function structuralFeatures(parsed: ParsedContent): number[] {
+  const lines = parsed.lines
+  const lineCount = Math.max(1, lines.length)
+  const { averageLineLength, shortLines, mediumLines, longLines } = parsed.lineBreakStructure
+
+  return [
+    Math.min(1, Math.log1p(parsed.wordCount) / Math.log1p(500)),
+    Math.min(1, lines.length / 30),
+    Math.min(1, averageLineLength / 200),
+    shortLines / lineCount,
+    mediumLines / lineCount,
+    longLines / lineCount,
+    Math.min(1, parsed.paragraphs.length / lineCount),
+    lines.filter((line) => LIST_LINE.test(line)).length / lineCount,
+    lines.filter((line) => line.trim().endsWith('?')).length / lineCount,
+    Math.min(1, parsed.emojiCount / 10),
+    Math.min(1, parsed.hashtags.length / 5),
+    parsed.hasLinks ? 1 : 0,
+    parsed.hasNumbers ? 1 : 0,
+  ]
+}
+
+/**
+ * Similarity in [0, 1] between two feature vectors: one minus twice the
+ * root-mean-square difference, so vectors a quarter apart on average score 0.5.
+ */
+export function structuralSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  const squared = a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0)
+  return Math.max(0, 1 - 2 * Math.sqrt(squared / a.length))
+}
+
+export function labelSimilarity(a: FormatLabels, b: FormatLabels): number {
+  return (Object.keys(LABEL_WEIGHTS) as (keyof FormatLabels)[])
+    .reduce((sum, label) => sum + (a[label] === b[label] ? LABEL_WEIGHTS[label] : 0), 0)
+}
+
+/**
+ * Scores how well a candidate fits a cluster whose format has the given
+ * labels. Embeddings only count when both sides were embedded by the same
+ * provider.
+ */
+export function clusterSimilarity(
+  candidate: ClusterCandidate,
+  cluster: Pick<FormatCluster, 'centroid' | 'embedding'>,
+  labels: FormatLabels
+): ClusterSimilarity {
+  const labelScore = labelSimilarity(candidate, labels)
+  const structure = structuralSimilarity(candidate.features, cluster.centroid)
+  const embedding = candidate.embedding && cluster.embedding?.provider === candidate.embedding.provider
+    ? Math.max(0, cosineSimilarity(candidate.embedding.vector, cluster.embedding.vector))
+    : null
+
+  const weights = embedding === null ? BLEND_WEIGHTS : BLEND_WEIGHTS_WITH_EMBEDDING
+  const score = weights.labels * labelScore + weights.structure * structure + weights.embedding * (embedding ?? 0)
+  return { score: round(score), labels: round(labelScore), structure: round(structure), embedding: embedding === null ? null : round(embedding) }
+}
+
+/**
+ * Finds the cluster a candidate belongs to, or null when none is similar
+ * enough and the post should found a new format.
+ */
+export function findNearestCluster(
+  candidate: ClusterCandidate,
+  clusters: { format: FormatPattern; cluster: FormatCluster }[]
+): { format: FormatPattern; cluster: FormatCluster; similarity: ClusterSimilarity } | null {
+  let best: { format: FormatPattern; cluster: FormatCluster; similarity: ClusterSimilarity } | null = null
+  for (const entry of clusters) {
+    const similarity = clusterSimilarity(candidate, entry.cluster, entry.format)
+    if (similarity.score >= ASSIGN_THRESHOLD && (!best || similarity.score > best.similarity.score)) {
+      best = { ...entry, similarity }
+    }
+  }
+  return best
+}
+
+export function createCluster(
+  formatId: string,
+  platform: Platform,
+  member: ClusterMember,
+  embedding?: FormatCluster['embedding']
+): FormatCluster {
+  return {
+    formatId,
+    platform,
+    centroid: member.features,
+    embedding,
+    size: 1,
+    members: [member],
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Stand-in cluster for a format learned before clustering, built from its
+ * example post. Formats without one (the seeded defaults) cannot be placed
+ * and return null.
+ */
+export function clusterFromExample(format: FormatPattern): FormatCluster | null {
+  if (!format.examplePost.trim()) return null
+
+  return createCluster(format.id, format.platform, {
+    postId: `${format.id}:example`,
+    content: format.examplePost,
+    features: structuralFeatures(parsePostContent(format.examplePost)),
+    hookType: format.hookType,
+    bodyType: format.bodyType,
+    ctaType: format.ctaType,
+    engagement: 0,
+    viralityScore: format.effectivenessScore,
+    learnedAt: format.createdAt,
+  })
+}
+
+/**
+ * Adds a post to a cluster, updating the running centroids. A post already
+ * in the cluster replaces its previous entry without counting twice.
+ */
+export function addToCluster(
+  cluster: FormatCluster,
+  member: ClusterMember,
+  embedding?: FormatCluster['embedding']
+): FormatCluster {
+  const isNew = !cluster.members.some((existing) => existing.postId === member.postId)
+  const size = isNew ? cluster.size + 1 : cluster.size
+
+  return {
+    ...cluster,
+    centroid: isNew ? runningMean(cluster.centroid, cluster.size, member.features) : cluster.centroid,
+    embedding: mergeEmbedding(cluster.embedding, cluster.size, embedding, isNew ? 1 : 0),
+    size,
+    members: rankMembers([...cluster.members.filter((existing) => existing.postId !== member.postId), member]),
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Combines two clusters into one stored under `formatId`.
+ */
+export function mergeClusters(formatId: string, target: FormatCluster, source: FormatCluster): FormatCluster {
+  const size = target.size + source.size
+  const centroid = target.centroid.map((value, i) => (value * target.size + source.centroid[i] * source.size) / size)
+  const seen = new Set(target.members.map((member) => member.postId))
+
+  return {
+    formatId,
+    platform: target.platform,
+    centroid,
+    embedding: target.embedding?.provider === source.embedding?.provider
+      ? mergeEmbedding(target.embedding, target.size, source.embedding, source.size)
+      : target.embedding,
+    size,
+    members: rankMembers([...target.members, ...source.members.filter((member) => !seen.has(member.postId))]),
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Rebuilds a cluster from a subset of members, e.g. one side of a split.
+ * The centroid is recomputed from those members and the embedding dropped,
+ * since member embeddings are not kept.
+ */
+export function clusterFromMembers(formatId: string, platform: Platform, members: ClusterMember[]): FormatCluster {
+  return {
+    formatId,
+    platform,
+    centroid: meanFeatures(members),
+    size: members.length,
+    members: rankMembers(members),
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Splits members into two groups with 2-means over their features, seeded
+ * with the two members furthest apart. Returns null when the cluster is too
+ * small or one side would be too small to stand as a format.
+ */
+export function bisectMembers(members: ClusterMember[]): [ClusterMember[], ClusterMember[]] | null {
+  if (members.length < MIN_SPLIT_MEMBERS) return null
+
+  let seeds: [number[], number[]] = [members[0].features, members[1].features]
+  let widest = -1
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const distance = 1 - structuralSimilarity(members[i].features, members[j].features)
+      if (distance > widest) {
+        widest = distance
+        seeds = [members[i].features, members[j].features]
+      }
+    }
+  }
+
+  let groups: [ClusterMember[], ClusterMember[]] = [[], []]
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const next: [ClusterMember[], ClusterMember[]] = [[], []]
+    for (const member of members) {
+      const side = structuralSimilarity(member.features, seeds[0]) >= structuralSimilarity(member.features, seeds[1]) ? 0 : 1
+      next[side].push(member)
+    }
+    if (next[0].length === 0 || next[1].length === 0) return null
+
+    const unchanged = next[0].length === groups[0].length && next[0].every((member, i) => member === groups[0][i])
+    groups = next
+    if (unchanged) break
+    seeds = [meanFeatures(groups[0]), meanFeatures(groups[1])]
+  }
+
+  const minSize = Math.ceil(MIN_SPLIT_MEMBERS / 2)
+  return groups[0].length >= minSize && groups[1].length >= minSize ? groups : null
+}
+
+/**
+ * Most common hook, body and CTA among members, ties going to the
+ * better-engaging member.
+ */
+export function dominantLabels(members: ClusterMember[]): FormatLabels {
+  const pick = <K extends keyof FormatLabels>(label: K): FormatLabels[K] => {
+    const counts = new Map<FormatLabels[K], number>()
+    for (const member of members) counts.set(member[label], (counts.get(member[label]) ?? 0) + 1)
+    return [...counts].sort((a, b) => b[1] - a[1])[0][0]
+  }
+  return { hookType: pick('hookType'), bodyType: pick('bodyType'), ctaType: pick('ctaType') }
+}
+
+export function clusterExemplars(cluster: FormatCluster): ClusterMember[] {
+  return cluster.members.slice(0, MAX_EXEMPLARS)
+}
+
+export async function getFormatCluster(formatId: string): Promise<FormatCluster | null> {
+  return getKVStore().get<FormatCluster>(CLUSTER_KEY_PREFIX + formatId)
+}
+
+export async function listFormatClusters(platform?: Platform): Promise<FormatCluster[]> {
+  const store = getKVStore()
+  const keys = await store.list(CLUSTER_KEY_PREFIX)
+  const clusters = await Promise.all(keys.map((key) => store.get<FormatCluster>(key)))
+  return clusters.filter((cluster): cluster is FormatCluster => cluster !== null && (!platform || cluster.platform === platform))
+}
+
+export async function saveFormatCluster(cluster: FormatCluster): Promise<FormatCluster> {
+  await getKVStore().put(CLUSTER_KEY_PREFIX + cluster.formatId, cluster)
+  return cluster
+}
+
+export async function deleteFormatCluster(formatId: string): Promise<void> {
+  await getKVStore().delete(CLUSTER_KEY_PREFIX + formatId)
+}
+
+export async function clearFormatClusters(): Promise<void> {
+  const store = getKVStore()
+  const keys = await store.list(CLUSTER_KEY_PREFIX)
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
+
+function rankMembers(members: ClusterMember[]): ClusterMember[] {
+  return [...members]
+    .sort((a, b) => b.engagement - a.engagement || b.viralityScore - a.viralityScore)
+    .slice(0, MAX_MEMBERS)
+}
+
+function meanFeatures(members: ClusterMember[]): number[] {
+  return members[0].features.map((_, i) => members.reduce((sum, member) => sum + member.features[i], 0) / members.length)
+}
+
+function runningMean(mean: number[], count: number, value: number[]): number[] {
+  return mean.map((current, i) => (current * count + value[i]) / (count + 1))
+}
+
+function mergeEmbedding(
+  current: FormatCluster['embedding'],
+  currentCount: number,
+  added: FormatCluster['embedding'],
+  addedCount: number
+): FormatCluster['embedding'] {
+  if (!added || addedCount === 0) return current
+  if (!current || current.provider !== added.provider) return added
+
+  const total = currentCount + addedCount
+  return {
+    provider: current.provider,
+    vector: current.vector.map((value, i) => (value * currentCount + added.vector[i] * addedCount) / total),
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,100 @@
+/**
+ * Format Diff
+ *
+ * Compares two sets of extracted ContentFormats, e.g. the same posts run
+ * through two models. Formats are paired by id first, then by their
+ * hook/body/CTA combination, since models rarely agree on slugs.
+ */
+
+import type { ContentFormat } from './agent-skills'
+
+/** Fields compared between paired formats */
+const COMPARED_FIELDS = [
+  'name',
+  'description',
+  'hookType',
+  'bodyStructure',
+  'ctaType',
+  'platform',
+  'template',
+  'effectivenessIndicators',
+] as const
+
+export type ComparedField = (typeof COMPARED_FIELDS)[number]
+
+export interface FormatFieldChange {
+  field: ComparedField
+  before: ContentFormat[ComparedField]
+  after: ContentFormat[ComparedField]
+}
+
+export interface ChangedFormat {
+  before: ContentFormat
+  after: ContentFormat
+  changes: FormatFieldChange[]
+}
+
+export interface FormatDiff {
+  added: ContentFormat[]
+  removed: ContentFormat[]
+  changed: ChangedFormat[]
+  unchanged: ContentFormat[]
+}
+
+export function diffFormats(previous: ContentFormat[], next: ContentFormat[]): FormatDiff {
+  const unmatched = [...previous]
+  const pairs: [ContentFormat, ContentFormat][] = []
+  const added: ContentFormat[] = []
+
+  const take = (predicate: (format: ContentFormat) => boolean): ContentFormat | undefined => {
+    const index = unmatched.findIndex(predicate)
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0]
+  }
+
+  // Exact ids first, so a structural match cannot steal another format's pair
+  const pending: ContentFormat[] = []
+  for (const format of next) {
+    const match = take((candidate) => candidate.id === format.id)
+    if (match) pairs.push([match, format])
+    else pending.push(format)
+  }
+
+  for (const format of pending) {
+    const match = take((candidate) => structureKey(candidate) === structureKey(format))
+    if (match) pairs.push([match, format])
+    else added.push(format)
+  }
+
+  const changed: ChangedFormat[] = []
+  const unchanged: ContentFormat[] = []
+  for (const [before, after] of pairs) {
+    const changes = compareFormats(before, after)
+    if (changes.length > 0) changed.push({ before, after, changes })
+    else unchanged.push(after)
+  }
+
+  return { added, removed: unmatched, changed, unchanged }
+}
+
+export function isEmptyDiff(diff: FormatDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+}
+
+function compareFormats(before: ContentFormat, after: ContentFormat): FormatFieldChange[] {
+  return COMPARED_FIELDS.filter((field) => !sameValue(before[field], after[field])).map((field) => ({
+    field,
+    before: before[field],
+    after: after[field],
+  }))
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => sameValue(value, b[i]))
+  }
+  return typeof a === 'string' && typeof b === 'string' ? a.trim() === b.trim() : a === b
+}
+
+function structureKey(format: ContentFormat): string {
+  return `${format.hookType}|${format.bodyStructure}|${format.ctaType}`
+}
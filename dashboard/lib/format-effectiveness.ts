@@ -0,0 +1,226 @@
+/**
+ * Format Effectiveness
+ *
+ * Models each format's effectiveness as a Beta posterior over normalized
+ * engagement in [0, 1]. Every learned post is one observation: its weighted
+ * engagement on a log scale (ENGAGEMENT_CEILING maps to 1), or its virality
+ * score when it has no metrics. A post scoring 0.7 adds 0.7 to alpha and 0.3
+ * to beta.
+ *
+ * Evidence decays towards the prior with a half-life of DECAY_HALF_LIFE_DAYS,
+ * so a pattern that went viral a year ago and has not been seen since drifts
+ * back to "unknown". Ranking must not reward that uncertainty: it shrinks the
+ * mean towards STALE_MEAN by the same half-life and scales the exploration
+ * bonus (capped at MAX_EXPLORATION_BONUS) by freshness, so a stale format
+ * ranks below a fresh one with the same history, and a format with no
+ * evidence can beat a mediocre one but not a proven one.
+ *
+ * `FormatPattern.effectivenessScore` stays the posterior mean × 100 at the
+ * last update, for display. Formats stored before posteriors existed get one
+ * from their score and usage count (see posteriorOf).
+ */
+
+import type { EffectivenessPosterior, EffectivenessSummary, FormatPattern } from './types/social-media'
+
+/** Uniform prior: a format nobody has posted yet is a coin flip */
+export const PRIOR = { alpha: 1, beta: 1 }
+
+export const DECAY_HALF_LIFE_DAYS = 60
+
+/** Weighted engagement normalized to 1 */
+export const ENGAGEMENT_CEILING = 20_000
+
+/** Pseudo-observations given to an editorial score, e.g. for seeded formats */
+export const EDITORIAL_WEIGHT = 2
+
+// Legacy formats count at most this many posts of evidence, since their score was a running average
+const LEGACY_MAX_EVIDENCE = 5
+
+/** Ranking mean a format falls back to as its evidence goes stale */
+export const STALE_MEAN = 0.25
+
+/** Most the upper confidence bound may add to a fresh format's mean */
+export const MAX_EXPLORATION_BONUS = 0.1
+
+// z for the one-sided 90% upper bound
+const UCB_Z = 1.2816
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type EffectivenessRanking = 'ucb' | 'thompson' | 'mean'
+
+/**
+ * Normalizes a post's outcome to [0, 1]: log-scaled weighted engagement
+ * (see weightedEngagement) when it has any, otherwise the virality score.
+ */
+export function normalizeOutcome(engagement: number, viralityScore: number): number {
+  if (engagement > 0) {
+    return Math.min(1, Math.log1p(engagement) / Math.log1p(ENGAGEMENT_CEILING))
+  }
+  return clamp01(viralityScore / 100)
+}
+
+export function priorPosterior(at = new Date().toISOString()): EffectivenessPosterior {
+  return { ...PRIOR, updatedAt: at }
+}
+
+/**
+ * A posterior holding `weight` observations that average `score` (0-100).
+ */
+export function posteriorFromScore(score: number, weight: number, at = new Date().toISOString()): EffectivenessPosterior {
+  const mean = clamp01(score / 100)
+  return { alpha: PRIOR.alpha + weight * mean, beta: PRIOR.beta + weight * (1 - mean), updatedAt: at }
+}
+
+/**
+ * The format's posterior, derived from its score and usage for formats
+ * stored before posteriors existed.
+ */
+export function posteriorOf(format: FormatPattern): EffectivenessPosterior {
+  return format.effectiveness
+    ?? posteriorFromScore(format.effectivenessScore, Math.min(format.usageCount, LEGACY_MAX_EVIDENCE), format.updatedAt)
+}
+
+/**
+ * Shrinks the evidence towards the prior for the time elapsed since the
+ * posterior was last updated.
+ */
+export function decayPosterior(posterior: EffectivenessPosterior, now = new Date()): EffectivenessPosterior {
+  const factor = freshness(posterior, now)
+  return {
+    alpha: PRIOR.alpha + (posterior.alpha - PRIOR.alpha) * factor,
+    beta: PRIOR.beta + (posterior.beta - PRIOR.beta) * factor,
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Adds one observation in [0, 1], decaying the existing evidence first.
+ */
+export function observe(posterior: EffectivenessPosterior, outcome: number, now = new Date()): EffectivenessPosterior {
+  const decayed = decayPosterior(posterior, now)
+  const x = clamp01(outcome)
+  return { ...decayed, alpha: decayed.alpha + x, beta: decayed.beta + (1 - x) }
+}
+
+/**
+ * Pools the evidence of two posteriors, e.g. when formats are merged.
+ */
+export function combinePosteriors(a: EffectivenessPosterior, b: EffectivenessPosterior, now = new Date()): EffectivenessPosterior {
+  const [da, db] = [decayPosterior(a, now), decayPosterior(b, now)]
+  return {
+    alpha: PRIOR.alpha + (da.alpha - PRIOR.alpha) + (db.alpha - PRIOR.alpha),
+    beta: PRIOR.beta + (da.beta - PRIOR.beta) + (db.beta - PRIOR.beta),
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Sets the posterior mean to `score` while keeping its amount of evidence,
+ * for manual score overrides.
+ */
+export function rescorePosterior(posterior: EffectivenessPosterior, score: number, now = new Date()): EffectivenessPosterior {
+  const decayed = decayPosterior(posterior, now)
+  return posteriorFromScore(score, evidenceOf(decayed), decayed.updatedAt)
+}
+
+/** Posterior mean × 100, rounded to one decimal */
+export function effectivenessScore(posterior: EffectivenessPosterior): number {
+  return Math.round(mean(posterior) * 1000) / 10
+}
+
+export function summarizeEffectiveness(posterior: EffectivenessPosterior, now = new Date()): EffectivenessSummary {
+  const decayed = decayPosterior(posterior, now)
+  const sd = standardDeviation(decayed)
+  return {
+    score: effectivenessScore(decayed),
+    lower: Math.round(clamp01(mean(decayed) - UCB_Z * sd) * 1000) / 10,
+    upper: Math.round(clamp01(mean(decayed) + UCB_Z * sd) * 1000) / 10,
+    evidence: Math.round(evidenceOf(decayed) * 10) / 10,
+  }
+}
+
+/**
+ * Value (0-1) to rank a format by, shrunk towards STALE_MEAN as the
+ * posterior ages:
+ * - ucb: posterior mean plus 1.28 standard deviations (at most
+ *   MAX_EXPLORATION_BONUS, and less the staler it is), so formats with
+ *   little evidence get some benefit of the doubt
+ * - thompson: a draw from the posterior, for randomized exploration
+ * - mean: the posterior mean, for plain exploitation
+ */
+export function rankingValue(
+  format: FormatPattern,
+  ranking: EffectivenessRanking = 'ucb',
+  now = new Date(),
+  random: () => number = Math.random
+): number {
+  const posterior = posteriorOf(format)
+  const fresh = freshness(posterior, now)
+  const shrink = (value: number) => fresh * value + (1 - fresh) * STALE_MEAN
+
+  if (ranking === 'thompson') return shrink(sampleBeta(posterior.alpha, posterior.beta, random))
+  if (ranking === 'mean') return shrink(mean(posterior))
+  const bonus = Math.min(MAX_EXPLORATION_BONUS, UCB_Z * standardDeviation(posterior))
+  return clamp01(shrink(mean(posterior)) + fresh * bonus)
+}
+
+// 1 when just updated, halving every DECAY_HALF_LIFE_DAYS
+function freshness(posterior: EffectivenessPosterior, now: Date): number {
+  const elapsedDays = Math.max(0, (now.getTime() - Date.parse(posterior.updatedAt)) / DAY_MS)
+  return Number.isFinite(elapsedDays) ? 0.5 ** (elapsedDays / DECAY_HALF_LIFE_DAYS) : 1
+}
+
+function mean({ alpha, beta }: EffectivenessPosterior): number {
+  return alpha / (alpha + beta)
+}
+
+function standardDeviation({ alpha, beta }: EffectivenessPosterior): number {
+  const total = alpha + beta
+  return Math.sqrt((alpha * beta) / (total * total * (total + 1)))
+}
+
+function evidenceOf({ alpha, beta }: EffectivenessPosterior): number {
+  return Math.max(0, alpha + beta - PRIOR.alpha - PRIOR.beta)
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random)
+  const y = sampleGamma(beta, random)
+  return x + y === 0 ? 0.5 : x / (x + y)
+}
+
+/**
+ * Marsaglia-Tsang gamma sampler; shapes below 1 are boosted by one and
+ * scaled back with U^(1/shape).
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random() || Number.MIN_VALUE, 1 / shape)
+  }
+
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+  for (;;) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+    v = v * v * v
+    const u = random()
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v
+    }
+  }
+}
+
+function sampleNormal(random: () => number): number {
+  const u = random() || Number.MIN_VALUE
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
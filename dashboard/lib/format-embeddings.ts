@@ -0,0 +1,129 @@
+/**
+ * Format Embeddings
+ *
+ * Vectors for each format's description, template and example post, stored
+ * next to the format in KV under `format-embedding:<formatId>`. They are
+ * computed lazily: the first match after a format is learned or edited embeds
+ * whatever is missing or stale in one provider call. A stored entry is stale
+ * when the provider changed or the text's fingerprint no longer matches.
+ */
+
+import { getKVStore } from './storage'
+import { cosineSimilarity, fingerprint, type EmbeddingProvider } from './embeddings'
+import type { FormatPattern } from './types/social-media'
+
+const EMBEDDING_KEY_PREFIX = 'format-embedding:'
+
+export type EmbeddedField = 'description' | 'template' | 'examplePost'
+
+/** How much each field counts towards a format's similarity to a query */
+export const FIELD_WEIGHTS: Record<EmbeddedField, number> = {
+  description: 0.4,
+  template: 0.2,
+  examplePost: 0.4,
+}
+
+export const FIELD_LABELS: Record<EmbeddedField, string> = {
+  description: 'description',
+  template: 'template',
+  examplePost: 'example post',
+}
+
+export interface FormatEmbedding {
+  formatId: string
+  provider: string
+  /** Empty fields are not embedded */
+  fields: Partial<Record<EmbeddedField, { fingerprint: string; vector: number[] }>>
+  updatedAt: string
+}
+
+export interface SemanticSimilarity {
+  /** Weighted over the fields the format has, clipped to [0, 1] */
+  score: number
+  /** Field closest to the query */
+  bestField: EmbeddedField
+  fields: Partial<Record<EmbeddedField, number>>
+}
+
+/**
+ * Returns up-to-date embeddings for the given formats, embedding missing or
+ * stale fields in a single batch and storing the results.
+ */
+export async function getFormatEmbeddings(
+  formats: FormatPattern[],
+  provider: EmbeddingProvider
+): Promise<Map<string, FormatEmbedding>> {
+  const store = getKVStore()
+  const stored = await Promise.all(formats.map((format) => store.get<FormatEmbedding>(EMBEDDING_KEY_PREFIX + format.id)))
+
+  const embeddings = new Map<string, FormatEmbedding>()
+  const pending: { embedding: FormatEmbedding; field: EmbeddedField; text: string }[] = []
+
+  formats.forEach((format, i) => {
+    const previous = stored[i]?.provider === provider.id ? stored[i] : null
+    const embedding: FormatEmbedding = { formatId: format.id, provider: provider.id, fields: {}, updatedAt: previous?.updatedAt ?? '' }
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as EmbeddedField[]) {
+      const text = format[field].trim()
+      if (!text) continue
+
+      const current = previous?.fields[field]
+      if (current && current.fingerprint === fingerprint(text)) {
+        embedding.fields[field] = current
+      } else {
+        pending.push({ embedding, field, text })
+      }
+    }
+    embeddings.set(format.id, embedding)
+  })
+
+  if (pending.length > 0) {
+    const vectors = await provider.embed(pending.map((item) => item.text))
+    const updatedAt = new Date().toISOString()
+    pending.forEach(({ embedding, field, text }, i) => {
+      embedding.fields[field] = { fingerprint: fingerprint(text), vector: vectors[i] }
+      embedding.updatedAt = updatedAt
+    })
+
+    const changed = new Set(pending.map((item) => item.embedding))
+    await Promise.all([...changed].map((embedding) => store.put(EMBEDDING_KEY_PREFIX + embedding.formatId, embedding)))
+  }
+
+  return embeddings
+}
+
+/**
+ * Scores how close a format is to a query vector.
+ *
+ * @returns null when the format has no embedded fields
+ */
+export function semanticSimilarity(query: number[], embedding: FormatEmbedding): SemanticSimilarity | null {
+  const fields: SemanticSimilarity['fields'] = {}
+  let weighted = 0
+  let totalWeight = 0
+  let bestField: EmbeddedField | null = null
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as EmbeddedField[]) {
+    const entry = embedding.fields[field]
+    if (!entry) continue
+
+    const similarity = Math.max(0, cosineSimilarity(query, entry.vector))
+    fields[field] = Math.round(similarity * 1000) / 1000
+    weighted += similarity * FIELD_WEIGHTS[field]
+    totalWeight += FIELD_WEIGHTS[field]
+    if (!bestField || similarity > fields[bestField]!) bestField = field
+  }
+
+  if (!bestField) return null
+  return { score: weighted / totalWeight, bestField, fields }
+}
+
+export async function deleteFormatEmbedding(formatId: string): Promise<void> {
+  await getKVStore().delete(EMBEDDING_KEY_PREFIX + formatId)
+}
+
+export async function clearFormatEmbeddings(): Promise<void> {
+  const store = getKVStore()
+  const keys = await store.list(EMBEDDING_KEY_PREFIX)
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
@@ -0,0 +1,155 @@
+/**
+ * Format Extraction
+ *
+ * Reverse-engineers reusable ContentFormat patterns from scraped posts with
+ * the default OpenRouter model. Shared by the extract route (client-driven
+ * analysis) and the Apify webhook (server-side analysis jobs).
+ */
+
+import type { ContentFormat } from './agent-skills'
+import { Schema, s } from './schema'
+import type { ScrapedPost } from './social-scraper'
+import { DEFAULT_MODEL } from './openrouter'
+import { generateStructured } from './structured-output'
+import {
+  HOOK_TYPES,
+  BODY_TYPES,
+  CTA_TYPES,
+  HOOK_DESCRIPTIONS,
+  BODY_DESCRIPTIONS,
+  CTA_DESCRIPTIONS,
+  describeTaxonomy,
+  contentFormatSchema,
+  parseContentFormats,
+  type RejectedFormat,
+} from './taxonomy'
+
+/**
+ * Bumped whenever SYSTEM_PROMPT or the output schema changes, so stored
+ * extractions can be compared like for like.
+ */
+export const EXTRACTION_PROMPT_VERSION = 'v3'
+
+export interface FormatExtractionResult {
+  formats: ContentFormat[]
+  /** Formats in the reply that failed validation and were left out */
+  rejected: RejectedFormat[]
+  attempts: number
+  model: string
+  promptVersion: string
+}
+
+export class NoUsablePostsError extends Error {
+  constructor() {
+    super('No usable post content found in scraped data.')
+    this.name = 'NoUsablePostsError'
+  }
+}
+
+const SYSTEM_PROMPT = `You are an expert content strategist and format analyst. Your job is to reverse-engineer why LinkedIn and X posts perform well by identifying their structural patterns.
+
+Analyze the provided posts and extract reusable format patterns. X threads are shown as numbered parts; treat a thread as one post. For each DISTINCT format pattern you find (not each post — consolidate similar formats), return a structured JSON object.
+
+Format pattern fields:
+- id: kebab-case slug (e.g. "story-lesson-cta", "bold-listicle-save")
+- name: Short, descriptive name (e.g. "Failure Story → Lesson", "Bold Claim Listicle")
+- description: 1-2 sentences on when to use this format
+- hookType: Exactly one of the hook values listed below
+- bodyStructure: Exactly one of the body values listed below
+- ctaType: Exactly one of the CTA values listed below
+- template: A fill-in-the-blank template using [PLACEHOLDERS] — include the exact structure with line breaks
+- example: First 300 characters of the most representative post using this format
+- platform: "linkedin" | "twitter" | "both"
+- effectivenessIndicators: Array of 2-4 strings explaining WHY this format works (psychological triggers, format benefits)
+- sourcePosts: Array of the source post URLs
+
+Hook values:
+${describeTaxonomy(HOOK_TYPES, HOOK_DESCRIPTIONS)}
+
+Body values:
+${describeTaxonomy(BODY_TYPES, BODY_DESCRIPTIONS)}
+
+CTA values:
+${describeTaxonomy(CTA_TYPES, CTA_DESCRIPTIONS)}
+
+Return ONLY a JSON object of the form {"formats": [ ...format patterns... ]}. No markdown, no explanation.`
+
+// Formats are validated one by one, so a single bad entry does not cost the
+// whole reply; only a reply without any usable format is sent back to fix
+const formatListSchema = new Schema<ReturnType<typeof parseContentFormats>>(
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `Expected array, received ${value === null ? 'null' : typeof value}` })
+      return { formats: [], rejected: [] }
+    }
+    const parsed = parseContentFormats(value)
+    if (parsed.formats.length === 0) {
+      value.forEach((item, i) => contentFormatSchema.run(item, `${path}[${i}]`, issues))
+    }
+    return parsed
+  },
+  s.array(contentFormatSchema).jsonSchema
+)
+
+// A bare array is accepted too, since that is what older prompts asked for
+const extractionSchema = s.preprocess(
+  (value) => (Array.isArray(value) ? { formats: value } : value),
+  s.object({ formats: formatListSchema })
+)
+
+/**
+ * Renders posts as the model's input. Posts without real content are skipped.
+ */
+export function buildPostsContext(posts: ScrapedPost[]): string {
+  return posts
+    .filter((p) => p.text && p.text.trim().length > 20)
+    .map(
+      (p, i) => `--- Post ${i + 1} (${p.platform === 'twitter' ? 'X' : 'LinkedIn'}${p.parts ? `, thread of ${p.parts.length}` : ''}) ---
+URL: ${p.url || 'unknown'}
+Engagement: ${p.likesCount ?? 0} likes · ${p.commentsCount ?? 0} comments · ${p.sharesCount ?? 0} reposts
+Author: ${p.authorName ?? 'unknown'} ${p.authorHeadline ? `· ${p.authorHeadline}` : ''}
+
+Content:
+${p.parts ? p.parts.map((part) => `[${part.position}/${p.parts!.length}] ${part.text.trim()}`).join('\n\n') : p.text.trim()}
+`
+    )
+    .join('\n')
+}
+
+/**
+ * Extracts format patterns from the given posts.
+ *
+ * @param model - OpenRouter model id (defaults to DEFAULT_MODEL)
+ * @throws NoUsablePostsError if none of the posts has usable content
+ * @throws StructuredOutputError if the model never returns a valid format
+ */
+export async function extractFormats(posts: ScrapedPost[], model = DEFAULT_MODEL): Promise<FormatExtractionResult> {
+  const postsContext = buildPostsContext(posts)
+  if (!postsContext) {
+    throw new NoUsablePostsError()
+  }
+
+  const { data, attempts } = await generateStructured({
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Analyze these ${posts.length} posts and extract the distinct format patterns:\n\n${postsContext}`,
+      },
+    ],
+    schema: extractionSchema,
+    schemaName: 'format_patterns',
+    model,
+    temperature: 0.2,
+    maxTokens: 4000,
+  })
+
+  const createdAt = new Date().toISOString()
+  return {
+    formats: data.formats.formats.map((f) => ({ ...f, createdAt })),
+    rejected: data.formats.rejected,
+    attempts,
+    model,
+    promptVersion: EXTRACTION_PROMPT_VERSION,
+  }
+}
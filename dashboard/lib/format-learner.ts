@@ -7,8 +7,19 @@
  * The system learns by:
  * 1. Extracting format patterns from analyzed posts
  * 2. Storing successful patterns with effectiveness scores
- * 3. Finding best matching formats for new topics
+ * 3. Finding best matching formats for new topics (keyword scores blended
+ *    with embedding similarity, see ./format-embeddings)
  * 4. Suggesting format modifications for better results
+ * 
+ * Posts are grouped into formats by structural clustering (see
+ * ./format-clustering), so two posts sharing hook, body and CTA labels can
+ * still become separate formats; mergeFormats and splitFormat reshape
+ * clusters after review.
+ * 
+ * Effectiveness is a decaying Beta posterior per format (see
+ * ./format-effectiveness); listings and matches rank by its upper confidence
+ * bound, shrunk as the evidence ages, so new formats still get tried and
+ * stale ones give way to fresh ones.
  */
 
 import {
@@ -17,6 +28,9 @@ import {
   AnalysisResult,
   FormatMatchResult,
   LearningData,
+  FormatSourcePost,
+  LengthPercentiles,
+  TopicPerformance,
   Platform,
   HookType,
   BodyType,
@@ -24,52 +38,201 @@ import {
   EmotionalTrigger
 } from './types/social-media'
 import { analyzePost, parsePostContent, identifyFormatPattern, extractViralSignals } from './viral-analyzer'
+import { FormatRepository, getFormatRepository } from './format-repository'
+import { HOOK_LABELS, BODY_LABELS, CTA_LABELS, normalizeFormatPattern } from './taxonomy'
+import { getViralityModel } from './virality-calibration'
+import { weightedEngagement } from './virality-model'
+import {
+  combinePosteriors,
+  EDITORIAL_WEIGHT,
+  EffectivenessRanking,
+  effectivenessScore,
+  normalizeOutcome,
+  observe,
+  posteriorFromScore,
+  posteriorOf,
+  priorPosterior,
+  rankingValue,
+  rescorePosterior,
+  summarizeEffectiveness
+} from './format-effectiveness'
+import { clearFormatSources, deleteFormatSources, hasFormatSource, listFormatSources, moveFormatSources, recordFormatSource } from './format-sources'
+import {
+  addToCluster,
+  clearFormatClusters,
+  ClusterMember,
+  clusterExemplars,
+  clusterFromExample,
+  clusterFromMembers,
+  createCluster,
+  deleteFormatCluster,
+  dominantLabels,
+  findNearestCluster,
+  FormatCluster,
+  FormatClusterError,
+  FormatLabels,
+  getFormatCluster,
+  mergeClusters,
+  saveFormatCluster,
+  structuralFeatures
+} from './format-clustering'
+import { PatternCatalog, PatternSet, selectPatternSet } from './pattern-packs'
+import { loadPatternCatalog } from './pattern-registry'
+import { detectLanguage } from './language-detection'
+import { extractTemplate } from './template-extraction'
+import { graphemeLength } from './text-metrics'
+import { renderTemplate, type RenderOptions, type TemplateBindings, type TemplateRenderResult } from './template-engine'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings'
+import {
+  clearFormatEmbeddings,
+  deleteFormatEmbedding,
+  FIELD_LABELS,
+  getFormatEmbeddings,
+  SemanticSimilarity,
+  semanticSimilarity
+} from './format-embeddings'
+
+export interface FormatMatchOptions {
+  preferredHook?: HookType
+  preferredBody?: BodyType
+  preferredCTA?: CTAType
+  targetEmotions?: EmotionalTrigger[]
+  minEffectiveness?: number
+  /** Number of candidates to return (default 3) */
+  limit?: number
+  /** How effectiveness counts towards the keyword score (default 'ucb') */
+  ranking?: EffectivenessRanking
+  /** Defaults to getEmbeddingProvider() */
+  embeddingProvider?: EmbeddingProvider
+}
+
+export interface LearnOptions {
+  /** Embeds posts for clustering; defaults to getEmbeddingProvider(), null clusters on structure alone */
+  embeddingProvider?: EmbeddingProvider | null
+}
+
+export interface SplitResult {
+  /** The original format, keeping the remaining posts */
+  format: FormatPattern
+  /** New format holding the split-off posts */
+  created: FormatPattern
+}
+
+const DEFAULT_MATCH_LIMIT = 3
 
-let formatStore: Map<string, FormatPattern> = new Map()
+// Share of matchScore that comes from embedding similarity
+const SEMANTIC_WEIGHT = 0.5
+
+// Learning data reports at most this many example posts and top topics
+const MAX_SUCCESSFUL_POSTS = 10
+const MAX_BEST_TOPICS = 5
+
+const seededRepositories = new WeakMap<FormatRepository, Promise<void>>()
+
+/**
+ * Resolves the format repository for the current request, seeding the
+ * default formats unless the repository says it was seeded before. The
+ * check runs once per repository in this isolate.
+ */
+async function formatRepository(): Promise<FormatRepository> {
+  const repository = getFormatRepository()
+  let seeded = seededRepositories.get(repository)
+  if (!seeded) {
+    seeded = seedOnce(repository)
+    seededRepositories.set(repository, seeded)
+  }
+  await seeded
+  return repository
+}
+
+async function seedOnce(repository: FormatRepository): Promise<void> {
+  if (await repository.isSeeded()) return
+  // Repositories seeded before the marker existed already hold formats;
+  // seeding them again would bring back deleted starter formats
+  if ((await repository.list()).length === 0) {
+    await initializeDefaultFormats(repository)
+  }
+  await repository.markSeeded()
+}
 
 /**
  * Learns from a viral post and stores its format pattern.
- * Extracts the successful format structure and stores it with
- * effectiveness metrics for future content generation.
+ * The post joins the closest structural cluster on its platform, updating
+ * that format's effectiveness and exemplars, or founds a new format when
+ * no cluster is close enough. A post the format already learned from is
+ * not counted again.
  * 
  * @param post - ViralPost to learn from
  * @param analysisResult - Optional pre-computed analysis result
+ * @param patterns - Pattern catalog to analyze and tag with (defaults to the default workspace's)
+ * @param options - Clustering options
  * @returns The created or updated FormatPattern
  * 
  * @example
  * const format = await learnFromPost(viralPost, analysisResult)
  * // Returns stored format pattern with calculated effectiveness
  */
-export function learnFromPost(
+export async function learnFromPost(
   post: ViralPost,
-  analysisResult?: AnalysisResult
-): FormatPattern {
-  const analysis = analysisResult || analyzePost(post)
+  analysisResult?: AnalysisResult,
+  patterns?: PatternCatalog,
+  options: LearnOptions = {}
+): Promise<FormatPattern> {
+  const repository = await formatRepository()
+  const catalog = patterns ?? await loadPatternCatalog()
+  const analysis = analysisResult || analyzePost(post, { model: await getViralityModel(), patterns: catalog })
   const parsed = parsePostContent(post.content)
+  const patternSet = selectPatternSet(catalog, parsed.language)
   
-  const formatId = generateFormatId(analysis.formatPattern, post.platform)
+  const member: ClusterMember = {
+    postId: post.id,
+    content: post.content,
+    features: structuralFeatures(parsed),
+    hookType: analysis.formatPattern.hookType,
+    bodyType: analysis.formatPattern.bodyType,
+    ctaType: analysis.formatPattern.ctaType,
+    engagement: weightedEngagement(post.metrics),
+    viralityScore: analysis.viralityScore,
+    learnedAt: new Date().toISOString()
+  }
+  const embedding = await embedForClustering(post.content, options.embeddingProvider)
   
-  const existingFormat = formatStore.get(formatId)
+  const formats = await repository.list()
+  const clusters = await loadClusters(formats.filter(f => f.platform === post.platform))
+  const nearest = findNearestCluster({ ...member, embedding }, clusters)
   
-  if (existingFormat) {
+  if (nearest) {
+    // Re-learning a post (a retried job, a re-run analysis) refreshes its
+    // member and source entries but is not a new observation
+    const relearned = nearest.cluster.members.some(m => m.postId === post.id)
+      || await hasFormatSource(nearest.format.id, post.id)
+    const cluster = addToCluster(nearest.cluster, member, embedding)
+    const [exemplar] = clusterExemplars(cluster)
+    const effectiveness = relearned
+      ? posteriorOf(nearest.format)
+      : observe(posteriorOf(nearest.format), normalizeOutcome(member.engagement, member.viralityScore))
     const updatedFormat: FormatPattern = {
-      ...existingFormat,
-      effectivenessScore: calculateUpdatedEffectiveness(
-        existingFormat.effectivenessScore,
-        analysis.viralityScore,
-        existingFormat.usageCount
-      ),
-      usageCount: existingFormat.usageCount + 1,
+      ...nearest.format,
+      examplePost: exemplar.content,
+      template: exemplar.content === nearest.format.examplePost
+        ? nearest.format.template
+        : generateTemplate(exemplar.content, catalog),
+      effectivenessScore: effectivenessScore(effectiveness),
+      effectiveness,
+      usageCount: relearned ? nearest.format.usageCount : nearest.format.usageCount + 1,
       updatedAt: new Date().toISOString()
     }
     
-    formatStore.set(formatId, updatedFormat)
-    return updatedFormat
+    const saved = await repository.upsert(updatedFormat)
+    await saveFormatCluster(cluster)
+    await recordSource(saved.id, post, analysis, parsed.wordCount, patternSet)
+    return saved
   }
   
-  const template = generateTemplate(post.content, analysis.formatPattern)
+  const template = generateTemplate(post.content, catalog)
+  const effectiveness = observe(priorPosterior(), normalizeOutcome(member.engagement, member.viralityScore))
   const newFormat: FormatPattern = {
-    id: formatId,
+    id: generateFormatId(analysis.formatPattern, post.platform, formats),
     name: generateFormatName(analysis.formatPattern),
     description: generateFormatDescription(analysis.formatPattern, post.platform),
     platform: post.platform,
@@ -78,35 +241,42 @@ export function learnFromPost(
     ctaType: analysis.formatPattern.ctaType,
     template,
     examplePost: post.content,
-    tags: extractTags(post.content, analysis),
-    effectivenessScore: analysis.viralityScore,
+    tags: extractTags(post.content, analysis, patternSet),
+    effectivenessScore: effectivenessScore(effectiveness),
+    effectiveness,
     usageCount: 1,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   }
   
-  formatStore.set(formatId, newFormat)
-  return newFormat
+  const saved = await repository.upsert(newFormat)
+  await saveFormatCluster(createCluster(saved.id, saved.platform, member, embedding))
+  await recordSource(saved.id, post, analysis, parsed.wordCount, patternSet)
+  return saved
 }
 
 /**
- * Retrieves all stored format patterns, optionally filtered by platform.
+ * Retrieves all stored format patterns, optionally filtered by platform,
+ * ranked by the upper confidence bound of their effectiveness.
  * 
  * @param platform - Optional platform filter
+ * @param ranking - Ranking to sort by (default 'ucb')
  * @returns Array of FormatPattern objects
  * 
  * @example
- * const linkedinFormats = getStoredFormats('linkedin')
+ * const linkedinFormats = await getStoredFormats('linkedin')
  * // Returns all LinkedIn format patterns
  */
-export function getStoredFormats(platform?: Platform): FormatPattern[] {
-  const formats = Array.from(formatStore.values())
+export async function getStoredFormats(
+  platform?: Platform,
+  ranking: EffectivenessRanking = 'ucb'
+): Promise<FormatPattern[]> {
+  const repository = await formatRepository()
+  const formats = (await repository.list()).filter(f => !platform || f.platform === platform)
   
-  if (platform) {
-    return formats.filter(f => f.platform === platform)
-  }
-  
-  return formats.sort((a, b) => b.effectivenessScore - a.effectivenessScore)
+  const now = new Date()
+  const values = new Map(formats.map(f => [f.id, rankingValue(f, ranking, now)]))
+  return formats.sort((a, b) => values.get(b.id)! - values.get(a.id)!)
 }
 
 /**
@@ -115,82 +285,106 @@ export function getStoredFormats(platform?: Platform): FormatPattern[] {
  * @param id - Format pattern ID
  * @returns FormatPattern or undefined if not found
  */
-export function getFormatById(id: string): FormatPattern | undefined {
-  return formatStore.get(id)
+export async function getFormatById(id: string): Promise<FormatPattern | undefined> {
+  const repository = await formatRepository()
+  return (await repository.get(id)) ?? undefined
 }
 
 /**
- * Finds the best matching format pattern for a given topic and context.
- * Analyzes the topic keywords, desired emotional triggers, and platform
- * to recommend the most effective format.
+ * Renders a format's template with the given slot values (see
+ * ./template-engine). Section markers such as [HOOK: QUESTION] are left out
+ * unless `sections: 'keep'`.
+ *
+ * @throws TemplateSyntaxError if the stored template does not parse
+ */
+export function renderFormatTemplate(
+  format: FormatPattern,
+  bindings: TemplateBindings,
+  options?: RenderOptions
+): TemplateRenderResult {
+  return renderTemplate(format.template, bindings, options)
+}
+
+/**
+ * Ranks stored formats for a topic and returns the top candidates.
+ * Each format's keyword score (tags, preferred types, effectiveness ranked
+ * by upper confidence bound or Thompson sampling) is blended with the embedding similarity between the topic and the
+ * format's description, template and example post, so "outbound prospecting
+ * with AI SDRs" can match a sales outreach format without sharing a tag.
+ * Formats without an embedding blend in a similarity of 0. Falls back to
+ * keyword scores alone for every format if embedding fails.
  * 
  * @param topic - Topic or theme for content
  * @param platform - Target platform
- * @param options - Additional matching options
- * @returns FormatMatchResult with best matching format
+ * @param options - Additional matching options; `limit` sets k (default 3)
+ * @returns Up to `limit` FormatMatchResults, best first
  * 
  * @example
- * const match = findBestMatch('leadership tips', 'linkedin', {
+ * const [best] = await findBestMatch('leadership tips', 'linkedin', {
  *   preferredHook: HookType.LIST,
  *   targetEmotions: [EmotionalTrigger.INSPIRATION]
  * })
  */
-export function findBestMatch(
+export async function findBestMatch(
   topic: string,
   platform: Platform,
-  options?: {
-    preferredHook?: HookType
-    preferredBody?: BodyType
-    preferredCTA?: CTAType
-    targetEmotions?: EmotionalTrigger[]
-    minEffectiveness?: number
-  }
-): FormatMatchResult | null {
-  const formats = getStoredFormats(platform)
+  options?: FormatMatchOptions
+): Promise<FormatMatchResult[]> {
+  const formats = await getStoredFormats(platform)
   
   if (formats.length === 0) {
-    return getDefaultFormat(topic, platform)
+    return [await getDefaultFormat(topic, platform)]
   }
   
-  let bestMatch: { format: FormatPattern; score: number; elements: string[] } | null = null
+  const semantic = await scoreSemanticMatches(topic, formats, options?.embeddingProvider)
   
-  for (const format of formats) {
-    const { score, matchingElements } = calculateMatchScore(format, topic, options)
+  const candidates = formats.map(format => {
+    const { score: keyword, matchingElements } = calculateMatchScore(format, topic, options)
+    const similarity = semantic?.get(format.id) ?? null
+    if (similarity) {
+      matchingElements.unshift(`Semantic match: ${Math.round(similarity.score * 100)}% (closest: ${FIELD_LABELS[similarity.bestField]})`)
+    }
+    
+    // A format with nothing to embed scores 0 on similarity, so its keyword
+    // score is not ranked against blended ones as if it were a full match
+    const semanticScore = similarity ? similarity.score * 100 : null
+    const matchScore = semantic === null
+      ? keyword
+      : (1 - SEMANTIC_WEIGHT) * keyword + SEMANTIC_WEIGHT * (semanticScore ?? 0)
     
-    if (!bestMatch || score > bestMatch.score) {
-      bestMatch = {
-        format,
-        score,
-        elements: matchingElements
+    return {
+      format,
+      result: {
+        formatId: format.id,
+        formatName: format.name,
+        matchScore: roundScore(matchScore),
+        scores: { keyword: roundScore(keyword), semantic: semanticScore === null ? null : roundScore(semanticScore) },
+        matchingElements,
+        suggestedModifications: generateModifications(format, topic, options)
       }
     }
-  }
-  
-  if (!bestMatch) {
-    return getDefaultFormat(topic, platform)
-  }
+  })
   
-  return {
-    formatId: bestMatch.format.id,
-    formatName: bestMatch.format.name,
-    matchScore: bestMatch.score,
-    matchingElements: bestMatch.elements,
-    suggestedModifications: generateModifications(bestMatch.format, topic, options)
-  }
+  return candidates
+    .sort((a, b) => b.result.matchScore - a.result.matchScore)
+    .slice(0, Math.max(1, options?.limit ?? DEFAULT_MATCH_LIMIT))
+    .map(candidate => candidate.result)
 }
 
 /**
  * Updates an existing format pattern.
+ * Setting effectivenessScore re-centres the effectiveness posterior on it.
  * 
  * @param id - Format ID to update
  * @param updates - Partial format updates
  * @returns Updated FormatPattern or null if not found
  */
-export function updateFormat(
+export async function updateFormat(
   id: string,
   updates: Partial<Omit<FormatPattern, 'id' | 'createdAt'>>
-): FormatPattern | null {
-  const existing = formatStore.get(id)
+): Promise<FormatPattern | null> {
+  const repository = await formatRepository()
+  const existing = await repository.get(id)
   
   if (!existing) {
     return null
@@ -202,8 +396,36 @@ export function updateFormat(
     updatedAt: new Date().toISOString()
   }
   
-  formatStore.set(id, updated)
-  return updated
+  // A manual score moves the posterior mean but keeps the evidence behind it
+  if (updates.effectivenessScore !== undefined && updates.effectiveness === undefined) {
+    updated.effectiveness = rescorePosterior(posteriorOf(existing), updates.effectivenessScore)
+  }
+  
+  return repository.upsert(updated)
+}
+
+/**
+ * Records how a post written with a format performed.
+ * 
+ * @param id - Format ID
+ * @param score - Outcome on a 0-100 scale
+ * @returns Updated FormatPattern or null if not found
+ */
+export async function recordFormatOutcome(id: string, score: number): Promise<FormatPattern | null> {
+  const repository = await formatRepository()
+  const existing = await repository.get(id)
+  
+  if (!existing) {
+    return null
+  }
+  
+  const effectiveness = observe(posteriorOf(existing), score / 100)
+  return repository.upsert({
+    ...existing,
+    effectivenessScore: effectivenessScore(effectiveness),
+    effectiveness,
+    updatedAt: new Date().toISOString()
+  })
 }
 
 /**
@@ -212,8 +434,12 @@ export function updateFormat(
  * @param id - Format ID to delete
  * @returns true if deleted, false if not found
  */
-export function deleteFormat(id: string): boolean {
-  return formatStore.delete(id)
+export async function deleteFormat(id: string): Promise<boolean> {
+  const repository = await formatRepository()
+  await deleteFormatEmbedding(id)
+  await deleteFormatSources(id)
+  await deleteFormatCluster(id)
+  return repository.delete(id)
 }
 
 /**
@@ -223,20 +449,62 @@ export function deleteFormat(id: string): boolean {
  * @param formatId - Format ID
  * @returns LearningData or null if format not found
  */
-export function getLearningData(formatId: string): LearningData | null {
-  const format = formatStore.get(formatId)
+export async function getLearningData(formatId: string): Promise<LearningData | null> {
+  const repository = await formatRepository()
+  const format = await repository.get(formatId)
   
   if (!format) {
     return null
   }
   
+  const sources = (await listFormatSources(format.id))
+    .sort((a, b) => b.engagement - a.engagement)
+  
+  if (sources.length === 0) {
+    return {
+      formatId: format.id,
+      successfulPosts: [],
+      sampleSize: 0,
+      averageEngagement: 0,
+      averageMetrics: { likes: 0, comments: 0, shares: 0 },
+      averageViralityScore: null,
+      effectiveness: summarizeEffectiveness(posteriorOf(format)),
+      commonElements: extractCommonElements(format),
+      optimalPostLength: calculateOptimalLength(format.platform),
+      lengthPercentiles: null,
+      bestPerformingTopics: format.tags,
+      topicPerformance: []
+    }
+  }
+  
+  const words = percentiles(sources.map(source => source.wordCount))
+  const topicPerformance = rankTopics(sources)
+  
   return {
     formatId: format.id,
-    successfulPosts: [],
-    averageEngagement: format.effectivenessScore,
+    successfulPosts: sources.slice(0, MAX_SUCCESSFUL_POSTS).map(source => source.post),
+    sampleSize: sources.length,
+    averageEngagement: roundScore(mean(sources.map(source => source.engagement))),
+    averageMetrics: {
+      likes: roundScore(mean(sources.map(source => source.post.metrics.likes))),
+      comments: roundScore(mean(sources.map(source => source.post.metrics.comments))),
+      shares: roundScore(mean(sources.map(source => source.post.metrics.shares)))
+    },
+    averageViralityScore: roundScore(mean(sources.map(source => source.viralityScore))),
+    effectiveness: summarizeEffectiveness(posteriorOf(format)),
     commonElements: extractCommonElements(format),
-    optimalPostLength: calculateOptimalLength(format.platform),
-    bestPerformingTopics: format.tags
+    optimalPostLength: {
+      min: words.p25,
+      max: words.p75,
+      // Sources are sorted by engagement, so the first half is the better-engaging one
+      optimal: percentiles(sources.slice(0, Math.ceil(sources.length / 2)).map(source => source.wordCount)).p50
+    },
+    lengthPercentiles: {
+      words,
+      characters: percentiles(sources.map(source => source.characterCount))
+    },
+    bestPerformingTopics: topicPerformance.slice(0, MAX_BEST_TOPICS).map(entry => entry.topic),
+    topicPerformance
   }
 }
 
@@ -245,10 +513,144 @@ export function getLearningData(formatId: string): LearningData | null {
  * Useful for initial training or bulk updates.
  * 
  * @param posts - Array of ViralPost objects
+ * @param patterns - Pattern catalog to analyze with (defaults to the default workspace's)
+ * @param options - Clustering options
  * @returns Array of created/updated FormatPattern objects
  */
-export function batchLearn(posts: ViralPost[]): FormatPattern[] {
-  return posts.map(post => learnFromPost(post))
+export async function batchLearn(
+  posts: ViralPost[],
+  patterns?: PatternCatalog,
+  options?: LearnOptions
+): Promise<FormatPattern[]> {
+  const results: FormatPattern[] = []
+  const catalog = patterns ?? await loadPatternCatalog()
+  for (const post of posts) {
+    results.push(await learnFromPost(post, undefined, catalog, options))
+  }
+  return results
+}
+
+/**
+ * Merges one format into another: the clusters, source posts, usage and
+ * tags are combined under the target, and the source format is deleted.
+ * 
+ * @param targetId - Format to keep
+ * @param sourceId - Format merged into the target and removed
+ * @returns The merged format, or null if either format was not found
+ * @throws FormatClusterError when the formats are the same or on different platforms
+ */
+export async function mergeFormats(targetId: string, sourceId: string): Promise<FormatPattern | null> {
+  if (targetId === sourceId) {
+    throw new FormatClusterError('Cannot merge a format into itself.')
+  }
+  
+  const repository = await formatRepository()
+  const [target, source] = await Promise.all([repository.get(targetId), repository.get(sourceId)])
+  if (!target || !source) {
+    return null
+  }
+  if (target.platform !== source.platform) {
+    throw new FormatClusterError(`Cannot merge a ${source.platform} format into a ${target.platform} format.`)
+  }
+  
+  const [targetCluster, sourceCluster] = await Promise.all([formatCluster(target), formatCluster(source)])
+  const cluster = targetCluster && sourceCluster
+    ? mergeClusters(target.id, targetCluster, sourceCluster)
+    : targetCluster ?? (sourceCluster && { ...sourceCluster, formatId: target.id })
+  const exemplar = cluster ? clusterExemplars(cluster)[0] : undefined
+  const examplePost = exemplar?.content ?? (target.examplePost || source.examplePost)
+  
+  const effectiveness = combinePosteriors(posteriorOf(target), posteriorOf(source))
+  const merged: FormatPattern = {
+    ...target,
+    examplePost,
+    template: examplePost === target.examplePost ? target.template : generateTemplate(examplePost, await loadPatternCatalog()),
+    tags: [...new Set([...target.tags, ...source.tags])].slice(0, 10),
+    effectivenessScore: effectivenessScore(effectiveness),
+    effectiveness,
+    usageCount: target.usageCount + source.usageCount,
+    updatedAt: new Date().toISOString()
+  }
+  
+  const saved = await repository.upsert(merged)
+  if (cluster) {
+    await saveFormatCluster(cluster)
+  }
+  await moveFormatSources(source.id, target.id)
+  await deleteFormat(source.id)
+  return saved
+}
+
+/**
+ * Splits the given posts off a format into a new one. The new format takes
+ * the most common hook, body and CTA of the posts it receives; the original
+ * is relabelled the same way from the posts it keeps.
+ * 
+ * @param formatId - Format to split
+ * @param postIds - Clustered posts to move to the new format
+ * @returns Both formats, or null if the format was not found
+ * @throws FormatClusterError when the format has no clustered posts or
+ *   the split would leave either side empty
+ */
+export async function splitFormat(formatId: string, postIds: string[]): Promise<SplitResult | null> {
+  const repository = await formatRepository()
+  const format = await repository.get(formatId)
+  if (!format) {
+    return null
+  }
+  
+  const cluster = await getFormatCluster(formatId)
+  if (!cluster) {
+    throw new FormatClusterError(`Format ${formatId} has no clustered posts to split.`)
+  }
+  
+  const moving = new Set(postIds)
+  const moved = cluster.members.filter(member => moving.has(member.postId))
+  const kept = cluster.members.filter(member => !moving.has(member.postId))
+  if (moved.length === 0 || kept.length === 0) {
+    throw new FormatClusterError('A split must leave clustered posts in both formats.')
+  }
+  
+  const now = new Date().toISOString()
+  const catalog = await loadPatternCatalog()
+  const movedLabels = dominantLabels(moved)
+  const movedUsage = Math.max(1, Math.round(format.usageCount * moved.length / cluster.members.length))
+  const movedEffectiveness = [...moved]
+    .sort((a, b) => a.learnedAt.localeCompare(b.learnedAt))
+    .reduce(
+      (posterior, member) => observe(posterior, normalizeOutcome(member.engagement, member.viralityScore), new Date(member.learnedAt)),
+      priorPosterior(moved[0].learnedAt)
+    )
+  const created: FormatPattern = {
+    id: generateFormatId(movedLabels, format.platform, await repository.list()),
+    name: generateFormatName(movedLabels),
+    description: generateFormatDescription(movedLabels, format.platform),
+    platform: format.platform,
+    ...movedLabels,
+    template: generateTemplate(moved[0].content, catalog),
+    examplePost: moved[0].content,
+    tags: format.tags,
+    effectivenessScore: effectivenessScore(movedEffectiveness),
+    effectiveness: movedEffectiveness,
+    usageCount: movedUsage,
+    createdAt: now,
+    updatedAt: now
+  }
+  
+  const remaining: FormatPattern = {
+    ...relabel(format, dominantLabels(kept)),
+    examplePost: kept[0].content,
+    template: kept[0].content === format.examplePost ? format.template : generateTemplate(kept[0].content, catalog),
+    usageCount: Math.max(1, format.usageCount - movedUsage),
+    updatedAt: now
+  }
+  
+  await repository.upsert(created)
+  await repository.upsert(remaining)
+  await saveFormatCluster(clusterFromMembers(created.id, created.platform, moved))
+  await saveFormatCluster(clusterFromMembers(remaining.id, remaining.platform, kept))
+  await moveFormatSources(format.id, created.id, moving)
+  return { format: remaining, created }
 }
 
 /**
@@ -256,37 +658,42 @@ export function batchLearn(posts: ViralPost[]): FormatPattern[] {
  * 
  * @returns JSON-serializable array of formats
  */
-export function exportFormats(): FormatPattern[] {
-  return Array.from(formatStore.values())
+export async function exportFormats(): Promise<FormatPattern[]> {
+  const repository = await formatRepository()
+  return repository.list()
 }
 
 /**
  * Imports formats from an exported backup.
- * Merges with existing formats, updating effectiveness scores.
+ * Merging pools the effectiveness evidence of both copies.
  * 
  * @param formats - Array of FormatPattern to import
  * @param mergeStrategy - How to handle conflicts: 'replace' | 'merge' | 'skip'
  */
-export function importFormats(
+export async function importFormats(
   formats: FormatPattern[],
   mergeStrategy: 'replace' | 'merge' | 'skip' = 'merge'
-): void {
-  for (const format of formats) {
-    const existing = formatStore.get(format.id)
+): Promise<void> {
+  const repository = await formatRepository()
+  
+  for (const format of formats.map(normalizeFormatPattern)) {
+    const existing = await repository.get(format.id)
     
     if (!existing) {
-      formatStore.set(format.id, format)
+      await repository.upsert(format)
     } else if (mergeStrategy === 'replace') {
-      formatStore.set(format.id, format)
+      await repository.upsert(format)
     } else if (mergeStrategy === 'merge') {
+      const effectiveness = combinePosteriors(posteriorOf(existing), posteriorOf(format))
       const merged: FormatPattern = {
         ...existing,
-        effectivenessScore: (existing.effectivenessScore + format.effectivenessScore) / 2,
+        effectivenessScore: effectivenessScore(effectiveness),
+        effectiveness,
         usageCount: existing.usageCount + format.usageCount,
         tags: [...new Set([...existing.tags, ...format.tags])],
         updatedAt: new Date().toISOString()
       }
-      formatStore.set(format.id, merged)
+      await repository.upsert(merged)
     }
   }
 }
@@ -295,8 +702,12 @@ export function importFormats(
  * Clears all stored formats.
  * Use with caution - this is destructive.
  */
-export function clearFormats(): void {
-  formatStore.clear()
+export async function clearFormats(): Promise<void> {
+  const repository = await formatRepository()
+  await repository.clear()
+  await clearFormatEmbeddings()
+  await clearFormatSources()
+  await clearFormatClusters()
 }
 
 /**
@@ -304,14 +715,14 @@ export function clearFormats(): void {
  * 
  * @param platform - Optional platform filter
  */
-export function getFormatStats(platform?: Platform): {
+export async function getFormatStats(platform?: Platform): Promise<{
   totalFormats: number
   averageEffectiveness: number
   topHooks: { hook: HookType; count: number }[]
   topBodies: { body: BodyType; count: number }[]
   topCTAs: { cta: CTAType; count: number }[]
-} {
-  const formats = getStoredFormats(platform)
+}> {
+  const formats = await getStoredFormats(platform)
   
   const hookCounts = new Map<HookType, number>()
   const bodyCounts = new Map<BodyType, number>()
@@ -349,143 +760,217 @@ export function getFormatStats(platform?: Platform): {
   }
 }
 
-function generateFormatId(formatPattern: { hookType: HookType; bodyType: BodyType; ctaType: CTAType }, platform: Platform): string {
+/**
+ * Readable id from the platform and labels. Several clusters can share
+ * labels, so later ones get a numeric suffix.
+ */
+function generateFormatId(formatPattern: FormatLabels, platform: Platform, existing: FormatPattern[]): string {
   const hash = `${platform}-${formatPattern.hookType}-${formatPattern.bodyType}-${formatPattern.ctaType}`
-  return hash.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+  const base = hash.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+  const taken = new Set(existing.map(f => f.id))
+  
+  let id = base
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`
+  }
+  return id
 }
 
-function generateFormatName(formatPattern: { hookType: HookType; bodyType: BodyType; ctaType: CTAType }): string {
-  const hookNames: Record<HookType, string> = {
-    [HookType.QUESTION]: 'Question Hook',
-    [HookType.BOLD_STATEMENT]: 'Bold Statement',
-    [HookType.STORY]: 'Story Opener',
-    [HookType.LIST]: 'List Intro',
-    [HookType.CONTROVERSIAL_TAKE]: 'Controversial',
-    [HookType.STATISTIC]: 'Data-Led',
-    [HookType.QUOTE]: 'Quote-Led',
-    [HookType.HOW_TO]: 'How-To',
-    [HookType.NONE]: 'Direct'
+/**
+ * Applies new labels to a format, regenerating its name and description
+ * only when the labels actually changed.
+ */
+function relabel(format: FormatPattern, labels: FormatLabels): FormatPattern {
+  if (labels.hookType === format.hookType && labels.bodyType === format.bodyType && labels.ctaType === format.ctaType) {
+    return format
   }
   
-  const bodyNames: Record<BodyType, string> = {
-    [BodyType.PROBLEM_SOLUTION]: 'Problem-Solution',
-    [BodyType.STORY_DRIVEN]: 'Story-Driven',
-    [BodyType.LISTICLE]: 'Listicle',
-    [BodyType.TUTORIAL]: 'Tutorial',
-    [BodyType.INSIGHT_SHARING]: 'Insight',
-    [BodyType.COMPARISON]: 'Comparison',
-    [BodyType.MYTH_BUSTING]: 'Myth-Buster',
-    [BodyType.LESSON_LEARNED]: 'Lesson',
-    [BodyType.THREAD]: 'Thread',
-    [BodyType.NARRATIVE]: 'Narrative'
+  return {
+    ...format,
+    ...labels,
+    name: generateFormatName(labels),
+    description: generateFormatDescription(labels, format.platform)
+  }
+}
+
+/**
+ * Stored cluster for a format, or a stand-in built from its example post.
+ */
+async function formatCluster(format: FormatPattern): Promise<FormatCluster | null> {
+  return (await getFormatCluster(format.id)) ?? clusterFromExample(format)
+}
+
+async function loadClusters(formats: FormatPattern[]): Promise<{ format: FormatPattern; cluster: FormatCluster }[]> {
+  const clusters = await Promise.all(formats.map(format => formatCluster(format)))
+  return formats.flatMap((format, i) => {
+    const cluster = clusters[i]
+    return cluster ? [{ format, cluster }] : []
+  })
+}
+
+async function embedForClustering(
+  content: string,
+  provider: EmbeddingProvider | null = getEmbeddingProvider()
+): Promise<FormatCluster['embedding']> {
+  if (!provider) {
+    return undefined
   }
   
-  return `${hookNames[formatPattern.hookType]} ${bodyNames[formatPattern.bodyType]}`
+  try {
+    const [vector] = await provider.embed([content])
+    return { provider: provider.id, vector }
+  } catch (error) {
+    console.warn('Post embedding unavailable, clustering on structure only:', error)
+    return undefined
+  }
+}
+
+function generateFormatName(formatPattern: FormatLabels): string {
+  return `${HOOK_LABELS[formatPattern.hookType]} ${BODY_LABELS[formatPattern.bodyType]}`
 }
 
 function generateFormatDescription(
-  formatPattern: { hookType: HookType; bodyType: BodyType; ctaType: CTAType },
+  formatPattern: FormatLabels,
   platform: Platform
 ): string {
   const platformNote = platform === 'linkedin' 
     ? 'Optimized for LinkedIn professional audience.'
     : 'Optimized for Twitter/X engagement.'
   
-  return `Format using ${formatPattern.hookType} hook with ${formatPattern.bodyType} structure and ${formatPattern.ctaType} call-to-action. ${platformNote}`
+  return `Format using ${HOOK_LABELS[formatPattern.hookType]} hook with ${BODY_LABELS[formatPattern.bodyType]} structure and ${CTA_LABELS[formatPattern.ctaType]} call-to-action. ${platformNote}`
 }
 
-function generateTemplate(
-  content: string,
-  formatPattern: { hookType: HookType; bodyType: BodyType; ctaType: CTAType }
-): string {
-  const lines = content.split('\n').filter(l => l.trim())
+/**
+ * The post's own skeleton with its specifics as typed placeholders
+ * (see ./template-extraction). Topic keywords come from the pattern set
+ * for the post's language.
+ */
+function generateTemplate(content: string, catalog: PatternCatalog): string {
+  const patterns = selectPatternSet(catalog, detectLanguage(content))
+  return extractTemplate(content, {
+    topicKeywords: patterns.topics.flatMap(topic => topic.keywords)
+  }).template
+}
+
+function extractTopics(content: string, patterns: PatternSet): string[] {
+  const lowerContent = content.toLowerCase()
+  return patterns.tags
+    .filter(({ keywords }) => keywords.some(kw => lowerContent.includes(kw.toLowerCase())))
+    .map(({ id }) => id)
+}
+
+function extractTags(content: string, analysis: AnalysisResult, patterns: PatternSet): string[] {
+  const tags = extractTopics(content, patterns)
   
-  const templateParts: string[] = []
+  for (const trigger of analysis.viralSignals.emotionalTriggers) {
+    tags.push(trigger.toString())
+  }
   
-  if (lines.length > 0) {
-    templateParts.push(`[HOOK: ${formatPattern.hookType.toUpperCase()}]`)
-    templateParts.push('{First line - grab attention}')
-    templateParts.push('')
+  return [...new Set(tags)].slice(0, 10)
+}
+
+async function scoreSemanticMatches(
+  topic: string,
+  formats: FormatPattern[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<Map<string, SemanticSimilarity> | null> {
+  try {
+    const [[query], embeddings] = await Promise.all([
+      provider.embed([topic]),
+      getFormatEmbeddings(formats, provider)
+    ])
     
-    if (formatPattern.bodyType === BodyType.LISTICLE) {
-      templateParts.push('[BODY: LIST FORMAT]')
-      templateParts.push('1. {Point one}')
-      templateParts.push('2. {Point two}')
-      templateParts.push('3. {Point three}')
-    } else if (formatPattern.bodyType === BodyType.PROBLEM_SOLUTION) {
-      templateParts.push('[BODY: PROBLEM → SOLUTION]')
-      templateParts.push('{Describe the problem}')
-      templateParts.push('')
-      templateParts.push('{Present the solution}')
-    } else if (formatPattern.bodyType === BodyType.STORY_DRIVEN) {
-      templateParts.push('[BODY: STORY]')
-      templateParts.push('{Set the scene}')
-      templateParts.push('')
-      templateParts.push('{The conflict or challenge}')
-      templateParts.push('')
-      templateParts.push('{The resolution or insight}')
-    } else {
-      templateParts.push('[BODY: MAIN CONTENT]')
-      templateParts.push('{Key insights and value}')
+    const scores = new Map<string, SemanticSimilarity>()
+    for (const [formatId, embedding] of embeddings) {
+      const similarity = semanticSimilarity(query, embedding)
+      if (similarity) scores.set(formatId, similarity)
     }
-    
-    templateParts.push('')
-    templateParts.push(`[CTA: ${formatPattern.ctaType.toUpperCase()}]`)
-    templateParts.push('{Call to action}')
+    return scores
+  } catch (error) {
+    console.warn('Semantic format matching unavailable, using keyword scores only:', error)
+    return null
   }
-  
-  return templateParts.join('\n')
 }
 
-function extractTags(content: string, analysis: AnalysisResult): string[] {
-  const tags: string[] = []
-  const lowerContent = content.toLowerCase()
-  
-  const topicKeywords: Record<string, string[]> = {
-    'entrepreneurship': ['startup', 'business', 'entrepreneur', 'founder', 'company'],
-    'career': ['job', 'career', 'interview', 'resume', 'hiring', 'promotion'],
-    'leadership': ['leader', 'management', 'team', 'manager', 'executive'],
-    'technology': ['ai', 'tech', 'software', 'code', 'developer', 'automation'],
-    'finance': ['money', 'invest', 'wealth', 'financial', 'income', 'revenue'],
-    'productivity': ['productivity', 'habits', 'efficiency', 'time', 'focus'],
-    'marketing': ['marketing', 'sales', 'growth', 'customer', 'brand'],
-    'self-improvement': ['growth', 'mindset', 'success', 'goals', 'improve']
+function roundScore(score: number): number {
+  return Math.round(score * 10) / 10
+}
+
+/**
+ * Links a learned post to its format. Posts without engagement (manual
+ * formats, imports) say nothing about how the format performs and are skipped.
+ */
+async function recordSource(
+  formatId: string,
+  post: ViralPost,
+  analysis: AnalysisResult,
+  wordCount: number,
+  patterns: PatternSet
+): Promise<void> {
+  const engagement = weightedEngagement(post.metrics)
+  if (engagement === 0) {
+    return
   }
   
-  for (const [topic, keywords] of Object.entries(topicKeywords)) {
-    if (keywords.some(kw => lowerContent.includes(kw))) {
-      tags.push(topic)
-    }
+  const source: FormatSourcePost = {
+    formatId,
+    post,
+    engagement,
+    wordCount,
+    characterCount: graphemeLength(post.content),
+    topics: extractTopics(post.content, patterns),
+    viralityScore: analysis.viralityScore,
+    learnedAt: new Date().toISOString()
   }
-  
-  for (const trigger of analysis.viralSignals.emotionalTriggers) {
-    tags.push(trigger.toString())
+  await recordFormatSource(source)
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Percentiles with linear interpolation between the closest ranks, rounded
+ * to whole units.
+ */
+function percentiles(values: number[]): LengthPercentiles {
+  const sorted = [...values].sort((a, b) => a - b)
+  const at = (p: number): number => {
+    const rank = (sorted.length - 1) * p
+    const lower = Math.floor(rank)
+    const upper = Math.min(sorted.length - 1, lower + 1)
+    return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower))
   }
   
-  return [...new Set(tags)].slice(0, 10)
+  return { p10: at(0.1), p25: at(0.25), p50: at(0.5), p75: at(0.75), p90: at(0.9) }
 }
 
-function calculateUpdatedEffectiveness(
-  currentScore: number,
-  newScore: number,
-  usageCount: number
-): number {
-  const weight = Math.min(0.3, 1 / (usageCount + 1))
-  return currentScore * (1 - weight) + newScore * weight
+function rankTopics(sources: FormatSourcePost[]): TopicPerformance[] {
+  const totals = new Map<string, { posts: number; engagement: number }>()
+  for (const source of sources) {
+    for (const topic of source.topics) {
+      const total = totals.get(topic) ?? { posts: 0, engagement: 0 }
+      total.posts++
+      total.engagement += source.engagement
+      totals.set(topic, total)
+    }
+  }
+  
+  return [...totals]
+    .map(([topic, total]) => ({
+      topic,
+      posts: total.posts,
+      averageEngagement: roundScore(total.engagement / total.posts)
+    }))
+    .sort((a, b) => b.averageEngagement - a.averageEngagement || b.posts - a.posts)
 }
 
 function calculateMatchScore(
   format: FormatPattern,
   topic: string,
-  options?: {
-    preferredHook?: HookType
-    preferredBody?: BodyType
-    preferredCTA?: CTAType
-    targetEmotions?: EmotionalTrigger[]
-    minEffectiveness?: number
-  }
+  options?: FormatMatchOptions
 ): { score: number; matchingElements: string[] } {
-  let score = format.effectivenessScore / 100 * 40
+  let score = rankingValue(format, options?.ranking) * 40
   const matchingElements: string[] = []
   
   const lowerTopic = topic.toLowerCase()
@@ -519,12 +1004,10 @@ function calculateMatchScore(
     matchingElements.push(...emotionMatches.map(e => `Emotion match: ${e}`))
   }
   
-  if (options?.minEffectiveness && format.effectivenessScore < options.minEffectiveness) {
+  if (options?.minEffectiveness && summarizeEffectiveness(posteriorOf(format)).score < options.minEffectiveness) {
     score *= 0.5
   }
   
-  score += Math.min(format.usageCount * 2, 10)
-  
   return { score: Math.min(100, score), matchingElements }
 }
 
@@ -558,7 +1041,7 @@ function generateModifications(
   return modifications
 }
 
-function getDefaultFormat(topic: string, platform: Platform): FormatMatchResult {
+async function getDefaultFormat(topic: string, platform: Platform): Promise<FormatMatchResult> {
   const defaultFormat: FormatPattern = {
     id: `default-${platform}`,
     name: 'Default Viral Format',
@@ -584,14 +1067,16 @@ function getDefaultFormat(topic: string, platform: Platform): FormatMatchResult
     updatedAt: new Date().toISOString()
   }
   
-  if (!formatStore.has(defaultFormat.id)) {
-    formatStore.set(defaultFormat.id, defaultFormat)
+  const repository = await formatRepository()
+  if (!(await repository.get(defaultFormat.id))) {
+    await repository.upsert(defaultFormat)
   }
   
   return {
     formatId: defaultFormat.id,
     formatName: defaultFormat.name,
     matchScore: 30,
+    scores: { keyword: 30, semantic: null },
     matchingElements: ['Default fallback format'],
     suggestedModifications: ['Add more specific formats by learning from successful posts']
   }
@@ -621,7 +1106,16 @@ function calculateOptimalLength(platform: Platform): { min: number; max: number;
   return { min: 50, max: 280, optimal: 150 }
 }
 
-export function initializeDefaultFormats(): void {
+/**
+ * Seeds the built-in starter formats into a repository, leaving any
+ * existing format with the same id untouched. Called explicitly, it
+ * restores deleted starter formats.
+ *
+ * @param repository - Repository to seed (defaults to the current one)
+ */
+export async function initializeDefaultFormats(
+  repository: FormatRepository = getFormatRepository()
+): Promise<void> {
   const defaultFormats: FormatPattern[] = [
     {
       id: 'linkedin-question-listicle',
@@ -644,7 +1138,7 @@ Save this for later reference`,
       examplePost: '',
       tags: ['educational', 'value-driven'],
       effectivenessScore: 75,
-      usageCount: 100,
+      usageCount: 0,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     },
@@ -668,7 +1162,7 @@ Have you experienced something similar? Share below.`,
       examplePost: '',
       tags: ['personal', 'relatable', 'story'],
       effectivenessScore: 80,
-      usageCount: 150,
+      usageCount: 0,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     },
@@ -691,17 +1185,17 @@ RT if you agree 👇`,
       examplePost: '',
       tags: ['bold', 'controversial'],
       effectivenessScore: 70,
-      usageCount: 200,
+      usageCount: 0,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     }
   ]
   
   for (const format of defaultFormats) {
-    if (!formatStore.has(format.id)) {
-      formatStore.set(format.id, format)
+    if (!(await repository.get(format.id))) {
+      // The seeded scores are editorial guesses, worth a couple of real posts
+      const effectiveness = posteriorFromScore(format.effectivenessScore, EDITORIAL_WEIGHT)
+      await repository.upsert({ ...format, effectivenessScore: effectivenessScore(effectiveness), effectiveness })
     }
   }
-}
-
-initializeDefaultFormats()
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+/**
+ * Format Repository
+ *
+ * Persistence boundary for learned FormatPattern records. The format learner
+ * and the /api/formats routes only talk to this interface, so the backing
+ * store can be swapped without touching the learning logic.
+ *
+ * - InMemoryFormatRepository: process-local, for tests and local dev
+ * - KVFormatRepository: durable, one KV entry per format
+ *
+ * Each repository also remembers whether the starter formats were seeded
+ * into it, so a deleted starter format stays deleted when a new isolate
+ * starts.
+ */
+
+import { FormatPattern } from './types/social-media'
+import { KeyValueStore, KVNamespaceLike, getKVNamespace, CloudflareKVStore } from './storage'
+
+export interface FormatRepository {
+  get(id: string): Promise<FormatPattern | null>
+  list(): Promise<FormatPattern[]>
+  upsert(format: FormatPattern): Promise<FormatPattern>
+  delete(id: string): Promise<boolean>
+  /** Removes every format; the seeded marker is kept */
+  clear(): Promise<void>
+  /** Whether the starter formats were ever seeded */
+  isSeeded(): Promise<boolean>
+  markSeeded(): Promise<void>
+}
+
+export class InMemoryFormatRepository implements FormatRepository {
+  private formats = new Map<string, FormatPattern>()
+  private seeded = false
+
+  async get(id: string): Promise<FormatPattern | null> {
+    return this.formats.get(id) ?? null
+  }
+
+  async list(): Promise<FormatPattern[]> {
+    return Array.from(this.formats.values())
+  }
+
+  async upsert(format: FormatPattern): Promise<FormatPattern> {
+    this.formats.set(format.id, format)
+    return format
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.formats.delete(id)
+  }
+
+  async clear(): Promise<void> {
+    this.formats.clear()
+  }
+
+  async isSeeded(): Promise<boolean> {
+    return this.seeded
+  }
+
+  async markSeeded(): Promise<void> {
+    this.seeded = true
+  }
+}
+
+const FORMAT_KEY_PREFIX = 'format:'
+// Outside FORMAT_KEY_PREFIX so listing and clearing formats leave it alone
+const SEEDED_KEY = 'format-seeded'
+
+export class KVFormatRepository implements FormatRepository {
+  constructor(private store: KeyValueStore) {}
+
+  async get(id: string): Promise<FormatPattern | null> {
+    return this.store.get<FormatPattern>(FORMAT_KEY_PREFIX + id)
+  }
+
+  async list(): Promise<FormatPattern[]> {
+    const keys = await this.store.list(FORMAT_KEY_PREFIX)
+    const formats = await Promise.all(keys.map((key) => this.store.get<FormatPattern>(key)))
+    return formats.filter((f): f is FormatPattern => f !== null)
+  }
+
+  async upsert(format: FormatPattern): Promise<FormatPattern> {
+    await this.store.put(FORMAT_KEY_PREFIX + format.id, format)
+    return format
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(FORMAT_KEY_PREFIX + id)
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.store.list(FORMAT_KEY_PREFIX)
+    await Promise.all(keys.map((key) => this.store.delete(key)))
+  }
+
+  async isSeeded(): Promise<boolean> {
+    return (await this.store.get<string>(SEEDED_KEY)) !== null
+  }
+
+  async markSeeded(): Promise<void> {
+    await this.store.put(SEEDED_KEY, new Date().toISOString())
+  }
+}
+
+const memoryRepository = new InMemoryFormatRepository()
+const kvRepositories = new WeakMap<KVNamespaceLike, KVFormatRepository>()
+let repositoryOverride: FormatRepository | null = null
+
+/**
+ * Resolves the repository for the current request. Uses Cloudflare KV when
+ * the namespace is bound, otherwise falls back to the in-memory repository.
+ */
+export function getFormatRepository(): FormatRepository {
+  if (repositoryOverride) return repositoryOverride
+
+  const namespace = getKVNamespace()
+  if (!namespace) return memoryRepository
+
+  let repository = kvRepositories.get(namespace)
+  if (!repository) {
+    repository = new KVFormatRepository(new CloudflareKVStore(namespace))
+    kvRepositories.set(namespace, repository)
+  }
+  return repository
+}
+
+/**
+ * Replaces the resolved repository (pass null to reset). Intended for tests.
+ */
+export function setFormatRepository(repository: FormatRepository | null): void {
+  repositoryOverride = repository
+}
@@ -0,0 +1,61 @@
+/**
+ * Format Source Posts
+ *
+ * Links every post a format was learned from to that format, with its
+ * engagement, length and topics, so getLearningData can report observed
+ * statistics instead of defaults. Stored in KV under
+ * `format-source:<formatId>:<postId>`; re-learning the same post replaces
+ * its entry rather than counting it twice.
+ */
+
+import { getKVStore } from './storage'
+import type { FormatSourcePost } from './types/social-media'
+
+const SOURCE_KEY_PREFIX = 'format-source:'
+
+function sourceKey(formatId: string, postId: string): string {
+  return `${SOURCE_KEY_PREFIX}${formatId}:${encodeURIComponent(postId)}`
+}
+
+export async function recordFormatSource(source: FormatSourcePost): Promise<FormatSourcePost> {
+  await getKVStore().put(sourceKey(source.formatId, source.post.id), source)
+  return source
+}
+
+export async function hasFormatSource(formatId: string, postId: string): Promise<boolean> {
+  return (await getKVStore().get(sourceKey(formatId, postId))) !== null
+}
+
+export async function listFormatSources(formatId: string): Promise<FormatSourcePost[]> {
+  const store = getKVStore()
+  const keys = await store.list(`${SOURCE_KEY_PREFIX}${formatId}:`)
+  const sources = await Promise.all(keys.map((key) => store.get<FormatSourcePost>(key)))
+  return sources.filter((source): source is FormatSourcePost => source !== null)
+}
+
+/**
+ * Re-links source posts to another format, e.g. after a merge or split.
+ *
+ * @param postIds - Only move these posts (default: all of them)
+ */
+export async function moveFormatSources(fromId: string, toId: string, postIds?: Set<string>): Promise<number> {
+  const store = getKVStore()
+  const sources = (await listFormatSources(fromId)).filter((source) => !postIds || postIds.has(source.post.id))
+  for (const source of sources) {
+    await recordFormatSource({ ...source, formatId: toId })
+    await store.delete(sourceKey(fromId, source.post.id))
+  }
+  return sources.length
+}
+
+export async function deleteFormatSources(formatId: string): Promise<void> {
+  const store = getKVStore()
+  const keys = await store.list(`${SOURCE_KEY_PREFIX}${formatId}:`)
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
+
+export async function clearFormatSources(): Promise<void> {
+  const store = getKVStore()
+  const keys = await store.list(SOURCE_KEY_PREFIX)
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
@@ -1,15 +1,27 @@
-export type HookType = 'question' | 'bold_statement' | 'story' | 'listicle' | 'controversial' | 'how_to' | 'myth_buster' | 'counterintuitive';
+import { HookType } from './types/social-media';
+import { renderTemplate, type TemplateBindings, type TemplateRenderResult } from './template-engine';
+
+/** Hook types that have a template in this library */
+export type TemplateHookType =
+  | HookType.QUESTION
+  | HookType.BOLD_STATEMENT
+  | HookType.STORY
+  | HookType.LIST
+  | HookType.CONTROVERSIAL_TAKE
+  | HookType.HOW_TO
+  | HookType.MYTH_BUSTER
+  | HookType.COUNTERINTUITIVE;
 
 export interface HookTemplate {
-  type: HookType;
+  type: TemplateHookType;
   template: string;
   examples: string[];
   emotionTrigger: 'curiosity' | 'shock' | 'relatability' | 'fear' | 'excitement';
 }
 
-export const hookTemplates: Record<HookType, HookTemplate> = {
-  question: {
-    type: 'question',
+export const hookTemplates: Record<TemplateHookType, HookTemplate> = {
+  [HookType.QUESTION]: {
+    type: HookType.QUESTION,
     template: "Why do [X] when you could [Y]?",
     examples: [
       "Why do 90% of startups fail when the playbook is right here?",
@@ -18,8 +30,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'curiosity'
   },
-  bold_statement: {
-    type: 'bold_statement',
+  [HookType.BOLD_STATEMENT]: {
+    type: HookType.BOLD_STATEMENT,
     template: "[X] is dead. Here's what replaced it.",
     examples: [
       "Cold outreach is dead. Here's what replaced it.",
@@ -28,8 +40,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'shock'
   },
-  story: {
-    type: 'story',
+  [HookType.STORY]: {
+    type: HookType.STORY,
     template: "I spent [time] doing [X]. Here's what I learned:",
     examples: [
       "I spent 10 years building startups. Here's what I learned:",
@@ -38,9 +50,9 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'relatability'
   },
-  listicle: {
-    type: 'listicle',
-    template: "[Number] things I wish I knew about [topic]:",
+  [HookType.LIST]: {
+    type: HookType.LIST,
+    template: "[Number|number|min=3|max=15] things I wish I knew about [topic]:",
     examples: [
       "7 things I wish I knew before starting my business:",
       "5 things I wish I knew about investing at 25:",
@@ -48,8 +60,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'curiosity'
   },
-  controversial: {
-    type: 'controversial',
+  [HookType.CONTROVERSIAL_TAKE]: {
+    type: HookType.CONTROVERSIAL_TAKE,
     template: "Unpopular opinion: [statement]",
     examples: [
       "Unpopular opinion: Your network is NOT your net worth.",
@@ -58,8 +70,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'shock'
   },
-  how_to: {
-    type: 'how_to',
+  [HookType.HOW_TO]: {
+    type: HookType.HOW_TO,
     template: "How I [achieved result] in [timeframe]:",
     examples: [
       "How I grew to 100K followers in 6 months:",
@@ -68,8 +80,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'excitement'
   },
-  myth_buster: {
-    type: 'myth_buster',
+  [HookType.MYTH_BUSTER]: {
+    type: HookType.MYTH_BUSTER,
     template: "[Common belief] is a lie. Here's the truth:",
     examples: [
       "\"Follow your passion\" is a lie. Here's the truth:",
@@ -78,8 +90,8 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
     ],
     emotionTrigger: 'shock'
   },
-  counterintuitive: {
-    type: 'counterintuitive',
+  [HookType.COUNTERINTUITIVE]: {
+    type: HookType.COUNTERINTUITIVE,
     template: "The [adjective] way to [goal] is to [counter-intuitive action]:",
     examples: [
       "The fastest way to grow is to stop trying to grow.",
@@ -90,17 +102,21 @@ export const hookTemplates: Record<HookType, HookTemplate> = {
   }
 };
 
-export function getHookByType(type: HookType): HookTemplate {
-  return hookTemplates[type];
+export function hasHookTemplate(type: HookType): type is TemplateHookType {
+  return type in hookTemplates;
+}
+
+export function getHookByType(type: HookType): HookTemplate | undefined {
+  return hasHookTemplate(type) ? hookTemplates[type] : undefined;
 }
 
 export function getRandomHook(): HookTemplate {
-  const types = Object.keys(hookTemplates) as HookType[];
+  const types = Object.keys(hookTemplates) as TemplateHookType[];
   const randomType = types[Math.floor(Math.random() * types.length)];
   return hookTemplates[randomType];
 }
 
-export function getHookExample(type: HookType): string {
+export function getHookExample(type: TemplateHookType): string {
   const hook = hookTemplates[type];
   return hook.examples[Math.floor(Math.random() * hook.examples.length)];
 }
@@ -109,10 +125,10 @@ export function getHooksByEmotion(emotion: HookTemplate['emotionTrigger']): Hook
   return Object.values(hookTemplates).filter(h => h.emotionTrigger === emotion);
 }
 
-export function formatHookTemplate(template: string, replacements: Record<string, string>): string {
-  let result = template;
-  Object.entries(replacements).forEach(([key, value]) => {
-    result = result.replace(`[${key}]`, value);
-  });
-  return result;
+/**
+ * Fills a template's slots, reporting any left unfilled, invalid or unused
+ * (see ./template-engine).
+ */
+export function formatHookTemplate(template: string, bindings: TemplateBindings): TemplateRenderResult {
+  return renderTemplate(template, bindings);
 }
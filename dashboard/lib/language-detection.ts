@@ -0,0 +1,126 @@
+/**
+ * Language Detection
+ *
+ * Lightweight offline detection for the languages our audience posts in.
+ * Scores each language by its most frequent function words (a word shared
+ * by several languages counts fractionally towards each) plus characters
+ * only that language uses, such as ß, ñ or ș. Links, hashtags and mentions
+ * are ignored. Good enough to pick a pattern set for a post; not meant for
+ * a sentence or two of mixed-language text, which is why pattern selection
+ * only trusts a detection at MIN_LANGUAGE_CONFIDENCE or above.
+ */
+
+import type { LanguageCode, LanguageDetection } from './types/social-media'
+
+export const SUPPORTED_LANGUAGES: LanguageCode[] = ['en', 'de', 'fr', 'es', 'ro']
+
+/** Used when a post has too little text to tell */
+export const FALLBACK_LANGUAGE: LanguageCode = 'en'
+
+/** Detections below this confidence are treated as FALLBACK_LANGUAGE */
+export const MIN_LANGUAGE_CONFIDENCE = 0.25
+
+// Evidence (in function-word hits) needed for full confidence
+const FULL_CONFIDENCE_EVIDENCE = 6
+const CHARACTER_WEIGHT = 0.5
+
+const FUNCTION_WORDS: Record<LanguageCode, string[]> = {
+  en: [
+    'the', 'and', 'of', 'to', 'a', 'in', 'is', 'it', 'you', 'that', 'for', 'was', 'on', 'are', 'with', 'as', 'i',
+    'my', 'be', 'at', 'this', 'have', 'from', 'or', 'but', 'not', 'what', 'your', 'they', 'we', 'how', 'if', 'will',
+    'about', 'can', 'just', 'do', "don't", "it's", 'when', 'why',
+  ],
+  de: [
+    'der', 'die', 'und', 'das', 'ist', 'nicht', 'ich', 'zu', 'den', 'es', 'mit', 'sich', 'auf', 'ein', 'eine', 'für',
+    'dem', 'du', 'sie', 'wir', 'auch', 'von', 'aber', 'wie', 'oder', 'noch', 'nur', 'mein', 'meine', 'dass', 'wenn',
+    'hat', 'sind', 'bei', 'kein', 'keine', 'mehr', 'warum', 'was', 'ihr', 'euch',
+  ],
+  fr: [
+    'le', 'la', 'les', 'et', 'des', 'est', 'un', 'une', 'du', 'que', 'qui', 'pas', 'pour', 'dans', 'ce', 'il', 'je',
+    'vous', 'nous', 'sur', 'avec', 'mais', 'ou', 'au', 'aux', 'ne', 'mon', 'ma', 'mes', 'votre', 'vos', 'plus', 'sont',
+    'c’est', "c'est", 'être', 'fait', 'comment', 'pourquoi', 'tout', 'aussi',
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'y', 'que', 'de', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'no', 'lo', 'se', 'del',
+    'al', 'como', 'más', 'pero', 'mi', 'tu', 'su', 'yo', 'muy', 'sin', 'sobre', 'también', 'porque', 'cómo', 'qué',
+    'hay', 'está', 'son', 'todo', 'esto', 'cuando', 'nos',
+  ],
+  ro: [
+    'și', 'şi', 'în', 'la', 'de', 'nu', 'pe', 'cu', 'că', 'ca', 'o', 'un', 'este', 'sunt', 'mai', 'din', 'pentru',
+    'ce', 'care', 'dar', 'am', 'ai', 'se', 'sau', 'al', 'ale', 'lui', 'meu', 'mea', 'tău', 'fost', 'fi', 'dacă',
+    'când', 'cum', 'foarte', 'asta', 'acest', 'această',
+  ],
+}
+
+const DISTINCTIVE_CHARACTERS: Record<LanguageCode, RegExp> = {
+  en: /(?!)/gu,
+  de: /[äöüß]/giu,
+  fr: /[èêëàùûœç]/giu,
+  es: /[ñ¿¡]/giu,
+  ro: /[ășțşţ]/giu,
+}
+
+// Short words that are also common English acronyms or letters ("AI", "AM",
+// "O"): they only count written in lowercase
+const LOWERCASE_ONLY_WORDS = new Set(['ai', 'am', 'o'])
+
+const WORD_WEIGHTS = buildWordWeights()
+
+/**
+ * Detects the language of a post.
+ *
+ * @returns The best-scoring language and a 0-1 confidence combining how much
+ *   evidence there was with how clearly the language beat the runner-up.
+ *   Text without evidence returns FALLBACK_LANGUAGE with confidence 0.
+ *
+ * @example
+ * detectLanguage('Warum die meisten Startups scheitern')
+ * // { language: 'de', confidence: 0.33 }
+ */
+export function detectLanguage(content: string): LanguageDetection {
+  const text = content
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#@][\p{L}\p{N}_]+/gu, ' ')
+
+  const scores = Object.fromEntries(SUPPORTED_LANGUAGES.map(language => [language, 0])) as Record<LanguageCode, number>
+
+  for (const token of text.match(/[\p{L}'’]+/gu) ?? []) {
+    const word = token.toLowerCase()
+    if (word !== token && LOWERCASE_ONLY_WORDS.has(word)) continue
+    for (const [language, weight] of WORD_WEIGHTS.get(word) ?? []) {
+      scores[language] += weight
+    }
+  }
+  for (const language of SUPPORTED_LANGUAGES) {
+    scores[language] += (text.match(DISTINCTIVE_CHARACTERS[language]) ?? []).length * CHARACTER_WEIGHT
+  }
+
+  const ranked = [...SUPPORTED_LANGUAGES].sort((a, b) => scores[b] - scores[a])
+  const [best, runnerUp] = ranked
+  if (scores[best] === 0) {
+    return { language: FALLBACK_LANGUAGE, confidence: 0 }
+  }
+
+  const margin = (scores[best] - scores[runnerUp]) / scores[best]
+  const evidence = Math.min(1, scores[best] / FULL_CONFIDENCE_EVIDENCE)
+  return { language: best, confidence: Math.round(margin * evidence * 100) / 100 }
+}
+
+export function isSupportedLanguage(value: string): value is LanguageCode {
+  return (SUPPORTED_LANGUAGES as string[]).includes(value)
+}
+
+function buildWordWeights(): Map<string, [LanguageCode, number][]> {
+  const owners = new Map<string, LanguageCode[]>()
+  for (const language of SUPPORTED_LANGUAGES) {
+    for (const word of FUNCTION_WORDS[language]) {
+      owners.set(word, [...(owners.get(word) ?? []), language])
+    }
+  }
+
+  const weights = new Map<string, [LanguageCode, number][]>()
+  for (const [word, languages] of owners) {
+    weights.set(word, languages.map(language => [language, 1 / languages.length]))
+  }
+  return weights
+}
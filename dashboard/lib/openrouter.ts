@@ -6,6 +6,7 @@
 const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
 
 export const DEFAULT_MODEL = 'z-ai/glm-5'
+export const DEFAULT_EMBEDDING_MODEL = 'openai/text-embedding-3-small'
 
 export interface OpenRouterMessage {
   role: 'system' | 'user' | 'assistant'
@@ -23,40 +24,170 @@ interface OpenRouterResponse {
   usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
 }
 
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean } }
+
+export class OpenRouterAPIError extends Error {
+  constructor(message: string, public statusCode: number, public responseBody: string) {
+    super(message)
+    this.name = 'OpenRouterAPIError'
+  }
+}
+
+export interface ChatCompletionOptions {
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  responseFormat?: ResponseFormat
+  /** Aborting cancels the upstream request */
+  signal?: AbortSignal
+}
+
+interface OpenRouterEmbeddingResponse {
+  data: { index: number; embedding: number[] }[]
+}
+
+interface OpenRouterStreamChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[]
+  error?: { message?: string; code?: number | string }
+}
+
 export async function chatCompletion(
   messages: OpenRouterMessage[],
-  options?: {
-    model?: string
-    temperature?: number
-    maxTokens?: number
-  }
+  options?: ChatCompletionOptions
 ): Promise<string> {
+  const response = await requestCompletion(messages, options, false)
+  const data: OpenRouterResponse = await response.json()
+  return data.choices?.[0]?.message?.content ?? ''
+}
+
+/**
+ * Streaming variant of chatCompletion. Resolves once OpenRouter has accepted
+ * the request (so configuration and HTTP errors still throw up front), then
+ * yields content deltas as they arrive over SSE.
+ */
+export async function chatCompletionStream(
+  messages: OpenRouterMessage[],
+  options?: ChatCompletionOptions
+): Promise<AsyncGenerator<string, void, undefined>> {
+  const response = await requestCompletion(messages, options, true)
+  if (!response.body) {
+    throw new Error('OpenRouter returned an empty stream.')
+  }
+  return readContentDeltas(response.body)
+}
+
+/**
+ * Embeds texts with an OpenRouter embedding model. Vectors come back in
+ * input order.
+ */
+export async function createEmbeddings(
+  input: string[],
+  options?: { model?: string; signal?: AbortSignal }
+): Promise<number[][]> {
+  const response = await fetch(`${OPENROUTER_BASE_URL}/embeddings`, {
+    method: 'POST',
+    headers: requestHeaders(),
+    body: JSON.stringify({ model: options?.model ?? DEFAULT_EMBEDDING_MODEL, input }),
+    signal: options?.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new OpenRouterAPIError(`OpenRouter API error ${response.status}: ${errorText}`, response.status, errorText)
+  }
+
+  const data: OpenRouterEmbeddingResponse = await response.json()
+  return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+}
+
+export function isOpenRouterConfigured(): boolean {
   const apiKey = process.env.OPENROUTER_API_KEY
-  if (!apiKey || apiKey === 'your_openrouter_api_key_here') {
+  return Boolean(apiKey && apiKey !== 'your_openrouter_api_key_here')
+}
+
+function requestHeaders(): Record<string, string> {
+  if (!isOpenRouterConfigured()) {
     throw new Error('OPENROUTER_API_KEY is not configured. Add it to your .env.local file.')
   }
 
+  return {
+    Authorization: `Bearer ${process.env.OPENROUTER_API_KEY}`,
+    'Content-Type': 'application/json',
+    'HTTP-Referer': 'https://bigzec.com',
+    'X-Title': 'BigZEC GTM Dashboard',
+  }
+}
+
+async function requestCompletion(
+  messages: OpenRouterMessage[],
+  options: ChatCompletionOptions | undefined,
+  stream: boolean
+): Promise<Response> {
+  const headers = requestHeaders()
+
   const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': 'https://bigzec.com',
-      'X-Title': 'BigZEC GTM Dashboard',
-    },
+    headers,
     body: JSON.stringify({
       model: options?.model ?? DEFAULT_MODEL,
       messages,
       temperature: options?.temperature ?? 0.7,
       max_tokens: options?.maxTokens ?? 2000,
+      ...(options?.responseFormat ? { response_format: options.responseFormat } : {}),
+      ...(stream ? { stream: true } : {}),
     }),
+    signal: options?.signal,
   })
 
   if (!response.ok) {
     const errorText = await response.text()
-    throw new Error(`OpenRouter API error ${response.status}: ${errorText}`)
+    throw new OpenRouterAPIError(`OpenRouter API error ${response.status}: ${errorText}`, response.status, errorText)
   }
 
-  const data: OpenRouterResponse = await response.json()
-  return data.choices?.[0]?.message?.content ?? ''
+  return response
+}
+
+// SSE framing: events are separated by blank lines, payload lines start with
+// "data:", and lines starting with ":" are keep-alive comments.
+async function* readContentDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') return
+
+        let chunk: OpenRouterStreamChunk
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          continue
+        }
+
+        if (chunk.error) {
+          throw new Error(`OpenRouter stream error: ${chunk.error.message ?? chunk.error.code ?? 'unknown'}`)
+        }
+
+        const delta = chunk.choices?.[0]?.delta?.content
+        if (delta) yield delta
+      }
+    }
+  } finally {
+    // Runs on early return too, e.g. when the consumer stops iterating
+    await reader.cancel().catch(() => {})
+  }
 }
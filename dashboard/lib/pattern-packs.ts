@@ -0,0 +1,401 @@
+/**
+ * Pattern Packs
+ *
+ * The hook, body and CTA regexes, emotional trigger words and topic keyword
+ * lists that viral-analyzer and format-learner match posts against live in
+ * versioned JSON packs rather than in code. A pack is validated with
+ * patternPackSchema, and one or more packs are compiled into the PatternSet
+ * the analyzer runs on. Packs are additive: rules with the same id across
+ * packs pool their patterns, so a pack can extend the core rules or add new
+ * ones.
+ *
+ * Every pack is written for one language. Packs are compiled per language
+ * into a PatternCatalog, and analyzePost matches each post against the set
+ * for its detected language (selectPatternSet).
+ *
+ * Pack rules always resolve to a canonical taxonomy type, so scoring and
+ * labels keep working. A rule whose id differs from its type (e.g. an
+ * `obituary` hook of type `bold_statement`) is reported as a variant.
+ *
+ * Built-in packs ship in ./packs; uploaded packs and per-workspace activation
+ * are handled by ./pattern-registry.
+ */
+
+import { BodyType, CTAType, EmotionalTrigger, HookType, LanguageCode, LanguageDetection } from './types/social-media'
+import { bodyTypeSchema, ctaTypeSchema, hookTypeSchema } from './taxonomy'
+import { s, type Infer, type SchemaIssue } from './schema'
+import { FALLBACK_LANGUAGE, MIN_LANGUAGE_CONFIDENCE, SUPPORTED_LANGUAGES } from './language-detection'
+import coreEnPack from './packs/core-en.json'
+import coreDePack from './packs/core-de.json'
+import coreFrPack from './packs/core-fr.json'
+import coreEsPack from './packs/core-es.json'
+import coreRoPack from './packs/core-ro.json'
+
+export const PATTERN_PACK_SCHEMA_VERSION = 1
+
+const SLUG = /^[a-z0-9][a-z0-9_-]{0,63}$/
+const SEMVER = /^\d+\.\d+\.\d+$/
+// g and y make RegExp objects stateful between matches, so they are not allowed
+const ALLOWED_FLAGS = /^[imsu]*$/
+// Uploaded patterns run against every analyzed post
+export const MAX_PATTERN_LENGTH = 300
+
+export class PatternPackError extends Error {
+  constructor(message: string, public issues: SchemaIssue[] = []) {
+    super(message)
+    this.name = 'PatternPackError'
+  }
+}
+
+const patternSchema = s
+  .preprocess(
+    (value) => (typeof value === 'string' ? { regex: value } : value),
+    s.object({
+      regex: s.string(),
+      flags: s.string().default('i'),
+    })
+  )
+  .refine((pattern) => ALLOWED_FLAGS.test(pattern.flags), 'Flags may only contain i, m, s and u')
+  .refine((pattern) => isValidRegex(pattern.regex, pattern.flags), 'Invalid regular expression')
+  .refine((pattern) => pattern.regex.length <= MAX_PATTERN_LENGTH, `Regular expression is longer than ${MAX_PATTERN_LENGTH} characters`)
+  .refine(
+    (pattern) => !canBacktrackExcessively(pattern.regex),
+    'Regular expression repeats a group that itself repeats (e.g. (a+)+) or uses a backreference'
+  )
+
+const ruleId = s.string().refine((id) => SLUG.test(id), 'Use lowercase letters, digits, - and _')
+const phrases = s.array(s.string().refine((phrase) => phrase.trim().length > 0, 'Empty phrase'))
+
+export const patternPackSchema = s.object({
+  schemaVersion: s
+    .number()
+    .refine((version) => version === PATTERN_PACK_SCHEMA_VERSION, `Unsupported schemaVersion; expected ${PATTERN_PACK_SCHEMA_VERSION}`),
+  id: ruleId,
+  version: s.string().refine((version) => SEMVER.test(version), 'Use a semantic version such as 1.0.0'),
+  name: s.string(),
+  description: s.string().default(''),
+  /** ISO 639-1 code of the language the patterns are written for */
+  language: s.enum(SUPPORTED_LANGUAGES).default(FALLBACK_LANGUAGE),
+  hooks: s
+    .array(
+      s.object({
+        id: ruleId,
+        type: hookTypeSchema.refine((type) => type !== HookType.NONE, 'A hook rule cannot have type none'),
+        label: s.string().optional(),
+        patterns: s.array(patternSchema),
+      })
+    )
+    .default([]),
+  bodies: s
+    .array(
+      s.object({
+        id: ruleId,
+        type: bodyTypeSchema,
+        label: s.string().optional(),
+        patterns: s.array(patternSchema),
+        /** Phrases (with - read as a space) that count as half a pattern match */
+        indicators: s.array(s.string()).default([]),
+      })
+    )
+    .default([]),
+  ctas: s
+    .array(
+      s.object({
+        id: ruleId,
+        type: ctaTypeSchema.refine((type) => type !== CTAType.NONE, 'A CTA rule cannot have type none'),
+        label: s.string().optional(),
+        patterns: s.array(patternSchema),
+      })
+    )
+    .default([]),
+  emotionalTriggers: s
+    .array(s.object({ trigger: s.enum(Object.values(EmotionalTrigger)), words: phrases }))
+    .default([]),
+  /** Topics reported by analyzeTopicRelevance */
+  topics: s
+    .array(s.object({ id: s.string(), keywords: phrases, trending: s.boolean().default(false) }))
+    .default([]),
+  /** Topic tags format-learner attaches to learned formats */
+  tags: s.array(s.object({ id: s.string(), keywords: phrases })).default([]),
+})
+
+export type PatternPack = Infer<typeof patternPackSchema>
+
+export interface PatternPackSummary {
+  /** `id@version`, the key packs are activated by */
+  ref: string
+  id: string
+  version: string
+  name: string
+  description: string
+  language: string
+  builtIn: boolean
+  ruleCounts: { hooks: number; bodies: number; ctas: number; emotionalTriggers: number; topics: number; tags: number }
+}
+
+export interface CompiledRule<T extends string> {
+  id: string
+  type: T
+  label?: string
+  patterns: CompiledPattern[]
+}
+
+export interface CompiledPattern {
+  regex: RegExp
+  /** Where the pattern came from, e.g. core-en@1.0.0:hooks.question[0] */
+  source: string
+}
+
+export interface CompiledBodyRule extends CompiledRule<BodyType> {
+  indicators: string[]
+}
+
+/**
+ * Everything the analyzer matches posts in one language against, compiled
+ * from that language's packs in activation order.
+ */
+export interface PatternSet {
+  language: LanguageCode
+  /** Refs of the packs the set was compiled from */
+  packs: string[]
+  hooks: CompiledRule<HookType>[]
+  bodies: CompiledBodyRule[]
+  ctas: CompiledRule<CTAType>[]
+  emotionalTriggers: { trigger: EmotionalTrigger; words: { word: string; source: string }[] }[]
+  topics: { id: string; keywords: string[]; trending: boolean }[]
+  tags: { id: string; keywords: string[] }[]
+}
+
+/** Pattern sets per language, compiled from a workspace's active packs */
+export interface PatternCatalog {
+  /** Refs of all packs the catalog was compiled from */
+  packs: string[]
+  sets: Partial<Record<LanguageCode, PatternSet>>
+}
+
+export function packRef(pack: Pick<PatternPack, 'id' | 'version'>): string {
+  return `${pack.id}@${pack.version}`
+}
+
+/**
+ * Validates an untrusted pack (uploaded JSON).
+ *
+ * @throws PatternPackError listing every schema issue
+ */
+export function validatePatternPack(input: unknown): PatternPack {
+  const result = patternPackSchema.safeParse(input)
+  if (!result.success) {
+    throw new PatternPackError('Invalid pattern pack.', result.issues)
+  }
+
+  const issues: SchemaIssue[] = []
+  const sections = ['hooks', 'bodies', 'ctas'] as const
+  for (const section of sections) {
+    const seen = new Set<string>()
+    result.data[section].forEach((rule, i) => {
+      if (seen.has(rule.id)) issues.push({ path: `$.${section}[${i}].id`, message: `Duplicate id ${rule.id}` })
+      seen.add(rule.id)
+    })
+  }
+  if (issues.length > 0) throw new PatternPackError('Invalid pattern pack.', issues)
+
+  return result.data
+}
+
+export function summarizePatternPack(pack: PatternPack, builtIn = false): PatternPackSummary {
+  return {
+    ref: packRef(pack),
+    id: pack.id,
+    version: pack.version,
+    name: pack.name,
+    description: pack.description,
+    language: pack.language,
+    builtIn,
+    ruleCounts: {
+      hooks: pack.hooks.length,
+      bodies: pack.bodies.length,
+      ctas: pack.ctas.length,
+      emotionalTriggers: pack.emotionalTriggers.length,
+      topics: pack.topics.length,
+      tags: pack.tags.length,
+    },
+  }
+}
+
+/**
+ * Compiles packs written for one language into a PatternSet. Rules, triggers
+ * and topics that share an id are merged, with earlier packs' entries first;
+ * detection prefers the first of equally confident matches, so earlier packs
+ * win ties.
+ *
+ * @throws PatternPackError when the packs are written for different languages
+ */
+export function compilePatternPacks(packs: PatternPack[]): PatternSet {
+  const language = packs[0]?.language ?? FALLBACK_LANGUAGE
+  const mixed = packs.find((pack) => pack.language !== language)
+  if (mixed) {
+    throw new PatternPackError(`Cannot compile ${packRef(mixed)} (${mixed.language}) into a ${language} pattern set.`)
+  }
+
+  const set: PatternSet = {
+    language,
+    packs: packs.map(packRef),
+    hooks: [],
+    bodies: [],
+    ctas: [],
+    emotionalTriggers: [],
+    topics: [],
+    tags: [],
+  }
+
+  for (const pack of packs) {
+    const ref = packRef(pack)
+    const compile = (section: string, id: string, patterns: PatternPack['hooks'][number]['patterns']) =>
+      patterns.map((pattern, i) => ({
+        regex: new RegExp(pattern.regex, pattern.flags),
+        source: `${ref}:${section}.${id}[${i}]`,
+      }))
+
+    for (const rule of pack.hooks) {
+      mergeRule(set.hooks, { id: rule.id, type: rule.type, label: rule.label, patterns: compile('hooks', rule.id, rule.patterns) })
+    }
+    for (const rule of pack.bodies) {
+      const existing = set.bodies.find((r) => r.id === rule.id)
+      if (existing) {
+        existing.patterns.push(...compile('bodies', rule.id, rule.patterns))
+        existing.indicators.push(...rule.indicators.filter((indicator) => !existing.indicators.includes(indicator)))
+      } else {
+        set.bodies.push({ ...rule, patterns: compile('bodies', rule.id, rule.patterns), indicators: [...rule.indicators] })
+      }
+    }
+    for (const rule of pack.ctas) {
+      mergeRule(set.ctas, { id: rule.id, type: rule.type, label: rule.label, patterns: compile('ctas', rule.id, rule.patterns) })
+    }
+    for (const { trigger, words } of pack.emotionalTriggers) {
+      let entry = set.emotionalTriggers.find((t) => t.trigger === trigger)
+      if (!entry) set.emotionalTriggers.push((entry = { trigger, words: [] }))
+      entry.words.push(...words.map((word) => ({ word, source: `${ref}:emotionalTriggers.${trigger}` })))
+    }
+    for (const topic of pack.topics) {
+      const existing = set.topics.find((t) => t.id === topic.id)
+      if (existing) {
+        existing.keywords.push(...topic.keywords.filter((keyword) => !existing.keywords.includes(keyword)))
+        existing.trending = existing.trending || topic.trending
+      } else {
+        set.topics.push({ ...topic, keywords: [...topic.keywords] })
+      }
+    }
+    for (const tag of pack.tags) {
+      const existing = set.tags.find((t) => t.id === tag.id)
+      if (existing) {
+        existing.keywords.push(...tag.keywords.filter((keyword) => !existing.keywords.includes(keyword)))
+      } else {
+        set.tags.push({ ...tag, keywords: [...tag.keywords] })
+      }
+    }
+  }
+
+  return set
+}
+
+/**
+ * Groups packs by language, keeping their order, and compiles one
+ * PatternSet per language.
+ */
+export function compilePatternCatalog(packs: PatternPack[]): PatternCatalog {
+  const sets: PatternCatalog['sets'] = {}
+  for (const language of SUPPORTED_LANGUAGES) {
+    const languagePacks = packs.filter((pack) => pack.language === language)
+    if (languagePacks.length > 0) sets[language] = compilePatternPacks(languagePacks)
+  }
+  return { packs: packs.map(packRef), sets }
+}
+
+/**
+ * Picks the pattern set for a post's language. A detection below
+ * MIN_LANGUAGE_CONFIDENCE counts as the fallback language. Languages the
+ * catalog has no packs for fall back to the built-in pack for that
+ * language, then to the catalog's fallback-language set.
+ */
+export function selectPatternSet(catalog: PatternCatalog, detected: LanguageDetection | LanguageCode): PatternSet {
+  const language = typeof detected === 'string'
+    ? detected
+    : detected.confidence >= MIN_LANGUAGE_CONFIDENCE ? detected.language : FALLBACK_LANGUAGE
+  return (
+    catalog.sets[language] ??
+    DEFAULT_PATTERN_CATALOG.sets[language] ??
+    catalog.sets[FALLBACK_LANGUAGE] ??
+    DEFAULT_PATTERN_SET
+  )
+}
+
+function mergeRule<T extends string>(rules: CompiledRule<T>[], rule: CompiledRule<T>) {
+  const existing = rules.find((r) => r.id === rule.id)
+  if (existing) {
+    existing.patterns.push(...rule.patterns)
+  } else {
+    rules.push(rule)
+  }
+}
+
+function isValidRegex(source: string, flags: string): boolean {
+  try {
+    new RegExp(source, flags)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Flags the shapes whose backtracking grows exponentially with the input:
+ * a repeated group containing another repeat, such as `(a+)+` or
+ * `(\w+\s?)*`, and backreferences. Bounded repeats count as repeats.
+ */
+function canBacktrackExcessively(source: string): boolean {
+  // Per open group: whether it contains a repeat
+  const groups: boolean[] = []
+  let inClass = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? '')) return true
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false
+      if (repeats && isRepeat(source, i + 1)) return true
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true
+    } else if (isRepeat(source, i) && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+function isRepeat(source: string, at: number): boolean {
+  const char = source[at]
+  return char === '+' || char === '*' || (char === '{' && /^\{\d+(,\d*)?\}/.test(source.slice(at)))
+}
+
+// ─── Built-in packs ───────────────────────────────────────────────────────────
+
+export const CORE_PATTERN_PACK: PatternPack = validatePatternPack(coreEnPack)
+
+/** Packs that ship with the dashboard and cannot be replaced by uploads */
+export const BUILT_IN_PATTERN_PACKS: PatternPack[] = [
+  CORE_PATTERN_PACK,
+  ...[coreDePack, coreFrPack, coreEsPack, coreRoPack].map((pack) => validatePatternPack(pack)),
+]
+
+/** English pattern set, used when nothing better applies */
+export const DEFAULT_PATTERN_SET: PatternSet = compilePatternPacks([CORE_PATTERN_PACK])
+
+/** Catalog used when no workspace activation applies: every built-in pack */
+export const DEFAULT_PATTERN_CATALOG: PatternCatalog = compilePatternCatalog(BUILT_IN_PATTERN_PACKS)
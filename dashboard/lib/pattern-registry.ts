@@ -0,0 +1,166 @@
+/**
+ * Pattern Pack Registry
+ *
+ * Stores uploaded pattern packs and which packs each workspace has enabled,
+ * so teams can add hooks (e.g. GTM-specific ones) without a deploy.
+ *
+ * - Packs are immutable per version: `pattern-pack:<id>@<version>`.
+ *   Re-uploading identical content is a no-op; changed content needs a new
+ *   version. Built-in packs (./pattern-packs) are never stored.
+ * - Activation is an ordered list of refs per workspace:
+ *   `pattern-packs:active:<workspace>`. Workspaces without one use every
+ *   built-in pack. Packs are compiled per language; languages a workspace
+ *   has no active pack for use the built-in pack for that language.
+ *
+ * Workspaces are plain ids chosen by the caller; requests name theirs with
+ * the `workspace` query parameter or the x-bigzec-workspace header.
+ */
+
+import { getKVStore } from './storage'
+import {
+  BUILT_IN_PATTERN_PACKS,
+  compilePatternCatalog,
+  DEFAULT_PATTERN_CATALOG,
+  packRef,
+  summarizePatternPack,
+  validatePatternPack,
+  type PatternCatalog,
+  type PatternPack,
+  type PatternPackSummary,
+} from './pattern-packs'
+
+export const DEFAULT_WORKSPACE = 'default'
+export const WORKSPACE_HEADER = 'x-bigzec-workspace'
+
+const PACK_KEY_PREFIX = 'pattern-pack:'
+const ACTIVATION_KEY_PREFIX = 'pattern-packs:active:'
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+export interface PackActivation {
+  workspace: string
+  /** Pack refs (`id@version`) in the order they are compiled */
+  packs: string[]
+  updatedAt: string | null
+}
+
+export class PatternPackConflictError extends Error {
+  constructor(public ref: string) {
+    super(`Pattern pack ${ref} already exists with different content. Bump the version to publish changes.`)
+    this.name = 'PatternPackConflictError'
+  }
+}
+
+export class UnknownPatternPackError extends Error {
+  constructor(public refs: string[]) {
+    super(`Unknown pattern pack${refs.length !== 1 ? 's' : ''}: ${refs.join(', ')}`)
+    this.name = 'UnknownPatternPackError'
+  }
+}
+
+export class InvalidWorkspaceError extends Error {
+  constructor(workspace: string) {
+    super(`Invalid workspace id "${workspace}". Use lowercase letters, digits, - and _.`)
+    this.name = 'InvalidWorkspaceError'
+  }
+}
+
+// Uploaded versions never change, so compiled catalogs can be shared per isolate
+const compiledCatalogs = new Map<string, PatternCatalog>()
+
+/**
+ * Resolves the workspace a request targets, defaulting to DEFAULT_WORKSPACE.
+ *
+ * @throws InvalidWorkspaceError for malformed ids
+ */
+export function workspaceFromRequest(request: Request): string {
+  const workspace =
+    new URL(request.url).searchParams.get('workspace') || request.headers.get(WORKSPACE_HEADER) || DEFAULT_WORKSPACE
+  return assertWorkspace(workspace)
+}
+
+export function assertWorkspace(workspace: string): string {
+  if (!WORKSPACE_ID.test(workspace)) throw new InvalidWorkspaceError(workspace)
+  return workspace
+}
+
+/**
+ * Returns a pack by ref, built-in or uploaded.
+ */
+export async function getPatternPack(ref: string): Promise<PatternPack | null> {
+  const builtIn = BUILT_IN_PATTERN_PACKS.find((pack) => packRef(pack) === ref)
+  if (builtIn) return builtIn
+  return getKVStore().get<PatternPack>(PACK_KEY_PREFIX + ref)
+}
+
+/**
+ * Lists built-in and uploaded packs, built-ins first, then by ref.
+ */
+export async function listPatternPacks(): Promise<PatternPackSummary[]> {
+  const store = getKVStore()
+  const keys = await store.list(PACK_KEY_PREFIX)
+  const uploaded = await Promise.all(keys.map((key) => store.get<PatternPack>(key)))
+
+  return [
+    ...BUILT_IN_PATTERN_PACKS.map((pack) => summarizePatternPack(pack, true)),
+    ...uploaded.filter((pack): pack is PatternPack => pack !== null).map((pack) => summarizePatternPack(pack)),
+  ]
+}
+
+/**
+ * Validates and stores an uploaded pack.
+ *
+ * @throws PatternPackError when the pack is invalid
+ * @throws PatternPackConflictError when the version exists with other content
+ */
+export async function uploadPatternPack(input: unknown): Promise<{ pack: PatternPackSummary; created: boolean }> {
+  const pack = validatePatternPack(input)
+  const ref = packRef(pack)
+
+  const existing = await getPatternPack(ref)
+  if (existing) {
+    if (JSON.stringify(existing) !== JSON.stringify(pack)) throw new PatternPackConflictError(ref)
+    return { pack: summarizePatternPack(existing, BUILT_IN_PATTERN_PACKS.includes(existing)), created: false }
+  }
+
+  await getKVStore().put(PACK_KEY_PREFIX + ref, pack)
+  return { pack: summarizePatternPack(pack), created: true }
+}
+
+export async function getPackActivation(workspace: string): Promise<PackActivation> {
+  const stored = await getKVStore().get<PackActivation>(ACTIVATION_KEY_PREFIX + assertWorkspace(workspace))
+  return stored ?? { workspace, packs: BUILT_IN_PATTERN_PACKS.map(packRef), updatedAt: null }
+}
+
+/**
+ * Sets the packs a workspace analyzes with, in compile order.
+ *
+ * @throws UnknownPatternPackError when a ref does not exist
+ */
+export async function activatePatternPacks(workspace: string, refs: string[]): Promise<PackActivation> {
+  assertWorkspace(workspace)
+  const packs = Array.from(new Set(refs))
+  const found = await Promise.all(packs.map(getPatternPack))
+  const missing = packs.filter((_, i) => !found[i])
+  if (missing.length > 0) throw new UnknownPatternPackError(missing)
+
+  const activation: PackActivation = { workspace, packs, updatedAt: new Date().toISOString() }
+  await getKVStore().put(ACTIVATION_KEY_PREFIX + workspace, activation)
+  return activation
+}
+
+/**
+ * Compiles the pattern catalog a workspace's analyses should use. Packs that
+ * disappeared from storage are skipped rather than failing analysis.
+ */
+export async function loadPatternCatalog(workspace = DEFAULT_WORKSPACE): Promise<PatternCatalog> {
+  const { packs: refs } = await getPackActivation(workspace)
+  const cacheKey = refs.join('|')
+
+  const cached = compiledCatalogs.get(cacheKey)
+  if (cached) return cached
+
+  const packs = (await Promise.all(refs.map(getPatternPack))).filter((pack): pack is PatternPack => pack !== null)
+  const catalog = packs.length > 0 ? compilePatternCatalog(packs) : DEFAULT_PATTERN_CATALOG
+  if (packs.length === refs.length) compiledCatalogs.set(cacheKey, catalog)
+  return catalog
+}
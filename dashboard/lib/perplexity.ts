@@ -1,3 +1,6 @@
+import { s, Schema } from './schema'
+import { generateStructured } from './structured-output'
+
 const PERPLEXITY_API_URL = 'https://api.perplexity.ai'
 
 export interface PerplexityMessage {
@@ -138,7 +141,7 @@ Return your response as a JSON object with this exact structure:
   }
 }`
 
-    const response = await this.chat({
+    const { data } = await this.chatStructured({
       model: 'sonar',
       messages: [
         { role: 'system', content: systemPrompt },
@@ -146,46 +149,9 @@ Return your response as a JSON object with this exact structure:
       ],
       max_tokens: 2000,
       temperature: 0.3,
-    })
+    }, analyzePostSchema, 'post_analysis')
 
-    const content = response.choices[0]?.message?.content || ''
-    
-    try {
-      return JSON.parse(content) as AnalyzePostResponse
-    } catch {
-      return {
-        platform: 'unknown',
-        content: content,
-        format_pattern: {
-          type: 'unknown',
-          description: 'Could not parse format pattern',
-          components: []
-        },
-        engagement_signals: {
-          emotional_triggers: [],
-          formatting_choices: [],
-          timing_indicators: [],
-          credibility_markers: []
-        },
-        estimated_metrics: {
-          likes: null,
-          comments: null,
-          shares: null,
-          views: null
-        },
-        key_elements: {
-          emojis: [],
-          hashtags: [],
-          mentions: [],
-          links: [],
-          structure: 'unknown',
-          word_count: 0,
-          has_hook: false,
-          has_cta: false
-        },
-        raw_response: content
-      }
-    }
+    return data
   }
 
   async generateContent(params: GenerateContentParams): Promise<GenerateContentResponse> {
@@ -228,7 +194,7 @@ Return your response as a JSON object with this exact structure:
   }
 }`
 
-    const response = await this.chat({
+    const { data } = await this.chatStructured({
       model: 'llama-3.1-sonar-large-128k-online',
       messages: [
         { role: 'system', content: systemPrompt },
@@ -236,33 +202,9 @@ Return your response as a JSON object with this exact structure:
       ],
       max_tokens: 2000,
       temperature: params.temperature || 0.7,
-    })
+    }, generateContentSchema, 'generated_content')
 
-    const content = response.choices[0]?.message?.content || ''
-    
-    try {
-      return JSON.parse(content) as GenerateContentResponse
-    } catch {
-      return {
-        generated_post: content,
-        format_used: {
-          name: 'custom',
-          description: 'Generated with custom format',
-          components: []
-        },
-        suggestions: {
-          best_posting_times: [],
-          hashtags_to_consider: [],
-          engagement_tips: [],
-          a_b_test_variants: []
-        },
-        hook_analysis: {
-          hook_text: '',
-          hook_type: 'unknown',
-          effectiveness_score: 5
-        }
-      }
-    }
+    return data
   }
 
   async extractContent(url: string): Promise<ExtractContentResponse> {
@@ -300,7 +242,7 @@ Return your response as a JSON object with this exact structure:
   }
 }`
 
-    const response = await this.chat({
+    const { data, citations } = await this.chatStructured({
       model: 'sonar',
       messages: [
         { role: 'system', content: systemPrompt },
@@ -309,33 +251,36 @@ Return your response as a JSON object with this exact structure:
       max_tokens: 3000,
       temperature: 0.2,
       return_citations: true,
+    }, extractContentSchema, 'extracted_content')
+
+    return { ...data, citations }
+  }
+
+  /**
+   * Sends a chat request whose reply must be JSON matching `schema`, with a
+   * fix-it retry when it is not. Citations come from the last response.
+   *
+   * @throws StructuredOutputError if the reply never validates
+   */
+  private async chatStructured<T>(
+    request: PerplexityRequest,
+    schema: Schema<T>,
+    schemaName: string
+  ): Promise<{ data: T; citations?: string[] }> {
+    let citations: string[] | undefined
+
+    const { data } = await generateStructured({
+      messages: request.messages,
+      schema,
+      schemaName,
+      complete: async (messages) => {
+        const response = await this.chat({ ...request, messages })
+        citations = response.citations
+        return response.choices[0]?.message?.content || ''
+      },
     })
 
-    const content = response.choices[0]?.message?.content || ''
-    
-    try {
-      const result = JSON.parse(content) as ExtractContentResponse
-      result.citations = response.citations
-      return result
-    } catch {
-      return {
-        extracted_content: content,
-        metadata: {
-          title: '',
-          description: '',
-          author: null,
-          published_date: null,
-          platform: 'unknown',
-          url: url,
-          content_type: 'unknown'
-        },
-        media: {
-          images: [],
-          videos: [],
-          has_media: false
-        }
-      }
-    }
+    return { data, citations }
   }
 }
 
@@ -369,7 +314,6 @@ export interface AnalyzePostResponse {
     has_hook: boolean
     has_cta: boolean
   }
-  raw_response?: string
 }
 
 export interface GenerateContentParams {
@@ -419,6 +363,84 @@ export interface ExtractContentResponse {
   citations?: string[]
 }
 
+// ─── Response schemas ─────────────────────────────────────────────────────────
+
+const stringList = () => s.array(s.string()).default([])
+const count = () => s.number().nullable().default(null)
+
+const analyzePostSchema: Schema<AnalyzePostResponse> = s.object({
+  platform: s.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase().replace(/^x$/, 'twitter') : value),
+    s.enum(['linkedin', 'twitter', 'unknown'] as const)
+  ).default('unknown'),
+  content: s.string(),
+  format_pattern: s.object({
+    type: s.string(),
+    description: s.string().default(''),
+    components: stringList(),
+  }),
+  engagement_signals: s.object({
+    emotional_triggers: stringList(),
+    formatting_choices: stringList(),
+    timing_indicators: stringList(),
+    credibility_markers: stringList(),
+  }),
+  estimated_metrics: s.object({
+    likes: count(),
+    comments: count(),
+    shares: count(),
+    views: count(),
+  }),
+  key_elements: s.object({
+    emojis: stringList(),
+    hashtags: stringList(),
+    mentions: stringList(),
+    links: stringList(),
+    structure: s.string().default(''),
+    word_count: s.number(),
+    has_hook: s.boolean(),
+    has_cta: s.boolean(),
+  }),
+})
+
+const generateContentSchema: Schema<GenerateContentResponse> = s.object({
+  generated_post: s.string().refine((post) => post.trim().length > 0, 'Post must not be empty'),
+  format_used: s.object({
+    name: s.string(),
+    description: s.string().default(''),
+    components: stringList(),
+  }),
+  suggestions: s.object({
+    best_posting_times: stringList(),
+    hashtags_to_consider: stringList(),
+    engagement_tips: stringList(),
+    a_b_test_variants: stringList(),
+  }),
+  hook_analysis: s.object({
+    hook_text: s.string(),
+    hook_type: s.string(),
+    effectiveness_score: s.number().refine((score) => score >= 1 && score <= 10, 'Expected a score from 1 to 10'),
+  }),
+})
+
+const extractContentSchema: Schema<Omit<ExtractContentResponse, 'citations'>> = s.object({
+  extracted_content: s.string(),
+  metadata: s.object({
+    title: s.string().default(''),
+    description: s.string().default(''),
+    author: s.string().nullable().default(null),
+    published_date: s.string().nullable().default(null),
+    platform: s.string().default('unknown'),
+    url: s.string(),
+    content_type: s.string().default('unknown'),
+  }),
+  media: s.object({
+    images: stringList(),
+    videos: stringList(),
+    has_media: s.boolean().default(false),
+  }),
+})
+
 export class PerplexityAPIError extends Error {
   constructor(message: string, public statusCode: number) {
     super(message)
@@ -1,5 +1,8 @@
 import { HookTemplate } from './hooks-library';
 import { CTATemplate } from './cta-library';
+import { HOOK_TYPES, HOOK_LABELS, BODY_LABELS, CTA_LABELS } from './taxonomy';
+import { EmotionalTrigger, FormatPattern } from './types/social-media';
+import { LINKEDIN_FOLD, TWEET_MAX_LENGTH } from './text-metrics';
 
 export interface AnalyzePostParams {
   content: string;
@@ -18,11 +21,24 @@ export interface GeneratePostParams {
   targetAudience?: string;
   hook?: HookTemplate;
   cta?: CTATemplate;
+  focusEmotion?: EmotionalTrigger;
   keyPoints?: string[];
   formatId?: string;
+  format?: FormatPattern;
+  toneGuidance?: string;
   sourceContent?: string;
 }
 
+export interface SplitToThreadParams {
+  /** Content to split; without it the thread is written from the topic */
+  content?: string;
+  topic?: string;
+  tone?: 'professional' | 'casual' | 'bold';
+  minBodyTweets: number;
+  maxBodyTweets: number;
+  maxTweetLength: number;
+}
+
 export interface ExtractContentParams {
   url: string;
   platform: 'linkedin' | 'twitter';
@@ -55,7 +71,7 @@ Analyze and provide:
 
 Return as JSON:
 {
-  "hookType": "question|bold_statement|story|listicle|controversial|how_to|myth_buster|counterintuitive",
+  "hookType": "${HOOK_TYPES.join('|')}",
   "hookAnalysis": "detailed analysis",
   "structure": {
     "opening": "description",
@@ -72,6 +88,17 @@ Return as JSON:
 }`;
 }
 
+function FORMAT_GUIDANCE(format: FormatPattern): string {
+  return `
+LEARNED FORMAT TO FOLLOW: ${format.name}
+- Hook: ${HOOK_LABELS[format.hookType]} · Body: ${BODY_LABELS[format.bodyType]} · CTA: ${CTA_LABELS[format.ctaType]}
+- Keep this structure, replacing every placeholder with content about the topic:
+"""
+${format.template}
+"""
+${format.examplePost ? `- Example of the format in the wild:\n"""${format.examplePost.substring(0, 500)}"""\n` : ''}`;
+}
+
 export function GENERATE_LINKEDIN_PROMPT(params: GeneratePostParams): string {
   return `Generate a high-performing LinkedIn post about: "${params.topic}"
 
@@ -81,11 +108,13 @@ REQUIREMENTS:
 ${params.targetAudience ? `- Target Audience: ${params.targetAudience}` : ''}
 ${params.hook ? `- Suggested Hook Type: ${params.hook.type}` : ''}
 ${params.cta ? `- Suggested CTA Type: ${params.cta.type}` : ''}
+${params.focusEmotion ? `- Emotional Focus: make the reader feel ${params.focusEmotion}` : ''}
 ${params.keyPoints ? `- Key Points to Include:\n${params.keyPoints.map(p => `  • ${p}`).join('\n')}` : ''}
 ${params.sourceContent ? `- Source Material:\n"""${params.sourceContent}"""` : ''}
-
+${params.toneGuidance ? `- Tone Guidance: ${params.toneGuidance}` : ''}
+${params.format ? FORMAT_GUIDANCE(params.format) : ''}
 LINKEDIN BEST PRACTICES:
-- Start with a compelling hook (first line is crucial)
+- Start with a compelling hook (first line is crucial) of at most ${LINKEDIN_FOLD.mobile.maxCharacters} characters, so it shows above "…see more" on mobile
 - Use short paragraphs (1-2 sentences max)
 - Include line breaks for readability
 - Use bullet points for lists
@@ -125,11 +154,13 @@ REQUIREMENTS:
 ${params.targetAudience ? `- Target Audience: ${params.targetAudience}` : ''}
 ${params.hook ? `- Suggested Hook Type: ${params.hook.type}` : ''}
 ${params.cta ? `- Suggested CTA Type: ${params.cta.type}` : ''}
+${params.focusEmotion ? `- Emotional Focus: make the reader feel ${params.focusEmotion}` : ''}
 ${params.keyPoints ? `- Key Points to Include:\n${params.keyPoints.map(p => `  • ${p}`).join('\n')}` : ''}
 ${params.sourceContent ? `- Source Material:\n"""${params.sourceContent}"""` : ''}
-
+${params.toneGuidance ? `- Tone Guidance: ${params.toneGuidance}` : ''}
+${params.format ? FORMAT_GUIDANCE(params.format) : ''}
 TWITTER BEST PRACTICES:
-- Under 280 characters for single tweet (unless thread)
+- Under ${TWEET_MAX_LENGTH} characters for single tweet (unless thread); X counts every URL as 23 and every emoji as 2
 - Punchy, concise language
 - Use 1-2 relevant hashtags (not more)
 - Strong hook in first 3 words
@@ -220,35 +251,33 @@ Return as JSON:
 }`;
 }
 
-export function SPLIT_TO_THREAD_PROMPT(content: string): string {
-  return `Split this content into a Twitter thread for maximum engagement.
+export function SPLIT_TO_THREAD_PROMPT(params: SplitToThreadParams): string {
+  const source = params.content
+    ? `Split this content into an X (Twitter) thread for maximum engagement.
 
 CONTENT:
 """
-${content}
-"""
+${params.content}
+"""`
+    : `Write an X (Twitter) thread about: "${params.topic}"`;
 
-Requirements:
-- Each tweet under 280 characters
-- Create natural break points
-- Number the tweets (1/X, 2/X, etc.)
-- First tweet should be the hook
-- Last tweet should include CTA
-- Maintain narrative flow
-- Keep reader wanting more
+  return `${source}
 
+Requirements:
+${params.tone ? `- Tone: ${params.tone}\n` : ''}- One hook tweet, ${params.minBodyTweets}-${params.maxBodyTweets} body tweets and one CTA tweet
+- Every tweet at most ${params.maxTweetLength} characters. X counts every URL as 23 characters and every emoji or CJK character as 2
+- Create natural break points; keep each list item whole inside one tweet
+- Do not number the tweets or add a 🧵 marker; numbering is added afterwards
+- The hook must stand alone and make people open the thread
+- The CTA tweet asks for a follow, reply or repost
+- Maintain narrative flow and keep the reader wanting more
+${params.content ? '- Keep the substance of the content; do not invent facts\n' : ''}
 Return as JSON:
 {
-  "tweets": [
-    {
-      "number": 1,
-      "content": "tweet content",
-      "characterCount": number
-    }
-  ],
-  "totalTweets": number,
-  "hook": "opening hook used",
-  "cta": "closing CTA used"
+  "hook": "the hook tweet",
+  "tweets": ["body tweet 1", "body tweet 2"],
+  "cta": "the CTA tweet",
+  "hashtags": ["at most two relevant hashtags"]
 }`;
 }
 
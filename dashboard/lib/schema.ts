@@ -0,0 +1,249 @@
+/**
+ * Schema Validators
+ *
+ * Small zod-style validators for untrusted JSON (mostly LLM replies). Each
+ * schema both validates a value and describes itself as JSON Schema, so the
+ * same definition can be sent as an OpenRouter `response_format`.
+ *
+ * @example
+ * const postSchema = s.object({
+ *   content: s.string(),
+ *   hashtags: s.array(s.string()).default([]),
+ * })
+ * const result = postSchema.safeParse(JSON.parse(raw))
+ */
+
+export type JsonSchema = Record<string, unknown>
+
+export interface SchemaIssue {
+  /** JSONPath-like location, e.g. `$.formats[2].hookType` */
+  path: string
+  message: string
+}
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] }
+
+export class SchemaValidationError extends Error {
+  constructor(public issues: SchemaIssue[]) {
+    super(`Validation failed: ${formatIssues(issues)}`)
+    this.name = 'SchemaValidationError'
+  }
+}
+
+type Check<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T
+
+export class Schema<T> {
+  constructor(
+    private readonly check: Check<T>,
+    readonly jsonSchema: JsonSchema,
+    /** Whether an object property using this schema may be missing */
+    readonly isOptional = false
+  ) {}
+
+  /** Validates and returns the (possibly transformed) value, recording issues */
+  run(value: unknown, path: string, issues: SchemaIssue[]): T {
+    return this.check(value, path, issues)
+  }
+
+  safeParse(value: unknown): SafeParseResult<T> {
+    const issues: SchemaIssue[] = []
+    const data = this.check(value, '$', issues)
+    return issues.length > 0 ? { success: false, issues } : { success: true, data }
+  }
+
+  /** @throws SchemaValidationError */
+  parse(value: unknown): T {
+    const result = this.safeParse(value)
+    if (!result.success) throw new SchemaValidationError(result.issues)
+    return result.data
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(
+      (value, path, issues) => (value === undefined ? undefined : this.check(value, path, issues)),
+      this.jsonSchema,
+      true
+    )
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>(
+      (value, path, issues) => (value === null ? null : this.check(value, path, issues)),
+      { anyOf: [this.jsonSchema, { type: 'null' }] },
+      this.isOptional
+    )
+  }
+
+  /** Uses `fallback` when the value is missing (undefined or null) */
+  default(fallback: T): Schema<T> {
+    return new Schema<T>(
+      (value, path, issues) => (value === undefined || value === null ? fallback : this.check(value, path, issues)),
+      this.jsonSchema,
+      true
+    )
+  }
+
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema<T>(
+      (value, path, issues) => {
+        const before = issues.length
+        const result = this.check(value, path, issues)
+        if (issues.length === before && !predicate(result)) {
+          issues.push({ path, message })
+        }
+        return result
+      },
+      this.jsonSchema,
+      this.isOptional
+    )
+  }
+
+  /** Maps the validated value; skipped when validation already failed */
+  transform<U>(fn: (value: T) => U): Schema<U> {
+    return new Schema<U>(
+      (value, path, issues) => {
+        const before = issues.length
+        const result = this.check(value, path, issues)
+        return issues.length === before ? fn(result) : (result as unknown as U)
+      },
+      this.jsonSchema,
+      this.isOptional
+    )
+  }
+
+  describe(description: string): Schema<T> {
+    return new Schema<T>(this.check, { ...this.jsonSchema, description }, this.isOptional)
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> }
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function string(): Schema<string> {
+  return new Schema<string>(
+    (value, path, issues) => {
+      if (typeof value !== 'string') issues.push({ path, message: `Expected string, received ${typeOf(value)}` })
+      return value as string
+    },
+    { type: 'string' }
+  )
+}
+
+function number(): Schema<number> {
+  return new Schema<number>(
+    (value, path, issues) => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `Expected number, received ${typeOf(value)}` })
+      }
+      return value as number
+    },
+    { type: 'number' }
+  )
+}
+
+function boolean(): Schema<boolean> {
+  return new Schema<boolean>(
+    (value, path, issues) => {
+      if (typeof value !== 'boolean') issues.push({ path, message: `Expected boolean, received ${typeOf(value)}` })
+      return value as boolean
+    },
+    { type: 'boolean' }
+  )
+}
+
+function unknown(): Schema<unknown> {
+  return new Schema<unknown>((value) => value, {})
+}
+
+function enumOf<T extends string>(values: readonly T[]): Schema<T> {
+  return new Schema<T>(
+    (value, path, issues) => {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        issues.push({ path, message: `Expected one of ${values.join(' | ')}, received ${JSON.stringify(value)}` })
+      }
+      return value as T
+    },
+    { type: 'string', enum: [...values] }
+  )
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return new Schema<T[]>(
+    (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, received ${typeOf(value)}` })
+        return value as T[]
+      }
+      return value.map((entry, i) => item.run(entry, `${path}[${i}]`, issues))
+    },
+    { type: 'array', items: item.jsonSchema }
+  )
+}
+
+function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  const keys = Object.keys(shape)
+  return new Schema<InferShape<S>>(
+    (value, path, issues) => {
+      if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `Expected object, received ${typeOf(value)}` })
+        return value as InferShape<S>
+      }
+
+      const input = value as Record<string, unknown>
+      const output: Record<string, unknown> = {}
+      for (const key of keys) {
+        const field = shape[key]
+        if (input[key] === undefined && !field.isOptional) {
+          issues.push({ path: `${path}.${key}`, message: 'Required' })
+          continue
+        }
+        const result = field.run(input[key], `${path}.${key}`, issues)
+        if (result !== undefined) output[key] = result
+      }
+      return output as InferShape<S>
+    },
+    {
+      type: 'object',
+      properties: Object.fromEntries(keys.map((key) => [key, shape[key].jsonSchema])),
+      required: keys.filter((key) => !shape[key].isOptional),
+      additionalProperties: false,
+    }
+  )
+}
+
+/** Rewrites the raw value before validating it, e.g. to map aliases */
+function preprocess<T>(fn: (value: unknown) => unknown, schema: Schema<T>): Schema<T> {
+  return new Schema<T>(
+    (value, path, issues) => schema.run(fn(value), path, issues),
+    schema.jsonSchema,
+    schema.isOptional
+  )
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  enum: enumOf,
+  array,
+  object,
+  preprocess,
+}
+
+export function formatIssues(issues: SchemaIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map((issue) => `${issue.path}: ${issue.message}`)
+  if (issues.length > limit) shown.push(`…and ${issues.length - limit} more`)
+  return shown.join('; ')
+}
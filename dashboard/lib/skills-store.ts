@@ -0,0 +1,111 @@
+/**
+ * Agent Skills Store
+ *
+ * Server-side source of truth for the content writer's AgentSkills.
+ * Writes use optimistic concurrency: callers pass the `updatedAt` they last
+ * saw, and the write is rejected with SkillsConflictError if someone else
+ * saved in the meantime.
+ *
+ * The check is a KV read followed by a write, not a compare-and-set. It
+ * catches a save based on a stale copy (another tab, a reload after someone
+ * else's edit), but two saves arriving within the same moment can both pass
+ * it and the later one wins. KV offers nothing stronger; closing that window
+ * needs the document behind a Durable Object or a D1 row updated with
+ * `WHERE updated_at = ?`.
+ */
+
+import { AgentSkills, ContentFormat, DEFAULT_SKILLS } from './agent-skills'
+import { getKVStore } from './storage'
+import { parseContentFormats } from './taxonomy'
+
+const SKILLS_KEY = 'agent-skills'
+
+export type SkillsPatch = Partial<Pick<AgentSkills, 'brandVoice' | 'targetAudience' | 'useCases' | 'formats'>> & {
+  addFormats?: ContentFormat[]
+  removeFormatIds?: string[]
+}
+
+export class SkillsConflictError extends Error {
+  constructor(public current: AgentSkills) {
+    super('Agent skills were modified by another session. Reload and try again.')
+    this.name = 'SkillsConflictError'
+  }
+}
+
+/**
+ * Returns the stored skills, or null if nothing has been saved yet.
+ * Formats saved with legacy taxonomy labels are mapped onto canonical values.
+ */
+export async function getStoredSkills(): Promise<AgentSkills | null> {
+  const stored = await getKVStore().get<AgentSkills>(SKILLS_KEY)
+  return stored && { ...stored, formats: parseContentFormats(stored.formats).formats }
+}
+
+/**
+ * Returns the stored skills, falling back to DEFAULT_SKILLS.
+ */
+export async function loadSkills(): Promise<AgentSkills> {
+  return (await getStoredSkills()) ?? DEFAULT_SKILLS
+}
+
+/**
+ * Replaces the stored skills.
+ *
+ * @param skills - Full skills document to store
+ * @param expectedUpdatedAt - `updatedAt` the caller based its edit on.
+ *   Omit to force the write.
+ * @throws SkillsConflictError if the stored copy changed since then (best
+ *   effort; see the note on atomicity above)
+ */
+export async function saveSkills(skills: AgentSkills, expectedUpdatedAt?: string): Promise<AgentSkills> {
+  const current = await getStoredSkills()
+  assertNotStale(current, expectedUpdatedAt)
+
+  const saved: AgentSkills = {
+    ...DEFAULT_SKILLS,
+    ...skills,
+    updatedAt: nextTimestamp(current?.updatedAt),
+  }
+
+  await getKVStore().put(SKILLS_KEY, saved)
+  return saved
+}
+
+/**
+ * Applies a partial update to the stored skills. `addFormats` appends
+ * formats whose id is not already present; `removeFormatIds` drops formats.
+ *
+ * @throws SkillsConflictError if the stored copy changed since `expectedUpdatedAt`
+ */
+export async function patchSkills(patch: SkillsPatch, expectedUpdatedAt?: string): Promise<AgentSkills> {
+  const current = (await getStoredSkills()) ?? DEFAULT_SKILLS
+  const { addFormats, removeFormatIds, ...fields } = patch
+
+  let formats = fields.formats ?? current.formats
+
+  if (addFormats?.length) {
+    const existingIds = new Set(formats.map((f) => f.id))
+    formats = [...formats, ...addFormats.filter((f) => !existingIds.has(f.id))]
+  }
+
+  if (removeFormatIds?.length) {
+    formats = formats.filter((f) => !removeFormatIds.includes(f.id))
+  }
+
+  return saveSkills({ ...current, ...fields, formats }, expectedUpdatedAt ?? current.updatedAt)
+}
+
+function assertNotStale(current: AgentSkills | null, expectedUpdatedAt?: string): void {
+  if (expectedUpdatedAt === undefined || !current) return
+  if (current.updatedAt !== expectedUpdatedAt) {
+    throw new SkillsConflictError(current)
+  }
+}
+
+// updatedAt doubles as the version token, so it must change on every write
+// even when two saves land in the same millisecond.
+function nextTimestamp(previous?: string): string {
+  const now = Date.now()
+  const last = previous ? Date.parse(previous) : NaN
+  return new Date(Number.isNaN(last) ? now : Math.max(now, last + 1)).toISOString()
+}
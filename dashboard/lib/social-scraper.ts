@@ -0,0 +1,156 @@
+/**
+ * Social Scrapers
+ *
+ * Platform-agnostic post ingestion. Each platform has a SocialScraper that
+ * picks its own Apify actor, builds the actor input and maps dataset items
+ * into ScrapedPost. URLs are routed to a scraper by host.
+ *
+ * Implementations:
+ * - LinkedIn: ./apify-linkedin
+ * - X/Twitter: ./apify-x (threads are collapsed into one post with ordered parts)
+ */
+
+import type { Platform, ViralPost } from './types/social-media'
+import { getDatasetItems, type ApifyRunResult, type StartRunOptions } from './apify'
+import { linkedInScraper } from './apify-linkedin'
+import { xScraper } from './apify-x'
+
+export interface ScrapedPostPart {
+  /** 1-based position within the thread */
+  position: number
+  text: string
+  url?: string
+  likesCount?: number
+  publishedAt?: string
+}
+
+export interface ScrapedPost {
+  platform: Platform
+  /** Platform post id, when the actor provides one */
+  id?: string
+  /** Conversation the post belongs to (X conversationId) */
+  threadId?: string
+  url: string
+  text: string
+  likesCount: number
+  commentsCount: number
+  sharesCount: number
+  repostsCount?: number
+  authorName?: string
+  authorHandle?: string
+  authorHeadline?: string
+  publishedAt?: string
+  /** Thread replies by the author, in reading order (X only). `text` joins them. */
+  parts?: ScrapedPostPart[]
+}
+
+export interface SocialScraper {
+  platform: Platform
+  /** Human-readable platform name for messages */
+  label: string
+  /** Whether this scraper handles URLs on the given host */
+  matchesHost(hostname: string): boolean
+  /** Starts an Apify run for the given post URLs */
+  startScrape(urls: string[], apiKey: string, options?: StartRunOptions): Promise<ApifyRunResult>
+  /** Maps one raw dataset item; returns null for items that are not posts */
+  normalizeItem(item: any): ScrapedPost | null
+  /** Combines normalized items into posts, e.g. to assemble threads */
+  collect?(posts: ScrapedPost[]): ScrapedPost[]
+}
+
+export interface ScrapeRun extends ApifyRunResult {
+  platform: Platform
+  urlCount: number
+}
+
+const SCRAPERS: SocialScraper[] = [linkedInScraper, xScraper]
+
+// Dataset items shorter than this are page chrome, not posts
+const MIN_POST_LENGTH = 20
+
+export function getScraper(platform: string): SocialScraper | null {
+  return SCRAPERS.find((scraper) => scraper.platform === platform) ?? null
+}
+
+/**
+ * Returns the scraper for a post URL, or null for unsupported or invalid URLs.
+ */
+export function scraperForUrl(url: string): SocialScraper | null {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return null
+  }
+  return SCRAPERS.find((scraper) => scraper.matchesHost(hostname)) ?? null
+}
+
+/**
+ * Groups post URLs by scraper. URLs no scraper handles end up in `unsupported`.
+ */
+export function routeUrls(urls: string[]): {
+  groups: { scraper: SocialScraper; urls: string[] }[]
+  unsupported: string[]
+} {
+  const groups = new Map<Platform, { scraper: SocialScraper; urls: string[] }>()
+  const unsupported: string[] = []
+
+  for (const url of urls) {
+    const scraper = scraperForUrl(url)
+    if (!scraper) {
+      unsupported.push(url)
+      continue
+    }
+    const group = groups.get(scraper.platform) ?? { scraper, urls: [] }
+    group.urls.push(url)
+    groups.set(scraper.platform, group)
+  }
+
+  return { groups: [...groups.values()], unsupported }
+}
+
+/**
+ * Normalizes raw dataset items with the given scraper. Exposed separately
+ * from scrapeDataset so recorded datasets can be replayed without Apify.
+ */
+export function normalizeItems(scraper: SocialScraper, items: unknown[]): ScrapedPost[] {
+  const posts = items
+    .map((item) => scraper.normalizeItem(item))
+    .filter((post): post is ScrapedPost => post !== null)
+  const collected = scraper.collect ? scraper.collect(posts) : posts
+  return collected.filter((post) => post.text.length > MIN_POST_LENGTH)
+}
+
+/**
+ * Retrieves a finished run's dataset and normalizes it into posts.
+ */
+export async function scrapeDataset(
+  scraper: SocialScraper,
+  datasetId: string,
+  apiKey: string
+): Promise<ScrapedPost[]> {
+  // Threads arrive as one item per tweet, so allow more items for X
+  const limit = scraper.collect ? 200 : 50
+  const items = await getDatasetItems(datasetId, apiKey, limit)
+  return normalizeItems(scraper, items)
+}
+
+/**
+ * Converts a scraped post into the ViralPost shape the analyzer works on,
+ * carrying its real engagement over as metrics.
+ */
+export function toViralPost(post: ScrapedPost, index = 0): ViralPost {
+  return {
+    id: post.id || post.url || `scraped-${index}`,
+    platform: post.platform,
+    content: post.text,
+    author: post.authorName || post.authorHandle,
+    url: post.url,
+    metrics: {
+      likes: post.likesCount,
+      comments: post.commentsCount,
+      shares: post.sharesCount,
+    },
+    createdAt: post.publishedAt || new Date(0).toISOString(),
+  }
+}
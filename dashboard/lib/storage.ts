@@ -0,0 +1,140 @@
+/**
+ * Durable Storage
+ *
+ * Key-value abstraction used by everything that has to outlive a single
+ * edge isolate (learned formats, agent skills, jobs, drafts...).
+ *
+ * In production the dashboard runs on Cloudflare Pages and reads the
+ * BIGZEC_KV namespace binding from the request context. When no binding is
+ * available (next dev, scripts, tests) an in-memory store is used instead,
+ * which behaves like a fake KV namespace.
+ */
+
+import { getOptionalRequestContext } from '@cloudflare/next-on-pages'
+
+export const KV_BINDING = 'BIGZEC_KV'
+
+/**
+ * Minimal subset of the Cloudflare KVNamespace API that the stores rely on.
+ * Declared structurally so Miniflare or a hand-written fake can stand in.
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'text'): Promise<string | null>
+  put(key: string, value: string): Promise<void>
+  delete(key: string): Promise<void>
+  list(options: { prefix?: string; cursor?: string; limit?: number }): Promise<{
+    keys: { name: string }[]
+    list_complete: boolean
+    cursor?: string
+  }>
+}
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>
+  put<T>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<boolean>
+  list(prefix: string): Promise<string[]>
+}
+
+/**
+ * Process-local store. Data is lost when the isolate recycles, so this is
+ * only meant for local development and tests.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private data = new Map<string, string>()
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = this.data.get(key)
+    return raw === undefined ? null : (JSON.parse(raw) as T)
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, JSON.stringify(value))
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key)
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.data.keys())
+      .filter((key) => key.startsWith(prefix))
+      .sort()
+  }
+}
+
+/**
+ * Store backed by a Cloudflare KV namespace. Values are JSON-encoded.
+ */
+export class CloudflareKVStore implements KeyValueStore {
+  constructor(private namespace: KVNamespaceLike) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.namespace.get(key, 'text')
+    if (raw === null) return null
+    try {
+      return JSON.parse(raw) as T
+    } catch {
+      return null
+    }
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    await this.namespace.put(key, JSON.stringify(value))
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existing = await this.namespace.get(key, 'text')
+    if (existing === null) return false
+    await this.namespace.delete(key)
+    return true
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+    let cursor: string | undefined
+
+    do {
+      const page = await this.namespace.list({ prefix, cursor, limit: 1000 })
+      keys.push(...page.keys.map((k) => k.name))
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+
+    return keys
+  }
+}
+
+const memoryStore = new MemoryKeyValueStore()
+let storeOverride: KeyValueStore | null = null
+
+/**
+ * Returns the KV namespace bound to the current request, if any.
+ */
+export function getKVNamespace(): KVNamespaceLike | null {
+  try {
+    const env = getOptionalRequestContext()?.env as Record<string, unknown> | undefined
+    const binding = env?.[KV_BINDING]
+    return binding ? (binding as KVNamespaceLike) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolves the store for the current request: the override if one was set,
+ * Cloudflare KV when bound, otherwise the shared in-memory store.
+ */
+export function getKVStore(): KeyValueStore {
+  if (storeOverride) return storeOverride
+
+  const namespace = getKVNamespace()
+  return namespace ? new CloudflareKVStore(namespace) : memoryStore
+}
+
+/**
+ * Replaces the resolved store, e.g. with a Miniflare-backed or fake KV in
+ * tests. Pass null to restore the default resolution.
+ */
+export function setKVStore(store: KeyValueStore | null): void {
+  storeOverride = store
+}
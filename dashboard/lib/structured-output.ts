@@ -0,0 +1,299 @@
+/**
+ * Structured Output
+ *
+ * One place to turn LLM replies into validated, typed JSON:
+ * - parses clean JSON as is; otherwise strips a leading ``` code fence and
+ *   surrounding prose
+ * - repairs truncated or sloppy JSON (unclosed strings/brackets, trailing commas)
+ * - validates against a per-call Schema (./schema)
+ * - on failure, sends the model its own reply plus the problems and asks for a fix
+ * - requests `response_format: json_schema` from models that support it
+ *
+ * The parsing helpers have no server dependencies and are safe to use in the
+ * browser (e.g. for pasted JSON).
+ */
+
+import {
+  chatCompletion,
+  DEFAULT_MODEL,
+  OpenRouterAPIError,
+  type OpenRouterMessage,
+  type ResponseFormat,
+} from './openrouter'
+import { Schema, SchemaIssue, formatIssues } from './schema'
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public kind: 'parse' | 'validation',
+    public issues: SchemaIssue[],
+    public rawResponse: string,
+    public attempts = 1
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+// Models (by OpenRouter id prefix) known to honour json_schema response formats.
+// Extend with OPENROUTER_JSON_SCHEMA_MODELS (comma-separated prefixes).
+const JSON_SCHEMA_MODEL_PREFIXES = ['openai/', 'google/gemini', 'anthropic/', 'mistralai/']
+
+export function supportsJsonSchema(model: string): boolean {
+  const extra = (process.env.OPENROUTER_JSON_SCHEMA_MODELS ?? '')
+    .split(',')
+    .map((prefix) => prefix.trim())
+    .filter(Boolean)
+  return [...JSON_SCHEMA_MODEL_PREFIXES, ...extra].some((prefix) => model.startsWith(prefix))
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the contents of the ``` fence the text starts with, or the text
+ * unchanged. Only a fence at the start of a line closes it, so backticks
+ * inside JSON strings survive; an unterminated fence (truncated reply) runs
+ * to the end of the text.
+ */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith('```')) return trimmed
+
+  const fenced = trimmed.match(/^```[^\n]*\n([\s\S]*?)(?:\n```[\s\S]*)?$/)
+  if (fenced) return fenced[1].trim()
+  // Single-line fence: ```json {...}```
+  return trimmed.replace(/^```[a-zA-Z]*/, '').replace(/```$/, '').trim()
+}
+
+/**
+ * Slices the first JSON object or array out of surrounding prose. If the
+ * value never closes (truncated reply) the slice runs to the end.
+ */
+export function extractJson(text: string): string | null {
+  const start = text.search(/[[{]/)
+  if (start === -1) return null
+
+  let depth = 0
+  let inString = false
+  let escape = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (escape) { escape = false; continue }
+    if (inString) {
+      if (char === '\\') escape = true
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') inString = true
+    else if (char === '{' || char === '[') depth++
+    else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) return text.slice(start, i + 1)
+    }
+  }
+
+  return text.slice(start)
+}
+
+/**
+ * Best-effort repair of near-JSON: drops trailing commas, closes an open
+ * string, drops a dangling incomplete member and closes open brackets in
+ * the right order.
+ */
+export function repairJson(text: string): string {
+  const closers: string[] = []
+  let out = ''
+  let inString = false
+  let escape = false
+
+  for (const char of text) {
+    if (inString) {
+      out += char
+      if (escape) escape = false
+      else if (char === '\\') escape = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      closers.push('}')
+    } else if (char === '[') {
+      closers.push(']')
+    } else if (char === '}' || char === ']') {
+      out = out.replace(/,\s*$/, '')
+      closers.pop()
+    }
+    out += char
+  }
+
+  if (inString) {
+    if (escape) out = out.slice(0, -1)
+    out += '"'
+  }
+
+  // Trim whatever member the truncation cut off half-way
+  for (;;) {
+    const before = out
+    out = out.replace(/[,:]\s*$/, '')
+    if (closers[closers.length - 1] === '}') {
+      out = out
+        .replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1')
+        .replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:\s*(?:t|tr|tru|f|fa|fal|fals|n|nu|nul|-)\s*$/, '$1')
+    } else {
+      out = out.replace(/(?:t|tr|tru|f|fa|fal|fals|n|nu|nul|-)\s*$/, '')
+    }
+    if (out === before) break
+  }
+
+  return out + closers.reverse().join('')
+}
+
+/**
+ * Parses JSON out of an LLM reply, tolerating fences, prose and truncation.
+ *
+ * @throws StructuredOutputError (kind: 'parse') if nothing parseable is found
+ */
+export function parseJsonLoose(text: string): unknown {
+  // Valid JSON is taken as is, even when a string value mentions ``` fences
+  try {
+    return JSON.parse(text)
+  } catch {
+    // fall through to fence stripping
+  }
+
+  const cleaned = stripCodeFences(text)
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    // fall through to extraction and repair
+  }
+
+  const candidate = extractJson(cleaned)
+  if (!candidate) {
+    throw new StructuredOutputError('No JSON found in the response', 'parse', [{ path: '$', message: 'No JSON object or array found' }], text)
+  }
+
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    try {
+      return JSON.parse(repairJson(candidate))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON'
+      throw new StructuredOutputError(`Invalid JSON: ${message}`, 'parse', [{ path: '$', message }], text)
+    }
+  }
+}
+
+/**
+ * Parses and validates an LLM reply against a schema.
+ *
+ * @throws StructuredOutputError with the parse or validation issues
+ */
+export function parseStructured<T>(text: string, schema: Schema<T>): T {
+  const value = parseJsonLoose(text)
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new StructuredOutputError(
+      `Response did not match the expected format: ${formatIssues(result.issues)}`,
+      'validation',
+      result.issues,
+      text
+    )
+  }
+  return result.data
+}
+
+// ─── Generation ───────────────────────────────────────────────────────────────
+
+export interface StructuredRequest<T> {
+  messages: OpenRouterMessage[]
+  schema: Schema<T>
+  /** Identifier sent with json_schema response formats */
+  schemaName: string
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  /** Fix-it round trips after the first attempt (default 1) */
+  maxRetries?: number
+  /**
+   * Completion function for non-OpenRouter providers. Defaults to
+   * chatCompletion; the response format is only passed to the default.
+   */
+  complete?: (messages: OpenRouterMessage[]) => Promise<string>
+}
+
+export interface StructuredResult<T> {
+  data: T
+  raw: string
+  attempts: number
+}
+
+/**
+ * Asks the model for JSON matching `schema`, retrying with the validation
+ * problems when the reply does not parse or validate.
+ *
+ * @throws StructuredOutputError after the last failed attempt
+ */
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const { schema, schemaName, maxRetries = 1 } = request
+  const model = request.model ?? DEFAULT_MODEL
+
+  let responseFormat: ResponseFormat | undefined =
+    !request.complete && supportsJsonSchema(model)
+      ? { type: 'json_schema', json_schema: { name: schemaName, schema: schema.jsonSchema, strict: false } }
+      : undefined
+
+  const complete = async (messages: OpenRouterMessage[]): Promise<string> => {
+    if (request.complete) return request.complete(messages)
+    try {
+      return await chatCompletion(messages, {
+        model,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        responseFormat,
+      })
+    } catch (error) {
+      // The provider rejected the response format; continue with prompt-only JSON
+      if (responseFormat && error instanceof OpenRouterAPIError && error.statusCode === 400) {
+        responseFormat = undefined
+        return complete(messages)
+      }
+      throw error
+    }
+  }
+
+  let conversation = [...request.messages]
+  let lastError: StructuredOutputError | null = null
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const raw = await complete(conversation)
+
+    try {
+      return { data: parseStructured(raw, schema), raw, attempts: attempt }
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error
+      error.attempts = attempt
+      lastError = error
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: raw },
+        { role: 'user', content: fixPrompt(error) },
+      ]
+    }
+  }
+
+  throw lastError
+}
+
+function fixPrompt(error: StructuredOutputError): string {
+  return `Your previous reply could not be used: ${error.kind === 'parse' ? 'it was not valid JSON' : 'it did not match the required format'}.
+
+Problems:
+${error.issues.slice(0, 20).map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Reply again with the complete, corrected JSON only. No prose, no code fences.`
+}
@@ -0,0 +1,370 @@
+/**
+ * Content Taxonomy
+ *
+ * Single source of truth for hook, body and CTA types. The canonical values
+ * are the HookType / BodyType / CTAType enums in ./types/social-media. Every
+ * other vocabulary still in circulation — the old hook/CTA library keys
+ * (`listicle`, `debate`), the SCREAMING_CASE labels used by earlier extraction
+ * prompts and saved skills (`PERSONAL_STORY`, `NO_CTA`) and the display labels
+ * below — resolves onto them through the to*Type functions.
+ *
+ * Also defines validation for Agent Skills ContentFormat records and the
+ * mappers between ContentFormat and the learner's FormatPattern.
+ */
+
+import { HookType, BodyType, CTAType, FormatPattern, Platform } from './types/social-media'
+import type { ContentFormat } from './agent-skills'
+import { s, Schema } from './schema'
+import { templateSyntaxError } from './template-engine'
+
+// ─── Canonical values ─────────────────────────────────────────────────────────
+
+export const HOOK_TYPES = Object.values(HookType) as HookType[]
+export const BODY_TYPES = Object.values(BodyType) as BodyType[]
+export const CTA_TYPES = Object.values(CTAType) as CTAType[]
+
+export const HOOK_LABELS: Record<HookType, string> = {
+  [HookType.QUESTION]: 'Question Hook',
+  [HookType.BOLD_STATEMENT]: 'Bold Statement',
+  [HookType.STORY]: 'Story Opener',
+  [HookType.LIST]: 'List Intro',
+  [HookType.CONTROVERSIAL_TAKE]: 'Controversial',
+  [HookType.STATISTIC]: 'Data-Led',
+  [HookType.QUOTE]: 'Quote-Led',
+  [HookType.HOW_TO]: 'How-To',
+  [HookType.MYTH_BUSTER]: 'Myth Buster',
+  [HookType.COUNTERINTUITIVE]: 'Counterintuitive',
+  [HookType.FAILURE_ADMISSION]: 'Failure Admission',
+  [HookType.NONE]: 'Direct'
+}
+
+export const BODY_LABELS: Record<BodyType, string> = {
+  [BodyType.PROBLEM_SOLUTION]: 'Problem-Solution',
+  [BodyType.STORY_DRIVEN]: 'Story-Driven',
+  [BodyType.LISTICLE]: 'Listicle',
+  [BodyType.TUTORIAL]: 'Tutorial',
+  [BodyType.INSIGHT_SHARING]: 'Insight',
+  [BodyType.COMPARISON]: 'Comparison',
+  [BodyType.MYTH_BUSTING]: 'Myth-Buster',
+  [BodyType.LESSON_LEARNED]: 'Lesson',
+  [BodyType.BEFORE_AFTER]: 'Before-After',
+  [BodyType.THREAD]: 'Thread',
+  [BodyType.NARRATIVE]: 'Narrative'
+}
+
+export const CTA_LABELS: Record<CTAType, string> = {
+  [CTAType.QUESTION_TO_AUDIENCE]: 'Question',
+  [CTAType.LINK]: 'Link',
+  [CTAType.ENGAGEMENT_BAIT]: 'Engagement',
+  [CTAType.FOLLOW_UP]: 'Follow',
+  [CTAType.SAVE_FOR_LATER]: 'Save',
+  [CTAType.SHARE]: 'Share',
+  [CTAType.COMMENT_PROMPT]: 'Comment Prompt',
+  [CTAType.SOFT_SELL]: 'Soft Sell',
+  [CTAType.DEBATE]: 'Agree/Disagree',
+  [CTAType.NONE]: 'No CTA'
+}
+
+/** One-line definitions, used when asking a model to classify posts */
+export const HOOK_DESCRIPTIONS: Record<HookType, string> = {
+  [HookType.QUESTION]: 'opens with a question to the reader',
+  [HookType.BOLD_STATEMENT]: 'a short, confident claim ("X is dead.")',
+  [HookType.STORY]: 'opens a personal or client narrative',
+  [HookType.LIST]: 'previews a numbered list ("7 things I...")',
+  [HookType.CONTROVERSIAL_TAKE]: 'an unpopular opinion or hot take',
+  [HookType.STATISTIC]: 'leads with a number or data point',
+  [HookType.QUOTE]: 'opens with a quotation',
+  [HookType.HOW_TO]: 'promises how a result was achieved',
+  [HookType.MYTH_BUSTER]: 'calls a common belief a lie or myth',
+  [HookType.COUNTERINTUITIVE]: 'the opposite of what the reader expects',
+  [HookType.FAILURE_ADMISSION]: 'admits a mistake, loss or failure',
+  [HookType.NONE]: 'no distinct hook'
+}
+
+export const BODY_DESCRIPTIONS: Record<BodyType, string> = {
+  [BodyType.PROBLEM_SOLUTION]: 'states a problem, then the fix',
+  [BodyType.STORY_DRIVEN]: 'story beats leading to a revelation',
+  [BodyType.LISTICLE]: 'numbered or bulleted list is the core',
+  [BodyType.TUTORIAL]: 'step-by-step instructions',
+  [BodyType.INSIGHT_SHARING]: 'a dump of observations or insights',
+  [BodyType.COMPARISON]: 'contrasts two options',
+  [BodyType.MYTH_BUSTING]: 'debunks one or more myths',
+  [BodyType.LESSON_LEARNED]: 'experience distilled into lessons',
+  [BodyType.BEFORE_AFTER]: 'shows the state before and after a change',
+  [BodyType.THREAD]: 'a multi-part thread',
+  [BodyType.NARRATIVE]: 'free-form narrative without explicit structure'
+}
+
+export const CTA_DESCRIPTIONS: Record<CTAType, string> = {
+  [CTAType.QUESTION_TO_AUDIENCE]: 'asks readers a question',
+  [CTAType.LINK]: 'points to a link ("link in comments")',
+  [CTAType.ENGAGEMENT_BAIT]: 'asks for a like, emoji or repost',
+  [CTAType.FOLLOW_UP]: 'asks readers to follow for more',
+  [CTAType.SAVE_FOR_LATER]: 'asks readers to save or bookmark',
+  [CTAType.SHARE]: 'asks readers to share or tag someone',
+  [CTAType.COMMENT_PROMPT]: 'asks for a comment or keyword in exchange for something',
+  [CTAType.SOFT_SELL]: 'low-pressure offer (DM me, connect with me)',
+  [CTAType.DEBATE]: 'invites readers to agree or disagree',
+  [CTAType.NONE]: 'no call to action'
+}
+
+// ─── Aliases ──────────────────────────────────────────────────────────────────
+
+// Keys are normalized with normalizeAlias. Canonical values and labels are
+// added automatically; only genuine synonyms need listing.
+const HOOK_ALIASES: Record<string, HookType> = {
+  listicle: HookType.LIST,
+  list_preview: HookType.LIST,
+  controversial: HookType.CONTROVERSIAL_TAKE,
+  hot_take: HookType.CONTROVERSIAL_TAKE,
+  personal_story: HookType.STORY,
+  counterintuitive_take: HookType.COUNTERINTUITIVE,
+  myth: HookType.MYTH_BUSTER,
+  data: HookType.STATISTIC,
+  bold: HookType.BOLD_STATEMENT,
+  no_hook: HookType.NONE
+}
+
+const BODY_ALIASES: Record<string, BodyType> = {
+  numbered_list: BodyType.LISTICLE,
+  list: BodyType.LISTICLE,
+  story_arc: BodyType.STORY_DRIVEN,
+  story: BodyType.STORY_DRIVEN,
+  insight_dump: BodyType.INSIGHT_SHARING,
+  insight: BodyType.INSIGHT_SHARING,
+  step_by_step: BodyType.TUTORIAL,
+  how_to: BodyType.TUTORIAL,
+  myth_buster: BodyType.MYTH_BUSTING,
+  lesson: BodyType.LESSON_LEARNED
+}
+
+const CTA_ALIASES: Record<string, CTAType> = {
+  question: CTAType.QUESTION_TO_AUDIENCE,
+  engagement: CTAType.ENGAGEMENT_BAIT,
+  save: CTAType.SAVE_FOR_LATER,
+  follow: CTAType.FOLLOW_UP,
+  follow_for_more: CTAType.FOLLOW_UP,
+  comment: CTAType.COMMENT_PROMPT,
+  agree_disagree: CTAType.DEBATE,
+  no_cta: CTAType.NONE
+}
+
+function normalizeAlias(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+function buildIndex<T extends string>(
+  values: T[],
+  labels: Record<T, string>,
+  aliases: Record<string, T>
+): Map<string, T> {
+  const index = new Map<string, T>()
+  for (const value of values) {
+    index.set(value, value)
+    index.set(normalizeAlias(labels[value]), value)
+  }
+  for (const [alias, value] of Object.entries(aliases)) {
+    index.set(normalizeAlias(alias), value)
+  }
+  return index
+}
+
+const hookIndex = buildIndex(HOOK_TYPES, HOOK_LABELS, HOOK_ALIASES)
+const bodyIndex = buildIndex(BODY_TYPES, BODY_LABELS, BODY_ALIASES)
+const ctaIndex = buildIndex(CTA_TYPES, CTA_LABELS, CTA_ALIASES)
+
+/**
+ * Resolves any known hook name (canonical value, label or legacy alias,
+ * in any casing) to its canonical HookType. Returns null if unknown.
+ */
+export function toHookType(value: unknown): HookType | null {
+  return typeof value === 'string' ? hookIndex.get(normalizeAlias(value)) ?? null : null
+}
+
+export function toBodyType(value: unknown): BodyType | null {
+  return typeof value === 'string' ? bodyIndex.get(normalizeAlias(value)) ?? null : null
+}
+
+export function toCTAType(value: unknown): CTAType | null {
+  return typeof value === 'string' ? ctaIndex.get(normalizeAlias(value)) ?? null : null
+}
+
+export function toPlatform(value: unknown): Platform | null {
+  if (typeof value !== 'string') return null
+  const normalized = normalizeAlias(value)
+  if (normalized === 'linkedin') return 'linkedin'
+  if (normalized === 'twitter' || normalized === 'x') return 'twitter'
+  return null
+}
+
+/**
+ * Renders the allowed values of a taxonomy as prompt lines, e.g.
+ * `- question: opens with a question to the reader`
+ */
+export function describeTaxonomy<T extends string>(values: T[], descriptions: Record<T, string>): string {
+  return values.map((value) => `- ${value}: ${descriptions[value]}`).join('\n')
+}
+
+// ─── ContentFormat validation ─────────────────────────────────────────────────
+
+export type ContentFormatParseResult =
+  | { ok: true; format: ContentFormat }
+  | { ok: false; errors: string[] }
+
+/** A list entry that failed validation, by its index in the input */
+export interface RejectedFormat {
+  index: number
+  errors: string[]
+}
+
+const nonEmpty = (value: string) => value.trim().length > 0
+
+// Arrays of strings where stray non-string entries are dropped rather than rejected
+const stringList = () =>
+  s.preprocess(
+    (value) => (Array.isArray(value) ? value.filter((v) => typeof v === 'string') : value),
+    s.array(s.string())
+  ).default([])
+
+export const hookTypeSchema = s.preprocess((value) => toHookType(value) ?? value, s.enum(HOOK_TYPES))
+export const bodyTypeSchema = s.preprocess((value) => toBodyType(value) ?? value, s.enum(BODY_TYPES))
+export const ctaTypeSchema = s.preprocess((value) => toCTAType(value) ?? value, s.enum(CTA_TYPES))
+
+/**
+ * Schema for untrusted ContentFormat input (LLM output, imported JSON,
+ * stored skills). Taxonomy fields accept any alias and come out canonical;
+ * FormatPattern field names (`bodyType`, `examplePost`) are accepted too.
+ */
+export const contentFormatSchema: Schema<ContentFormat> = s.preprocess(
+  (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+    const raw = value as Record<string, unknown>
+    return { ...raw, bodyStructure: raw.bodyStructure ?? raw.bodyType, example: raw.example ?? raw.examplePost }
+  },
+  s.object({
+    id: s.string().optional(),
+    name: s.string().refine(nonEmpty, 'Required'),
+    description: s.string().default(''),
+    hookType: hookTypeSchema,
+    bodyStructure: bodyTypeSchema,
+    ctaType: ctaTypeSchema,
+    template: s.string()
+      .refine(nonEmpty, 'Required')
+      .refine((template) => templateSyntaxError(template) === null, 'Unbalanced [#...] or [?...] block'),
+    example: s.string().default(''),
+    platform: s.preprocess(
+      (value) => (value === 'both' ? value : toPlatform(value) ?? value),
+      s.enum(['linkedin', 'twitter', 'both'] as const)
+    ).default('linkedin'),
+    effectivenessIndicators: stringList(),
+    sourcePosts: stringList(),
+    createdAt: s.string().optional(),
+  })
+).transform((format) => ({
+  ...format,
+  id: format.id?.trim() || slugify(format.name),
+  name: format.name.trim(),
+  createdAt: format.createdAt ?? new Date().toISOString(),
+}))
+
+/**
+ * Validates a single ContentFormat and normalizes its taxonomy fields onto
+ * the canonical enums.
+ */
+export function parseContentFormat(input: unknown): ContentFormatParseResult {
+  const result = contentFormatSchema.safeParse(input)
+  return result.success
+    ? { ok: true, format: result.data }
+    : { ok: false, errors: result.issues.map((issue) => `${issue.path.replace(/^\$\.?/, '') || 'format'}: ${issue.message}`) }
+}
+
+/**
+ * Validates a list of formats, keeping the valid ones and reporting the rest
+ * by index.
+ */
+export function parseContentFormats(input: unknown): {
+  formats: ContentFormat[]
+  rejected: RejectedFormat[]
+} {
+  const items = Array.isArray(input) ? input : []
+  const formats: ContentFormat[] = []
+  const rejected: RejectedFormat[] = []
+
+  items.forEach((item, index) => {
+    const result = parseContentFormat(item)
+    if (result.ok) formats.push(result.format)
+    else rejected.push({ index, errors: result.errors })
+  })
+
+  return { formats, rejected }
+}
+
+// ─── ContentFormat ⇄ FormatPattern ────────────────────────────────────────────
+
+/**
+ * Converts a learned FormatPattern into the ContentFormat shape the agent
+ * skills use.
+ */
+export function formatPatternToContentFormat(pattern: FormatPattern): ContentFormat {
+  return {
+    id: pattern.id,
+    name: pattern.name,
+    description: pattern.description,
+    hookType: pattern.hookType,
+    bodyStructure: pattern.bodyType,
+    ctaType: pattern.ctaType,
+    template: pattern.template,
+    example: pattern.examplePost,
+    platform: pattern.platform,
+    effectivenessIndicators: [
+      `Effectiveness ${Math.round(pattern.effectivenessScore)}/100 across ${pattern.usageCount} posts`
+    ],
+    sourcePosts: [],
+    createdAt: pattern.createdAt
+  }
+}
+
+/**
+ * Converts an agent-skills ContentFormat into a FormatPattern. A format
+ * marked for both platforms maps onto `fallbackPlatform`.
+ */
+export function contentFormatToPattern(format: ContentFormat, fallbackPlatform: Platform = 'linkedin'): FormatPattern {
+  return {
+    id: format.id,
+    name: format.name,
+    description: format.description,
+    platform: format.platform === 'both' ? fallbackPlatform : format.platform,
+    hookType: format.hookType,
+    bodyType: format.bodyStructure,
+    ctaType: format.ctaType,
+    template: format.template,
+    examplePost: format.example,
+    tags: [HOOK_LABELS[format.hookType], BODY_LABELS[format.bodyStructure]].map(normalizeAlias),
+    effectivenessScore: 50,
+    usageCount: 0,
+    createdAt: format.createdAt,
+    updatedAt: format.createdAt
+  }
+}
+
+/**
+ * Maps the taxonomy fields of an imported FormatPattern onto canonical values.
+ * Unknown values fall back to the "none"/narrative types.
+ */
+export function normalizeFormatPattern(pattern: FormatPattern): FormatPattern {
+  return {
+    ...pattern,
+    hookType: toHookType(pattern.hookType) ?? HookType.NONE,
+    bodyType: toBodyType(pattern.bodyType) ?? BodyType.NARRATIVE,
+    ctaType: toCTAType(pattern.ctaType) ?? CTAType.NONE
+  }
+}
+
+function slugify(value: string): string {
+  const slug = normalizeAlias(value).replace(/_/g, '-')
+  return slug || `format-${Date.now()}`
+}
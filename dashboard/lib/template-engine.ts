@@ -0,0 +1,519 @@
+/**
+ * Template Engine
+ *
+ * One parser and renderer for every template in the app: the hook and CTA
+ * libraries (`Why do [X] when you could [Y]?`), learned and seeded format
+ * templates (`{First valuable point}`, `[HOOK: QUESTION]`) and extracted
+ * templates (`[METRIC] subscribers in [TIMEFRAME]`).
+ *
+ * Syntax:
+ * - `[name]` or `{name}`: a slot. Modifiers after `|` constrain the value:
+ *   `number`, `text`, `optional`, `enum=a,b,c`, `min=N`, `max=N`. min/max
+ *   bound a number's value and otherwise the text length, so
+ *   `[Number|number|min=3|max=10]` or `{Headline|max=60}`. If any part after
+ *   a `|` is not a modifier, the whole text is the slot name.
+ * - `[#name]...[/name]`: repeated for each item of the `name` binding. A
+ *   string item fills the `name` slot inside; an object item binds its own
+ *   keys. `[@n]` is the 1-based item number. `min`/`max` bound the item count.
+ * - `[?name]...[/name]`: only rendered when `name` is bound to a non-empty
+ *   value.
+ * - `[LABEL: detail]` (upper-case label): a section marker such as
+ *   `[HOOK: QUESTION]`. Markers guide writers and models and are left out of
+ *   rendered posts unless `sections: 'keep'`.
+ * - `\[`, `\]`, `\{`, `\}` and `\\` are literal. An opening bracket without a
+ *   closing one on the same line is literal too.
+ *
+ * Block tags and section markers on a line of their own take the line with
+ * them, so they do not leave blank lines behind.
+ *
+ * Rendering never throws on bad bindings. Unbound or invalid slots keep their
+ * placeholder and are reported, as are bindings the template does not use.
+ */
+
+export type SlotType = 'text' | 'number' | 'enum'
+
+export interface SlotConstraint {
+  type: SlotType
+  /** Minimum number value, text length or item count */
+  min?: number
+  /** Maximum number value, text length or item count */
+  max?: number
+  /** Allowed values for enum slots */
+  values?: string[]
+  /** Renders as nothing instead of being reported when unbound */
+  optional?: boolean
+}
+
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'slot'; name: string; syntax: 'bracket' | 'brace'; constraint: SlotConstraint; raw: string }
+  | { kind: 'index'; raw: string }
+  | { kind: 'section'; label: string; detail: string; raw: string; leading: string; trailing: string }
+  | { kind: 'repeat'; name: string; constraint: SlotConstraint; children: TemplateNode[] }
+  | { kind: 'optional'; name: string; children: TemplateNode[] }
+
+export interface TemplateAst {
+  source: string
+  nodes: TemplateNode[]
+}
+
+export interface TemplateSlotInfo {
+  name: string
+  syntax: 'bracket' | 'brace'
+  constraint: SlotConstraint
+  /** Inside a `[#...]` block */
+  repeated: boolean
+  /** Inside a `[?...]` block or marked `optional` */
+  optional: boolean
+}
+
+export type TemplateBinding =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateBinding[]
+  | TemplateBindings
+
+export interface TemplateBindings {
+  [name: string]: TemplateBinding
+}
+
+export interface RenderOptions {
+  /** Keep `[LABEL: detail]` section markers in the output (default: 'strip') */
+  sections?: 'keep' | 'strip'
+}
+
+export interface SlotViolation {
+  slot: string
+  value: string
+  reason: string
+}
+
+export interface TemplateRenderResult {
+  text: string
+  /** Required slots and repeats with no value, by name */
+  missing: string[]
+  /** Bindings no slot or block uses, e.g. `points[].emoji` for a key of a repeat item */
+  extra: string[]
+  invalid: SlotViolation[]
+  /** No missing or invalid slots */
+  complete: boolean
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at ${position})`)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'node'; node: TemplateNode; at: number }
+  | { type: 'open'; node: Extract<TemplateNode, { kind: 'repeat' | 'optional' }>; at: number }
+  | { type: 'close'; name: string; at: number }
+
+interface Scope {
+  bindings: TemplateBindings
+  parent?: Scope
+  index?: number
+}
+
+const ESCAPABLE = new Set(['\\', '[', ']', '{', '}'])
+const CLOSING: Record<string, string> = { '[': ']', '{': '}' }
+const SECTION = /^([A-Z][A-Z &/+-]*):\s*(.*)$/
+const BLOCK_NAME = /^[\p{L}\p{N}_.-]+$/u
+const MODIFIER = /^(?:number|text|optional|enum=.+|(?:min|max)=-?\d+(?:\.\d+)?)$/
+
+export function parseTemplate(source: string): TemplateAst {
+  const tokens = tokenize(source)
+  trimStandaloneLines(tokens)
+
+  const root: TemplateNode[] = []
+  const stack: { node: Extract<TemplateNode, { kind: 'repeat' | 'optional' }>; at: number }[] = []
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].node.children : root)
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      if (token.value) current().push({ kind: 'text', value: token.value })
+    } else if (token.type === 'node') {
+      current().push(token.node)
+    } else if (token.type === 'open') {
+      current().push(token.node)
+      stack.push({ node: token.node, at: token.at })
+    } else {
+      const open = stack.pop()
+      if (!open) {
+        throw new TemplateSyntaxError(`[/${token.name}] closes no block`, token.at)
+      }
+      if (open.node.name !== token.name) {
+        throw new TemplateSyntaxError(`Expected [/${open.node.name}] but found [/${token.name}]`, token.at)
+      }
+    }
+  }
+
+  const unclosed = stack.pop()
+  if (unclosed) {
+    throw new TemplateSyntaxError(`[${unclosed.node.kind === 'repeat' ? '#' : '?'}${unclosed.node.name}] is never closed`, unclosed.at)
+  }
+
+  return { source, nodes: root }
+}
+
+/**
+ * The template's syntax error message, or null if it parses.
+ */
+export function templateSyntaxError(source: string): string | null {
+  try {
+    parseTemplate(source)
+    return null
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error.message
+    throw error
+  }
+}
+
+/**
+ * Every slot in the template, in order of appearance. A slot used twice
+ * appears twice.
+ */
+export function templateSlots(template: string | TemplateAst): TemplateSlotInfo[] {
+  const slots: TemplateSlotInfo[] = []
+  const visit = (nodes: TemplateNode[], repeated: boolean, optional: boolean) => {
+    for (const node of nodes) {
+      if (node.kind === 'slot') {
+        slots.push({
+          name: node.name,
+          syntax: node.syntax,
+          constraint: node.constraint,
+          repeated,
+          optional: optional || node.constraint.optional === true,
+        })
+      } else if (node.kind === 'repeat') {
+        visit(node.children, true, optional)
+      } else if (node.kind === 'optional') {
+        visit(node.children, repeated, true)
+      }
+    }
+  }
+  visit(asAst(template).nodes, false, false)
+  return slots
+}
+
+/**
+ * Renders a template. A string or number fills every occurrence of its
+ * slot; an array fills the occurrences in order.
+ *
+ * @throws TemplateSyntaxError when given source that does not parse
+ */
+export function renderTemplate(
+  template: string | TemplateAst,
+  bindings: TemplateBindings = {},
+  options: RenderOptions = {}
+): TemplateRenderResult {
+  const ast = asAst(template)
+  const missing = new Set<string>()
+  const invalid: SlotViolation[] = []
+  const cursors = new Map<TemplateBinding[], number>()
+  const keepSections = options.sections === 'keep'
+
+  const renderNodes = (nodes: TemplateNode[], scope: Scope): string =>
+    nodes.map((node) => renderNode(node, scope)).join('')
+
+  const renderNode = (node: TemplateNode, scope: Scope): string => {
+    switch (node.kind) {
+      case 'text':
+        return node.value
+      case 'section':
+        return keepSections ? node.leading + node.raw + node.trailing : ''
+      case 'index':
+        return String(indexOf(scope) ?? node.raw)
+      case 'optional': {
+        const value = lookup(scope, node.name)
+        if (!isPresent(value)) return ''
+        return renderNodes(node.children, isBindings(value) ? { bindings: value, parent: scope } : scope)
+      }
+      case 'repeat': {
+        const value = lookup(scope, node.name)
+        if (value === undefined || value === null) {
+          missing.add(node.name)
+          return renderNodes(node.children, scope)
+        }
+
+        const items = Array.isArray(value) ? value : [value]
+        const reason = checkRange(node.constraint, items.length, 'items')
+        if (reason) invalid.push({ slot: node.name, value: `${items.length} items`, reason })
+
+        return items
+          .map((item, i) => renderNodes(node.children, {
+            bindings: isBindings(item) ? item : { [node.name]: item },
+            parent: scope,
+            index: i + 1,
+          }))
+          .join('')
+      }
+      case 'slot':
+        return renderSlot(node, scope)
+    }
+  }
+
+  const renderSlot = (node: Extract<TemplateNode, { kind: 'slot' }>, scope: Scope): string => {
+    let value = lookup(scope, node.name)
+    if (Array.isArray(value)) {
+      const cursor = cursors.get(value) ?? 0
+      cursors.set(value, cursor + 1)
+      value = value[cursor]
+    }
+
+    if (value === undefined || value === null) {
+      if (node.constraint.optional) return ''
+      missing.add(node.name)
+      return node.raw
+    }
+    if (typeof value === 'object') {
+      invalid.push({ slot: node.name, value: JSON.stringify(value), reason: 'Expected text or a number' })
+      return node.raw
+    }
+
+    const text = String(value)
+    const reason = checkValue(node.constraint, text)
+    if (reason) {
+      invalid.push({ slot: node.name, value: text, reason })
+      return node.raw
+    }
+    return text
+  }
+
+  const text = renderNodes(ast.nodes, { bindings })
+  const extra = unusedBindings(ast.nodes, bindings)
+
+  return {
+    text,
+    missing: [...missing],
+    extra,
+    invalid,
+    complete: missing.size === 0 && invalid.length === 0,
+  }
+}
+
+function asAst(template: string | TemplateAst): TemplateAst {
+  return typeof template === 'string' ? parseTemplate(template) : template
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let text = ''
+  let i = 0
+
+  const flush = () => {
+    tokens.push({ type: 'text', value: text })
+    text = ''
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (char === '\\' && ESCAPABLE.has(source[i + 1])) {
+      text += source[i + 1]
+      i += 2
+      continue
+    }
+
+    if (char === '[' || char === '{') {
+      const end = tagEnd(source, i, CLOSING[char])
+      const token = end === -1 ? null : parseTag(source.slice(i + 1, end), source.slice(i, end + 1), char, i)
+      if (token) {
+        flush()
+        tokens.push(token)
+        i = end + 1
+        continue
+      }
+    }
+
+    text += char
+    i++
+  }
+
+  flush()
+  return tokens
+}
+
+// Tags are closed on the same line and contain no other brackets
+function tagEnd(source: string, start: number, closing: string): number {
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i]
+    if (char === closing) return i
+    if (char === '\n' || char === '\\' || char === '[' || char === ']' || char === '{' || char === '}') return -1
+  }
+  return -1
+}
+
+function parseTag(inner: string, raw: string, opening: string, at: number): Token | null {
+  const content = inner.trim()
+  if (!content) return null
+
+  if (opening === '[') {
+    const sigil = content[0]
+    if (sigil === '#' || sigil === '?' || sigil === '/') {
+      const [name, ...modifiers] = content.slice(1).split('|').map((part) => part.trim())
+      if (!BLOCK_NAME.test(name)) return null
+
+      if (sigil === '/') return modifiers.length === 0 ? { type: 'close', name, at } : null
+      if (sigil === '?') {
+        return modifiers.length === 0 ? { type: 'open', node: { kind: 'optional', name, children: [] }, at } : null
+      }
+      const constraint = parseModifiers(modifiers)
+      return constraint ? { type: 'open', node: { kind: 'repeat', name, constraint, children: [] }, at } : null
+    }
+
+    if (content === '@n') {
+      return { type: 'node', node: { kind: 'index', raw }, at }
+    }
+
+    const section = content.match(SECTION)
+    if (section) {
+      return { type: 'node', node: { kind: 'section', label: section[1].trim(), detail: section[2], raw, leading: '', trailing: '' }, at }
+    }
+  }
+
+  const [name, ...modifiers] = content.split('|').map((part) => part.trim())
+  const constraint = modifiers.length > 0 ? parseModifiers(modifiers) : { type: 'text' as const }
+  const slot = constraint && name
+    ? { name, constraint }
+    : { name: content, constraint: { type: 'text' as const } }
+
+  return { type: 'node', node: { kind: 'slot', ...slot, syntax: opening === '[' ? 'bracket' : 'brace', raw }, at }
+}
+
+function parseModifiers(modifiers: string[]): SlotConstraint | null {
+  if (!modifiers.every((modifier) => MODIFIER.test(modifier))) return null
+
+  const constraint: SlotConstraint = { type: 'text' }
+  for (const modifier of modifiers) {
+    const [key, value] = modifier.split(/=(.*)/s)
+    if (key === 'number' || key === 'text') constraint.type = key
+    else if (key === 'optional') constraint.optional = true
+    else if (key === 'min') constraint.min = Number(value)
+    else if (key === 'max') constraint.max = Number(value)
+    else if (key === 'enum') {
+      constraint.type = 'enum'
+      constraint.values = value.split(',').map((option) => option.trim()).filter(Boolean)
+    }
+  }
+  return constraint
+}
+
+/**
+ * Block tags and section markers alone on their line swallow the line's
+ * indentation and line break. For section markers they are kept on the node
+ * so `sections: 'keep'` can restore them.
+ */
+function trimStandaloneLines(tokens: Token[]): void {
+  const standalone = tokens.map((token, i) => {
+    const trimmable = token.type === 'open' || token.type === 'close'
+      || (token.type === 'node' && token.node.kind === 'section')
+    if (!trimmable) return false
+
+    const before = tokens[i - 1]
+    const after = tokens[i + 1]
+    const startsLine = before?.type === 'text'
+      && (/\n[ \t]*$/.test(before.value) || (i === 1 && /^[ \t]*$/.test(before.value)))
+    const endsLine = after?.type === 'text'
+      && (/^[ \t]*\r?\n/.test(after.value) || (i === tokens.length - 2 && /^[ \t]*$/.test(after.value)))
+    return startsLine && endsLine
+  })
+
+  const original = tokens.map((token) => (token.type === 'text' ? token.value : ''))
+
+  tokens.forEach((token, i) => {
+    if (!standalone[i]) return
+    const before = tokens[i - 1] as { type: 'text'; value: string }
+    const after = tokens[i + 1] as { type: 'text'; value: string }
+    const leading = original[i - 1].match(/[ \t]*$/)![0]
+    const trailing = original[i + 1].match(/^[ \t]*(?:\r?\n)?/)![0]
+
+    before.value = before.value.slice(0, before.value.length - leading.length)
+    after.value = after.value.slice(trailing.length)
+
+    if (token.type === 'node' && token.node.kind === 'section') {
+      token.node.leading = leading
+      token.node.trailing = trailing
+    }
+  })
+}
+
+function lookup(scope: Scope | undefined, name: string): TemplateBinding {
+  for (let current = scope; current; current = current.parent) {
+    if (Object.prototype.hasOwnProperty.call(current.bindings, name)) {
+      return current.bindings[name]
+    }
+  }
+  return undefined
+}
+
+function indexOf(scope: Scope | undefined): number | undefined {
+  for (let current = scope; current; current = current.parent) {
+    if (current.index !== undefined) return current.index
+  }
+  return undefined
+}
+
+function isBindings(value: TemplateBinding): value is TemplateBindings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPresent(value: TemplateBinding): boolean {
+  if (value === undefined || value === null || value === false) return false
+  if (typeof value === 'string') return value.trim() !== ''
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+function checkValue(constraint: SlotConstraint, value: string): string | null {
+  if (constraint.type === 'enum') {
+    return constraint.values?.includes(value) ? null : `Expected one of: ${constraint.values?.join(', ')}`
+  }
+  if (constraint.type === 'number') {
+    const number = Number(value.replace(/,/g, ''))
+    if (value.trim() === '' || !Number.isFinite(number)) return 'Expected a number'
+    return checkRange(constraint, number, '')
+  }
+  return checkRange(constraint, [...value].length, 'characters')
+}
+
+function checkRange(constraint: SlotConstraint, amount: number, unit: string): string | null {
+  const suffix = unit ? ` ${unit}` : ''
+  if (constraint.min !== undefined && amount < constraint.min) return `Expected at least ${constraint.min}${suffix}`
+  if (constraint.max !== undefined && amount > constraint.max) return `Expected at most ${constraint.max}${suffix}`
+  return null
+}
+
+function unusedBindings(nodes: TemplateNode[], bindings: TemplateBindings, path = ''): string[] {
+  const names = referencedNames(nodes)
+  const extra = Object.keys(bindings)
+    .filter((key) => bindings[key] !== undefined && !names.has(key))
+    .map((key) => path + key)
+
+  // Keys of repeat items and optional blocks are checked against the block's own contents
+  for (const node of nodes) {
+    if (node.kind !== 'repeat' && node.kind !== 'optional') continue
+    const value = bindings[node.name]
+    const items = node.kind === 'repeat' && Array.isArray(value) ? value : [value]
+    for (const item of items) {
+      if (!isBindings(item)) continue
+      extra.push(...unusedBindings(node.children, item, `${path}${node.name}${node.kind === 'repeat' ? '[]' : ''}.`))
+    }
+  }
+
+  return [...new Set(extra)]
+}
+
+function referencedNames(nodes: TemplateNode[], names = new Set<string>()): Set<string> {
+  for (const node of nodes) {
+    if (node.kind === 'slot' || node.kind === 'repeat' || node.kind === 'optional') names.add(node.name)
+    if (node.kind === 'repeat' || node.kind === 'optional') referencedNames(node.children, names)
+  }
+  return names
+}
@@ -0,0 +1,281 @@
+/**
+ * Template Extraction
+ *
+ * Turns a post into a reusable template by replacing its specifics with
+ * typed placeholders and keeping everything else: line rhythm, blank lines,
+ * list numbering, bullet and arrow glyphs, emoji outside list items and
+ * claims, and where the CTA sits. Extraction is deterministic, and rendering
+ * the template with the extracted values (see ./template-engine) gives back
+ * the original post exactly.
+ *
+ * The hook and CTA keep their wording, with only the specifics replaced:
+ *
+ *   I grew my newsletter to 10,000 subscribers in 6 months with Beehiiv.
+ *   → I grew my newsletter to [METRIC] subscribers in [TIMEFRAME] with [TOOL].
+ *
+ * Everything in between is the post's own content, so a list item becomes
+ * a [POINT] behind its marker, and a sentence with a number or a result
+ * ("Revenue doubled.") becomes a [CLAIM]:
+ *
+ *   1. Block two hours for outreach. Reply rates went up 40%.
+ *   → 1. [POINT]
+ *
+ *   We booked 12 demos in a week. Most came from referrals.
+ *   → [CLAIM] Most came from referrals.
+ *
+ * Literal brackets, braces and backslashes are escaped with a backslash so
+ * they cannot be mistaken for placeholders.
+ */
+
+export const PLACEHOLDER_TYPES = [
+  'LINK',
+  'MENTION',
+  'HASHTAG',
+  'QUOTE',
+  'TIMEFRAME',
+  'METRIC',
+  'COUNT',
+  'TOOL',
+  'TOPIC',
+  'NAME',
+  'POINT',
+  'CLAIM',
+] as const
+
+export type PlaceholderType = (typeof PLACEHOLDER_TYPES)[number]
+
+export type TemplateLineKind = 'blank' | 'hook' | 'list-item' | 'cta' | 'text'
+
+export interface TemplateSlot {
+  type: PlaceholderType
+  value: string
+  /** 0-based line in the original post */
+  line: number
+}
+
+export interface TemplateLine {
+  kind: TemplateLineKind
+  /** Leading list number, bullet or arrow, e.g. "1." or "→" */
+  marker?: string
+  emojiCount: number
+}
+
+export interface ExtractedTemplate {
+  template: string
+  /** Every placeholder in order of appearance */
+  slots: TemplateSlot[]
+  /** Slot values per placeholder type, in order; renderTemplate(template, values) restores the post */
+  values: Partial<Record<PlaceholderType, string[]>>
+  lines: TemplateLine[]
+}
+
+export interface ExtractTemplateOptions {
+  /** Whether the post ends with a call to action (marks the last text line as the CTA) */
+  hasCta?: boolean
+  /** Topic keywords to replace with [TOPIC], e.g. from the active pattern set */
+  topicKeywords?: string[]
+}
+
+/** Tools and platforms that are not always written in CamelCase */
+const KNOWN_TOOLS = [
+  'airtable', 'apollo', 'asana', 'beehiiv', 'canva', 'chatgpt', 'claude', 'clay', 'excel', 'figma', 'gemini',
+  'github', 'gmail', 'hubspot', 'instagram', 'jira', 'linear', 'linkedin', 'loom', 'make', 'midjourney', 'miro',
+  'notion', 'perplexity', 'salesforce', 'shopify', 'slack', 'stripe', 'substack', 'tiktok', 'trello', 'twitter',
+  'webflow', 'youtube', 'zapier', 'zoom',
+]
+
+// Words that are capitalized for grammar, not because they name something
+const CAPITALIZED_STOPWORDS = new Set([
+  'I', "I'm", "I've", "I'd", "I'll", 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November',
+  'December', 'CEO', 'CTO', 'CFO', 'COO', 'AI', 'OK',
+])
+
+const LIST_MARKER = /^(\s*)(\d{1,2}[.)]|[a-z][.)](?=\s)|[-•*▪→➡➔⇒👉✅✔☑️✓]+)(\s*)/u
+
+const TIME_UNIT = '(?:seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|quarters?|years?|yrs?)'
+const NUMBER_WORD = '(?:a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|a few|a couple of|several|\\d+(?:\\.\\d+)?)'
+const MAGNITUDE = '(?:[kKmMbB]n?|thousand|million|billion)'
+
+const SPAN_PATTERNS: [PlaceholderType, RegExp][] = [
+  ['LINK', /https?:\/\/\S+|\b[\w-]+\.(?:com|io|ai|co|app|dev|org|net)(?:\/\S*)?/giu],
+  ['MENTION', /@[\p{L}\p{N}_]+/gu],
+  ['HASHTAG', /#[\p{L}\p{N}_]+/gu],
+  ['QUOTE', /(?<=["“])[^"“”\n]{3,}?(?=["”])/gu],
+  [
+    'TIMEFRAME',
+    new RegExp(
+      `\\b${NUMBER_WORD}[\\s-]+${TIME_UNIT}\\b|\\b(?:last|this|next|past)\\s+(?:week|month|quarter|year)\\b|\\b(?:yesterday|today|tomorrow)\\b|\\b(?:19|20)\\d{2}\\b|\\bQ[1-4]\\b`,
+      'giu'
+    ),
+  ],
+  [
+    'METRIC',
+    new RegExp(
+      `[$€£]\\s?\\d[\\d,.]*(?:\\s?${MAGNITUDE}\\b)?|\\d[\\d,.]*\\s?%|\\b\\d+(?:\\.\\d+)?x\\b|\\b\\d[\\d,.]*\\s?${MAGNITUDE}\\b|\\b\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?\\b|\\b\\d{3,}(?:\\.\\d+)?\\b|\\b\\d+\\.\\d+\\b`,
+      'gu'
+    ),
+  ],
+  ['COUNT', /\b\d{1,2}\b/gu],
+  ['TOOL', new RegExp(`\\b(?:${KNOWN_TOOLS.join('|')})\\b`, 'giu')],
+  // CamelCase product names such as HubSpot, ChatGPT or iPhone
+  ['TOOL', /(?<![\p{L}\p{N}])(?=\p{L}*\p{Ll})\p{L}\p{Ll}*(?:\p{Lu}+\p{Ll}*)+(?![\p{L}\p{N}])/gu],
+]
+
+const NAME_PATTERN = /\p{Lu}[\p{Ll}'’]+(?:\s+\p{Lu}[\p{Ll}'’]+)*/gu
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu
+// A sentence ends at punctuation followed by whitespace, so "1.2%" stays whole
+const SENTENCE = /\S.*?(?:[.!?…]+["'”’)\]]*(?=\s|$)|$)/gu
+const CLAIM_NUMBER = /\d/u
+const CLAIM_VERB =
+  /\b(?:grew|grown|increased|doubled|tripled|generated|earned|saved|cut|reduced|raised|closed|booked|signed|hit|reached|landed|won|sold|hired|went (?:up|down))\b/iu
+const CTA_HINT = /\?\s*$|\b(?:comment|follow|share|save|repost|dm|subscribe|join|sign up|link|let me know|thoughts|agree)\b/i
+
+interface Span {
+  start: number
+  end: number
+  type: PlaceholderType
+}
+
+/**
+ * Extracts a template from a post.
+ *
+ * @example
+ * const { template, values } = extractTemplate(post.content, { hasCta: true })
+ * renderTemplate(template, values).text === post.content // true
+ */
+export function extractTemplate(content: string, options: ExtractTemplateOptions = {}): ExtractedTemplate {
+  const rawLines = content.split('\n')
+  const slots: TemplateSlot[] = []
+  const topicPattern = buildTopicPattern(options.topicKeywords ?? [])
+
+  const markers = rawLines.map((line) => line.match(LIST_MARKER))
+  const lines: TemplateLine[] = rawLines.map((line, index) => ({
+    kind: line.trim() === '' ? 'blank' : markers[index] ? 'list-item' : 'text',
+    marker: markers[index]?.[2],
+    emojiCount: (line.match(EMOJI_PATTERN) ?? []).length,
+  }))
+  markHookAndCta(lines, rawLines, options.hasCta ?? false)
+
+  const templateLines = rawLines.map((line, index) => {
+    const prefixLength = markers[index]?.[0].length ?? 0
+    const body = line.slice(prefixLength)
+
+    let spans: Span[]
+    if (lines[index].kind === 'list-item') {
+      const point = body.trimEnd()
+      spans = point ? [{ start: 0, end: point.length, type: 'POINT' }] : []
+    } else if (lines[index].kind === 'text') {
+      const claims = findClaims(body)
+      spans = [
+        ...claims,
+        ...findSpans(body, topicPattern).filter((span) => !claims.some((claim) => span.start < claim.end && span.end > claim.start)),
+      ].sort((a, b) => a.start - b.start)
+    } else {
+      spans = findSpans(body, topicPattern)
+    }
+
+    let result = escapeLiteral(line.slice(0, prefixLength))
+    let cursor = 0
+    for (const span of spans) {
+      result += escapeLiteral(body.slice(cursor, span.start)) + `[${span.type}]`
+      slots.push({ type: span.type, value: body.slice(span.start, span.end), line: index })
+      cursor = span.end
+    }
+    return result + escapeLiteral(body.slice(cursor))
+  })
+
+  const values: ExtractedTemplate['values'] = {}
+  for (const slot of slots) {
+    ;(values[slot.type] ??= []).push(slot.value)
+  }
+
+  return { template: templateLines.join('\n'), slots, values, lines }
+}
+
+/**
+ * Sentences that state a number or a result, as [CLAIM] spans.
+ */
+function findClaims(text: string): Span[] {
+  return [...text.matchAll(SENTENCE)]
+    .filter((match) => CLAIM_NUMBER.test(match[0]) || CLAIM_VERB.test(match[0]))
+    .map((match) => ({ start: match.index!, end: match.index! + match[0].trimEnd().length, type: 'CLAIM' }))
+}
+
+function findSpans(text: string, topicPattern: RegExp | null): Span[] {
+  const spans: Span[] = []
+  const claim = (start: number, end: number, type: PlaceholderType) => {
+    if (start === end || spans.some((span) => start < span.end && end > span.start)) return
+    spans.push({ start, end, type })
+  }
+
+  for (const [type, pattern] of SPAN_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      claim(match.index!, match.index! + match[0].length, type)
+    }
+    // Topics rank below tools so "Notion" stays a tool, but above names
+    if (type === 'TOOL' && topicPattern) {
+      for (const match of text.matchAll(topicPattern)) {
+        claim(match.index!, match.index! + match[0].length, 'TOPIC')
+      }
+    }
+  }
+
+  // Runs of capitalized words are names, except a lone word starting a sentence
+  for (const match of text.matchAll(NAME_PATTERN)) {
+    const run: { start: number; end: number }[] = []
+    const flush = () => {
+      if (run.length > 0) claim(run[0].start, run[run.length - 1].end, 'NAME')
+      run.length = 0
+    }
+
+    const words = [...match[0].matchAll(/\S+/g)]
+    for (const word of words) {
+      const start = match.index! + word.index!
+      const loneSentenceStart = words.length === 1 && isSentenceStart(text, start)
+      if (CAPITALIZED_STOPWORDS.has(word[0]) || loneSentenceStart) {
+        flush()
+      } else {
+        run.push({ start, end: start + word[0].length })
+      }
+    }
+    flush()
+  }
+
+  return spans.sort((a, b) => a.start - b.start)
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+  const before = text.slice(0, index).replace(/[\s\p{Extended_Pictographic}\u{FE0F}"“(]+$/u, '')
+  return before === '' || /[.!?:]$/.test(before)
+}
+
+function buildTopicPattern(keywords: string[]): RegExp | null {
+  const words = keywords
+    .filter((keyword) => keyword.trim().length > 2)
+    .map((keyword) => keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .sort((a, b) => b.length - a.length)
+  return words.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?:e?s)?(?![\\p{L}\\p{N}])`, 'giu') : null
+}
+
+/**
+ * The first text line is the hook; with a CTA, the last text line that is
+ * not only hashtags is the CTA (the closing question or ask).
+ */
+function markHookAndCta(lines: TemplateLine[], rawLines: string[], hasCta: boolean): void {
+  const hook = lines.findIndex((line) => line.kind !== 'blank')
+  if (hook === -1) return
+  lines[hook].kind = 'hook'
+
+  if (!hasCta) return
+  for (let i = lines.length - 1; i > hook; i--) {
+    const text = rawLines[i].trim()
+    if (lines[i].kind === 'blank' || /^(?:#[\p{L}\p{N}_]+\s*)+$/u.test(text)) continue
+    if (lines[i].kind === 'text' || CTA_HINT.test(text)) lines[i].kind = 'cta'
+    return
+  }
+}
+
+function escapeLiteral(text: string): string {
+  return text.replace(/[\\[\]{}]/g, '\\$&')
+}
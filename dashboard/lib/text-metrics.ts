@@ -0,0 +1,281 @@
+/**
+ * Text Metrics
+ *
+ * Counts text the way the platforms do rather than in UTF-16 code units,
+ * where "𝕏" is 2 and a family emoji is 8.
+ *
+ * X (tweetLength):
+ * - text is NFC-normalized first
+ * - characters in U+0000-U+10FF and a few punctuation ranges weigh 1,
+ *   everything else (CJK, most symbols) weighs 2
+ * - an emoji weighs 2 however many code points it is built from
+ *   (ZWJ families, flags, skin tones)
+ * - every URL weighs 23, the length of its t.co link
+ *
+ * LinkedIn counts user-perceived characters (graphemeLength) against 3,000
+ * and collapses long posts behind "…see more" after about three lines
+ * (linkedInFold). Whatever sits above the fold is all most readers see.
+ */
+
+import type { Platform } from './types/social-media'
+
+export const TWEET_MAX_LENGTH = 280
+
+/** Weighted length of any URL once X wraps it in t.co */
+export const TCO_URL_LENGTH = 23
+
+export const LINKEDIN_MAX_LENGTH = 3000
+
+/**
+ * Where LinkedIn's feed cuts a post with "…see more": after `maxLines`
+ * rendered lines (text wraps at about `charactersPerLine`) or
+ * `maxCharacters` characters, whichever comes first. Measured on the feed;
+ * LinkedIn does not publish these.
+ */
+export const LINKEDIN_FOLD = {
+  desktop: { maxLines: 3, maxCharacters: 210, charactersPerLine: 70 },
+  mobile: { maxLines: 3, maxCharacters: 140, charactersPerLine: 47 },
+} as const
+
+export type FoldDevice = keyof typeof LINKEDIN_FOLD
+
+// A t.co link is https://t.co/ plus a 10-character id
+const TCO_PLACEHOLDER = 'https://t.co/' + 'x'.repeat(TCO_URL_LENGTH - 'https://t.co/'.length)
+
+// Code point ranges that weigh 1 in X's counting; everything else weighs 2
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+]
+
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s<>"]+|(?<![@\w.-])(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|net|org|io|ai|co|app|dev|ly|me|gg|xyz|so|tv)\b(?:\/[^\s<>"]*)?/giu
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u
+// Fallback grapheme clusters for runtimes without Intl.Segmenter
+const GRAPHEME_FALLBACK =
+  /\p{Regional_Indicator}{2}|\p{Extended_Pictographic}\u{FE0F}?\p{Emoji_Modifier}?(?:\u{200D}\p{Extended_Pictographic}\u{FE0F}?\p{Emoji_Modifier}?)*|[^][\p{M}\u{FE0F}]*/gsu
+
+export interface UrlMatch {
+  url: string
+  start: number
+  end: number
+}
+
+export interface FoldPreview {
+  /** Text shown above "…see more", exactly as cut */
+  visible: string
+  /** Text behind "…see more" */
+  hidden: string
+  truncated: boolean
+  /** Index into the text where the fold falls */
+  foldIndex: number
+  /** Rendered lines shown above the fold */
+  lines: number
+}
+
+export interface LinkedInFold {
+  desktop: FoldPreview
+  mobile: FoldPreview
+}
+
+export interface TextMetrics {
+  platform: Platform
+  /** Length as the platform counts it: weighted on X, characters on LinkedIn */
+  length: number
+  limit: number
+  /** Negative when over the limit */
+  remaining: number
+  /** User-perceived characters */
+  characters: number
+  words: number
+  emoji: number
+  urls: number
+  /** LinkedIn only */
+  fold?: LinkedInFold
+}
+
+/**
+ * URLs as X would link them: with a scheme, or bare domains on common TLDs.
+ * Trailing punctuation is not part of the URL.
+ */
+export function findUrls(text: string): UrlMatch[] {
+  return [...text.matchAll(URL_PATTERN)].map((match) => {
+    const url = match[0].replace(/[.,!?:;'")\]]+$/, '')
+    return { url, start: match.index!, end: match.index! + url.length }
+  })
+}
+
+/**
+ * User-perceived characters. Uses Intl.Segmenter where available.
+ */
+export function graphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)].map((part) => part.segment)
+  }
+  return text.match(GRAPHEME_FALLBACK) ?? []
+}
+
+/**
+ * Length of a tweet as X counts it against TWEET_MAX_LENGTH.
+ */
+export function tweetLength(text: string): number {
+  const normalized = text.normalize('NFC')
+  let length = 0
+  let cursor = 0
+
+  for (const { start, end } of findUrls(normalized)) {
+    length += weightedLength(normalized.slice(cursor, start)) + TCO_URL_LENGTH
+    cursor = end
+  }
+
+  return length + weightedLength(normalized.slice(cursor))
+}
+
+export function fitsTweet(text: string, limit = TWEET_MAX_LENGTH): boolean {
+  return tweetLength(text) <= limit
+}
+
+export function graphemeLength(text: string): number {
+  return graphemes(text).length
+}
+
+/**
+ * Emoji as readers see them; a ZWJ family or a flag is one.
+ */
+export function emojiCount(text: string): number {
+  return graphemes(text).filter((grapheme) => EMOJI.test(grapheme)).length
+}
+
+/**
+ * Replaces every URL with a t.co link of the length X gives it, so the
+ * text's plain length matches what X counts for the URLs.
+ */
+export function normalizeTweetUrls(text: string): string {
+  let result = ''
+  let cursor = 0
+  for (const { start, end } of findUrls(text)) {
+    result += text.slice(cursor, start) + TCO_PLACEHOLDER
+    cursor = end
+  }
+  return result + text.slice(cursor)
+}
+
+/**
+ * Shortens text to fit a tweet, cutting at a word boundary where possible
+ * and ending with the ellipsis.
+ */
+export function truncateTweet(text: string, limit = TWEET_MAX_LENGTH, ellipsis = '…'): string {
+  if (tweetLength(text) <= limit) return text
+
+  const budget = limit - tweetLength(ellipsis)
+  const chars = graphemes(text)
+  let end = chars.length
+  while (end > 0 && tweetLength(chars.slice(0, end).join('')) > budget) end--
+
+  const cut = chars.slice(0, end).join('')
+  const wordEnd = cut.search(/\s+\S*$/)
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trimEnd() + ellipsis
+}
+
+/**
+ * What LinkedIn shows above "…see more" on desktop and mobile.
+ */
+export function linkedInFold(text: string): LinkedInFold {
+  return { desktop: foldAt(text, 'desktop'), mobile: foldAt(text, 'mobile') }
+}
+
+export function measureText(text: string, platform: Platform): TextMetrics {
+  const characters = graphemeLength(text)
+  const length = platform === 'twitter' ? tweetLength(text) : characters
+  const limit = platform === 'twitter' ? TWEET_MAX_LENGTH : LINKEDIN_MAX_LENGTH
+
+  return {
+    platform,
+    length,
+    limit,
+    remaining: limit - length,
+    characters,
+    words: text.split(/\s+/).filter(Boolean).length,
+    emoji: emojiCount(text),
+    urls: findUrls(text).length,
+    ...(platform === 'linkedin' ? { fold: linkedInFold(text) } : {}),
+  }
+}
+
+/**
+ * Walks the text as the feed renders it: a line break starts a new line,
+ * long lines wrap, and the fold falls at the first grapheme past the line or
+ * character budget. A cut inside a word moves back to the word's start.
+ */
+function foldAt(text: string, device: FoldDevice): FoldPreview {
+  const { maxLines, maxCharacters, charactersPerLine } = LINKEDIN_FOLD[device]
+  const trimmed = text.trim()
+  const offset = text.length - text.trimStart().length
+  let lines = 1
+  let column = 0
+  let characters = 0
+  let index = 0
+  let foldIndex = -1
+  let wrapped = false
+
+  for (const grapheme of graphemes(trimmed)) {
+    if (grapheme === '\n' || grapheme === '\r\n') {
+      if (lines === maxLines) {
+        foldIndex = index
+        break
+      }
+      lines++
+      column = 0
+    } else {
+      if (column === charactersPerLine || characters === maxCharacters) {
+        if (lines === maxLines || characters === maxCharacters) {
+          foldIndex = index
+          wrapped = true
+          break
+        }
+        lines++
+        column = 0
+      }
+      column++
+      characters++
+    }
+    index += grapheme.length
+  }
+
+  if (foldIndex === -1) {
+    return { visible: trimmed, hidden: '', truncated: false, foldIndex: offset + trimmed.length, lines }
+  }
+
+  if (wrapped && /\S/.test(trimmed[foldIndex] ?? '') && /\S/.test(trimmed[foldIndex - 1] ?? '')) {
+    const wordStart = trimmed.slice(0, foldIndex).search(/\S+$/)
+    if (wordStart > 0) foldIndex = wordStart
+  }
+
+  return {
+    visible: trimmed.slice(0, foldIndex).trimEnd(),
+    hidden: trimmed.slice(foldIndex).trimStart(),
+    truncated: true,
+    foldIndex: offset + foldIndex,
+    lines,
+  }
+}
+
+function weightedLength(text: string): number {
+  let length = 0
+  for (const grapheme of graphemes(text)) {
+    if (EMOJI.test(grapheme)) {
+      length += 2
+      continue
+    }
+    for (const char of grapheme) {
+      length += codePointWeight(char.codePointAt(0)!)
+    }
+  }
+  return length
+}
+
+function codePointWeight(codePoint: number): number {
+  return LIGHT_RANGES.some(([from, to]) => codePoint >= from && codePoint <= to) ? 1 : 2
+}
@@ -0,0 +1,489 @@
+/**
+ * Thread Composer
+ *
+ * Turns long-form content (or, with the LLM, a topic) into an X thread: a
+ * hook tweet, MIN_BODY_TWEETS-MAX_BODY_TWEETS body tweets and a CTA tweet.
+ * Too many body tweets are merged where they fit together; a thread whose
+ * body still falls outside the range fails validation.
+ *
+ * composeThread is deterministic. It splits the content into paragraphs,
+ * sentences and list items and picks tweet breaks that keep tweets balanced,
+ * preferring paragraph breaks over breaks between list items, and those over
+ * breaks mid-paragraph. A list item is only split when it alone exceeds a
+ * tweet. composeThreadWithLLM lets the model plan the tweets and then runs
+ * them through the same checks.
+ *
+ * Lengths are X's weighted lengths (see ./text-metrics), with room kept for
+ * the numbering prefix and the optional 🧵 marker.
+ */
+
+import { CTAType } from './types/social-media'
+import { ctaTemplates } from './cta-library'
+import { TWEET_MAX_LENGTH, tweetLength, graphemes } from './text-metrics'
+import { DEFAULT_MODEL } from './openrouter'
+import { SPLIT_TO_THREAD_PROMPT } from './prompt-templates'
+import { s } from './schema'
+import type { SchemaIssue } from './schema'
+import { generateStructured, StructuredOutputError } from './structured-output'
+
+export const MIN_BODY_TWEETS = 3
+export const MAX_BODY_TWEETS = 7
+export const THREAD_MARKER = '🧵'
+
+/**
+ * - fraction: "1/7 Hook"
+ * - slash: "1/ Hook"
+ * - parenthesized: "(1) Hook"
+ * - none: no numbering
+ */
+export type ThreadNumbering = 'fraction' | 'slash' | 'parenthesized' | 'none'
+
+export type ThreadTweetRole = 'hook' | 'body' | 'cta'
+
+export interface ThreadOptions {
+  /** Default 'fraction' */
+  numbering?: ThreadNumbering
+  /** Append 🧵 to the hook tweet */
+  threadMarker?: boolean
+  minBodyTweets?: number
+  maxBodyTweets?: number
+  /** Added to the CTA tweet as far as they fit */
+  hashtags?: string[]
+  /** CTA tweet to use instead of the content's closing line */
+  cta?: string
+}
+
+export interface LLMThreadOptions extends ThreadOptions {
+  /** Content to split; without it the thread is written from the topic */
+  content?: string
+  topic?: string
+  tone?: 'professional' | 'casual' | 'bold'
+  model?: string
+}
+
+export interface ThreadTweet {
+  /** 1-based position in the thread */
+  position: number
+  role: ThreadTweetRole
+  text: string
+  /** Weighted length as X counts it */
+  length: number
+  errors: string[]
+}
+
+export interface ThreadValidation {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+}
+
+export interface ComposedThread {
+  tweets: ThreadTweet[]
+  hook: string
+  cta: string
+  hashtags: string[]
+  validation: ThreadValidation
+}
+
+export interface LLMComposedThread extends ComposedThread {
+  model: string
+}
+
+export class ThreadCompositionError extends Error {
+  constructor(message: string, public rawResponse?: string, public issues: SchemaIssue[] = []) {
+    super(message)
+    this.name = 'ThreadCompositionError'
+  }
+}
+
+type Break = 'paragraph' | 'line' | 'sentence'
+
+interface Unit {
+  text: string
+  /** How the unit joins the one before it */
+  breakBefore: Break
+  listItem: boolean
+}
+
+interface ThreadPlan {
+  hook: string
+  body: string[]
+  cta: string
+  hashtags: string[]
+  warnings: string[]
+}
+
+const LIST_ITEM = /^\s*(?:\d{1,2}[.)]|[-•*▪→➡👉✅✔✓])\s+/u
+const HASHTAG_LINE = /^(?:#[\p{L}\p{N}_]+\s*)+$/u
+const CTA_HINT = /\?\s*$|\b(?:comment|follow|share|save|repost|retweet|rt|bookmark|dm|subscribe|join|sign up|link|let me know|thoughts|agree)\b/i
+// A sentence ends at punctuation followed by whitespace, so "1.2%" stays whole
+const SENTENCE = /\S.*?(?:[.!?…]+["'”’)\]]*(?=\s|$)|$)/gu
+
+// Room kept in every tweet for the widest numbering prefix, "99/99 "
+const NUMBERING_RESERVE = 6
+const MARKER_RESERVE = tweetLength(` ${THREAD_MARKER}`)
+
+// Relative cost of a tweet break at each kind of boundary
+const BREAK_PENALTY: Record<Break, number> = { paragraph: 0, line: 0.2, sentence: 0.5 }
+
+/**
+ * Splits content into a thread without the LLM.
+ */
+export function composeThread(content: string, options: ThreadOptions = {}): ComposedThread {
+  return finalizeThread(planThread(content, options), options)
+}
+
+/**
+ * Has the model plan the thread, from `content` or a `topic`, then checks
+ * and numbers the tweets like composeThread. Tweets the model made too long
+ * are split.
+ *
+ * @throws ThreadCompositionError if the model reply is not usable JSON
+ */
+export async function composeThreadWithLLM(options: LLMThreadOptions): Promise<LLMComposedThread> {
+  const model = options.model ?? DEFAULT_MODEL
+  const minBody = options.minBodyTweets ?? MIN_BODY_TWEETS
+  const maxBody = options.maxBodyTweets ?? MAX_BODY_TWEETS
+
+  const prompt = SPLIT_TO_THREAD_PROMPT({
+    content: options.content,
+    topic: options.topic,
+    tone: options.tone,
+    minBodyTweets: minBody,
+    maxBodyTweets: maxBody,
+    maxTweetLength: TWEET_MAX_LENGTH - NUMBERING_RESERVE - (options.threadMarker ? MARKER_RESERVE : 0),
+  })
+
+  let reply
+  try {
+    ;({ data: reply } = await generateStructured({
+      messages: [
+        { role: 'system', content: 'You are an expert X (Twitter) ghostwriter. Reply with a single JSON object and nothing else.' },
+        { role: 'user', content: prompt },
+      ],
+      schema: threadReplySchema,
+      schemaName: 'thread',
+      model,
+      temperature: 0.7,
+      maxTokens: 2000,
+    }))
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw new ThreadCompositionError(error.message, error.rawResponse, error.issues)
+    }
+    throw error
+  }
+
+  const plan: ThreadPlan = {
+    hook: cleanTweet(reply.hook, 1),
+    body: reply.tweets.map((tweet, i) => cleanTweet(tweet, i + 2)).filter(Boolean),
+    cta: cleanTweet(options.cta ?? reply.cta, reply.tweets.length + 2),
+    hashtags: normalizeHashtags([...(options.hashtags ?? []), ...reply.hashtags]),
+    warnings: [],
+  }
+  if (!plan.cta) {
+    plan.cta = defaultCta()
+    plan.warnings.push('The model wrote no CTA; added a default one')
+  }
+
+  return { ...finalizeThread(plan, options), model }
+}
+
+const threadReplySchema = s.object({
+  hook: s.string(),
+  tweets: s.array(s.string()),
+  cta: s.string().default(''),
+  hashtags: s.array(s.string()).default([]),
+}).refine(
+  (reply) => reply.hook.trim().length > 0 && reply.tweets.some((tweet) => tweet.trim().length > 0),
+  'Reply must include a hook and body tweets'
+)
+
+function planThread(content: string, options: ThreadOptions): ThreadPlan {
+  const warnings: string[] = []
+  const minBody = options.minBodyTweets ?? MIN_BODY_TWEETS
+  const budget = TWEET_MAX_LENGTH - NUMBERING_RESERVE
+
+  const lines = content.trim().split('\n')
+  const hashtags = [...(options.hashtags ?? [])]
+  while (lines.length > 0 && (HASHTAG_LINE.test(lines[lines.length - 1].trim()) || !lines[lines.length - 1].trim())) {
+    hashtags.unshift(...(lines.pop()!.match(/#[\p{L}\p{N}_]+/gu) ?? []))
+  }
+
+  const paragraphs = lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+
+  // Hook: the opening paragraph, or as many of its sentences as fit
+  const hookBudget = budget - (options.threadMarker ? MARKER_RESERVE : 0)
+  const opening = paragraphs.shift() ?? ''
+  let hook = opening
+  let hookRest: Unit[] = []
+  if (tweetLength(opening) > hookBudget) {
+    const units = paragraphUnits(opening).flatMap((unit) => fitUnit(unit, hookBudget, warnings))
+    const fitting = takeFitting(units, hookBudget)
+    hook = joinUnits(units.slice(0, fitting))
+    hookRest = units.slice(fitting)
+    if (hookRest.length > 0) hookRest[0] = { ...hookRest[0], breakBefore: 'paragraph' }
+  }
+
+  // CTA: the closing paragraph if it reads like one
+  let cta = options.cta?.trim() ?? ''
+  if (!cta) {
+    const closing = paragraphs[paragraphs.length - 1]
+    if (closing && CTA_HINT.test(closing) && tweetLength(closing) <= budget) {
+      cta = paragraphs.pop()!
+    } else {
+      cta = defaultCta()
+      warnings.push('No closing CTA found; added a default one')
+    }
+  }
+
+  const units = [...hookRest, ...paragraphs.flatMap(paragraphUnits)].flatMap((unit) => fitUnit(unit, budget, warnings))
+  if (units.length === 0) {
+    return { hook, body: [], cta, hashtags: normalizeHashtags(hashtags), warnings }
+  }
+
+  const fewest = greedyCount(units, budget)
+  const count = Math.max(fewest, Math.min(minBody, units.length))
+  const body = partition(units, count, budget).map(joinUnits)
+
+  return { hook, body, cta, hashtags: normalizeHashtags(hashtags), warnings }
+}
+
+/**
+ * Numbers the tweets, adds the marker and hashtags, splits anything still
+ * too long, merges body tweets beyond the maximum where they fit together
+ * and validates the result.
+ */
+function finalizeThread(plan: ThreadPlan, options: ThreadOptions): ComposedThread {
+  const numbering = options.numbering ?? 'fraction'
+  const minBody = options.minBodyTweets ?? MIN_BODY_TWEETS
+  const maxBody = options.maxBodyTweets ?? MAX_BODY_TWEETS
+  const budget = TWEET_MAX_LENGTH - NUMBERING_RESERVE
+  const warnings = [...plan.warnings]
+  const errors: string[] = []
+
+  let body = plan.body.flatMap((text) => {
+    if (tweetLength(text) <= budget) return [text]
+    warnings.push('A body tweet was too long and was split')
+    return partitionText(text, budget)
+  })
+
+  if (body.length > maxBody) {
+    const units = body.map((text): Unit => ({ text, breakBefore: 'paragraph', listItem: false }))
+    if (greedyCount(units, budget) <= maxBody) {
+      warnings.push(`${body.length} body tweets were merged into ${maxBody}`)
+      body = partition(units, maxBody, budget).map(joinUnits)
+    }
+  }
+
+  let hook = plan.hook
+  if (options.threadMarker && !hook.includes(THREAD_MARKER)) hook += ` ${THREAD_MARKER}`
+
+  let cta = plan.cta
+  const dropped: string[] = []
+  for (const tag of plan.hashtags) {
+    const next = cta.includes('\n\n#') ? `${cta} ${tag}` : `${cta}\n\n${tag}`
+    if (tweetLength(next) <= budget) cta = next
+    else dropped.push(tag)
+  }
+  if (dropped.length > 0) warnings.push(`Hashtags did not fit in the CTA tweet: ${dropped.join(' ')}`)
+
+  if (body.length < minBody || body.length > maxBody) {
+    errors.push(`The thread has ${body.length} body tweets; it needs ${minBody}-${maxBody}`)
+  }
+
+  const texts: [ThreadTweetRole, string][] = [['hook', hook], ...body.map((text): [ThreadTweetRole, string] => ['body', text]), ['cta', cta]]
+  const tweets = texts.map(([role, text], i): ThreadTweet => {
+    const numbered = numberTweet(text, i + 1, texts.length, numbering)
+    const length = tweetLength(numbered)
+    const tweetErrors: string[] = []
+    if (!text.trim()) tweetErrors.push('Tweet is empty')
+    if (length > TWEET_MAX_LENGTH) tweetErrors.push(`Tweet is ${length} characters; the limit is ${TWEET_MAX_LENGTH}`)
+    errors.push(...tweetErrors.map((error) => `Tweet ${i + 1}: ${error}`))
+    return { position: i + 1, role, text: numbered, length, errors: tweetErrors }
+  })
+
+  return {
+    tweets,
+    hook: plan.hook,
+    cta: plan.cta,
+    hashtags: plan.hashtags.filter((tag) => !dropped.includes(tag)),
+    validation: { isValid: errors.length === 0, errors, warnings: [...new Set(warnings)] },
+  }
+}
+
+function numberTweet(text: string, position: number, total: number, numbering: ThreadNumbering): string {
+  switch (numbering) {
+    case 'fraction':
+      return `${position}/${total} ${text}`
+    case 'slash':
+      return `${position}/ ${text}`
+    case 'parenthesized':
+      return `(${position}) ${text}`
+    case 'none':
+      return text
+  }
+}
+
+/**
+ * A paragraph's list items and sentences, in order.
+ */
+function paragraphUnits(paragraph: string): Unit[] {
+  const units: Unit[] = []
+  paragraph.split('\n').forEach((line, lineIndex) => {
+    const text = line.trim()
+    if (!text) return
+    const breakBefore: Break = lineIndex === 0 ? 'paragraph' : 'line'
+
+    if (LIST_ITEM.test(line)) {
+      units.push({ text, breakBefore, listItem: true })
+      return
+    }
+    const sentences = text.match(SENTENCE)?.map((sentence) => sentence.trim()).filter(Boolean) ?? [text]
+    sentences.forEach((sentence, i) => {
+      units.push({ text: sentence, breakBefore: i === 0 ? breakBefore : 'sentence', listItem: false })
+    })
+  })
+  return units
+}
+
+/**
+ * Splits a unit longer than a tweet at sentences, then words, then
+ * characters.
+ */
+function fitUnit(unit: Unit, budget: number, warnings: string[]): Unit[] {
+  if (tweetLength(unit.text) <= budget) return [unit]
+  warnings.push(unit.listItem ? 'A list item was too long for one tweet and was split' : 'A sentence was too long for one tweet and was split')
+  return partitionText(unit.text, budget).map((text, i) => ({
+    text,
+    breakBefore: i === 0 ? unit.breakBefore : 'sentence',
+    listItem: unit.listItem,
+  }))
+}
+
+function partitionText(text: string, budget: number): string[] {
+  const parts: string[] = []
+  let current = ''
+  for (const word of text.split(/(?<=\s)/)) {
+    if (tweetLength(current + word) <= budget) {
+      current += word
+      continue
+    }
+    if (current.trim()) parts.push(current.trim())
+    current = word
+    // A single word longer than a tweet is cut by characters
+    while (tweetLength(current) > budget) {
+      const chars = graphemes(current)
+      let end = chars.length
+      while (end > 1 && tweetLength(chars.slice(0, end).join('')) > budget) end--
+      parts.push(chars.slice(0, end).join(''))
+      current = chars.slice(end).join('')
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, i) => {
+      if (i === 0) return unit.text
+      const separator = unit.breakBefore === 'paragraph' ? '\n\n' : unit.breakBefore === 'line' ? '\n' : ' '
+      return separator + unit.text
+    })
+    .join('')
+}
+
+function takeFitting(units: Unit[], budget: number): number {
+  let count = 0
+  while (count < units.length && tweetLength(joinUnits(units.slice(0, count + 1))) <= budget) count++
+  return count
+}
+
+function greedyCount(units: Unit[], budget: number): number {
+  let count = 0
+  for (let start = 0; start < units.length; count++) {
+    start += Math.max(1, takeFitting(units.slice(start), budget))
+  }
+  return count
+}
+
+/**
+ * Splits units into `count` consecutive tweets that fit the budget,
+ * minimizing uneven lengths plus the penalty of each break (see
+ * BREAK_PENALTY). Falls back to greedy packing when no split into exactly
+ * `count` tweets fits.
+ */
+function partition(units: Unit[], count: number, budget: number): Unit[][] {
+  const n = units.length
+  const costs = new Map<string, number>()
+  const groupCost = (from: number, to: number): number => {
+    const key = `${from}:${to}`
+    if (!costs.has(key)) {
+      const length = tweetLength(joinUnits(units.slice(from, to)))
+      const slack = (budget - length) / budget
+      costs.set(key, length > budget ? Infinity : slack * slack + (from > 0 ? BREAK_PENALTY[units[from].breakBefore] : 0))
+    }
+    return costs.get(key)!
+  }
+
+  // cost[k][i]: best cost of the first i units in k tweets
+  const cost = Array.from({ length: count + 1 }, () => new Array<number>(n + 1).fill(Infinity))
+  const previous = Array.from({ length: count + 1 }, () => new Array<number>(n + 1).fill(-1))
+  cost[0][0] = 0
+
+  for (let k = 1; k <= count; k++) {
+    for (let i = k; i <= n; i++) {
+      for (let j = k - 1; j < i; j++) {
+        if (cost[k - 1][j] === Infinity) continue
+        const total = cost[k - 1][j] + groupCost(j, i)
+        if (total < cost[k][i]) {
+          cost[k][i] = total
+          previous[k][i] = j
+        }
+      }
+    }
+  }
+
+  if (cost[count][n] === Infinity) {
+    const groups: Unit[][] = []
+    for (let start = 0; start < n;) {
+      const size = Math.max(1, takeFitting(units.slice(start), budget))
+      groups.push(units.slice(start, start + size))
+      start += size
+    }
+    return groups
+  }
+
+  const groups: Unit[][] = []
+  for (let k = count, i = n; k > 0; k--) {
+    const j = previous[k][i]
+    groups.unshift(units.slice(j, i))
+    i = j
+  }
+  return groups
+}
+
+/**
+ * Drops numbering and markers the model added despite the prompt; only a
+ * tweet's own position counts as numbering, so "2/3 of founders" survives.
+ */
+function cleanTweet(text: string, position: number): string {
+  const numbering = new RegExp(`^\\s*\\(?${position}\\s*\\/\\s*(?:\\d{1,2})?\\)?\\s+`)
+  return text.replace(numbering, '').replace(THREAD_MARKER, '').trim()
+}
+
+function normalizeHashtags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  return tags
+    .map((tag) => tag.trim().replace(/^#?/, '#'))
+    .filter((tag) => tag.length > 1 && !seen.has(tag.toLowerCase()) && seen.add(tag.toLowerCase()))
+}
+
+function defaultCta(): string {
+  return ctaTemplates[CTAType.FOLLOW_UP].examples[0]
+}
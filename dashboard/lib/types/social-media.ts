@@ -16,6 +16,9 @@ export enum HookType {
   STATISTIC = 'statistic',
   QUOTE = 'quote',
   HOW_TO = 'how_to',
+  MYTH_BUSTER = 'myth_buster',
+  COUNTERINTUITIVE = 'counterintuitive',
+  FAILURE_ADMISSION = 'failure_admission',
   NONE = 'none'
 }
 
@@ -28,6 +31,7 @@ export enum BodyType {
   COMPARISON = 'comparison',
   MYTH_BUSTING = 'myth_busting',
   LESSON_LEARNED = 'lesson_learned',
+  BEFORE_AFTER = 'before_after',
   THREAD = 'thread',
   NARRATIVE = 'narrative'
 }
@@ -40,6 +44,8 @@ export enum CTAType {
   SAVE_FOR_LATER = 'save_for_later',
   SHARE = 'share',
   COMMENT_PROMPT = 'comment_prompt',
+  SOFT_SELL = 'soft_sell',
+  DEBATE = 'debate',
   NONE = 'none'
 }
 
@@ -78,8 +84,18 @@ export interface PostMetrics {
   engagementRate?: number
 }
 
+/** Languages with built-in pattern packs (ISO 639-1) */
+export type LanguageCode = 'en' | 'de' | 'fr' | 'es' | 'ro'
+
+export interface LanguageDetection {
+  language: LanguageCode
+  /** 0-1; 0 when the text gave no evidence and the fallback was used */
+  confidence: number
+}
+
 export interface ParsedContent {
   original: string
+  language: LanguageDetection
   lines: string[]
   paragraphs: string[]
   wordCount: number
@@ -125,12 +141,33 @@ export interface FormatPattern {
   template: string
   examplePost: string
   tags: string[]
+  /** Posterior mean of `effectiveness` × 100 at its last update */
   effectivenessScore: number
+  /** Absent on formats stored before effectiveness was modeled */
+  effectiveness?: EffectivenessPosterior
   usageCount: number
   createdAt: string
   updatedAt: string
 }
 
+/** Beta posterior over a format's normalized engagement (see lib/format-effectiveness) */
+export interface EffectivenessPosterior {
+  alpha: number
+  beta: number
+  /** Evidence decays from this time */
+  updatedAt: string
+}
+
+export interface EffectivenessSummary {
+  /** Posterior mean × 100, decayed to now */
+  score: number
+  /** One-sided 90% bounds × 100 */
+  lower: number
+  upper: number
+  /** Decayed number of observations */
+  evidence: number
+}
+
 export interface ViralSignals {
   emotionalTriggers: EmotionalTrigger[]
   formatElements: FormatElement[]
@@ -166,25 +203,110 @@ export interface ViralityIndicator {
 
 export interface AnalysisResult {
   postId: string
+  /** Detected language; selects the pattern set the post was matched against */
+  language: LanguageDetection
   viralityScore: number
   confidence: number
   formatPattern: DetectedFormatPattern
   viralSignals: ViralSignals
-  recommendations: string[]
+  /** Heuristic score per component, with the evidence behind each */
+  scoreBreakdown: ScoreBreakdown
+  /** Derived from scoreBreakdown; each points at a span of the post */
+  recommendations: Recommendation[]
   similarFormats: string[]
+  /** How viralityScore was computed and what drove it */
+  scoring: ViralityScoring
   analyzedAt: string
 }
 
+export interface ViralityScoring {
+  /** 'calibrated' when a model fitted on real engagement was available */
+  method: 'calibrated' | 'heuristic'
+  modelId?: string
+  /** Predicted log(1 + weighted engagement), calibrated scoring only */
+  predictedEngagement?: number
+  /** Largest effect first; heuristic scoring reports its score components */
+  contributions: ScoreContribution[]
+}
+
+export interface ScoreContribution {
+  factor: string
+  label: string
+  value: number
+  weight: number
+  /** Effect on the prediction: target units when calibrated, score points otherwise */
+  contribution: number
+}
+
+export type ScoreComponentId = 'hook' | 'body' | 'cta' | 'emotion' | 'format' | 'platform_fit'
+
+export interface TextSpan {
+  /** Character offset into the post content, inclusive */
+  start: number
+  /** Character offset into the post content, exclusive */
+  end: number
+  text: string
+}
+
+export interface ScoreEvidence extends TextSpan {
+  /** Rule that fired, e.g. core-en@1.0.0:hooks.question[0] or core-en@1.0.0:emotionalTriggers.curiosity */
+  source: string
+  /** Regex source or trigger phrase that matched */
+  pattern: string
+}
+
+export interface ScoreCheck {
+  rule: string
+  description: string
+  points: number
+  maxPoints: number
+}
+
+export interface ScoreComponent {
+  component: ScoreComponentId
+  label: string
+  score: number
+  max: number
+  /** Points still available: max - score */
+  headroom: number
+  checks: ScoreCheck[]
+  evidence: ScoreEvidence[]
+}
+
+export interface ScoreBreakdown {
+  components: ScoreComponent[]
+  /** Sum of the component scores */
+  subtotal: number
+  /** 1.1 when the post's engagement rate is above 5%, otherwise 1 */
+  engagementMultiplier: number
+  /** Heuristic virality score: subtotal × multiplier, capped at 100 */
+  total: number
+}
+
+export interface Recommendation {
+  component: ScoreComponentId
+  rule: string
+  message: string
+  /** Points the component could still gain */
+  headroom: number
+  /** Part of the post the recommendation is about */
+  span: TextSpan
+}
+
 export interface DetectedFormatPattern {
   hookType: HookType
   hookConfidence: number
   hookText: string
+  /** Pattern-pack rule that matched, when it is a variant of hookType (e.g. obituary) */
+  hookVariant?: string
   bodyType: BodyType
   bodyConfidence: number
   bodyStructure: string
   ctaType: CTAType
   ctaConfidence: number
   ctaText: string
+  /** Pattern-pack rule that matched, when it is a variant of ctaType */
+  ctaVariant?: string
 }
 
 export interface GeneratedContent {
@@ -207,16 +329,66 @@ export interface ContentVariation {
 export interface FormatMatchResult {
   formatId: string
   formatName: string
+  /** Blend of scores.keyword and scores.semantic, 0-100 */
   matchScore: number
+  scores: {
+    /** Tag, preference, effectiveness and usage score, 0-100 */
+    keyword: number
+    /** Embedding similarity to the topic, 0-100; null when embeddings were unavailable */
+    semantic: number | null
+  }
   matchingElements: string[]
   suggestedModifications: string[]
 }
 
 export interface LearningData {
   formatId: string
+  /** Posts the format was learned from, highest engagement first (at most 10) */
   successfulPosts: ViralPost[]
+  /** Number of learned posts the statistics below are computed from */
+  sampleSize: number
+  /** Mean weighted engagement (likes + 2·comments + 3·shares); 0 until posts are learned */
   averageEngagement: number
+  averageMetrics: { likes: number; comments: number; shares: number }
+  averageViralityScore: number | null
+  /** Current effectiveness with its uncertainty */
+  effectiveness: EffectivenessSummary
   commonElements: string[]
+  /**
+   * In words: interquartile range, and the median length of the
+   * better-engaging half. Platform defaults until posts are learned.
+   */
   optimalPostLength: { min: number; max: number; optimal: number }
+  lengthPercentiles: { words: LengthPercentiles; characters: LengthPercentiles } | null
+  /** Topics ranked by average engagement; the format's tags until posts are learned */
   bestPerformingTopics: string[]
+  topicPerformance: TopicPerformance[]
+}
+
+export interface LengthPercentiles {
+  p10: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+}
+
+export interface TopicPerformance {
+  topic: string
+  posts: number
+  averageEngagement: number
+}
+
+/** A post a format was learned from, kept for the format's LearningData */
+export interface FormatSourcePost {
+  formatId: string
+  post: ViralPost
+  /** Likes + 2·comments + 3·shares */
+  engagement: number
+  wordCount: number
+  characterCount: number
+  /** Topic tags matched in the post (no emotional triggers) */
+  topics: string[]
+  viralityScore: number
+  learnedAt: string
 }
\ No newline at end of file
@@ -11,6 +11,18 @@
  * 3. CTA Analysis - What action does the post prompt?
  * 4. Viral Signals - What elements contribute to virality?
  * 5. Scoring - Overall virality potential assessment
+ * 
+ * The heuristic score is explained in AnalysisResult.scoreBreakdown: points
+ * per rule, headroom per component and the matched text (with character
+ * offsets) behind each detection. Recommendations are derived from the
+ * rules that fell short and point at the span of the post they concern.
+ * 
+ * Scoring uses the engagement-calibrated model from ./virality-model when
+ * one is passed in, and falls back to the fixed heuristics below otherwise.
+ * 
+ * Posts are matched against the pattern set for their detected language
+ * (./language-detection), taken from the pattern catalog passed in or the
+ * built-in packs.
  */
 
 import {
@@ -30,191 +42,48 @@ import {
   ViralityIndicator,
   Platform,
   LineBreakStructure,
-  CapitalizationPattern
+  CapitalizationPattern,
+  Recommendation,
+  ScoreBreakdown,
+  ScoreCheck,
+  ScoreComponent,
+  ScoreComponentId,
+  ScoreEvidence,
+  TextSpan,
+  ViralityScoring
 } from './types/social-media'
+import { computeViralityFeatures, predictVirality, ViralityModel, ViralitySample } from './virality-model'
+import { DEFAULT_PATTERN_CATALOG, PatternCatalog, PatternSet, selectPatternSet } from './pattern-packs'
+import { detectLanguage } from './language-detection'
+import { graphemeLength, tweetLength, TWEET_MAX_LENGTH } from './text-metrics'
 
-const HOOK_PATTERNS: Record<HookType, RegExp[]> = {
-  [HookType.QUESTION]: [
-    /^(what|why|how|when|where|who|which|do you|did you|have you|are you|is your|would you|could you)/i,
-    /\?$/,
-    /^(ever wondered|have you ever|did you know)/i
-  ],
-  [HookType.BOLD_STATEMENT]: [
-    /^(this is|here's the truth|let me be clear|i'll say it|the truth is|here's what nobody tells you)/i,
-    /^(stop|don't|never|always|everyone|nobody|nothing|everything)/i,
-    /\b(unpopular opinion|hot take|controversial opinion)\b/i
-  ],
-  [HookType.STORY]: [
-    /^(so|i was|last week|yesterday|a few years ago|when i started|back in|my journey)/i,
-    /^(story time|let me tell you|here's a story)/i,
-    /\b(my story|this changed everything|turning point)\b/i
-  ],
-  [HookType.LIST]: [
-    /^(\d+\s+(ways|things|reasons|tips|secrets|mistakes|lessons|habits|books|tools|apps))/i,
-    /^(here are|here's \d+|top \d+|best \d+|\d+ of the)/i,
-    /\b(step by step|checklist)\b/i
-  ],
-  [HookType.CONTROVERSIAL_TAKE]: [
-    /^(unpopular opinion|hot take|controversial|i'll probably get hate|this might upset)/i,
-    /\b(is overrated|is underrated|everyone is wrong|the industry is|nobody talks about)\b/i,
-    /\b(gatekeep|red flag|toxic|problematic)\b/i
-  ],
-  [HookType.STATISTIC]: [
-    /^(\d+%|according to|studies show|research shows|data shows|statistics show)/i,
-    /\b(in \d+ years|by \d+|only \d+%|more than \d+)/i,
-    /\b(million|billion|trillion)\b/i
-  ],
-  [HookType.QUOTE]: [
-    /^["']|^\w+\s+once\s+said|^(as |"|\u201C)/i,
-    /\b(said it best|famous words|wisdom from)\b/i
-  ],
-  [HookType.HOW_TO]: [
-    /^(how to|how i|how you can|how we|the complete guide|ultimate guide|step-by-step)/i,
-    /\b(learn to|mastering|guide to|roadmap to)\b/i
-  ],
-  [HookType.NONE]: []
-}
-
-const BODY_PATTERNS: Record<BodyType, { patterns: RegExp[]; indicators: string[] }> = {
-  [BodyType.PROBLEM_SOLUTION]: {
-    patterns: [
-      /\b(problem|issue|challenge|struggle|pain point)\b.*\b(solution|fix|answer|resolve|solve)\b/is,
-      /\b(here's how (i |we |you )?(solved|fixed|overcame))/i,
-      /\b(the fix|the solution|what worked)\b/i
-    ],
-    indicators: ['problem-solution', 'challenge-overcome', 'struggle-resolution']
-  },
-  [BodyType.STORY_DRIVEN]: {
-    patterns: [
-      /^(so|i was|when i|my journey|my story)/i,
-      /\b(then one day|that's when|fast forward|years later)\b/i,
-      /\b(the turning point|everything changed|this moment)\b/i
-    ],
-    indicators: ['narrative', 'personal-experience', 'chronological']
-  },
-  [BodyType.LISTICLE]: {
-    patterns: [
-      /^(\d+\.|1\.|•|-|→)/m,
-      /\n\d+\./m,
-      /\n(•|-|→|✓|✗|▸)/m
-    ],
-    indicators: ['numbered-list', 'bullet-points', 'enumerated-items']
-  },
-  [BodyType.TUTORIAL]: {
-    patterns: [
-      /\b(step \d+|first|then|next|finally|lastly)\b/i,
-      /\b(here's how|follow these|do this)\b/i,
-      /\b(tutorial|guide|walkthrough)\b/i
-    ],
-    indicators: ['step-by-step', 'instructional', 'how-to']
-  },
-  [BodyType.INSIGHT_SHARING]: {
-    patterns: [
-      /\b(i learned|i realized|the key insight|my biggest takeaway)\b/i,
-      /\b(here's what|i discovered|what i wish i knew)\b/i,
-      /\b(the secret|the truth about|reality is)\b/i
-    ],
-    indicators: ['wisdom', 'lesson', 'insight', 'realization']
-  },
-  [BodyType.COMPARISON]: {
-    patterns: [
-      /\b(vs\.?|versus|compared to|instead of|rather than)\b/i,
-      /\b(the difference between|this vs that)\b/i,
-      /\b(while|whereas|on the other hand)\b/i
-    ],
-    indicators: ['comparison', 'contrast', 'versus']
-  },
-  [BodyType.MYTH_BUSTING]: {
-    patterns: [
-      /\b(myth|misconception|wrong about|false|lie|believe)\b/i,
-      /\b(don't believe|stop believing|the truth about|debunking)\b/i,
-      /\b(actually|in reality|the reality is)\b/i
-    ],
-    indicators: ['myth', 'misconception', 'debunking', 'truth-reveal']
-  },
-  [BodyType.LESSON_LEARNED]: {
-    patterns: [
-      /\b(lesson|learned|mistake i made|what i learned|biggest lesson)\b/i,
-      /\b(if i could go back|i wish i knew|i would tell my younger)\b/i,
-      /\b(regret|wish i had|should have)\b/i
-    ],
-    indicators: ['lesson', 'mistake', 'regret', 'learning']
-  },
-  [BodyType.THREAD]: {
-    patterns: [
-      /\b(thread|🧵|a thread)\b/i,
-      /\n\d+\/\d+/m,
-      /\b(part \d+|continued|follow for more)\b/i
-    ],
-    indicators: ['thread', 'series', 'multi-part']
-  },
-  [BodyType.NARRATIVE]: {
-    patterns: [
-      /\b(once upon|picture this|imagine|let me paint a picture)\b/i,
-      /\b(the story of|this is the story|tale of)\b/i,
-      /\b(it all started|in the beginning)\b/i
-    ],
-    indicators: ['narrative', 'storytelling', 'scenario']
-  }
-}
-
-const CTA_PATTERNS: Record<CTAType, RegExp[]> = {
-  [CTAType.QUESTION_TO_AUDIENCE]: [
-    /\?$/,
-    /\b(what do you think|your thoughts|agree or disagree|what's your|how do you|share your)\b.*\?/i,
-    /\b(let me know|tell me|comment below)\b.*\?/i
-  ],
-  [CTAType.LINK]: [
-    /https?:\/\//,
-    /\b(link in bio|check the link|visit|click here|read more at)\b/i,
-    /\b(link|article|blog|podcast|video)\b.*\b(below|here)\b/i
-  ],
-  [CTAType.ENGAGEMENT_BAIT]: [
-    /\b(like if|comment|share|save|follow|subscribe|retweet)\b/i,
-    /\b(drop a|leave a|type|drop your)\b.*\b(comment|below|emoji|reply)\b/i,
-    /\b(double tap|hit that|smash that)\b/i
-  ],
-  [CTAType.FOLLOW_UP]: [
-    /\b(follow for|stay tuned|coming next|tomorrow i'll|next post)\b/i,
-    /\b(to be continued|part \d+|more to come)\b/i,
-    /\b(turn on notifications|enable notifications)\b/i
-  ],
-  [CTAType.SAVE_FOR_LATER]: [
-    /\b(save this|bookmark|pin this|save for later)\b/i,
-    /\b(save this post|worth saving|reference)\b/i
-  ],
-  [CTAType.SHARE]: [
-    /\b(share this|send this to|tag someone|forward this)\b/i,
-    /\b(this might help someone|someone needs to hear this)\b/i,
-    /\b(repost|retweet|share with your)\b/i
-  ],
-  [CTAType.COMMENT_PROMPT]: [
-    /\b(comment|reply|drop|type)\b.*\b(below|your|an? emoji)\b/i,
-    /\b(starting a discussion|let's discuss|conversation starter)\b/i,
-    /\b(i want to hear from you|tell me about)\b/i
-  ],
-  [CTAType.NONE]: []
-}
-
-const EMOTIONAL_TRIGGER_WORDS: Record<EmotionalTrigger, string[]> = {
-  [EmotionalTrigger.CURIOSITY]: ['secret', 'hidden', 'nobody knows', 'revealed', 'discover', 'find out', 'you need to see', 'must read'],
-  [EmotionalTrigger.FEAR]: ['avoid', 'danger', 'warning', 'careful', 'don\'t make this mistake', 'at risk', 'losing', 'scared'],
-  [EmotionalTrigger.EXCITEMENT]: ['amazing', 'incredible', 'breakthrough', 'revolutionary', 'game-changer', 'exciting', 'thrilled'],
-  [EmotionalTrigger.VALIDATION]: ['you\'re not alone', 'it\'s okay', 'normal', 'everyone struggles', 'you deserve', 'your feelings'],
-  [EmotionalTrigger.SURPRISE]: ['shocking', 'unexpected', 'you won\'t believe', 'surprising', 'never thought', 'plot twist'],
-  [EmotionalTrigger.ANGER]: ['outrageous', 'unacceptable', 'ridiculous', 'angry', 'frustrated', 'unfair', 'injustice'],
-  [EmotionalTrigger.NOSTALGIA]: ['remember when', 'back in the day', 'used to', 'growing up', 'childhood', 'the good old'],
-  [EmotionalTrigger.INSPIRATION]: ['dream', 'believe', 'achieve', 'success', 'inspire', 'motivate', 'you can do it', 'never give up'],
-  [EmotionalTrigger.FRUSTRATION]: ['tired of', 'sick of', 'enough is enough', 'frustrating', 'annoying', 'sick and tired'],
-  [EmotionalTrigger.HOPE]: ['hope', 'opportunity', 'possible', 'bright future', 'looking forward', 'optimistic', 'better days'],
-  [EmotionalTrigger.URGENCY]: ['now', 'today', 'immediately', 'don\'t wait', 'running out', 'limited time', 'before it\'s too late'],
-  [EmotionalTrigger.FOMO]: ['everyone is', 'don\'t miss', 'last chance', 'exclusive', 'only', ' spots left', 'before everyone else']
+export interface AnalyzeOptions {
+  /** Calibrated model to score with; heuristic scoring is used without one */
+  model?: ViralityModel | null
+  /** Pattern sets per language to match against; defaults to the built-in packs */
+  patterns?: PatternCatalog
 }
 
+/** Matches behind the detected format and triggers, with offsets into the post */
+interface PatternEvidence {
+  hook: ScoreEvidence[]
+  body: ScoreEvidence[]
+  cta: ScoreEvidence[]
+  emotion: ScoreEvidence[]
+}
+
+const NO_EVIDENCE: PatternEvidence = { hook: [], body: [], cta: [], emotion: [] }
+
+const EMOJI_REGEX = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu
+
+// Letters in any script, so #Führung or #educație are captured whole
+const HASHTAG_REGEX = /#[\p{L}\p{N}_]+/gu
+
 /**
  * Parses post content into a structured format for analysis.
  * Extracts all relevant text features including formatting, special characters,
- * and structural elements that contribute to post performance.
+ * and structural elements that contribute to post performance, and detects
+ * the language the post is written in.
  * 
  * @param content - Raw post content string
  * @returns Structured ParsedContent object with all extracted features
@@ -226,15 +95,13 @@ const EMOTIONAL_TRIGGER_WORDS: Record<EmotionalTrigger, string[]> = {
 export function parsePostContent(content: string): ParsedContent {
   const lines = content.split('\n').filter(line => line.trim().length > 0)
   const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 0)
-  const words = content.split(/\s+/).filter(w => w.length > 0)
+  const language = detectLanguage(content)
   
-  const emojiRegex = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu
-  const emojis = content.match(emojiRegex) || []
+  const emojis = content.match(EMOJI_REGEX) || []
   
-  const hashtagRegex = /#[\w]+/g
-  const hashtags = content.match(hashtagRegex) || []
+  const hashtags = content.match(HASHTAG_REGEX) || []
   
-  const mentionRegex = /@[\w]+/g
+  const mentionRegex = /@[\p{L}\p{N}_]+/gu
   const mentions = content.match(mentionRegex) || []
   
   const urlRegex = /https?:\/\/[^\s]+/g
@@ -245,10 +112,11 @@ export function parsePostContent(content: string): ParsedContent {
   
   return {
     original: content,
+    language,
     lines,
     paragraphs,
-    wordCount: words.length,
-    characterCount: content.length,
+    wordCount: countWords(content, language.language),
+    characterCount: graphemeLength(content),
     hasEmoji: emojis.length > 0,
     emojiCount: emojis.length,
     hasHashtags: hashtags.length > 0,
@@ -271,6 +139,7 @@ export function parsePostContent(content: string): ParsedContent {
  * 
  * @param parsed - ParsedContent object from parsePostContent
  * @param platform - Target platform for platform-specific analysis
+ * @param patterns - Pattern set to match (defaults to the built-in set for the post's language)
  * @returns DetectedFormatPattern with confidence scores for each element
  * 
  * @example
@@ -279,23 +148,10 @@ export function parsePostContent(content: string): ParsedContent {
  */
 export function identifyFormatPattern(
   parsed: ParsedContent,
-  platform: Platform
+  platform: Platform,
+  patterns: PatternSet = selectPatternSet(DEFAULT_PATTERN_CATALOG, parsed.language)
 ): DetectedFormatPattern {
-  const hookResult = detectHookType(parsed)
-  const bodyResult = detectBodyType(parsed)
-  const ctaResult = detectCTAType(parsed)
-  
-  return {
-    hookType: hookResult.type,
-    hookConfidence: hookResult.confidence,
-    hookText: hookResult.matchedText,
-    bodyType: bodyResult.type,
-    bodyConfidence: bodyResult.confidence,
-    bodyStructure: bodyResult.structure,
-    ctaType: ctaResult.type,
-    ctaConfidence: ctaResult.confidence,
-    ctaText: ctaResult.matchedText
-  }
+  return detectFormatPattern(parsed, patterns).pattern
 }
 
 /**
@@ -305,6 +161,7 @@ export function identifyFormatPattern(
  * 
  * @param parsed - ParsedContent object
  * @param platform - Target platform
+ * @param patterns - Pattern set to match (defaults to the built-in set for the post's language)
  * @returns ViralSignals object containing all detected viral factors
  * 
  * @example
@@ -313,13 +170,14 @@ export function identifyFormatPattern(
  */
 export function extractViralSignals(
   parsed: ParsedContent,
-  platform: Platform
+  platform: Platform,
+  patterns: PatternSet = selectPatternSet(DEFAULT_PATTERN_CATALOG, parsed.language)
 ): ViralSignals {
   return {
-    emotionalTriggers: detectEmotionalTriggers(parsed),
+    emotionalTriggers: detectEmotionalTriggers(parsed, patterns).triggers,
     formatElements: analyzeFormatElements(parsed, platform),
     timingSignals: detectTimingSignals(parsed),
-    topicRelevance: analyzeTopicRelevance(parsed),
+    topicRelevance: analyzeTopicRelevance(parsed, patterns),
     viralityIndicators: calculateViralityIndicators(parsed, platform)
   }
 }
@@ -349,20 +207,7 @@ export function calculateViralityScore(
   formatPattern: DetectedFormatPattern,
   signals: ViralSignals
 ): number {
-  let score = 0
-  
-  score += calculateHookScore(formatPattern)
-  score += calculateBodyScore(parsed, formatPattern)
-  score += calculateCTAScore(formatPattern)
-  score += calculateEmotionalScore(signals)
-  score += calculateFormatScore(parsed, post.platform)
-  score += calculatePlatformFitScore(parsed, post.platform)
-  
-  if (post.metrics.engagementRate && post.metrics.engagementRate > 5) {
-    score = Math.min(100, score * 1.1)
-  }
-  
-  return Math.min(100, Math.round(score))
+  return buildScoreBreakdown(post, parsed, formatPattern, signals).total
 }
 
 /**
@@ -370,38 +215,107 @@ export function calculateViralityScore(
  * Combines all analysis functions into a single comprehensive result.
  * 
  * @param post - ViralPost to analyze
+ * @param options - `model` to score with the calibrated virality model,
+ *   `patterns` to match against a workspace's pattern catalog
  * @returns Complete AnalysisResult with all analysis components
  */
-export function analyzePost(post: ViralPost): AnalysisResult {
+export function analyzePost(post: ViralPost, options: AnalyzeOptions = {}): AnalysisResult {
   const parsed = parsePostContent(post.content)
-  const formatPattern = identifyFormatPattern(parsed, post.platform)
-  const viralSignals = extractViralSignals(parsed, post.platform)
-  const viralityScore = calculateViralityScore(post, parsed, formatPattern, viralSignals)
+  const patterns = selectPatternSet(options.patterns ?? DEFAULT_PATTERN_CATALOG, parsed.language)
+  const { pattern: formatPattern, evidence } = detectFormatPattern(parsed, patterns)
+  const triggers = detectEmotionalTriggers(parsed, patterns)
+  const viralSignals = extractViralSignals(parsed, post.platform, patterns)
+  const scoreBreakdown = buildScoreBreakdown(post, parsed, formatPattern, viralSignals, {
+    ...evidence,
+    emotion: triggers.evidence
+  })
+  const { viralityScore, scoring } = scorePost(post, parsed, formatPattern, viralSignals, scoreBreakdown, options.model)
   
   return {
     postId: post.id,
+    language: parsed.language,
     viralityScore,
     confidence: calculateOverallConfidence(formatPattern, viralSignals),
     formatPattern,
     viralSignals,
-    recommendations: generateRecommendations(parsed, formatPattern, viralSignals, post.platform),
+    scoreBreakdown,
+    recommendations: generateRecommendations(parsed, scoreBreakdown),
     similarFormats: findSimilarFormats(formatPattern),
+    scoring,
     analyzedAt: new Date().toISOString()
   }
 }
 
+/**
+ * Turns a post with real metrics into a training sample for the
+ * virality model, keeping its heuristic score as the evaluation baseline.
+ * 
+ * @param post - ViralPost with likes, comments and shares filled in
+ * @param catalog - Pattern sets per language (defaults to the built-in packs)
+ * @returns ViralitySample for trainViralityModel / evaluateViralityModel
+ */
+export function buildViralitySample(post: ViralPost, catalog: PatternCatalog = DEFAULT_PATTERN_CATALOG): ViralitySample {
+  const parsed = parsePostContent(post.content)
+  const patterns = selectPatternSet(catalog, parsed.language)
+  const formatPattern = identifyFormatPattern(parsed, post.platform, patterns)
+  const viralSignals = extractViralSignals(parsed, post.platform, patterns)
+  
+  return {
+    id: post.id,
+    platform: post.platform,
+    features: computeViralityFeatures(parsed, formatPattern, viralSignals, post.platform),
+    metrics: post.metrics,
+    heuristicScore: calculateViralityScore(post, parsed, formatPattern, viralSignals)
+  }
+}
+
+function scorePost(
+  post: ViralPost,
+  parsed: ParsedContent,
+  formatPattern: DetectedFormatPattern,
+  signals: ViralSignals,
+  breakdown: ScoreBreakdown,
+  model: ViralityModel | null | undefined
+): { viralityScore: number; scoring: ViralityScoring } {
+  if (model) {
+    const prediction = predictVirality(
+      model,
+      computeViralityFeatures(parsed, formatPattern, signals, post.platform)
+    )
+    return {
+      viralityScore: prediction.score,
+      scoring: {
+        method: 'calibrated',
+        modelId: model.id,
+        predictedEngagement: Math.round(prediction.predicted * 1000) / 1000,
+        contributions: prediction.contributions
+      }
+    }
+  }
+  
+  return {
+    viralityScore: breakdown.total,
+    scoring: {
+      method: 'heuristic',
+      contributions: breakdown.components
+        .map(c => ({ factor: c.component, label: c.label, value: c.score, weight: c.max, contribution: c.score }))
+        .sort((a, b) => b.contribution - a.contribution)
+    }
+  }
+}
+
 function analyzeCapitalization(content: string): CapitalizationPattern {
   const words = content.split(/\s+/)
-  const allCapsWords = words.filter(w => w.length > 1 && w === w.toUpperCase() && /[A-Z]/.test(w))
+  const allCapsWords = words.filter(w => w.length > 1 && w === w.toUpperCase() && /\p{Lu}/u.test(w))
   
   const titleCaseWords = words.filter(w => {
-    const letters = w.replace(/[^a-zA-Z]/g, '')
+    const letters = w.replace(/[^\p{L}]/gu, '')
     return letters.length > 0 && 
            letters[0] === letters[0].toUpperCase() && 
            letters.slice(1) === letters.slice(1).toLowerCase()
   })
   
-  const letterWords = words.filter(w => /[a-zA-Z]/.test(w))
+  const letterWords = words.filter(w => /\p{L}/u.test(w))
   const avgLength = letterWords.length > 0 
     ? letterWords.reduce((sum, w) => sum + w.length, 0) / letterWords.length 
     : 0
@@ -414,6 +328,23 @@ function analyzeCapitalization(content: string): CapitalizationPattern {
   }
 }
 
+/**
+ * Counts words with the locale's word segmentation, so punctuation, emoji
+ * and list markers are not counted and elided forms such as l'entreprise
+ * count once. Falls back to whitespace splitting without Intl.Segmenter.
+ */
+function countWords(content: string, locale: string): number {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) {
+    return content.split(/\s+/).filter(w => w.length > 0).length
+  }
+  
+  let count = 0
+  for (const segment of new Intl.Segmenter(locale, { granularity: 'word' }).segment(content)) {
+    if (segment.isWordLike) count++
+  }
+  return count
+}
+
 function analyzeLineBreaks(lines: string[]): LineBreakStructure {
   const lengths = lines.map(l => l.length)
   const avgLength = lengths.length > 0 
@@ -430,32 +361,62 @@ function analyzeLineBreaks(lines: string[]): LineBreakStructure {
   }
 }
 
-function detectHookType(parsed: ParsedContent): { 
+function detectFormatPattern(parsed: ParsedContent, patterns: PatternSet): {
+  pattern: DetectedFormatPattern
+  evidence: Omit<PatternEvidence, 'emotion'>
+} {
+  const hookResult = detectHookType(parsed, patterns)
+  const bodyResult = detectBodyType(parsed, patterns)
+  const ctaResult = detectCTAType(parsed, patterns)
+  
+  return {
+    pattern: {
+      hookType: hookResult.type,
+      hookConfidence: hookResult.confidence,
+      hookText: hookResult.matchedText,
+      ...(hookResult.variant && { hookVariant: hookResult.variant }),
+      bodyType: bodyResult.type,
+      bodyConfidence: bodyResult.confidence,
+      bodyStructure: bodyResult.structure,
+      ctaType: ctaResult.type,
+      ctaConfidence: ctaResult.confidence,
+      ctaText: ctaResult.matchedText,
+      ...(ctaResult.variant && { ctaVariant: ctaResult.variant })
+    },
+    evidence: { hook: hookResult.evidence, body: bodyResult.evidence, cta: ctaResult.evidence }
+  }
+}
+
+function detectHookType(parsed: ParsedContent, patterns: PatternSet): { 
   type: HookType; 
   confidence: number; 
-  matchedText: string 
+  matchedText: string;
+  variant?: string;
+  evidence: ScoreEvidence[]
 } {
-  const firstLine = parsed.lines[0]?.toLowerCase() || ''
-  const firstTwoLines = parsed.lines.slice(0, 2).join(' ').toLowerCase()
+  const lineSpans = getLineSpans(parsed.original)
+  const firstLine = parsed.lines[0] || ''
+  const firstTwoLines = parsed.lines.slice(0, 2).join(' ')
   
-  let bestMatch: { type: HookType; confidence: number; matchedText: string } = {
+  let bestMatch: { type: HookType; confidence: number; matchedText: string; variant?: string; evidence: ScoreEvidence[] } = {
     type: HookType.NONE,
     confidence: 0,
-    matchedText: ''
+    matchedText: '',
+    evidence: []
   }
   
-  for (const [hookType, patterns] of Object.entries(HOOK_PATTERNS)) {
-    if (hookType === HookType.NONE) continue
-    
-    for (const pattern of patterns) {
-      const match = firstLine.match(pattern) || firstTwoLines.match(pattern)
+  for (const rule of patterns.hooks) {
+    for (const { regex, source } of rule.patterns) {
+      const match = firstLine.match(regex) || firstTwoLines.match(regex)
       if (match) {
         const confidence = match.index === 0 ? 0.9 : 0.7
         if (confidence > bestMatch.confidence) {
           bestMatch = {
-            type: hookType as HookType,
+            type: rule.type,
             confidence,
-            matchedText: match[0]
+            matchedText: match[0],
+            variant: rule.id !== rule.type ? rule.id : undefined,
+            evidence: [evidenceInLines(parsed.original, lineSpans.slice(0, 2), match, source, regex.source)]
           }
         }
       }
@@ -466,52 +427,63 @@ function detectHookType(parsed: ParsedContent): {
     bestMatch = {
       type: HookType.QUESTION,
       confidence: 0.85,
-      matchedText: parsed.lines[0]
+      matchedText: parsed.lines[0],
+      evidence: [{ ...lineSpans[0], source: 'first line ends with "?"', pattern: '\\?$' }]
     }
   }
   
   return bestMatch
 }
 
-function detectBodyType(parsed: ParsedContent): { 
+function detectBodyType(parsed: ParsedContent, patterns: PatternSet): { 
   type: BodyType; 
   confidence: number; 
-  structure: string 
+  structure: string;
+  evidence: ScoreEvidence[]
 } {
-  const content = parsed.original.toLowerCase()
-  let bestMatch: { type: BodyType; confidence: number; structure: string } = {
+  const content = parsed.original
+  let bestMatch: { type: BodyType; confidence: number; structure: string; evidence: ScoreEvidence[] } = {
     type: BodyType.INSIGHT_SHARING,
     confidence: 0.3,
-    structure: 'general'
+    structure: 'general',
+    evidence: []
   }
   
-  const hasNumberedItems = /\n\d+\./.test(parsed.original)
-  const hasBulletPoints = /\n[•\-\*→]/.test(parsed.original)
+  const listItems = Array.from(content.matchAll(/\n(\d+\.|[•\-\*→])/g))
   
-  if (hasNumberedItems || hasBulletPoints) {
-    const itemCount = (parsed.original.match(/\n\d+\./g) || []).length + 
-                      (parsed.original.match(/\n[•\-\*→]/g) || []).length
+  if (listItems.length > 0) {
     return {
       type: BodyType.LISTICLE,
       confidence: 0.9,
-      structure: `${itemCount} items`
+      structure: `${listItems.length} items`,
+      evidence: listItems.map(item => {
+        // Skip the newline so the span starts at the list marker
+        const start = item.index! + 1
+        return { start, end: start + item[1].length, text: item[1], source: 'list items', pattern: '\\n(\\d+\\.|[•\\-\\*→])' }
+      })
     }
   }
   
-  for (const [bodyType, { patterns, indicators }] of Object.entries(BODY_PATTERNS)) {
+  for (const rule of patterns.bodies) {
     let matchCount = 0
     let matchedIndicator = ''
+    const evidence: ScoreEvidence[] = []
     
-    for (const pattern of patterns) {
-      if (pattern.test(content)) {
+    for (const { regex, source } of rule.patterns) {
+      const match = content.match(regex)
+      if (match) {
         matchCount++
+        evidence.push(evidenceAt(match.index!, match[0], source, regex.source))
       }
     }
     
-    for (const indicator of indicators) {
-      if (content.includes(indicator.replace('-', ' '))) {
+    for (const indicator of rule.indicators) {
+      const phrase = indicator.replace('-', ' ')
+      const found = findPhrase(content, phrase)
+      if (found) {
         matchedIndicator = indicator
         matchCount += 0.5
+        evidence.push(evidenceAt(found.index, found.text, `bodies.${rule.id}.indicators`, phrase))
       }
     }
     
@@ -519,9 +491,10 @@ function detectBodyType(parsed: ParsedContent): {
       const confidence = Math.min(0.9, 0.4 + (matchCount * 0.15))
       if (confidence > bestMatch.confidence) {
         bestMatch = {
-          type: bodyType as BodyType,
+          type: rule.type,
           confidence,
-          structure: matchedIndicator || 'pattern-detected'
+          structure: matchedIndicator || 'pattern-detected',
+          evidence
         }
       }
     }
@@ -530,32 +503,41 @@ function detectBodyType(parsed: ParsedContent): {
   return bestMatch
 }
 
-function detectCTAType(parsed: ParsedContent): { 
+function detectCTAType(parsed: ParsedContent, patterns: PatternSet): { 
   type: CTAType; 
   confidence: number; 
-  matchedText: string 
+  matchedText: string;
+  variant?: string;
+  evidence: ScoreEvidence[]
 } {
-  const lastLines = parsed.lines.slice(-3).join(' ').toLowerCase()
-  const fullContent = parsed.original.toLowerCase()
+  const lineSpans = getLineSpans(parsed.original)
+  const lastLines = parsed.lines.slice(-3).join(' ')
+  const fullContent = parsed.original
   
-  let bestMatch: { type: CTAType; confidence: number; matchedText: string } = {
+  let bestMatch: { type: CTAType; confidence: number; matchedText: string; variant?: string; evidence: ScoreEvidence[] } = {
     type: CTAType.NONE,
     confidence: 0,
-    matchedText: ''
+    matchedText: '',
+    evidence: []
   }
   
-  for (const [ctaType, patterns] of Object.entries(CTA_PATTERNS)) {
-    if (ctaType === CTAType.NONE) continue
-    
-    for (const pattern of patterns) {
-      const match = lastLines.match(pattern) || fullContent.match(pattern)
+  for (const rule of patterns.ctas) {
+    for (const { regex, source } of rule.patterns) {
+      const inLastLines = lastLines.match(regex)
+      const match = inLastLines || fullContent.match(regex)
       if (match) {
         const confidence = lastLines.includes(match[0]) ? 0.85 : 0.7
         if (confidence > bestMatch.confidence) {
           bestMatch = {
-            type: ctaType as CTAType,
+            type: rule.type,
             confidence,
-            matchedText: match[0]
+            matchedText: match[0],
+            variant: rule.id !== rule.type ? rule.id : undefined,
+            evidence: [
+              inLastLines
+                ? evidenceInLines(parsed.original, lineSpans.slice(-3), match, source, regex.source)
+                : evidenceAt(match.index!, match[0], source, regex.source)
+            ]
           }
         }
       }
@@ -566,7 +548,8 @@ function detectCTAType(parsed: ParsedContent): {
     bestMatch = {
       type: CTAType.QUESTION_TO_AUDIENCE,
       confidence: 0.75,
-      matchedText: parsed.lines[parsed.lines.length - 1]
+      matchedText: parsed.lines[parsed.lines.length - 1],
+      evidence: [{ ...lineSpans[lineSpans.length - 1], source: 'last line ends with "?"', pattern: '\\?$' }]
     }
   }
   
@@ -574,29 +557,85 @@ function detectCTAType(parsed: ParsedContent): {
     bestMatch = {
       type: CTAType.LINK,
       confidence: 0.6,
-      matchedText: parsed.links[0]
+      matchedText: parsed.links[0],
+      evidence: [evidenceAt(parsed.original.indexOf(parsed.links[0]), parsed.links[0], 'link in post', 'https?://')]
     }
   }
   
   return bestMatch
 }
 
-function detectEmotionalTriggers(parsed: ParsedContent): EmotionalTrigger[] {
-  const content = parsed.original.toLowerCase()
-  const detectedTriggers: EmotionalTrigger[] = []
-  
-  for (const [trigger, words] of Object.entries(EMOTIONAL_TRIGGER_WORDS)) {
-    for (const word of words) {
-      if (content.includes(word.toLowerCase())) {
-        if (!detectedTriggers.includes(trigger as EmotionalTrigger)) {
-          detectedTriggers.push(trigger as EmotionalTrigger)
-        }
+function detectEmotionalTriggers(parsed: ParsedContent, patterns: PatternSet): {
+  triggers: EmotionalTrigger[]
+  evidence: ScoreEvidence[]
+} {
+  const triggers: EmotionalTrigger[] = []
+  const evidence: ScoreEvidence[] = []
+  
+  for (const { trigger, words } of patterns.emotionalTriggers) {
+    for (const { word, source } of words) {
+      const found = findPhrase(parsed.original, word)
+      if (found) {
+        triggers.push(trigger)
+        evidence.push(evidenceAt(found.index, found.text, source, word))
         break
       }
     }
   }
   
-  return detectedTriggers
+  return { triggers, evidence }
+}
+
+/**
+ * Spans of the non-empty lines of a post, in the same order as
+ * ParsedContent.lines.
+ */
+function getLineSpans(content: string): TextSpan[] {
+  const spans: TextSpan[] = []
+  let start = 0
+  
+  for (const line of content.split('\n')) {
+    if (line.trim().length > 0) {
+      spans.push({ start, end: start + line.length, text: line })
+    }
+    start += line.length + 1
+  }
+  
+  return spans
+}
+
+/**
+ * Maps a match against lines joined with single spaces (as the hook and
+ * CTA detectors search them) back to offsets in the original post.
+ */
+function evidenceInLines(
+  content: string,
+  lines: TextSpan[],
+  match: RegExpMatchArray,
+  source: string,
+  pattern: string
+): ScoreEvidence {
+  const toOffset = (joinedIndex: number): number => {
+    let lineStart = 0
+    for (const line of lines) {
+      if (joinedIndex <= lineStart + line.text.length) return line.start + joinedIndex - lineStart
+      lineStart += line.text.length + 1
+    }
+    return lines[lines.length - 1]?.end ?? 0
+  }
+  
+  const start = toOffset(match.index!)
+  const end = match[0].length > 0 ? toOffset(match.index! + match[0].length - 1) + 1 : start
+  return { start, end, text: content.slice(start, end), source, pattern }
+}
+
+function evidenceAt(start: number, text: string, source: string, pattern: string): ScoreEvidence {
+  return { start, end: start + text.length, text, source, pattern }
+}
+
+function findPhrase(content: string, phrase: string): { index: number; text: string } | null {
+  const match = new RegExp(phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i').exec(content)
+  return match ? { index: match.index, text: match[0] } : null
 }
 
 function analyzeFormatElements(parsed: ParsedContent, platform: Platform): FormatElement[] {
@@ -673,26 +712,17 @@ function detectTimingSignals(parsed: ParsedContent): TimingSignal[] {
   return signals
 }
 
-function analyzeTopicRelevance(parsed: ParsedContent): TopicRelevance[] {
+function analyzeTopicRelevance(parsed: ParsedContent, patterns: PatternSet): TopicRelevance[] {
   const topics: TopicRelevance[] = []
   const content = parsed.original.toLowerCase()
   
-  const topicPatterns = [
-    { topic: 'entrepreneurship', keywords: ['startup', 'business', 'entrepreneur', 'founder', 'ceo'] },
-    { topic: 'career', keywords: ['job', 'career', 'interview', 'resume', 'hiring', 'work'] },
-    { topic: 'technology', keywords: ['ai', 'tech', 'software', 'code', 'developer', 'programming'] },
-    { topic: 'finance', keywords: ['money', 'invest', 'stock', 'crypto', 'finance', 'wealth'] },
-    { topic: 'self-improvement', keywords: ['growth', 'habits', 'productivity', 'mindset', 'success'] },
-    { topic: 'leadership', keywords: ['leader', 'management', 'team', 'manager', 'lead'] }
-  ]
-  
-  for (const { topic, keywords } of topicPatterns) {
-    const matchCount = keywords.filter(kw => content.includes(kw)).length
+  for (const { id, keywords, trending } of patterns.topics) {
+    const matchCount = keywords.filter(kw => content.includes(kw.toLowerCase())).length
     if (matchCount > 0) {
       topics.push({
-        topic,
+        topic: id,
         relevanceScore: Math.min(1, matchCount * 0.3),
-        trending: isTopicTrending(topic)
+        trending
       })
     }
   }
@@ -700,11 +730,6 @@ function analyzeTopicRelevance(parsed: ParsedContent): TopicRelevance[] {
   return topics.sort((a, b) => b.relevanceScore - a.relevanceScore)
 }
 
-function isTopicTrending(topic: string): boolean {
-  const trendingTopics = ['ai', 'entrepreneurship', 'remote-work', 'mental-health', 'sustainability']
-  return trendingTopics.includes(topic.toLowerCase())
-}
-
 function calculateViralityIndicators(parsed: ParsedContent, platform: Platform): ViralityIndicator[] {
   const indicators: ViralityIndicator[] = []
   
@@ -735,12 +760,16 @@ function calculateViralityIndicators(parsed: ParsedContent, platform: Platform):
   return indicators
 }
 
+/**
+ * LinkedIn posts are scored by word count; tweets by X's weighted length
+ * (see ./text-metrics), where 280 is the hard limit.
+ */
 function calculateLengthScore(parsed: ParsedContent, platform: Platform): number {
   const optimalLength = platform === 'linkedin' 
     ? { min: 150, max: 300, optimal: 200 }
-    : { min: 50, max: 280, optimal: 150 }
+    : { min: 50, max: TWEET_MAX_LENGTH, optimal: 150 }
   
-  const length = parsed.wordCount
+  const length = platform === 'linkedin' ? parsed.wordCount : tweetLength(parsed.original)
   
   if (length >= optimalLength.min && length <= optimalLength.max) {
     return 100
@@ -788,38 +817,93 @@ function calculateEngagementPotential(parsed: ParsedContent): number {
 }
 
 function getLengthReason(parsed: ParsedContent, platform: Platform): string {
-  const length = parsed.wordCount
   if (platform === 'linkedin') {
+    const length = parsed.wordCount
     if (length < 100) return 'Post is quite short for LinkedIn'
     if (length > 500) return 'Post may be too long for optimal engagement'
     return 'Good length for LinkedIn engagement'
   } else {
+    const length = tweetLength(parsed.original)
     if (length < 50) return 'Very short for Twitter'
-    if (length > 280) return 'May need thread format'
+    if (length > TWEET_MAX_LENGTH) return 'May need thread format'
     return 'Good length for Twitter engagement'
   }
 }
 
-function calculateHookScore(formatPattern: DetectedFormatPattern): number {
-  const baseScore = formatPattern.hookType !== HookType.NONE ? 15 : 5
-  const confidenceBonus = formatPattern.hookConfidence * 10
-  return Math.min(25, baseScore + confidenceBonus)
-}
-
-function calculateBodyScore(parsed: ParsedContent, formatPattern: DetectedFormatPattern): number {
-  let score = 10
+function buildScoreBreakdown(
+  post: ViralPost,
+  parsed: ParsedContent,
+  formatPattern: DetectedFormatPattern,
+  signals: ViralSignals,
+  evidence: PatternEvidence = NO_EVIDENCE
+): ScoreBreakdown {
+  const components = [
+    scoreHook(formatPattern, evidence.hook),
+    scoreBody(parsed, formatPattern, evidence.body),
+    scoreCTA(formatPattern, evidence.cta),
+    scoreEmotion(signals, evidence.emotion),
+    scoreFormat(parsed, post.platform),
+    scorePlatformFit(parsed, post.platform)
+  ]
   
-  if (formatPattern.bodyType !== BodyType.INSIGHT_SHARING) score += 8
-  score += formatPattern.bodyConfidence * 7
+  const subtotal = components.reduce((sum, c) => sum + c.score, 0)
+  const engagementMultiplier = post.metrics.engagementRate && post.metrics.engagementRate > 5 ? 1.1 : 1
   
-  if (parsed.lineBreakStructure.totalLineBreaks > 3) score += 3
-  if (parsed.paragraphs.length > 1) score += 2
+  return {
+    components,
+    subtotal: roundPoints(subtotal),
+    engagementMultiplier,
+    total: Math.min(100, Math.round(Math.min(100, subtotal * engagementMultiplier)))
+  }
+}
+
+function scoreComponent(
+  component: ScoreComponentId,
+  label: string,
+  max: number,
+  checks: ScoreCheck[],
+  evidence: ScoreEvidence[] = []
+): ScoreComponent {
+  const score = roundPoints(Math.min(max, checks.reduce((sum, c) => sum + c.points, 0)))
+  return { component, label, score, max, headroom: roundPoints(max - score), checks, evidence }
+}
+
+function check(rule: string, description: string, points: number, maxPoints: number): ScoreCheck {
+  return { rule, description, points: roundPoints(points), maxPoints }
+}
+
+function scoreHook(formatPattern: DetectedFormatPattern, evidence: ScoreEvidence[]): ScoreComponent {
+  const hasHook = formatPattern.hookType !== HookType.NONE
   
-  return Math.min(25, score)
+  return scoreComponent('hook', 'Hook effectiveness', 25, [
+    check('hook_detected', hasHook ? `Recognised ${formatPattern.hookType} hook` : 'No recognised hook', hasHook ? 15 : 5, 15),
+    check('hook_confidence', 'Hook is the first thing a reader sees', formatPattern.hookConfidence * 10, 10)
+  ], evidence)
 }
 
-function calculateCTAScore(formatPattern: DetectedFormatPattern): number {
-  if (formatPattern.ctaType === CTAType.NONE) return 5
+function scoreBody(
+  parsed: ParsedContent,
+  formatPattern: DetectedFormatPattern,
+  evidence: ScoreEvidence[]
+): ScoreComponent {
+  const structured = formatPattern.bodyType !== BodyType.INSIGHT_SHARING
+  
+  return scoreComponent('body', 'Body structure', 25, [
+    check('body_base', 'Base points', 10, 10),
+    check('structured_body', structured ? `Recognised ${formatPattern.bodyType} structure` : 'No recognisable structure', structured ? 8 : 0, 8),
+    check('body_confidence', 'Structure is clearly signalled', formatPattern.bodyConfidence * 7, 7),
+    check('line_breaks', 'More than 3 line breaks', parsed.lineBreakStructure.totalLineBreaks > 3 ? 3 : 0, 3),
+    check('paragraphs', 'More than one paragraph', parsed.paragraphs.length > 1 ? 2 : 0, 2)
+  ], evidence)
+}
+
+function scoreCTA(formatPattern: DetectedFormatPattern, evidence: ScoreEvidence[]): ScoreComponent {
+  if (formatPattern.ctaType === CTAType.NONE) {
+    return scoreComponent('cta', 'CTA effectiveness', 15, [
+      check('cta_present', 'No call to action', 5, 10),
+      check('cta_confidence', 'Call to action closes the post', 0, 5)
+    ], evidence)
+  }
   
   const ctaScores: Record<CTAType, number> = {
     [CTAType.QUESTION_TO_AUDIENCE]: 15,
@@ -829,18 +913,21 @@ function calculateCTAScore(formatPattern: DetectedFormatPattern): number {
     [CTAType.SAVE_FOR_LATER]: 11,
     [CTAType.LINK]: 10,
     [CTAType.FOLLOW_UP]: 9,
+    [CTAType.DEBATE]: 14,
+    [CTAType.SOFT_SELL]: 10,
     [CTAType.NONE]: 5
   }
   
   const baseScore = ctaScores[formatPattern.ctaType] || 8
-  const confidenceBonus = formatPattern.ctaConfidence * 5
   
-  return Math.min(15, baseScore - 5 + confidenceBonus)
+  return scoreComponent('cta', 'CTA effectiveness', 15, [
+    check('cta_present', `${formatPattern.ctaType} call to action`, baseScore - 5, 10),
+    check('cta_confidence', 'Call to action closes the post', formatPattern.ctaConfidence * 5, 5)
+  ], evidence)
 }
 
-function calculateEmotionalScore(signals: ViralSignals): number {
+function scoreEmotion(signals: ViralSignals, evidence: ScoreEvidence[]): ScoreComponent {
   const triggerCount = signals.emotionalTriggers.length
-  const baseScore = Math.min(10, triggerCount * 3)
   
   const strongEmotions = [
     EmotionalTrigger.CURIOSITY,
@@ -849,39 +936,58 @@ function calculateEmotionalScore(signals: ViralSignals): number {
   ]
   
   const hasStrongEmotion = signals.emotionalTriggers.some(t => strongEmotions.includes(t))
-  const strongEmotionBonus = hasStrongEmotion ? 5 : 0
   
-  return Math.min(15, baseScore + strongEmotionBonus)
+  return scoreComponent('emotion', 'Emotional triggers', 15, [
+    check('emotional_triggers', `${triggerCount} emotional trigger${triggerCount !== 1 ? 's' : ''} (3 points each)`, Math.min(10, triggerCount * 3), 10),
+    check('strong_emotion', 'Curiosity, surprise or urgency', hasStrongEmotion ? 5 : 0, 5)
+  ], evidence)
 }
 
-function calculateFormatScore(parsed: ParsedContent, platform: Platform): number {
-  let score = 5
+function scoreFormat(parsed: ParsedContent, platform: Platform): ScoreComponent {
+  const checks = [check('format_base', 'Base points', 5, 5)]
   
   if (platform === 'linkedin') {
-    if (parsed.lineBreakStructure.totalLineBreaks >= 3) score += 2
-    if (parsed.paragraphs.length >= 2) score += 2
-    if (parsed.emojiCount >= 1 && parsed.emojiCount <= 5) score += 1
+    checks.push(
+      check('line_breaks', 'At least 3 line breaks', parsed.lineBreakStructure.totalLineBreaks >= 3 ? 2 : 0, 2),
+      check('paragraphs', 'At least 2 paragraphs', parsed.paragraphs.length >= 2 ? 2 : 0, 2),
+      check('emoji_balance', 'Between 1 and 5 emojis', parsed.emojiCount >= 1 && parsed.emojiCount <= 5 ? 1 : 0, 1)
+    )
   } else {
-    if (parsed.hasHashtags) score += 2
-    if (parsed.emojiCount >= 1) score += 2
-    if (parsed.wordCount <= 280) score += 1
+    checks.push(
+      check('hashtags', 'Uses hashtags', parsed.hasHashtags ? 2 : 0, 2),
+      check('emoji', 'Uses emojis', parsed.emojiCount >= 1 ? 2 : 0, 2),
+      check('word_limit', 'At most 280 words', parsed.wordCount <= 280 ? 1 : 0, 1)
+    )
   }
   
-  return Math.min(10, score)
+  const evidence = [
+    ...Array.from(parsed.original.matchAll(HASHTAG_REGEX), m => evidenceAt(m.index!, m[0], 'hashtag', HASHTAG_REGEX.source)),
+    ...Array.from(parsed.original.matchAll(EMOJI_REGEX), m => evidenceAt(m.index!, m[0], 'emoji', 'emoji'))
+  ].sort((a, b) => a.start - b.start)
+  
+  return scoreComponent('format', 'Format optimization', 10, checks, evidence)
 }
 
-function calculatePlatformFitScore(parsed: ParsedContent, platform: Platform): number {
-  let score = 5
+function scorePlatformFit(parsed: ParsedContent, platform: Platform): ScoreComponent {
+  const checks = [check('platform_base', 'Base points', 5, 5)]
   
   if (platform === 'linkedin') {
-    if (parsed.wordCount >= 100 && parsed.wordCount <= 400) score += 3
-    if (parsed.paragraphs.length >= 2) score += 2
+    checks.push(
+      check('word_range', '100-400 words', parsed.wordCount >= 100 && parsed.wordCount <= 400 ? 3 : 0, 3),
+      check('paragraphs', 'At least 2 paragraphs', parsed.paragraphs.length >= 2 ? 2 : 0, 2)
+    )
   } else {
-    if (parsed.wordCount <= 280) score += 3
-    if (parsed.hasHashtags) score += 2
+    checks.push(
+      check('word_limit', 'At most 280 words', parsed.wordCount <= 280 ? 3 : 0, 3),
+      check('hashtags', 'Uses hashtags', parsed.hasHashtags ? 2 : 0, 2)
+    )
   }
   
-  return Math.min(10, score)
+  return scoreComponent('platform_fit', 'Platform fit', 10, checks)
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100
 }
 
 function calculateOverallConfidence(
@@ -899,41 +1005,147 @@ function calculateOverallConfidence(
   ) / 100
 }
 
-function generateRecommendations(
-  parsed: ParsedContent,
-  formatPattern: DetectedFormatPattern,
-  signals: ViralSignals,
-  platform: Platform
-): string[] {
-  const recommendations: string[] = []
-  
-  if (formatPattern.hookType === HookType.NONE) {
-    recommendations.push('Add a strong hook at the beginning to grab attention')
-  }
-  
-  if (formatPattern.ctaType === CTAType.NONE) {
-    recommendations.push('Include a clear call-to-action to drive engagement')
-  }
-  
-  if (signals.emotionalTriggers.length === 0) {
-    recommendations.push('Add emotional elements to increase shareability')
-  }
-  
-  if (platform === 'linkedin' && parsed.lineBreakStructure.totalLineBreaks < 3) {
-    recommendations.push('Add more line breaks for better readability on LinkedIn')
-  }
-  
-  if (platform === 'twitter' && !parsed.hasHashtags) {
-    recommendations.push('Consider adding relevant hashtags for discoverability')
-  }
-  
-  if (!parsed.hasNumbers) {
-    recommendations.push('Include specific numbers or statistics for credibility')
+type RecommendationRule = (context: {
+  parsed: ParsedContent
+  lines: TextSpan[]
+  component: ScoreComponent
+}) => { message: string; span: TextSpan } | null
+
+/**
+ * Advice for a score check that fell short, keyed by component and rule.
+ * Each rule picks the span of the post the advice is about.
+ */
+const RECOMMENDATION_RULES: Partial<Record<string, RecommendationRule>> = {
+  'hook.hook_detected': ({ parsed, lines }) => ({
+    message: 'Add a strong hook at the beginning to grab attention',
+    span: lines[0] ?? wholePost(parsed)
+  }),
+  'hook.hook_confidence': ({ component }) => {
+    const match = component.evidence[0]
+    return match && match.start > 0
+      ? { message: `Lead with the hook: open the post with "${match.text}"`, span: match }
+      : null
+  },
+  'body.structured_body': ({ parsed, lines }) => ({
+    message: 'Give the body a clear structure: a list, a story arc or problem → solution',
+    span: lines.length >= 3 ? joinSpans(parsed, lines[1], lines[lines.length - 2]) : wholePost(parsed)
+  }),
+  'body.line_breaks': ({ parsed, lines }) => ({
+    message: 'Break this line up; short lines keep readers scrolling',
+    span: longestLine(lines) ?? wholePost(parsed)
+  }),
+  'body.paragraphs': ({ parsed }) => ({
+    message: 'Split the post into paragraphs separated by a blank line',
+    span: wholePost(parsed)
+  }),
+  'cta.cta_present': ({ parsed, lines, component }) =>
+    component.evidence.length === 0
+      ? { message: 'Include a clear call-to-action to drive engagement', span: lines[lines.length - 1] ?? wholePost(parsed) }
+      : null,
+  'cta.cta_confidence': ({ parsed, lines, component }) => {
+    const match = component.evidence[0]
+    const closing = lines.slice(-3)[0]
+    return match && closing && match.end <= closing.start
+      ? { message: 'Move the call to action to the end of the post', span: match }
+      : null
+  },
+  'emotion.emotional_triggers': ({ parsed, lines, component }) =>
+    component.evidence.length === 0
+      ? { message: 'Add emotional elements to increase shareability', span: lines[0] ?? wholePost(parsed) }
+      : null,
+  'emotion.strong_emotion': ({ parsed, lines }) => ({
+    message: 'Spark curiosity, surprise or urgency in the opening line',
+    span: lines[0] ?? wholePost(parsed)
+  }),
+  'format.line_breaks': ({ parsed, lines }) => ({
+    message: 'Add more line breaks for better readability on LinkedIn',
+    span: longestLine(lines) ?? wholePost(parsed)
+  }),
+  'format.emoji_balance': ({ parsed, lines, component }) => {
+    const emojis = component.evidence.filter(e => e.source === 'emoji')
+    return emojis.length > 5
+      ? { message: 'Cut back on emojis; more than five reads as noise', span: joinSpans(parsed, emojis[5], emojis[emojis.length - 1]) }
+      : { message: 'Anchor a key line with an emoji', span: lines[0] ?? wholePost(parsed) }
+  },
+  'format.hashtags': ({ parsed, lines }) => ({
+    message: 'Consider adding relevant hashtags for discoverability',
+    span: lines[lines.length - 1] ?? wholePost(parsed)
+  }),
+  'format.emoji': ({ parsed, lines }) => ({
+    message: 'Anchor a key line with an emoji',
+    span: lines[0] ?? wholePost(parsed)
+  }),
+  'format.word_limit': ({ parsed }) => ({
+    message: 'Trim to 280 words or split the post into a thread',
+    span: wholePost(parsed)
+  }),
+  'platform_fit.word_range': ({ parsed }) => ({
+    message: parsed.wordCount < 100
+      ? `Expand to at least 100 words; LinkedIn favours posts of 100-400 (this one has ${parsed.wordCount})`
+      : `Trim to 400 words or fewer (this one has ${parsed.wordCount})`,
+    span: wholePost(parsed)
+  }),
+  'platform_fit.paragraphs': ({ parsed }) => ({
+    message: 'Split the post into paragraphs separated by a blank line',
+    span: wholePost(parsed)
+  }),
+  'platform_fit.word_limit': ({ parsed }) => ({
+    message: 'Trim to 280 words or split the post into a thread',
+    span: wholePost(parsed)
+  }),
+  'platform_fit.hashtags': ({ parsed, lines }) => ({
+    message: 'Consider adding relevant hashtags for discoverability',
+    span: lines[lines.length - 1] ?? wholePost(parsed)
+  })
+}
+
+/**
+ * Turns the checks that fell short in a score breakdown into advice, each
+ * tied to the span of the post it concerns. Components with the most
+ * headroom come first; advice repeated by several components is kept once.
+ */
+function generateRecommendations(parsed: ParsedContent, breakdown: ScoreBreakdown): Recommendation[] {
+  const lines = getLineSpans(parsed.original)
+  const recommendations: Recommendation[] = []
+  const seen = new Set<string>()
+  
+  const components = [...breakdown.components].sort((a, b) => b.headroom - a.headroom)
+  for (const component of components) {
+    if (component.headroom <= 0) continue
+    
+    for (const { rule, points, maxPoints } of component.checks) {
+      if (points >= maxPoints) continue
+      
+      const advice = RECOMMENDATION_RULES[`${component.component}.${rule}`]?.({ parsed, lines, component })
+      if (!advice || seen.has(advice.message)) continue
+      
+      seen.add(advice.message)
+      recommendations.push({
+        component: component.component,
+        rule,
+        message: advice.message,
+        headroom: component.headroom,
+        span: { start: advice.span.start, end: advice.span.end, text: advice.span.text }
+      })
+    }
   }
   
   return recommendations
 }
 
+function wholePost(parsed: ParsedContent): TextSpan {
+  return { start: 0, end: parsed.original.length, text: parsed.original }
+}
+
+function joinSpans(parsed: ParsedContent, first: TextSpan, last: TextSpan): TextSpan {
+  return { start: first.start, end: last.end, text: parsed.original.slice(first.start, last.end) }
+}
+
+function longestLine(lines: TextSpan[]): TextSpan | undefined {
+  return lines.reduce<TextSpan | undefined>((longest, line) =>
+    !longest || line.text.length > longest.text.length ? line : longest, undefined)
+}
+
 function findSimilarFormats(formatPattern: DetectedFormatPattern): string[] {
   const formatMap: Record<string, string[]> = {
     [`${HookType.QUESTION}_${BodyType.LISTICLE}`]: ['Q&A List Format', 'Numbered Answer Format'],
@@ -0,0 +1,74 @@
+/**
+ * Virality Calibration
+ *
+ * Fits the virality model (./virality-model) on posts scraped by analysis
+ * jobs — the only posts we have real likes, comments and shares for — and
+ * stores the resulting weight set in KV. analyzePost scores with the stored
+ * model; until one exists it falls back to the heuristic score.
+ */
+
+import { getKVStore } from './storage'
+import { getAnalysisJob, listAnalysisJobs } from './analysis-jobs'
+import { toViralPost } from './social-scraper'
+import { buildViralitySample } from './viral-analyzer'
+import { calibrateViralityModel, type CalibrateOptions, type CalibrationResult, type ViralityModel } from './virality-model'
+import type { ViralPost } from './types/social-media'
+
+const MODEL_KEY = 'virality-model'
+
+// Upper bound on jobs read per calibration, to keep the KV reads bounded
+const MAX_CALIBRATION_JOBS = 500
+
+export interface RecalibrateOptions extends CalibrateOptions {
+  /** Posts to fit on instead of the ones collected from analysis jobs */
+  posts?: ViralPost[]
+}
+
+export async function getViralityModel(): Promise<ViralityModel | null> {
+  return getKVStore().get<ViralityModel>(MODEL_KEY)
+}
+
+export async function saveViralityModel(model: ViralityModel): Promise<ViralityModel> {
+  await getKVStore().put(MODEL_KEY, model)
+  return model
+}
+
+/**
+ * Removes the stored model, returning analysis to heuristic scoring.
+ */
+export async function deleteViralityModel(): Promise<boolean> {
+  return getKVStore().delete(MODEL_KEY)
+}
+
+/**
+ * Collects every post scraped by analysis jobs, deduplicated by URL, as
+ * ViralPosts with their real engagement.
+ */
+export async function collectCalibrationPosts(): Promise<ViralPost[]> {
+  const summaries = await listAnalysisJobs(MAX_CALIBRATION_JOBS)
+  const jobs = await Promise.all(summaries.map((summary) => getAnalysisJob(summary.id)))
+  const posts = new Map<string, ViralPost>()
+
+  for (const job of jobs) {
+    job?.posts.forEach((post, index) => {
+      const viralPost = toViralPost(post, index)
+      posts.set(post.url || viralPost.id, viralPost)
+    })
+  }
+
+  return [...posts.values()]
+}
+
+/**
+ * Fits a new model, evaluates it on a held-out split and makes it the
+ * active model.
+ *
+ * @throws ViralityTrainingError when there are too few posts to fit on
+ */
+export async function recalibrateViralityModel(options: RecalibrateOptions = {}): Promise<CalibrationResult> {
+  const { posts = await collectCalibrationPosts(), ...calibrateOptions } = options
+  // The model is shared by every workspace, so it is fit on the built-in packs' features
+  const result = calibrateViralityModel(posts.map((post) => buildViralitySample(post)), calibrateOptions)
+  await saveViralityModel(result.model)
+  return result
+}
@@ -0,0 +1,439 @@
+/**
+ * Virality Model
+ *
+ * Engagement-calibrated scoring for viral-analyzer. Instead of a fixed sum
+ * of heuristics, posts are described by numeric features taken from
+ * ParsedContent, DetectedFormatPattern and ViralSignals, and a ridge
+ * regression fitted on real posts maps them onto log engagement.
+ *
+ * - Target: log(1 + likes + 2·comments + 3·shares), so a post with ten
+ *   times the engagement is a fixed step up rather than ten times the score
+ * - Features are standardized with the training means/scales, so weights
+ *   are comparable and each contribution is in target units
+ * - Scores (0-100) are the percentile of the prediction under a normal fit
+ *   of the training targets: 50 is a typical post from the training set
+ *
+ * Everything here is pure; persistence lives in ./virality-calibration.
+ */
+
+import {
+  BodyType,
+  CTAType,
+  DetectedFormatPattern,
+  EmotionalTrigger,
+  HookType,
+  ParsedContent,
+  Platform,
+  PostMetrics,
+  ScoreContribution,
+  ViralSignals
+} from './types/social-media'
+
+export const VIRALITY_MODEL_TARGET = 'log_weighted_engagement'
+
+/** Below this many posts a fit says more about the sample than the features */
+export const MIN_TRAINING_SAMPLES = 12
+
+export type ViralityFeatures = Record<string, number>
+
+export interface ViralitySample {
+  id: string
+  platform: Platform
+  features: ViralityFeatures
+  metrics: PostMetrics
+  /** Heuristic score for the same post, used as the evaluation baseline */
+  heuristicScore?: number
+}
+
+export interface ModelCoefficient {
+  feature: string
+  /** Training mean of the raw feature */
+  mean: number
+  /** Training standard deviation of the raw feature (1 for constant features) */
+  scale: number
+  /** Weight on the standardized feature */
+  weight: number
+}
+
+export interface ViralityEvaluation {
+  sampleCount: number
+  /** Spearman rank correlation between predictions and real engagement */
+  spearman: number
+  /** Same correlation for the heuristic score, when the samples carry one */
+  heuristicSpearman?: number
+  /** Mean absolute error in target units (log engagement) */
+  meanAbsoluteError: number
+}
+
+export interface ViralityModel {
+  id: string
+  target: typeof VIRALITY_MODEL_TARGET
+  intercept: number
+  coefficients: ModelCoefficient[]
+  targetMean: number
+  targetStd: number
+  lambda: number
+  sampleCount: number
+  platforms: Platform[]
+  trainedAt: string
+  /** Held-out evaluation recorded when the model was calibrated */
+  evaluation?: ViralityEvaluation
+}
+
+export interface ViralityPrediction {
+  score: number
+  /** Predicted target value, log(1 + weighted engagement) */
+  predicted: number
+  /** Per-feature contributions in target units, largest effect first */
+  contributions: ScoreContribution[]
+}
+
+export interface TrainOptions {
+  /** L2 penalty on the standardized weights (default 1) */
+  lambda?: number
+  id?: string
+}
+
+export interface CalibrateOptions extends TrainOptions {
+  /** Share of samples held out for evaluation (default 0.2) */
+  holdoutFraction?: number
+  seed?: number
+}
+
+export interface CalibrationResult {
+  /** Model fitted on all samples, with the held-out evaluation attached */
+  model: ViralityModel
+  trainCount: number
+  holdoutCount: number
+}
+
+export class ViralityTrainingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ViralityTrainingError'
+  }
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  log_words: 'Post length (words)',
+  log_line_breaks: 'Line breaks',
+  paragraphs: 'Paragraphs',
+  avg_line_length: 'Average line length',
+  short_line_ratio: 'Share of short lines',
+  emojis: 'Emoji count',
+  hashtags: 'Hashtag count',
+  mentions: 'Mentions',
+  has_link: 'Contains a link',
+  numbers: 'Numbers and statistics',
+  all_caps: 'ALL-CAPS words',
+  has_question: 'Asks a question',
+  list_markers: 'Bullet or numbered lines',
+  has_hook: 'Recognised hook',
+  hook_confidence: 'Hook confidence',
+  structured_body: 'Structured body',
+  body_confidence: 'Body confidence',
+  has_cta: 'Call to action',
+  cta_confidence: 'CTA confidence',
+  emotional_triggers: 'Emotional triggers',
+  strong_emotion: 'Curiosity, surprise or urgency',
+  length_fit: 'Length fit for platform',
+  hook_strength: 'First-line strength',
+  readability: 'Readability',
+  is_twitter: 'Posted on X',
+}
+
+const STRONG_EMOTIONS = [EmotionalTrigger.CURIOSITY, EmotionalTrigger.SURPRISE, EmotionalTrigger.URGENCY]
+
+export function featureLabel(feature: string): string {
+  return FEATURE_LABELS[feature] ?? feature
+}
+
+/**
+ * Likes + 2·comments + 3·shares: replies and reshares signal more than a like.
+ */
+export function weightedEngagement(metrics: PostMetrics): number {
+  return Math.max(0, (metrics.likes || 0) + 2 * (metrics.comments || 0) + 3 * (metrics.shares || 0))
+}
+
+/**
+ * Engagement target a model is fitted on.
+ */
+export function engagementTarget(metrics: PostMetrics): number {
+  return Math.log1p(weightedEngagement(metrics))
+}
+
+/**
+ * Describes a post as the numeric features the model is fitted on.
+ */
+export function computeViralityFeatures(
+  parsed: ParsedContent,
+  pattern: DetectedFormatPattern,
+  signals: ViralSignals,
+  platform: Platform
+): ViralityFeatures {
+  const lines = parsed.lines.length
+  const indicator = (name: string) =>
+    (signals.viralityIndicators.find((i) => i.indicator === name)?.score ?? 0) / 100
+
+  return {
+    log_words: Math.log1p(parsed.wordCount),
+    log_line_breaks: Math.log1p(parsed.lineBreakStructure.totalLineBreaks),
+    paragraphs: Math.min(parsed.paragraphs.length, 15),
+    avg_line_length: parsed.lineBreakStructure.averageLineLength / 100,
+    short_line_ratio: lines > 0 ? parsed.lineBreakStructure.shortLines / lines : 0,
+    emojis: Math.log1p(parsed.emojiCount),
+    hashtags: Math.min(parsed.hashtags.length, 10),
+    mentions: Math.min(parsed.mentions.length, 10),
+    has_link: parsed.hasLinks ? 1 : 0,
+    numbers: Math.log1p(parsed.numbers.length),
+    all_caps: Math.log1p(parsed.capitalizationPatterns.allCapsWords.length),
+    has_question: parsed.original.includes('?') ? 1 : 0,
+    list_markers: Math.log1p((parsed.original.match(/\n\s*(?:[•\-\*→]|\d+[.)])/g) || []).length),
+    has_hook: pattern.hookType !== HookType.NONE ? 1 : 0,
+    hook_confidence: pattern.hookConfidence,
+    structured_body: pattern.bodyType !== BodyType.INSIGHT_SHARING ? 1 : 0,
+    body_confidence: pattern.bodyConfidence,
+    has_cta: pattern.ctaType !== CTAType.NONE ? 1 : 0,
+    cta_confidence: pattern.ctaConfidence,
+    emotional_triggers: signals.emotionalTriggers.length,
+    strong_emotion: signals.emotionalTriggers.some((t) => STRONG_EMOTIONS.includes(t)) ? 1 : 0,
+    length_fit: indicator('optimal_length'),
+    hook_strength: indicator('hook_strength'),
+    readability: indicator('readability'),
+    is_twitter: platform === 'twitter' ? 1 : 0,
+  }
+}
+
+/**
+ * Fits a ridge regression of engagementTarget on the sample features.
+ *
+ * @throws ViralityTrainingError with fewer than MIN_TRAINING_SAMPLES samples
+ */
+export function trainViralityModel(samples: ViralitySample[], options: TrainOptions = {}): ViralityModel {
+  if (samples.length < MIN_TRAINING_SAMPLES) {
+    throw new ViralityTrainingError(
+      `Need at least ${MIN_TRAINING_SAMPLES} posts with metrics to calibrate, got ${samples.length}.`
+    )
+  }
+
+  const lambda = options.lambda ?? 1
+  const features = Object.keys(samples[0].features)
+  const targets = samples.map((sample) => engagementTarget(sample.metrics))
+  const targetMean = mean(targets)
+
+  const coefficients: ModelCoefficient[] = features.map((feature) => {
+    const values = samples.map((sample) => sample.features[feature] ?? 0)
+    const featureMean = mean(values)
+    // Constant features keep scale 1 so they standardize to zero instead of NaN
+    return { feature, mean: featureMean, scale: standardDeviation(values, featureMean) || 1, weight: 0 }
+  })
+
+  const rows = samples.map((sample) =>
+    coefficients.map((c) => ((sample.features[c.feature] ?? 0) - c.mean) / c.scale)
+  )
+  const centered = targets.map((target) => target - targetMean)
+
+  // Normal equations with the ridge penalty: (XᵀX + λI) w = Xᵀy
+  const k = coefficients.length
+  const gram = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? lambda : 0))
+  )
+  const moments = Array.from({ length: k }, (_, i) => rows.reduce((sum, row, n) => sum + row[i] * centered[n], 0))
+  const weights = solveLinearSystem(gram, moments)
+  coefficients.forEach((c, i) => (c.weight = weights[i]))
+
+  return {
+    id: options.id ?? `virality-${Date.now()}`,
+    target: VIRALITY_MODEL_TARGET,
+    intercept: targetMean,
+    coefficients,
+    targetMean,
+    targetStd: standardDeviation(targets, targetMean) || 1,
+    lambda,
+    sampleCount: samples.length,
+    platforms: Array.from(new Set(samples.map((sample) => sample.platform))),
+    trainedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Evaluates on a held-out split, then refits on every sample so the stored
+ * model uses all the data while still reporting an honest evaluation.
+ */
+export function calibrateViralityModel(samples: ViralitySample[], options: CalibrateOptions = {}): CalibrationResult {
+  const { train, holdout } = splitSamples(samples, options.holdoutFraction, options.seed)
+  if (train.length < MIN_TRAINING_SAMPLES) {
+    throw new ViralityTrainingError(
+      `Need at least ${MIN_TRAINING_SAMPLES} training posts after holding out ${holdout.length}, got ${samples.length} in total.`
+    )
+  }
+  const evaluation = evaluateViralityModel(trainViralityModel(train, options), holdout)
+
+  return {
+    model: { ...trainViralityModel(samples, options), evaluation },
+    trainCount: train.length,
+    holdoutCount: holdout.length,
+  }
+}
+
+/**
+ * Scores a post's features with a trained model.
+ */
+export function predictVirality(model: ViralityModel, features: ViralityFeatures): ViralityPrediction {
+  const contributions: ScoreContribution[] = model.coefficients.map((c) => {
+    const value = features[c.feature] ?? c.mean
+    return {
+      factor: c.feature,
+      label: featureLabel(c.feature),
+      value,
+      weight: c.weight,
+      contribution: (c.weight * (value - c.mean)) / c.scale,
+    }
+  })
+  const predicted = contributions.reduce((sum, c) => sum + c.contribution, model.intercept)
+
+  return {
+    score: Math.round(100 * normalCdf((predicted - model.targetMean) / model.targetStd)),
+    predicted,
+    contributions: contributions
+      .filter((c) => c.contribution !== 0)
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+  }
+}
+
+/**
+ * Measures how well a model ranks held-out posts by real engagement.
+ */
+export function evaluateViralityModel(model: ViralityModel, samples: ViralitySample[]): ViralityEvaluation {
+  const targets = samples.map((sample) => engagementTarget(sample.metrics))
+  const predictions = samples.map((sample) => predictVirality(model, sample.features).predicted)
+  const heuristic = samples.map((sample) => sample.heuristicScore)
+
+  return {
+    sampleCount: samples.length,
+    spearman: round(spearmanCorrelation(predictions, targets)),
+    heuristicSpearman: heuristic.every((score): score is number => score !== undefined)
+      ? round(spearmanCorrelation(heuristic, targets))
+      : undefined,
+    meanAbsoluteError: round(mean(predictions.map((prediction, i) => Math.abs(prediction - targets[i])))),
+  }
+}
+
+/**
+ * Splits samples into training and held-out sets. The split is a seeded
+ * shuffle, so the same data and seed always produce the same evaluation.
+ */
+export function splitSamples(
+  samples: ViralitySample[],
+  holdoutFraction = 0.2,
+  seed = 1
+): { train: ViralitySample[]; holdout: ViralitySample[] } {
+  const random = seededRandom(seed)
+  const shuffled = [...samples]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  const holdoutSize = Math.max(1, Math.round(shuffled.length * holdoutFraction))
+  return { holdout: shuffled.slice(0, holdoutSize), train: shuffled.slice(holdoutSize) }
+}
+
+/**
+ * Spearman rank correlation; tied values share their average rank.
+ * Returns 0 when either side has no variance.
+ */
+export function spearmanCorrelation(a: number[], b: number[]): number {
+  return pearsonCorrelation(ranks(a), ranks(b))
+}
+
+function pearsonCorrelation(a: number[], b: number[]): number {
+  const meanA = mean(a)
+  const meanB = mean(b)
+  let covariance = 0
+  let varianceA = 0
+  let varianceB = 0
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB)
+    varianceA += (a[i] - meanA) ** 2
+    varianceB += (b[i] - meanB) ** 2
+  }
+  return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB)
+}
+
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value)
+  const result = new Array<number>(values.length)
+  for (let start = 0; start < order.length; ) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+    const averageRank = (start + end) / 2 + 1
+    for (let i = start; i <= end; i++) result[order[i].index] = averageRank
+    start = end + 1
+  }
+  return result
+}
+
+/**
+ * Gaussian elimination with partial pivoting. The ridge penalty keeps the
+ * system positive definite, so a zero pivot only happens with lambda = 0.
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length
+  const a = matrix.map((row, i) => [...row, vector[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new ViralityTrainingError('Features are collinear; calibrate with a positive lambda.')
+    }
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k]
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n]
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k]
+    solution[row] = sum / a[row][row]
+  }
+  return solution
+}
+
+// Abramowitz-Stegun 7.1.26, accurate to ~1e-7 — plenty for a 0-100 score
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2))
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[], valuesMean = mean(values)): number {
+  return values.length === 0 ? 0 : Math.sqrt(mean(values.map((value) => (value - valuesMean) ** 2)))
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
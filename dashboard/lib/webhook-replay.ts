@@ -0,0 +1,108 @@
+/**
+ * Apify Webhook Replay
+ *
+ * Local harness for the analysis webhook: replays recorded Apify webhook
+ * payloads against handleApifyWebhook with recorded run statuses and
+ * dataset items, in an isolated in-memory store. Nothing talks to Apify,
+ * and the model is only called if the fixture has no recorded formats and
+ * no extractFormats override is given.
+ *
+ * Fixtures live in fixtures/apify/ (see linkedin-run-succeeded.json).
+ *
+ * @example
+ * const { statuses, job } = await replayApifyWebhook(fixture)
+ * // statuses: [202], job.status: 'done'
+ */
+
+import type { ContentFormat } from './agent-skills'
+import { createAnalysisJob, getAnalysisJob, type AnalysisJob, type AnalysisJobDeps } from './analysis-jobs'
+import { extractFormats, EXTRACTION_PROMPT_VERSION } from './format-extraction'
+import { handleApifyWebhook, signWebhook, WEBHOOK_PATH, WEBHOOK_SIGNATURE_HEADER, type ApifyWebhookPayload } from './apify-webhook'
+import { getScraper, normalizeItems, type ScrapeRun } from './social-scraper'
+import { MemoryKeyValueStore, setKVStore, type KeyValueStore } from './storage'
+
+export interface WebhookReplayFixture {
+  /** The job as it was when its runs started */
+  job: { id: string; urls: string[]; runs: ScrapeRun[] }
+  /** Webhook bodies in the order Apify sent them */
+  payloads: ApifyWebhookPayload[]
+  /** Apify run status (SUCCEEDED, FAILED…) per run id */
+  runStatuses: Record<string, string>
+  /** Raw dataset items per dataset id */
+  datasets: Record<string, unknown[]>
+  /** Recorded extraction result, used instead of calling the model */
+  formats?: ContentFormat[]
+}
+
+export interface ReplayOptions {
+  secret?: string
+  /** Overrides the recorded formats, e.g. to exercise extraction errors */
+  extractFormats?: AnalysisJobDeps['extractFormats']
+  /** Sends this signature instead of a valid one */
+  signature?: string
+  /** Delivers all payloads at once, as duplicate deliveries from Apify can arrive */
+  concurrent?: boolean
+  /** Store to replay into; defaults to a fresh in-memory store */
+  store?: KeyValueStore
+}
+
+export interface ReplayResult {
+  /** HTTP status of each webhook response, in order */
+  statuses: number[]
+  job: AnalysisJob | null
+}
+
+export async function replayApifyWebhook(
+  fixture: WebhookReplayFixture,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const secret = options.secret ?? 'replay-secret'
+  const deps: AnalysisJobDeps = {
+    getRunStatus: async (runId) => {
+      const run = fixture.job.runs.find((r) => r.runId === runId)
+      return { status: fixture.runStatuses[runId] ?? 'RUNNING', datasetId: run?.datasetId ?? '' }
+    },
+    fetchPosts: async (run, datasetId) => {
+      const scraper = getScraper(run.platform)
+      if (!scraper) throw new Error(`No scraper for platform: ${run.platform}`)
+      return normalizeItems(scraper, fixture.datasets[datasetId] ?? [])
+    },
+    extractFormats:
+      options.extractFormats ??
+      (fixture.formats
+        ? async (_posts, model = 'recorded') => ({
+            formats: fixture.formats!,
+            rejected: [],
+            attempts: 1,
+            model,
+            promptVersion: EXTRACTION_PROMPT_VERSION,
+          })
+        : extractFormats),
+  }
+
+  setKVStore(options.store ?? new MemoryKeyValueStore())
+  try {
+    await createAnalysisJob({ ...fixture.job, unsupported: [], webhook: true })
+
+    const signature = options.signature ?? (await signWebhook(fixture.job.id, secret))
+    const deliver = async (payload: ApifyWebhookPayload): Promise<number> => {
+      const request = new Request(`http://localhost${WEBHOOK_PATH}?jobId=${encodeURIComponent(fixture.job.id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [WEBHOOK_SIGNATURE_HEADER]: signature },
+        body: JSON.stringify(payload),
+      })
+      return (await handleApifyWebhook(request, { secret, deps })).status
+    }
+
+    const statuses: number[] = []
+    if (options.concurrent) {
+      statuses.push(...(await Promise.all(fixture.payloads.map(deliver))))
+    } else {
+      for (const payload of fixture.payloads) statuses.push(await deliver(payload))
+    }
+
+    return { statuses, job: await getAnalysisJob(fixture.job.id) }
+  } finally {
+    setKVStore(null)
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Word Diff
+ *
+ * Word-level diff between two versions of a post, for showing what a
+ * revision changed. Text is split into words and the whitespace between
+ * them; the longest common subsequence of those tokens is kept and the rest
+ * is reported as deletions and insertions. Joining the `equal` and `delete`
+ * ops gives back the old text, `equal` and `insert` the new one.
+ */
+
+export type WordDiffOpType = 'equal' | 'insert' | 'delete'
+
+export interface WordDiffOp {
+  type: WordDiffOpType
+  text: string
+}
+
+export interface WordDiffStats {
+  /** Words only in the new text */
+  added: number
+  /** Words only in the old text */
+  removed: number
+  unchanged: number
+}
+
+// Above this many token pairs the LCS table gets too large for an edge
+// isolate; the changed middle is then reported as one replacement
+const MAX_TABLE_CELLS = 4_000_000
+
+export function diffWords(before: string, after: string): WordDiffOp[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  // Common prefix and suffix need no table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: WordDiffOp[] = []
+  push(ops, 'equal', a.slice(0, start))
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  if (middleA.length * middleB.length > MAX_TABLE_CELLS) {
+    push(ops, 'delete', middleA)
+    push(ops, 'insert', middleB)
+  } else {
+    for (const op of lcsDiff(middleA, middleB)) push(ops, op.type, [op.text])
+  }
+
+  push(ops, 'equal', a.slice(endA))
+  return mergeChangeRuns(ops)
+}
+
+export function wordDiffStats(ops: WordDiffOp[]): WordDiffStats {
+  const stats: WordDiffStats = { added: 0, removed: 0, unchanged: 0 }
+  for (const op of ops) {
+    const words = op.text.split(/\s+/).filter(Boolean).length
+    if (op.type === 'insert') stats.added += words
+    else if (op.type === 'delete') stats.removed += words
+    else stats.unchanged += words
+  }
+  return stats
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? []
+}
+
+function lcsDiff(a: string[], b: string[]): WordDiffOp[] {
+  const width = b.length + 1
+  // lengths[i * width + j]: LCS length of a[i:] and b[j:]
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const ops: WordDiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', text: a[i++] })
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'delete', text: a[i++] })
+    } else {
+      ops.push({ type: 'insert', text: b[j++] })
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', text: a[i++] })
+  while (j < b.length) ops.push({ type: 'insert', text: b[j++] })
+  return ops
+}
+
+// "here to stay" -> "not going away" should read as one replacement, not
+// three separated by unchanged spaces: whitespace-only equal ops between
+// changes are folded into the surrounding deletion and insertion
+function mergeChangeRuns(ops: WordDiffOp[]): WordDiffOp[] {
+  const merged: WordDiffOp[] = []
+  let deleted = ''
+  let inserted = ''
+
+  const flush = () => {
+    if (deleted) merged.push({ type: 'delete', text: deleted })
+    if (inserted) merged.push({ type: 'insert', text: inserted })
+    deleted = inserted = ''
+  }
+
+  ops.forEach((op, i) => {
+    const inChange = (deleted || inserted) && i < ops.length - 1
+    if (op.type === 'delete') deleted += op.text
+    else if (op.type === 'insert') inserted += op.text
+    else if (inChange && !/\S/.test(op.text)) {
+      deleted += op.text
+      inserted += op.text
+    } else {
+      flush()
+      merged.push(op)
+    }
+  })
+  flush()
+  return merged
+}
+
+// Appends tokens, merging with the previous op when the type matches
+function push(ops: WordDiffOp[], type: WordDiffOpType, tokens: string[]): void {
+  if (tokens.length === 0) return
+  const last = ops[ops.length - 1]
+  if (last?.type === type) last.text += tokens.join('')
+  else ops.push({ type, text: tokens.join('') })
+}
@@ -0,0 +1,73 @@
+/**
+ * Cloudflare Access Middleware
+ *
+ * Guards /admin and /api/* by verifying the Cloudflare Access JWT on every
+ * request, so the dashboard stays closed even if the Access application is
+ * misconfigured or the Pages URL is hit directly. The verified email is
+ * forwarded to route handlers in the x-access-authenticated-email header
+ * (read it with getAuthenticatedEmail).
+ *
+ * Without CF_ACCESS_TEAM_DOMAIN / CF_ACCESS_AUD every request is rejected,
+ * except under `next dev` where the check is skipped.
+ *
+ * PUBLIC_API_PATHS are called by third parties that cannot pass Access and
+ * authenticate themselves (e.g. the signed Apify webhook).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ACCESS_COOKIE,
+  ACCESS_JWT_HEADER,
+  AUTHENTICATED_EMAIL_HEADER,
+  AccessVerificationError,
+  getAccessConfig,
+  verifyAccessJwt,
+} from '@/lib/cf-access'
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/:path*'],
+}
+
+const PUBLIC_API_PATHS = ['/api/agent/analyze/webhook']
+
+export async function middleware(request: NextRequest) {
+  // Never trust an identity header supplied by the client
+  const headers = new Headers(request.headers)
+  headers.delete(AUTHENTICATED_EMAIL_HEADER)
+
+  if (PUBLIC_API_PATHS.includes(request.nextUrl.pathname)) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const accessConfig = getAccessConfig()
+
+  if (!accessConfig) {
+    if (process.env.NODE_ENV === 'development') {
+      return NextResponse.next({ request: { headers } })
+    }
+    return deny(request, 'Cloudflare Access is not configured.', 500)
+  }
+
+  const token = request.headers.get(ACCESS_JWT_HEADER) ?? request.cookies.get(ACCESS_COOKIE)?.value
+  if (!token) {
+    return deny(request, 'Missing Cloudflare Access token.', 401)
+  }
+
+  try {
+    const identity = await verifyAccessJwt(token, accessConfig)
+    if (identity.email) {
+      headers.set(AUTHENTICATED_EMAIL_HEADER, identity.email)
+    }
+    return NextResponse.next({ request: { headers } })
+  } catch (error) {
+    const reason = error instanceof AccessVerificationError ? error.message : 'Token verification failed'
+    return deny(request, `Unauthorized: ${reason}.`, 403)
+  }
+}
+
+function deny(request: NextRequest, message: string, status: number) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ success: false, error: message }, { status })
+  }
+  return new NextResponse(message, { status, headers: { 'Content-Type': 'text/plain' } })
+}
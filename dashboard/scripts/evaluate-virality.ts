@@ -0,0 +1,124 @@
+/**
+ * Offline evaluation for the virality model.
+ *
+ * Fits the model on a training split of recorded posts and reports how well
+ * it ranks the held-out posts by real engagement (Spearman correlation),
+ * next to the heuristic score as a baseline. Nothing is written to KV.
+ *
+ * Usage:
+ *   npm run virality:eval -- <file.json>... [--platform linkedin|twitter]
+ *     [--holdout 0.2] [--lambda 1] [--seed 1] [--out model.json]
+ *
+ * Each file may be:
+ * - an analysis job export (GET /api/agent/analyze/jobs/:id) or { posts: [...] }
+ * - a webhook replay fixture (fixtures/apify/*.json)
+ * - an array of scraped posts, or of raw Apify dataset items with --platform
+ *   (fixtures/apify/datasets/*.json)
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { getScraper, normalizeItems, toViralPost, type ScrapedPost } from '../lib/social-scraper'
+import { buildViralitySample } from '../lib/viral-analyzer'
+import { calibrateViralityModel, featureLabel, ViralityTrainingError } from '../lib/virality-model'
+
+interface Args {
+  files: string[]
+  platform?: string
+  holdout: number
+  lambda: number
+  seed: number
+  out?: string
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { files: [], holdout: 0.2, lambda: 1, seed: 1 }
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new Error(`${flag} needs a value`)
+      return next
+    }
+    if (flag === '--platform') args.platform = value()
+    else if (flag === '--holdout') args.holdout = Number(value())
+    else if (flag === '--lambda') args.lambda = Number(value())
+    else if (flag === '--seed') args.seed = Number(value())
+    else if (flag === '--out') args.out = value()
+    else if (flag.startsWith('--')) throw new Error(`Unknown option ${flag}`)
+    else args.files.push(flag)
+  }
+  return args
+}
+
+function isScrapedPost(item: any): item is ScrapedPost {
+  return (
+    item !== null &&
+    typeof item === 'object' &&
+    (item.platform === 'linkedin' || item.platform === 'twitter') &&
+    typeof item.text === 'string' &&
+    typeof item.likesCount === 'number'
+  )
+}
+
+function loadPosts(file: string, platform: string | undefined): ScrapedPost[] {
+  const data = JSON.parse(readFileSync(file, 'utf8'))
+
+  // Webhook replay fixture: normalize each run's dataset with its platform's scraper
+  if (data?.datasets && Array.isArray(data.job?.runs)) {
+    return data.job.runs.flatMap((run: { platform: string; datasetId: string }) => {
+      const scraper = getScraper(run.platform)
+      return scraper ? normalizeItems(scraper, data.datasets[run.datasetId] ?? []) : []
+    })
+  }
+
+  const items: unknown[] = Array.isArray(data) ? data : data?.posts ?? data?.job?.posts ?? []
+  if (items.every(isScrapedPost)) return items
+
+  const scraper = platform ? getScraper(platform) : null
+  if (!scraper) {
+    throw new Error(`${file} holds raw dataset items; pass --platform linkedin or --platform twitter`)
+  }
+  return normalizeItems(scraper, items)
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.files.length === 0) {
+    console.error('Usage: npm run virality:eval -- <file.json>... [--platform p] [--holdout f] [--lambda l] [--seed s] [--out model.json]')
+    process.exit(1)
+  }
+
+  const posts = args.files.flatMap((file) => loadPosts(file, args.platform))
+  const samples = posts.map((post, index) => buildViralitySample(toViralPost(post, index)))
+
+  const { model, trainCount, holdoutCount } = calibrateViralityModel(samples, {
+    lambda: args.lambda,
+    holdoutFraction: args.holdout,
+    seed: args.seed,
+  })
+  const evaluation = model.evaluation!
+
+  console.log(`Posts: ${samples.length} (train ${trainCount}, held out ${holdoutCount}), lambda ${model.lambda}`)
+  console.log(`Spearman, calibrated model: ${evaluation.spearman.toFixed(3)}`)
+  if (evaluation.heuristicSpearman !== undefined) {
+    console.log(`Spearman, heuristic score:  ${evaluation.heuristicSpearman.toFixed(3)}`)
+  }
+  console.log(`Mean absolute error (log engagement): ${evaluation.meanAbsoluteError.toFixed(3)}`)
+
+  console.log('\nStrongest weights (full fit, per standard deviation):')
+  for (const c of [...model.coefficients].sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)).slice(0, 10)) {
+    console.log(`  ${(c.weight >= 0 ? '+' : '') + c.weight.toFixed(3)}  ${featureLabel(c.feature)}`)
+  }
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify(model, null, 2) + '\n')
+    console.log(`\nModel written to ${args.out}`)
+  }
+}
+
+try {
+  main()
+} catch (error) {
+  console.error(error instanceof ViralityTrainingError ? error.message : error)
+  process.exit(1)
+}
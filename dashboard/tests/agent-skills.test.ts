@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { extractPostText, selectChatFormat, stripPostTags, type ContentFormat } from '@/lib/agent-skills'
+import { BodyType, CTAType, HookType } from '@/lib/types/social-media'
+
+function format(id: string, platform: ContentFormat['platform'], description: string): ContentFormat {
+  return {
+    id,
+    name: id,
+    description,
+    hookType: HookType.BOLD_STATEMENT,
+    bodyStructure: BodyType.LISTICLE,
+    ctaType: CTAType.COMMENT_PROMPT,
+    template: '[HOOK]\n\n[POINTS]\n\n[CTA]',
+    example: '',
+    platform,
+    effectivenessIndicators: [],
+    sourcePosts: [],
+    createdAt: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+const FORMATS = [
+  format('obituary', 'linkedin', 'RIP an old manual process, replaced by automation'),
+  format('giveaway', 'both', 'Giving away a free template for outbound prospecting'),
+  format('thread', 'twitter', 'Hot take thread about outbound prospecting'),
+]
+
+describe('selectChatFormat', () => {
+  it('picks the platform format closest to the request', () => {
+    assert.equal(selectChatFormat(FORMATS, 'linkedin', 'Write a post giving away my outbound prospecting template')?.id, 'giveaway')
+    assert.equal(selectChatFormat(FORMATS, 'twitter', 'A hot take thread on outbound')?.id, 'thread')
+  })
+
+  it('falls back to the first format for the platform', () => {
+    assert.equal(selectChatFormat(FORMATS, 'linkedin', 'Something about pricing')?.id, 'obituary')
+  })
+
+  it('uses the requested format only when it fits the platform', () => {
+    assert.equal(selectChatFormat(FORMATS, 'linkedin', '', 'giveaway')?.id, 'giveaway')
+    assert.equal(selectChatFormat(FORMATS, 'linkedin', '', 'thread'), undefined)
+  })
+})
+
+describe('extractPostText', () => {
+  it('returns the post without the commentary around it', () => {
+    const reply = 'Here is your post:\n\n<post>\nRIP cold calling.\n\nHere is what replaced it.\n</post>\n\nI used the Obituary hook.'
+    assert.equal(extractPostText(reply), 'RIP cold calling.\n\nHere is what replaced it.')
+  })
+
+  it('runs an unterminated post to the end', () => {
+    assert.equal(extractPostText('<post>\nRIP cold calling.'), 'RIP cold calling.')
+  })
+
+  it('returns null for a reply without a post', () => {
+    assert.equal(extractPostText('Which platform should I write for?'), null)
+  })
+})
+
+describe('stripPostTags', () => {
+  it('keeps the post and the commentary without the markers', () => {
+    const reply = 'Here is your post:\n\n<post>\nRIP cold calling.\n\nHere is what replaced it.\n</post>\n\nI used the Obituary hook.'
+    assert.equal(stripPostTags(reply), 'Here is your post:\n\nRIP cold calling.\n\nHere is what replaced it.\n\nI used the Obituary hook.')
+  })
+
+  it('leaves a reply without a post as it is', () => {
+    assert.equal(stripPostTags('Which platform should I write for?'), 'Which platform should I write for?')
+  })
+})
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+
+import {
+  AnalysisJobStateError,
+  EXTRACTION_LEASE_MS,
+  createAnalysisJob,
+  getAnalysisJob,
+  refreshAnalysisJob,
+  rerunExtraction,
+  type AnalysisJobDeps,
+} from '@/lib/analysis-jobs'
+import { EXTRACTION_PROMPT_VERSION } from '@/lib/format-extraction'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+
+const JOB_ID = 'job-1'
+
+const POST = {
+  platform: 'linkedin' as const,
+  url: 'https://www.linkedin.com/posts/example_lessons-activity-1',
+  text: 'I spent 5 years doing sales. Here is what I learned.',
+  likesCount: 120,
+  commentsCount: 14,
+  sharesCount: 3,
+}
+
+// Apify reports every run finished; extraction waits for `release` when given one
+function jobDeps(release?: Promise<void>): AnalysisJobDeps & { calls: () => number } {
+  let calls = 0
+  return {
+    calls: () => calls,
+    getRunStatus: async () => ({ status: 'SUCCEEDED', datasetId: 'dataset-1' }),
+    fetchPosts: async () => [POST],
+    extractFormats: async (_posts, model = 'recorded') => {
+      calls++
+      if (release) await release
+      return { formats: [], rejected: [], attempts: 1, model, promptVersion: EXTRACTION_PROMPT_VERSION }
+    },
+  }
+}
+
+beforeEach(async () => {
+  setKVStore(new MemoryKeyValueStore())
+  await createAnalysisJob({
+    id: JOB_ID,
+    urls: [POST.url],
+    unsupported: [],
+    runs: [{ platform: 'linkedin', runId: 'run-1', datasetId: 'dataset-1', actorId: 'actor', urlCount: 1 }],
+    webhook: false,
+  })
+})
+
+afterEach(() => {
+  setKVStore(null)
+  mock.timers.reset()
+})
+
+describe('refreshAnalysisJob', () => {
+  it('records the scrape and hands extraction to defer', async () => {
+    const deps = jobDeps()
+    const deferred: Promise<unknown>[] = []
+
+    const polled = await refreshAnalysisJob(JOB_ID, deps, { defer: (work) => void deferred.push(work) })
+    assert.equal(polled.status, 'scraping')
+    assert.deepEqual(polled.runs.map((run) => run.status), ['succeeded'])
+    assert.equal(deferred.length, 1)
+
+    await Promise.all(deferred)
+    const job = await getAnalysisJob(JOB_ID)
+    assert.equal(job?.status, 'done')
+    assert.equal(job?.posts.length, 1)
+    assert.equal(deps.calls(), 1)
+  })
+
+  it('leaves a fresh claim alone and takes over a stale one', async () => {
+    // The first worker never finishes, as if its isolate died mid-extraction
+    const stuck = jobDeps(new Promise(() => {}))
+    void refreshAnalysisJob(JOB_ID, stuck, { defer: () => {} })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const claimed = await getAnalysisJob(JOB_ID)
+    assert.equal(claimed?.status, 'analyzing')
+    assert.ok(claimed?.extractionClaimedAt)
+
+    const deps = jobDeps()
+    assert.equal((await refreshAnalysisJob(JOB_ID, deps)).status, 'analyzing')
+    assert.equal(deps.calls(), 0)
+
+    mock.timers.enable({ apis: ['Date'], now: Date.now() + EXTRACTION_LEASE_MS })
+    const job = await refreshAnalysisJob(JOB_ID, deps)
+    assert.equal(job.status, 'done')
+    assert.equal(job.extractionClaim, undefined)
+    assert.equal(deps.calls(), 1)
+  })
+})
+
+describe('rerunExtraction', () => {
+  it('waits out a fresh claim but re-runs over a stale one', async () => {
+    const stuck = jobDeps(new Promise(() => {}))
+    void refreshAnalysisJob(JOB_ID, stuck, { defer: () => {} })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const deps = jobDeps()
+    await assert.rejects(rerunExtraction(JOB_ID, undefined, deps), AnalysisJobStateError)
+
+    mock.timers.enable({ apis: ['Date'], now: Date.now() + EXTRACTION_LEASE_MS })
+    const { job } = await rerunExtraction(JOB_ID, 'other-model', deps)
+    assert.equal(job.status, 'done')
+    assert.equal(job.extractionClaim, undefined)
+    assert.deepEqual(job.extractions.map((extraction) => extraction.model), ['other-model'])
+  })
+})
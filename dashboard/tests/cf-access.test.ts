@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+
+import { AccessVerificationError, signTestAccessToken, verifyAccessJwt, type AccessConfig } from '@/lib/cf-access'
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+let signingKey: CryptoKey
+let publicJwk: JsonWebKey
+
+async function signRs256(config: AccessConfig, kid: string, claims: Record<string, unknown> = {}): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const data = `${encode({ alg: 'RS256', kid, typ: 'JWT' })}.${encode({
+    aud: [config.audience],
+    iss: `https://${config.teamDomain}`,
+    exp: now + 3600,
+    email: 'writer@example.com',
+    ...claims,
+  })}`
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', signingKey, new TextEncoder().encode(data))
+  return `${data}.${Buffer.from(signature).toString('base64url')}`
+}
+
+const originalFetch = globalThis.fetch
+let certRequests = 0
+let domainCount = 0
+let config: AccessConfig
+
+// Each test uses its own team so the module's key cache starts empty
+beforeEach(async () => {
+  if (!signingKey) {
+    const pair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    )
+    signingKey = pair.privateKey
+    publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey)
+  }
+  config = { teamDomain: `team-${++domainCount}.cloudflareaccess.com`, audience: 'aud-tag' }
+  certRequests = 0
+  globalThis.fetch = async () => {
+    certRequests++
+    return new Response(JSON.stringify({ keys: [{ ...publicJwk, kid: 'current' }] }))
+  }
+})
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+  mock.timers.reset()
+})
+
+describe('verifyAccessJwt signing keys', () => {
+  it('accepts a token signed with a published key', async () => {
+    const identity = await verifyAccessJwt(await signRs256(config, 'current'), config)
+    assert.equal(identity.email, 'writer@example.com')
+    assert.equal(certRequests, 1)
+  })
+
+  it('refetches the keys for an unknown kid at most once per interval', async () => {
+    await verifyAccessJwt(await signRs256(config, 'current'), config)
+    const forged = await signRs256(config, 'made-up')
+
+    await assert.rejects(verifyAccessJwt(forged, config), AccessVerificationError)
+    await assert.rejects(verifyAccessJwt(forged, config), AccessVerificationError)
+    assert.equal(certRequests, 1)
+
+    mock.timers.enable({ apis: ['Date'], now: Date.now() + 31_000 })
+    await assert.rejects(verifyAccessJwt(forged, config), /Unknown signing key/)
+    await assert.rejects(verifyAccessJwt(forged, config), /Unknown signing key/)
+    assert.equal(certRequests, 2)
+  })
+
+  it('shares one fetch between concurrent requests', async () => {
+    const token = await signRs256(config, 'current')
+    await Promise.all([1, 2, 3].map(() => verifyAccessJwt(token, config)))
+    assert.equal(certRequests, 1)
+  })
+})
+
+describe('verifyAccessJwt claims', () => {
+  it('rejects a token for another audience or team', async () => {
+    await assert.rejects(verifyAccessJwt(await signRs256(config, 'current', { aud: ['other-app'] }), config), /Audience mismatch/)
+    await assert.rejects(
+      verifyAccessJwt(await signRs256(config, 'current', { iss: 'https://other.cloudflareaccess.com' }), config),
+      /Unexpected issuer/
+    )
+  })
+
+  it('rejects an expired token beyond the clock skew', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 120
+    await assert.rejects(verifyAccessJwt(await signRs256(config, 'current', { exp }), config), /Token expired/)
+  })
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = (await signRs256(config, 'current')).split('.')
+    const forged = `${header}.${encode({ aud: [config.audience], iss: `https://${config.teamDomain}`, exp: 4102444800, email: 'admin@example.com' })}.${signature}`
+    await assert.rejects(verifyAccessJwt(forged, config), AccessVerificationError)
+  })
+
+  it('accepts HS256 test tokens only when a test secret is configured', async () => {
+    const token = await signTestAccessToken({ email: 'writer@example.com' }, { ...config, testSecret: 'local-secret' })
+
+    assert.equal((await verifyAccessJwt(token, { ...config, testSecret: 'local-secret' })).email, 'writer@example.com')
+    await assert.rejects(verifyAccessJwt(token, config), /Unsupported algorithm/)
+  })
+})
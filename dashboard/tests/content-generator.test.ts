@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { generatePost } from '@/lib/content-generator'
+import { hookTemplates, type TemplateHookType } from '@/lib/hooks-library'
+import { ctaTemplates, type TemplateCTAType } from '@/lib/cta-library'
+import { BodyType, CTAType, HookType, type FormatPattern } from '@/lib/types/social-media'
+
+const TOPIC = 'cold email'
+
+function format(template: string): FormatPattern {
+  const now = new Date().toISOString()
+  return {
+    id: 'learned',
+    name: 'Learned',
+    description: '',
+    platform: 'linkedin',
+    hookType: HookType.LIST,
+    bodyType: BodyType.LISTICLE,
+    ctaType: CTAType.QUESTION_TO_AUDIENCE,
+    template,
+    examplePost: '',
+    tags: [],
+    effectivenessScore: 60,
+    usageCount: 1,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+describe('generatePost (template mode)', () => {
+  it('fills every hook template with the topic', () => {
+    for (const hookType of Object.keys(hookTemplates) as TemplateHookType[]) {
+      const post = generatePost({ topic: TOPIC, platform: 'linkedin', hookType })
+
+      assert.equal(post.templateReport, undefined, hookType)
+      assert.ok(post.hook.toLowerCase().includes(TOPIC), `${hookType}: ${post.hook}`)
+      assert.doesNotMatch(post.hook, /\[/, hookType)
+    }
+  })
+
+  it('fills every CTA template', () => {
+    for (const ctaType of Object.keys(ctaTemplates) as TemplateCTAType[]) {
+      const post = generatePost({ topic: TOPIC, platform: 'linkedin', ctaType })
+
+      assert.equal(post.templateReport, undefined, ctaType)
+      assert.doesNotMatch(post.cta, /\[/, ctaType)
+    }
+  })
+
+  it('lays the post out with a format whose slots it can fill', () => {
+    const post = generatePost({
+      topic: TOPIC,
+      platform: 'linkedin',
+      keyPoints: ['Short subject lines', 'One ask per email'],
+      format: format('[HOOK]\n\n[#points]→ [points]\n[/points]\n[CTA]'),
+    })
+
+    assert.equal(post.templateReport, undefined)
+    assert.ok(post.content.startsWith(post.hook))
+    assert.match(post.content, /→ Short subject lines\n→ One ask per email\n/)
+    assert.ok(post.content.trimEnd().endsWith(post.cta))
+  })
+
+  it('reports a format it cannot fill and falls back to the standard layout', () => {
+    const post = generatePost({
+      topic: TOPIC,
+      platform: 'linkedin',
+      format: format('[HOOK: LIST]\n{Number} mistakes I made with [topic]\n\n[LESSON]'),
+    })
+
+    assert.deepEqual(post.templateReport?.format, { missing: ['Number', 'LESSON'], invalid: [] })
+    assert.match(post.content, /^1\. /m)
+  })
+})
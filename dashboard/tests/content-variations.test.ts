@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { MAX_VARIANTS, VariationRequestError, draftSimilarity, generateVariations } from '@/lib/content-variations'
+import { InvalidWorkspaceError } from '@/lib/pattern-registry'
+
+const REQUEST = { topic: 'cold email outreach', platform: 'linkedin' as const }
+
+describe('generateVariations', () => {
+  it('gives every variant its own hook and emotion, ranked by predicted virality', async () => {
+    const { variations, requested } = await generateVariations({ ...REQUEST, variants: 4 })
+
+    assert.equal(requested, 4)
+    assert.equal(variations.length, 4)
+    assert.equal(new Set(variations.map((variation) => variation.hookType)).size, 4)
+    assert.equal(new Set(variations.map((variation) => variation.focusEmotion)).size, 4)
+    assert.deepEqual(variations.map((variation) => variation.rank), [1, 2, 3, 4])
+    for (let i = 1; i < variations.length; i++) {
+      assert.ok(variations[i - 1].viralityScore >= variations[i].viralityScore)
+    }
+  })
+
+  it('lists only lines no other variant has', async () => {
+    const { variations } = await generateVariations({ ...REQUEST, variants: 3 })
+
+    for (const variation of variations) {
+      const others = variations.filter((other) => other !== variation).map((other) => other.content)
+      for (const line of variation.distinctLines) {
+        assert.ok(!others.some((content) => content.split('\n').some((otherLine) => otherLine.trim() === line)), line)
+      }
+    }
+  })
+
+  it('keeps one of several near-duplicates and counts the rest', async () => {
+    // Any shared trigram makes two drafts duplicates at this threshold
+    const { variations, duplicatesDropped } = await generateVariations({
+      ...REQUEST,
+      variants: 3,
+      diversity: { maxSimilarity: 0.001 },
+    })
+
+    assert.ok(variations.length < 3)
+    assert.ok(duplicatesDropped > 0)
+    for (let i = 0; i < variations.length; i++) {
+      for (let j = i + 1; j < variations.length; j++) {
+        assert.ok(draftSimilarity(variations[i].content, variations[j].content) < 0.001)
+      }
+    }
+  })
+
+  it('rejects requests it cannot satisfy', async () => {
+    await assert.rejects(generateVariations({ ...REQUEST, variants: 0 }), VariationRequestError)
+    await assert.rejects(generateVariations({ ...REQUEST, variants: MAX_VARIANTS + 1 }), VariationRequestError)
+    await assert.rejects(generateVariations({ ...REQUEST, variants: 2, diversity: { maxSimilarity: 0 } }), VariationRequestError)
+  })
+
+  it('scores with the patterns of the given workspace', async () => {
+    await assert.rejects(generateVariations({ ...REQUEST, variants: 2, workspace: 'Not A Workspace' }), InvalidWorkspaceError)
+  })
+})
+
+describe('draftSimilarity', () => {
+  it('compares word trigrams, ignoring case and punctuation', () => {
+    assert.equal(draftSimilarity('Cold email is not dead.', 'cold email, is NOT dead'), 1)
+    assert.equal(draftSimilarity('Cold email is not dead', 'Warm intros always win'), 0)
+    // 2 shared trigrams out of 4 distinct ones
+    assert.equal(draftSimilarity('one two three four five', 'one two three four six'), 0.5)
+  })
+
+  it('compares short drafts as word sets', () => {
+    assert.equal(draftSimilarity('Ship it', 'ship IT'), 1)
+    assert.equal(draftSimilarity('', ''), 1)
+  })
+})
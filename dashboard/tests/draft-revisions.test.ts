@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+
+import { deleteRevisions, getLatestRevision, listRevisions, recordRevision, revertDraft } from '@/lib/draft-revisions'
+import { InvalidWorkspaceError } from '@/lib/pattern-registry'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+
+// KV list results lag recent writes; this store's lag never ends
+class StaleListStore extends MemoryKeyValueStore {
+  async list(): Promise<string[]> {
+    return []
+  }
+}
+
+afterEach(() => {
+  setKVStore(null)
+})
+
+describe('draft revision numbering', () => {
+  it('numbers revisions without listing keys', async () => {
+    setKVStore(new StaleListStore())
+
+    await recordRevision('draft-1', 'First take on cold email.', 'linkedin')
+    await recordRevision('draft-1', 'Second take on cold email.', 'linkedin')
+    const third = await recordRevision('draft-1', 'Third take on cold email.', 'linkedin')
+
+    assert.equal(third.number, 3)
+    assert.ok(third.scores.before, 'scored against revision 2')
+    assert.equal((await getLatestRevision('draft-1'))?.content, 'Third take on cold email.')
+    assert.deepEqual((await listRevisions('draft-1')).map((revision) => revision.number), [1, 2, 3])
+  })
+
+  it('deletes every revision and the head', async () => {
+    setKVStore(new StaleListStore())
+    await recordRevision('draft-1', 'First take on cold email.', 'linkedin')
+    await recordRevision('draft-1', 'Second take on cold email.', 'linkedin')
+
+    assert.equal(await deleteRevisions('draft-1'), 2)
+    assert.equal(await getLatestRevision('draft-1'), null)
+    assert.deepEqual(await listRevisions('draft-1'), [])
+  })
+})
+
+describe('revision scoring', () => {
+  it('scores with the patterns of the given workspace', async () => {
+    setKVStore(new MemoryKeyValueStore())
+    await recordRevision('draft-1', 'First take on cold email.', 'linkedin')
+
+    await assert.rejects(recordRevision('draft-1', 'RIP cold calling.', 'linkedin', 'Not A Workspace'), InvalidWorkspaceError)
+    await assert.rejects(revertDraft('draft-1', 1, 'Not A Workspace'), InvalidWorkspaceError)
+  })
+})
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { DraftValidationError, createDraft, getDraft, listDrafts, updateDraft } from '@/lib/drafts'
+import { InvalidWorkspaceError } from '@/lib/pattern-registry'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+
+beforeEach(() => {
+  setKVStore(new MemoryKeyValueStore())
+})
+
+afterEach(() => {
+  setKVStore(null)
+})
+
+describe('createDraft', () => {
+  it('starts a draft at the beginning of the workflow', async () => {
+    assert.equal((await createDraft({ platform: 'linkedin', content: 'RIP cold calling.' })).status, 'draft')
+    assert.equal((await createDraft({ platform: 'linkedin', content: '', status: 'idea' })).status, 'idea')
+  })
+
+  it('rejects a draft created as published or scheduled', async () => {
+    await assert.rejects(createDraft({ platform: 'linkedin', content: 'RIP cold calling.', status: 'published' }), DraftValidationError)
+    await assert.rejects(
+      createDraft({ platform: 'linkedin', content: 'RIP cold calling.', status: 'scheduled', scheduledFor: '2026-11-01T09:00:00.000Z' }),
+      DraftValidationError
+    )
+    assert.deepEqual(await listDrafts(), [])
+  })
+})
+
+describe('draft workspaces', () => {
+  it('scores the text with the given workspace and saves nothing when it is unknown', async () => {
+    await assert.rejects(
+      createDraft({ platform: 'linkedin', content: 'RIP cold calling.' }, 'Not A Workspace'),
+      InvalidWorkspaceError
+    )
+    assert.deepEqual(await listDrafts(), [])
+
+    const draft = await createDraft({ platform: 'linkedin', content: 'RIP cold calling.' })
+    await assert.rejects(updateDraft(draft.id, { content: 'Cold calling is back.' }, undefined, 'Not A Workspace'), InvalidWorkspaceError)
+    assert.equal((await getDraft(draft.id))?.content, 'RIP cold calling.')
+  })
+})
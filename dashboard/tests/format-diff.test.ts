@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import type { ContentFormat } from '@/lib/agent-skills'
+import { diffFormats, isEmptyDiff } from '@/lib/format-diff'
+import { BodyType, CTAType, HookType } from '@/lib/types/social-media'
+
+function format(id: string, overrides: Partial<ContentFormat> = {}): ContentFormat {
+  return {
+    id,
+    name: id,
+    description: 'Numbered lessons with a question at the end',
+    hookType: HookType.LIST,
+    bodyStructure: BodyType.LISTICLE,
+    ctaType: CTAType.QUESTION_TO_AUDIENCE,
+    template: '[HOOK]\n\n[POINTS]\n\n[CTA]',
+    example: '',
+    platform: 'linkedin',
+    effectivenessIndicators: ['numbered list'],
+    sourcePosts: [],
+    createdAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('diffFormats', () => {
+  it('reports nothing for the same formats', () => {
+    const formats = [format('listicle'), format('story', { hookType: HookType.STORY, bodyStructure: BodyType.STORY_DRIVEN })]
+    const diff = diffFormats(formats, formats.map((entry) => ({ ...entry })))
+
+    assert.equal(isEmptyDiff(diff), true)
+    assert.equal(diff.unchanged.length, 2)
+  })
+
+  it('pairs renamed formats by structure and lists the changed fields', () => {
+    const diff = diffFormats(
+      [format('lessons-listicle')],
+      [format('numbered-lessons', { name: 'Numbered lessons', template: '[HOOK]\n\n[POINTS]' })]
+    )
+
+    assert.deepEqual(diff.added, [])
+    assert.deepEqual(diff.removed, [])
+    assert.equal(diff.changed.length, 1)
+    assert.deepEqual(
+      diff.changed[0].changes.map((change) => change.field),
+      ['name', 'template']
+    )
+    assert.equal(diff.changed[0].before.id, 'lessons-listicle')
+  })
+
+  it('pairs by id before structure so a lookalike cannot steal the match', () => {
+    const previous = [format('a'), format('b', { description: 'Other' })]
+    const next = [format('b', { description: 'Other' }), format('c')]
+    const diff = diffFormats(previous, next)
+
+    assert.deepEqual(diff.unchanged.map((entry) => entry.id), ['b'])
+    assert.deepEqual(diff.changed.map((entry) => [entry.before.id, entry.after.id]), [['a', 'c']])
+  })
+
+  it('reports added and removed formats', () => {
+    const story = format('story', { hookType: HookType.STORY, bodyStructure: BodyType.STORY_DRIVEN })
+    const debate = format('debate', { ctaType: CTAType.DEBATE })
+    const diff = diffFormats([format('listicle'), story], [format('listicle'), debate])
+
+    assert.deepEqual(diff.added.map((entry) => entry.id), ['debate'])
+    assert.deepEqual(diff.removed.map((entry) => entry.id), ['story'])
+  })
+
+  it('ignores surrounding whitespace but not list order', () => {
+    const diff = diffFormats(
+      [format('listicle', { effectivenessIndicators: ['a', 'b'] })],
+      [format('listicle', { template: '[HOOK]\n\n[POINTS]\n\n[CTA]\n', effectivenessIndicators: ['b', 'a'] })]
+    )
+
+    assert.deepEqual(diff.changed[0].changes.map((change) => change.field), ['effectivenessIndicators'])
+  })
+})
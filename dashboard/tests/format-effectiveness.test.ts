@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import {
+  MAX_EXPLORATION_BONUS,
+  STALE_MEAN,
+  observe,
+  priorPosterior,
+  rankingValue,
+  type EffectivenessRanking,
+} from '@/lib/format-effectiveness'
+import { BodyType, CTAType, HookType, type EffectivenessPosterior, type FormatPattern } from '@/lib/types/social-media'
+
+const NOW = new Date('2026-06-01T00:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS)
+}
+
+// `posts` observations of `outcome`, the last one `age` days ago
+function history(posts: number, outcome: number, age: number): EffectivenessPosterior {
+  const at = daysAgo(age)
+  let posterior = priorPosterior(at.toISOString())
+  for (let i = 0; i < posts; i++) posterior = observe(posterior, outcome, at)
+  return posterior
+}
+
+function format(effectiveness: EffectivenessPosterior): FormatPattern {
+  return {
+    id: 'format',
+    name: 'Format',
+    description: '',
+    platform: 'linkedin',
+    hookType: HookType.QUESTION,
+    bodyType: BodyType.STORY_DRIVEN,
+    ctaType: CTAType.QUESTION_TO_AUDIENCE,
+    template: '',
+    examplePost: '',
+    tags: [],
+    effectivenessScore: 0,
+    effectiveness,
+    usageCount: 0,
+    createdAt: effectiveness.updatedAt,
+    updatedAt: effectiveness.updatedAt,
+  }
+}
+
+// Deterministic generator for Thompson draws
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32
+    return seed / 2 ** 32
+  }
+}
+
+describe('rankingValue', () => {
+  const fresh = format(history(20, 0.65, 0))
+  const stale = format(history(20, 0.65, 365))
+
+  for (const ranking of ['ucb', 'mean'] as EffectivenessRanking[]) {
+    it(`ranks a stale format below a fresh one with equal history (${ranking})`, () => {
+      assert.ok(rankingValue(stale, ranking, NOW) < rankingValue(fresh, ranking, NOW))
+    })
+  }
+
+  it('ranks a stale format below a fresh one with equal history (thompson, on average)', () => {
+    const average = (f: FormatPattern) => {
+      const random = seeded(7)
+      let total = 0
+      for (let i = 0; i < 500; i++) total += rankingValue(f, 'thompson', NOW, random)
+      return total / 500
+    }
+    assert.ok(average(stale) < average(fresh))
+  })
+
+  it('does not lift a stale poor performer above a fresh good one', () => {
+    const stalePoor = format(history(20, 0.2, 365))
+    assert.ok(rankingValue(stalePoor, 'ucb', NOW) < rankingValue(fresh, 'ucb', NOW))
+  })
+
+  it('falls back to STALE_MEAN once the evidence is old', () => {
+    assert.ok(Math.abs(rankingValue(stale, 'ucb', NOW) - STALE_MEAN) < 0.01)
+  })
+
+  it('keeps a format with no evidence below a proven one', () => {
+    const untried = format(priorPosterior(NOW.toISOString()))
+    const value = rankingValue(untried, 'ucb', NOW)
+    assert.equal(value, 0.5 + MAX_EXPLORATION_BONUS)
+    assert.ok(value < rankingValue(fresh, 'ucb', NOW))
+  })
+})
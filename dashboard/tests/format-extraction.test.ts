@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { extractFormats } from '@/lib/format-extraction'
+import type { ScrapedPost } from '@/lib/social-scraper'
+import { StructuredOutputError } from '@/lib/structured-output'
+
+const POSTS: ScrapedPost[] = [
+  {
+    platform: 'linkedin',
+    url: 'https://www.linkedin.com/posts/example_pricing-activity-1',
+    text: 'We raised our prices 40% last quarter.\n\nChurn went down.\n\nWhat stopped you from raising prices?',
+    likesCount: 1284,
+    commentsCount: 211,
+    sharesCount: 37,
+  },
+]
+
+const VALID = {
+  name: 'Contrarian Result → Question',
+  description: 'Lead with a counterintuitive outcome.',
+  hookType: 'counterintuitive',
+  bodyStructure: 'insight_sharing',
+  ctaType: 'question_to_audience',
+  template: '[COUNTERINTUITIVE RESULT]\n\n[WHY]\n\n[QUESTION]?',
+  platform: 'linkedin',
+}
+
+const originalFetch = globalThis.fetch
+let replies: string[] = []
+let requests = 0
+
+// Answers OpenRouter completions with the queued replies, in order
+beforeEach(() => {
+  process.env.OPENROUTER_API_KEY = 'test-key'
+  requests = 0
+  globalThis.fetch = async () => {
+    const content = replies[Math.min(requests++, replies.length - 1)]
+    return new Response(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }))
+  }
+})
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe('extractFormats', () => {
+  it('keeps the valid formats and reports the rejected ones', async () => {
+    replies = [JSON.stringify({
+      formats: [
+        VALID,
+        { ...VALID, name: 'Broken', hookType: 'not-a-hook' },
+        { ...VALID, name: 'Dated Listicle', hookType: 'list', bodyStructure: 'listicle' },
+      ],
+    })]
+
+    const result = await extractFormats(POSTS, 'openai/gpt-4o-mini')
+
+    assert.equal(requests, 1, 'a partially valid reply is not retried')
+    assert.deepEqual(result.formats.map((format) => format.name), ['Contrarian Result → Question', 'Dated Listicle'])
+    assert.equal(result.rejected.length, 1)
+    assert.equal(result.rejected[0].index, 1)
+    assert.match(result.rejected[0].errors[0], /^hookType: /)
+  })
+
+  it('asks for a fix when no format is valid', async () => {
+    replies = [
+      JSON.stringify([{ ...VALID, template: '' }]),
+      JSON.stringify([VALID]),
+    ]
+
+    const result = await extractFormats(POSTS, 'openai/gpt-4o-mini')
+
+    assert.equal(requests, 2)
+    assert.equal(result.attempts, 2)
+    assert.equal(result.formats.length, 1)
+    assert.deepEqual(result.rejected, [])
+  })
+
+  it('reports per-format issues when every attempt fails', async () => {
+    replies = [JSON.stringify({ formats: [{ ...VALID, ctaType: 42 }] })]
+
+    await assert.rejects(extractFormats(POSTS, 'openai/gpt-4o-mini'), (error: unknown) => {
+      assert.ok(error instanceof StructuredOutputError)
+      assert.equal(error.kind, 'validation')
+      assert.ok(error.issues.some((issue) => issue.path === '$.formats[0].ctaType'))
+      return true
+    })
+  })
+
+  it('accepts an empty list', async () => {
+    replies = ['{"formats": []}']
+
+    const result = await extractFormats(POSTS, 'openai/gpt-4o-mini')
+
+    assert.deepEqual(result.formats, [])
+    assert.equal(requests, 1)
+  })
+})
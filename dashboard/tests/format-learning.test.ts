@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import type { EmbeddingProvider } from '@/lib/embeddings'
+import { clearFormats, findBestMatch, getFormatById, learnFromPost } from '@/lib/format-learner'
+import { KVFormatRepository, setFormatRepository } from '@/lib/format-repository'
+import { listFormatSources } from '@/lib/format-sources'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+import { BodyType, CTAType, HookType, type FormatPattern, type ViralPost } from '@/lib/types/social-media'
+
+const POST: ViralPost = {
+  id: 'post-1',
+  platform: 'linkedin',
+  content: 'I spent 5 years cold emailing. Here is what I learned:\n\n1. Short subject lines win\n2. One ask per email\n3. Follow up twice\n\nWhat would you add?',
+  metrics: { likes: 1200, comments: 180, shares: 40 },
+  createdAt: '2026-10-01T00:00:00.000Z',
+}
+
+let repository: KVFormatRepository
+
+beforeEach(async () => {
+  const store = new MemoryKeyValueStore()
+  setKVStore(store)
+  repository = new KVFormatRepository(store)
+  setFormatRepository(repository)
+  await clearFormats()
+})
+
+afterEach(() => {
+  setFormatRepository(null)
+  setKVStore(null)
+})
+
+describe('learnFromPost', () => {
+  it('does not count the same post twice', async () => {
+    const learned = await learnFromPost(POST, undefined, undefined, { embeddingProvider: null })
+    const relearned = await learnFromPost(POST, undefined, undefined, { embeddingProvider: null })
+
+    assert.equal(relearned.id, learned.id)
+    assert.equal(relearned.usageCount, 1)
+    assert.deepEqual(relearned.effectiveness, learned.effectiveness)
+    assert.equal((await getFormatById(learned.id))?.usageCount, 1)
+    assert.equal((await listFormatSources(learned.id)).length, 1)
+  })
+
+  it('counts a different post in the same format', async () => {
+    const learned = await learnFromPost(POST, undefined, undefined, { embeddingProvider: null })
+    const next = await learnFromPost({ ...POST, id: 'post-2' }, undefined, undefined, { embeddingProvider: null })
+
+    assert.equal(next.id, learned.id)
+    assert.equal(next.usageCount, 2)
+    assert.notDeepEqual(next.effectiveness, learned.effectiveness)
+  })
+})
+
+describe('findBestMatch', () => {
+  // Every text lands on the same vector, so every embedded format is a full match
+  const provider: EmbeddingProvider = {
+    id: 'test:constant',
+    embed: async (texts) => texts.map(() => [1, 0]),
+  }
+
+  function format(id: string, text: string): FormatPattern {
+    const now = new Date().toISOString()
+    return {
+      id,
+      name: id,
+      description: text,
+      platform: 'linkedin',
+      hookType: HookType.LIST,
+      bodyType: BodyType.LISTICLE,
+      ctaType: CTAType.QUESTION_TO_AUDIENCE,
+      template: text,
+      examplePost: text,
+      tags: ['cold email'],
+      effectivenessScore: 60,
+      usageCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  it('scores a format with nothing to embed as semantically unrelated', async () => {
+    await repository.upsert(format('embedded', 'Cold email listicle'))
+    await repository.upsert(format('blank', ' '))
+
+    const matches = await findBestMatch('cold email', 'linkedin', { embeddingProvider: provider, limit: 2 })
+    const blank = matches.find((match) => match.formatId === 'blank')!
+    const embedded = matches.find((match) => match.formatId === 'embedded')!
+
+    assert.equal(blank.scores.semantic, null)
+    assert.equal(blank.matchScore, Math.round(blank.scores.keyword * 5) / 10)
+    assert.equal(embedded.scores.semantic, 100)
+    assert.equal(matches[0].formatId, 'embedded')
+  })
+})
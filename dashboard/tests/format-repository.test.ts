@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+
+import { getFormatById, getStoredFormats, learnFromPost } from '@/lib/format-learner'
+import { KVFormatRepository, setFormatRepository } from '@/lib/format-repository'
+import { MemoryKeyValueStore } from '@/lib/storage'
+import { BodyType, CTAType, HookType, type FormatPattern, type ViralPost } from '@/lib/types/social-media'
+
+function format(id: string): FormatPattern {
+  const now = '2026-10-01T00:00:00.000Z'
+  return {
+    id,
+    name: id,
+    description: 'Numbered lessons with a question at the end',
+    platform: 'linkedin',
+    hookType: HookType.LIST,
+    bodyType: BodyType.LISTICLE,
+    ctaType: CTAType.QUESTION_TO_AUDIENCE,
+    template: '[HOOK]\n\n[POINTS]\n\n[CTA]',
+    examplePost: '',
+    tags: [],
+    effectivenessScore: 60,
+    usageCount: 1,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+const POST: ViralPost = {
+  id: 'post-1',
+  platform: 'linkedin',
+  content: 'I spent 5 years cold emailing. Here is what I learned:\n\n1. Short subject lines win\n2. One ask per email\n3. Follow up twice\n\nWhat would you add?',
+  metrics: { likes: 1200, comments: 180, shares: 40 },
+  createdAt: '2026-10-01T00:00:00.000Z',
+}
+
+afterEach(() => {
+  setFormatRepository(null)
+})
+
+describe('KVFormatRepository', () => {
+  it('stores one entry per format and lists only format keys', async () => {
+    const store = new MemoryKeyValueStore()
+    const repository = new KVFormatRepository(store)
+    await store.put('skills:default', { unrelated: true })
+
+    await repository.upsert(format('a'))
+    await repository.upsert(format('b'))
+
+    assert.deepEqual(await store.list('format:'), ['format:a', 'format:b'])
+    assert.deepEqual((await repository.list()).map((stored) => stored.id).sort(), ['a', 'b'])
+    assert.equal((await repository.get('a'))?.name, 'a')
+    assert.equal(await repository.get('missing'), null)
+  })
+
+  it('deletes and clears without touching other keys', async () => {
+    const store = new MemoryKeyValueStore()
+    const repository = new KVFormatRepository(store)
+    await store.put('skills:default', { unrelated: true })
+    await repository.upsert(format('a'))
+    await repository.upsert(format('b'))
+
+    assert.equal(await repository.delete('a'), true)
+    assert.equal(await repository.delete('a'), false)
+    await repository.clear()
+
+    assert.deepEqual(await repository.list(), [])
+    assert.deepEqual(await store.list(''), ['skills:default'])
+  })
+})
+
+describe('format learner persistence', () => {
+  it('keeps learned formats in the store across repository instances', async () => {
+    const store = new MemoryKeyValueStore()
+    setFormatRepository(new KVFormatRepository(store))
+    const learned = await learnFromPost(POST)
+
+    // A new repository over the same store stands in for a fresh isolate
+    setFormatRepository(new KVFormatRepository(store))
+
+    assert.equal((await getFormatById(learned.id))?.examplePost, POST.content)
+    assert.ok((await getStoredFormats('linkedin')).some((stored) => stored.id === learned.id))
+  })
+})
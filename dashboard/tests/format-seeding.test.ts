@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { clearFormats, deleteFormat, getStoredFormats, initializeDefaultFormats } from '@/lib/format-learner'
+import { KVFormatRepository, setFormatRepository } from '@/lib/format-repository'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+import { BodyType, CTAType, HookType } from '@/lib/types/social-media'
+
+const STARTER_ID = 'linkedin-question-listicle'
+
+// A new repository over the same store stands in for a fresh isolate
+// reading the same KV namespace
+function startIsolate(store: MemoryKeyValueStore): KVFormatRepository {
+  const repository = new KVFormatRepository(store)
+  setFormatRepository(repository)
+  return repository
+}
+
+async function storedIds(): Promise<string[]> {
+  return (await getStoredFormats()).map((format) => format.id)
+}
+
+describe('starter format seeding', () => {
+  let store: MemoryKeyValueStore
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore()
+    setKVStore(store)
+  })
+
+  afterEach(() => {
+    setFormatRepository(null)
+    setKVStore(null)
+  })
+
+  it('seeds an empty namespace once and marks it', async () => {
+    const repository = startIsolate(store)
+    assert.ok((await storedIds()).includes(STARTER_ID))
+    assert.equal(await repository.isSeeded(), true)
+  })
+
+  it('keeps a deleted starter format deleted in the next isolate', async () => {
+    startIsolate(store)
+    await storedIds()
+    assert.equal(await deleteFormat(STARTER_ID), true)
+
+    startIsolate(store)
+    assert.ok(!(await storedIds()).includes(STARTER_ID))
+  })
+
+  it('does not re-seed after all formats are cleared', async () => {
+    startIsolate(store)
+    await storedIds()
+    await clearFormats()
+
+    startIsolate(store)
+    assert.deepEqual(await storedIds(), [])
+  })
+
+  it('treats a namespace that already holds formats as seeded', async () => {
+    const now = new Date().toISOString()
+    await new KVFormatRepository(store).upsert({
+      id: 'learned',
+      name: 'Learned',
+      description: '',
+      platform: 'linkedin',
+      hookType: HookType.STORY,
+      bodyType: BodyType.STORY_DRIVEN,
+      ctaType: CTAType.COMMENT_PROMPT,
+      template: '[STORY]',
+      examplePost: '',
+      tags: [],
+      effectivenessScore: 60,
+      usageCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    const repository = startIsolate(store)
+    assert.deepEqual(await storedIds(), ['learned'])
+    assert.equal(await repository.isSeeded(), true)
+  })
+
+  it('restores starter formats when seeding is asked for explicitly', async () => {
+    const repository = startIsolate(store)
+    await storedIds()
+    await deleteFormat(STARTER_ID)
+
+    await initializeDefaultFormats(repository)
+    assert.ok((await storedIds()).includes(STARTER_ID))
+  })
+})
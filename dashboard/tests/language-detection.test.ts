@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { detectLanguage, FALLBACK_LANGUAGE, MIN_LANGUAGE_CONFIDENCE } from '@/lib/language-detection'
+import { DEFAULT_PATTERN_CATALOG, selectPatternSet } from '@/lib/pattern-packs'
+import { analyzePost } from '@/lib/viral-analyzer'
+import { HookType } from '@/lib/types/social-media'
+
+describe('detectLanguage', () => {
+  it('does not read English acronyms as Romanian', () => {
+    const result = detectLanguage('AI SDRs beat human SDRs. AI agents, AI copilots, AI everything.')
+    assert.equal(result.language, 'en')
+  })
+
+  it('still counts the Romanian words in lowercase', () => {
+    const result = detectLanguage('Nu am știut asta până anul trecut: o echipă mică poate face mai mult decât crezi, dacă ai răbdare.')
+    assert.equal(result.language, 'ro')
+    assert.ok(result.confidence >= MIN_LANGUAGE_CONFIDENCE)
+  })
+
+  it('detects the other supported languages', () => {
+    assert.equal(detectLanguage('Warum die meisten Startups scheitern, und was ich daraus gelernt habe').language, 'de')
+    assert.equal(detectLanguage("Pourquoi la plupart des fondateurs ne parlent pas à leurs clients, et c'est un problème").language, 'fr')
+    assert.equal(detectLanguage('Por qué la mayoría de los fundadores no hablan con sus clientes y cómo cambiarlo').language, 'es')
+  })
+
+  it('falls back with zero confidence when there is no evidence', () => {
+    assert.deepEqual(detectLanguage('🚀🚀 #growth https://example.com/ro-de-la'), { language: FALLBACK_LANGUAGE, confidence: 0 })
+  })
+})
+
+describe('selectPatternSet', () => {
+  const english = DEFAULT_PATTERN_CATALOG.sets[FALLBACK_LANGUAGE]
+
+  it('uses the English set for a low-confidence detection', () => {
+    assert.equal(selectPatternSet(DEFAULT_PATTERN_CATALOG, { language: 'ro', confidence: MIN_LANGUAGE_CONFIDENCE - 0.01 }), english)
+  })
+
+  it('uses the detected language when confident', () => {
+    const set = selectPatternSet(DEFAULT_PATTERN_CATALOG, { language: 'de', confidence: 0.9 })
+    assert.equal(set, DEFAULT_PATTERN_CATALOG.sets.de)
+    assert.notEqual(set, english)
+  })
+
+  it('trusts an explicitly chosen language', () => {
+    assert.equal(selectPatternSet(DEFAULT_PATTERN_CATALOG, 'ro'), DEFAULT_PATTERN_CATALOG.sets.ro)
+  })
+
+  it('falls back to the built-in pack for languages the catalog lacks', () => {
+    const englishOnly = { ...DEFAULT_PATTERN_CATALOG, sets: { en: DEFAULT_PATTERN_CATALOG.sets.en } }
+    assert.equal(selectPatternSet(englishOnly, 'de'), DEFAULT_PATTERN_CATALOG.sets.de)
+  })
+})
+
+describe('analyzePost', () => {
+  it('matches a post against the pack for its language', () => {
+    const result = analyzePost({
+      id: 'post-de',
+      platform: 'linkedin',
+      content: 'Warum die meisten Startups scheitern.\n\nIch habe drei Firmen gegründet und dabei gelernt, dass es fast nie am Produkt liegt.\n\nWas denkst du?',
+      metrics: { likes: 80, comments: 12, shares: 4 },
+      createdAt: '2026-10-01T00:00:00.000Z',
+    })
+
+    assert.equal(result.language.language, 'de')
+    assert.equal(result.formatPattern.hookType, HookType.QUESTION)
+  })
+})
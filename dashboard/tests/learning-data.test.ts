@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { clearFormats, deleteFormat, getLearningData, learnFromPost } from '@/lib/format-learner'
+import { KVFormatRepository, setFormatRepository } from '@/lib/format-repository'
+import { listFormatSources } from '@/lib/format-sources'
+import { MemoryKeyValueStore, setKVStore } from '@/lib/storage'
+import type { PostMetrics, ViralPost } from '@/lib/types/social-media'
+import { parsePostContent } from '@/lib/viral-analyzer'
+
+function post(id: string, lessons: string[], metrics: PostMetrics): ViralPost {
+  return {
+    id,
+    platform: 'linkedin',
+    content: `I spent 5 years doing sales. Here is what I learned:\n\n${lessons.map((lesson, i) => `${i + 1}. ${lesson}`).join('\n')}\n\nWhat would you add?`,
+    metrics,
+    createdAt: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+const SHORT = post('short', ['Short subject lines win', 'One ask per email', 'Follow up twice'], { likes: 100, comments: 10, shares: 0 })
+const LONG = post('long', ['Short subject lines win for every founder', 'One ask per email', 'Follow up twice'], { likes: 400, comments: 50, shares: 20 })
+
+beforeEach(async () => {
+  const store = new MemoryKeyValueStore()
+  setKVStore(store)
+  setFormatRepository(new KVFormatRepository(store))
+  await clearFormats()
+})
+
+afterEach(() => {
+  setFormatRepository(null)
+  setKVStore(null)
+})
+
+describe('getLearningData', () => {
+  it('reports statistics observed on the learned posts', async () => {
+    const format = await learnFromPost(SHORT)
+    assert.equal((await learnFromPost(LONG)).id, format.id)
+
+    const data = await getLearningData(format.id)
+    assert.ok(data)
+    assert.equal(data.sampleSize, 2)
+    assert.deepEqual(data.successfulPosts.map((learned) => learned.id), ['long', 'short'])
+    // likes + 2·comments + 3·shares: 120 and 560
+    assert.equal(data.averageEngagement, 340)
+    assert.deepEqual(data.averageMetrics, { likes: 250, comments: 30, shares: 10 })
+    assert.ok(data.lengthPercentiles)
+    assert.ok(data.lengthPercentiles.words.p25 < data.lengthPercentiles.words.p75)
+    // The better-engaging half is the long post alone
+    assert.equal(data.optimalPostLength.optimal, parsePostContent(LONG.content).wordCount)
+    assert.deepEqual(data.topicPerformance.find((entry) => entry.topic === 'marketing'), { topic: 'marketing', posts: 2, averageEngagement: 340 })
+    // Only the long post mentions founders
+    assert.equal(data.bestPerformingTopics[0], 'entrepreneurship')
+  })
+
+  it('falls back to defaults until a post with engagement is learned', async () => {
+    const format = await learnFromPost({ ...SHORT, metrics: { likes: 0, comments: 0, shares: 0 } })
+
+    const data = await getLearningData(format.id)
+    assert.ok(data)
+    assert.equal(data.sampleSize, 0)
+    assert.equal(data.lengthPercentiles, null)
+    assert.equal(data.averageViralityScore, null)
+    assert.deepEqual(await listFormatSources(format.id), [])
+  })
+
+  it('keeps one source entry per post and drops them with the format', async () => {
+    const format = await learnFromPost(SHORT)
+    await learnFromPost(SHORT)
+    assert.equal((await listFormatSources(format.id)).length, 1)
+
+    await deleteFormat(format.id)
+    assert.deepEqual(await listFormatSources(format.id), [])
+  })
+})
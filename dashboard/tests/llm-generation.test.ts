@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { ContentGenerationError, FormatNotFoundError, generatePostWithLLM } from '@/lib/content-generator'
+import { getFormatById } from '@/lib/format-learner'
+import { InMemoryFormatRepository, setFormatRepository } from '@/lib/format-repository'
+
+const originalFetch = globalThis.fetch
+const env = { ...process.env }
+let completions = 0
+
+function replyWith(content: string) {
+  globalThis.fetch = async () => {
+    completions++
+    return new Response(JSON.stringify({ id: 'gen-1', choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }] }))
+  }
+}
+
+beforeEach(() => {
+  process.env.OPENROUTER_API_KEY = 'test-key'
+  process.env.EMBEDDING_PROVIDER = 'hashing'
+  setFormatRepository(new InMemoryFormatRepository())
+  completions = 0
+})
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+  process.env = { ...env }
+  setFormatRepository(null)
+})
+
+describe('generatePostWithLLM', () => {
+  it('picks a stored format when none is given and fills in a missing hook', async () => {
+    replyWith('```json\n{"content": "Cold email is not dead.\\n\\nIt is just lazy.", "hashtags": ["sales", "#outbound"]}\n```')
+
+    const post = await generatePostWithLLM({ topic: 'cold email', platform: 'linkedin' })
+
+    assert.ok(await getFormatById(post.format.id), post.format.id)
+    assert.equal(post.format.matchScore !== undefined, true)
+    assert.equal(post.hook, 'Cold email is not dead.')
+    assert.equal(post.cta, '')
+    assert.deepEqual(post.hashtags, ['#sales', '#outbound'])
+    assert.equal(completions, 1)
+  })
+
+  it('joins thread tweets when the reply has no content field', async () => {
+    replyWith(JSON.stringify({ isThread: true, threadContent: ['Cold email is not dead.', 'It is just lazy.'] }))
+
+    const post = await generatePostWithLLM({ topic: 'cold email', platform: 'twitter', includeHashtags: false })
+
+    assert.equal(post.content, 'Cold email is not dead.\n\nIt is just lazy.')
+    assert.equal(post.isThread, true)
+    assert.deepEqual(post.threadContent, ['Cold email is not dead.', 'It is just lazy.'])
+    assert.deepEqual(post.hashtags, [])
+  })
+
+  it('rejects an unknown format before calling the model', async () => {
+    replyWith('{"content": "unused"}')
+
+    await assert.rejects(
+      generatePostWithLLM({ topic: 'cold email', platform: 'linkedin', formatId: 'no-such-format' }),
+      FormatNotFoundError
+    )
+    assert.equal(completions, 0)
+  })
+
+  it('rejects replies without usable content', async () => {
+    replyWith('Sorry, I cannot help with that.')
+    await assert.rejects(generatePostWithLLM({ topic: 'cold email', platform: 'linkedin' }), ContentGenerationError)
+
+    replyWith('{"content": "  ", "hook": "Cold email is not dead."}')
+    await assert.rejects(generatePostWithLLM({ topic: 'cold email', platform: 'linkedin' }), ContentGenerationError)
+  })
+})
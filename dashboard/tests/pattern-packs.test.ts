@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { MAX_PATTERN_LENGTH, PatternPackError, validatePatternPack } from '@/lib/pattern-packs'
+
+function packWithHook(pattern: string) {
+  return {
+    schemaVersion: 1,
+    id: 'gtm-hooks',
+    version: '1.0.0',
+    name: 'GTM hooks',
+    hooks: [{ id: 'obituary', type: 'bold_statement', patterns: [pattern] }],
+  }
+}
+
+function rejectedPattern(pattern: string): string | undefined {
+  try {
+    validatePatternPack(packWithHook(pattern))
+    return undefined
+  } catch (error) {
+    assert.ok(error instanceof PatternPackError)
+    return error.issues.find((issue) => issue.path.startsWith('$.hooks[0].patterns[0]'))?.message
+  }
+}
+
+describe('uploaded pattern guard', () => {
+  it('accepts ordinary patterns, bounded repeats included', () => {
+    assert.equal(rejectedPattern('^rip [a-z ]{1,40}\\.$'), undefined)
+    assert.equal(rejectedPattern('^i (built|made) (an? |the )?(ai )?(agent|workflow)s?'), undefined)
+    assert.equal(rejectedPattern('[(+*)]+ and \\(escaped\\)+'), undefined)
+  })
+
+  it('rejects patterns that repeat a repeating group', () => {
+    assert.match(rejectedPattern('^(a+)+$') ?? '', /repeats a group/)
+    assert.match(rejectedPattern('(\\w+\\s?)*$') ?? '', /repeats a group/)
+    assert.match(rejectedPattern('((ab)*c){2,}') ?? '', /repeats a group/)
+    assert.match(rejectedPattern('(?:x{1,9}y)+') ?? '', /repeats a group/)
+  })
+
+  it('rejects backreferences', () => {
+    assert.match(rejectedPattern('(\\w+) \\1') ?? '', /backreference/)
+  })
+
+  it('rejects overly long patterns', () => {
+    assert.match(rejectedPattern('a'.repeat(MAX_PATTERN_LENGTH + 1)) ?? '', /longer than/)
+  })
+})
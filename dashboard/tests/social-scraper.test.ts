@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it } from 'node:test'
+
+import { normalizeLinkedInItem } from '@/lib/apify-linkedin'
+import { collectThreads, normalizeXItem, tweetIdFromUrl } from '@/lib/apify-x'
+import { getScraper, normalizeItems, routeUrls, scraperForUrl, toViralPost, type SocialScraper } from '@/lib/social-scraper'
+
+function dataset(name: string): any[] {
+  return JSON.parse(readFileSync(join(__dirname, '../fixtures/apify/datasets', name), 'utf8'))
+}
+
+function scraper(platform: string): SocialScraper {
+  const found = getScraper(platform)
+  assert.ok(found, `no scraper for ${platform}`)
+  return found
+}
+
+const THREAD_ID = '1845112233445566778'
+const QUOTE_ID = '1845300000000000042'
+
+describe('host detection', () => {
+  for (const url of [
+    'https://x.com/buildwithmaya/status/1845112233445566778',
+    'https://www.x.com/buildwithmaya/status/1845112233445566778',
+    'https://mobile.x.com/buildwithmaya/status/1845112233445566778',
+    'https://twitter.com/buildwithmaya/status/1845112233445566778',
+    'https://mobile.twitter.com/buildwithmaya/status/1845112233445566778',
+    'https://WWW.Twitter.com/buildwithmaya/status/1845112233445566778',
+  ]) {
+    it(`routes ${new URL(url).hostname} to X`, () => {
+      assert.equal(scraperForUrl(url)?.platform, 'twitter')
+    })
+  }
+
+  for (const url of [
+    'https://www.linkedin.com/posts/example_pricing-lessons-activity-7190000000000000003',
+    'https://linkedin.com/feed/update/urn:li:activity:7190000000000000003',
+    'https://uk.linkedin.com/posts/example_pricing-lessons-activity-7190000000000000003',
+  ]) {
+    it(`routes ${new URL(url).hostname} to LinkedIn`, () => {
+      assert.equal(scraperForUrl(url)?.platform, 'linkedin')
+    })
+  }
+
+  it('rejects look-alike hosts and invalid URLs', () => {
+    assert.equal(scraperForUrl('https://notx.com/a/status/1'), null)
+    assert.equal(scraperForUrl('https://linkedin.com.evil.example/posts/1'), null)
+    assert.equal(scraperForUrl('not a url'), null)
+  })
+
+  it('groups URLs by platform and reports the rest', () => {
+    const { groups, unsupported } = routeUrls([
+      'https://x.com/a/status/1',
+      'https://www.linkedin.com/posts/b',
+      'https://mobile.x.com/c/status/2',
+      'https://example.com/post',
+    ])
+    assert.deepEqual(
+      groups.map((group) => [group.scraper.platform, group.urls.length]),
+      [['twitter', 2], ['linkedin', 1]]
+    )
+    assert.deepEqual(unsupported, ['https://example.com/post'])
+  })
+
+  it('reads tweet ids from status URLs', () => {
+    assert.equal(tweetIdFromUrl('https://x.com/a/status/1845112233445566778?s=20'), '1845112233445566778')
+    assert.equal(tweetIdFromUrl('https://twitter.com/a/statuses/42'), '42')
+    assert.equal(tweetIdFromUrl('https://x.com/a'), null)
+  })
+})
+
+describe('normalizeXItem', () => {
+  const items = dataset('x-tweet-scraper.json')
+
+  it('maps a tweet-scraper item', () => {
+    const post = normalizeXItem(items[1])
+    assert.deepEqual(post, {
+      platform: 'twitter',
+      id: THREAD_ID,
+      threadId: THREAD_ID,
+      url: `https://x.com/buildwithmaya/status/${THREAD_ID}`,
+      text: items[1].fullText,
+      likesCount: 3840,
+      commentsCount: 97,
+      sharesCount: 412 + 38,
+      repostsCount: 412,
+      authorName: 'Maya Build',
+      authorHandle: 'buildwithmaya',
+      authorHeadline: 'Bootstrapped to $2M ARR. Writing about what worked.',
+      publishedAt: 'Sat Oct 12 14:02:29 +0000 2026',
+    })
+  })
+
+  it('keeps only the quoting text of a quote tweet', () => {
+    const post = normalizeXItem(items.find((item) => item.id === QUOTE_ID))
+    assert.equal(post?.text, 'This is the most underrated advice in SaaS. Rule 3 alone would have saved my first company.')
+    assert.equal(post?.threadId, QUOTE_ID)
+    assert.equal(post?.sharesCount, 57 + 5)
+  })
+
+  it('drops placeholder items', () => {
+    assert.equal(normalizeXItem({ noResults: true }), null)
+    assert.equal(normalizeXItem(items.find((item) => item.type === 'mock_tweet')), null)
+    assert.equal(normalizeXItem({ id: '1', text: '   ' }), null)
+  })
+
+  it('reads v1 API field names', () => {
+    const post = normalizeXItem({
+      id_str: '20',
+      full_text: 'just setting up my twttr',
+      favorite_count: 150000,
+      reply_count: 9,
+      retweet_count: 120000,
+      created_at: 'Tue Mar 21 20:50:14 +0000 2006',
+      user: { screen_name: 'jack', name: 'jack', description: '' },
+    })
+    assert.equal(post?.url, 'https://x.com/jack/status/20')
+    assert.equal(post?.likesCount, 150000)
+    assert.equal(post?.sharesCount, 120000)
+    assert.equal(post?.threadId, undefined)
+  })
+})
+
+describe('collectThreads', () => {
+  it('orders parts by tweet id, not by dataset order', () => {
+    const posts = dataset('x-tweet-scraper.json')
+      .map(normalizeXItem)
+      .filter((post) => post !== null)
+    const thread = collectThreads(posts).find((post) => post.threadId === THREAD_ID)
+
+    assert.ok(thread?.parts)
+    assert.deepEqual(
+      thread.parts.map((part) => part.url?.split('/').pop()),
+      ['1845112233445566778', '1845112233445566779', '1845112233445566780']
+    )
+    assert.deepEqual(thread.parts.map((part) => part.position), [1, 2, 3])
+  })
+
+  it('compares ids of different lengths numerically', () => {
+    const post = (id: string) => ({
+      platform: 'twitter' as const,
+      id,
+      threadId: '999',
+      url: `https://x.com/a/status/${id}`,
+      text: `part ${id}`,
+      likesCount: 0,
+      commentsCount: 0,
+      sharesCount: 0,
+      authorHandle: 'a',
+    })
+    const [thread] = collectThreads([post('1000'), post('999')])
+    assert.deepEqual(thread.parts?.map((part) => part.text), ['part 999', 'part 1000'])
+  })
+})
+
+describe('normalizeItems', () => {
+  it('folds an X thread into one post and keeps the quote tweet separate', () => {
+    const items = dataset('x-tweet-scraper.json')
+    const posts = normalizeItems(scraper('twitter'), items)
+
+    assert.deepEqual(posts.map((post) => post.id), [THREAD_ID, QUOTE_ID])
+
+    const [thread, quote] = posts
+    assert.equal(thread.parts?.length, 3)
+    assert.equal(thread.text, thread.parts?.map((part) => part.text).join('\n\n'))
+    assert.ok(thread.text.startsWith('I bootstrapped to $2M ARR'))
+    assert.ok(!thread.text.includes('@buildwithmaya'), 'replies from others are not thread parts')
+    // Engagement is the thread opener's
+    assert.equal(thread.likesCount, 3840)
+    assert.equal(quote.parts, undefined)
+  })
+
+  it('normalizes LinkedIn items from both actor shapes and drops page chrome', () => {
+    const posts = normalizeItems(scraper('linkedin'), dataset('linkedin-post-scraper.json'))
+
+    assert.deepEqual(
+      posts.map((post) => post.url.split('/').pop()),
+      ['example_pricing-lessons-activity-7190000000000000003', 'example_remote-work-activity-7190000000000000005']
+    )
+    assert.ok(posts.every((post) => post.platform === 'linkedin'))
+  })
+})
+
+describe('normalizeLinkedInItem', () => {
+  const items = dataset('linkedin-post-scraper.json')
+
+  it('maps a dedicated post scraper item', () => {
+    assert.deepEqual(normalizeLinkedInItem(items[0]), {
+      platform: 'linkedin',
+      url: items[0].url,
+      text: items[0].text,
+      likesCount: 1284,
+      commentsCount: 211,
+      sharesCount: 37,
+      authorName: 'Example Founder',
+      authorHeadline: 'CEO at Example | Bootstrapped SaaS',
+      publishedAt: '2026-10-08T07:30:00.000Z',
+    })
+  })
+
+  it('falls back to markdown and crawler metadata', () => {
+    const post = normalizeLinkedInItem(items[2])
+    assert.ok(post.text.startsWith('# Remote work did not kill our culture'))
+    assert.equal(post.authorName, 'Example Founder')
+    assert.equal(post.likesCount, 0)
+  })
+
+  it('carries real engagement into the analyzer shape', () => {
+    const viral = toViralPost(normalizeLinkedInItem(items[0]))
+    assert.equal(viral.id, items[0].url)
+    assert.deepEqual(viral.metrics, { likes: 1284, comments: 211, shares: 37 })
+    assert.equal(viral.createdAt, '2026-10-08T07:30:00.000Z')
+  })
+})
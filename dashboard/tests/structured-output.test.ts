@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { parseJsonLoose, stripCodeFences, StructuredOutputError } from '@/lib/structured-output'
+
+describe('stripCodeFences', () => {
+  it('unwraps a fenced reply', () => {
+    assert.equal(stripCodeFences('```json\n{"a": 1}\n```'), '{"a": 1}')
+    assert.equal(stripCodeFences('  ```\n[1, 2]\n```\n'), '[1, 2]')
+  })
+
+  it('runs an unterminated fence to the end', () => {
+    assert.equal(stripCodeFences('```json\n{"a": [1, 2'), '{"a": [1, 2')
+  })
+
+  it('unwraps a single-line fence', () => {
+    assert.equal(stripCodeFences('```json {"a": 1}```'), '{"a": 1}')
+  })
+
+  it('leaves text that does not start with a fence alone', () => {
+    const text = '{"text": "wrap it in ```code``` fences"}'
+    assert.equal(stripCodeFences(text), text)
+  })
+
+  it('does not close the fence on backticks inside a line', () => {
+    assert.equal(
+      stripCodeFences('```json\n{"text": "use ``` fences"}\n```'),
+      '{"text": "use ``` fences"}'
+    )
+  })
+})
+
+describe('parseJsonLoose', () => {
+  it('parses JSON whose strings mention fences', () => {
+    assert.deepEqual(parseJsonLoose('{"text":"use ``` fences"}'), { text: 'use ``` fences' })
+    assert.deepEqual(
+      parseJsonLoose('{"template": "```\\n[CODE]\\n```", "n": 2}'),
+      { template: '```\n[CODE]\n```', n: 2 }
+    )
+  })
+
+  it('parses a fenced reply', () => {
+    assert.deepEqual(parseJsonLoose('```json\n{"formats": []}\n```'), { formats: [] })
+  })
+
+  it('slices JSON out of surrounding prose', () => {
+    assert.deepEqual(parseJsonLoose('Here you go:\n{"a": {"b": 2}}\nHope that helps!'), { a: { b: 2 } })
+  })
+
+  it('repairs a truncated reply', () => {
+    assert.deepEqual(parseJsonLoose('```json\n{"items": ["one", "tw'), { items: ['one', 'tw'] })
+    assert.deepEqual(parseJsonLoose('{"a": 1, "b": [1, 2,], }'), { a: 1, b: [1, 2] })
+  })
+
+  it('throws a parse error when there is no JSON', () => {
+    assert.throws(
+      () => parseJsonLoose('Sorry, I cannot help with that.'),
+      (error: unknown) => error instanceof StructuredOutputError && error.kind === 'parse'
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import {
+  BODY_LABELS,
+  BODY_TYPES,
+  CTA_LABELS,
+  CTA_TYPES,
+  HOOK_LABELS,
+  HOOK_TYPES,
+  normalizeFormatPattern,
+  parseContentFormat,
+  parseContentFormats,
+  toBodyType,
+  toCTAType,
+  toHookType,
+  toPlatform,
+} from '@/lib/taxonomy'
+import { BodyType, CTAType, HookType, type FormatPattern } from '@/lib/types/social-media'
+
+describe('taxonomy aliases', () => {
+  it('resolves every canonical value and label back to itself', () => {
+    for (const value of HOOK_TYPES) {
+      assert.equal(toHookType(value), value)
+      assert.equal(toHookType(HOOK_LABELS[value]), value, HOOK_LABELS[value])
+    }
+    for (const value of BODY_TYPES) {
+      assert.equal(toBodyType(value), value)
+      assert.equal(toBodyType(BODY_LABELS[value]), value, BODY_LABELS[value])
+    }
+    for (const value of CTA_TYPES) {
+      assert.equal(toCTAType(value), value)
+      assert.equal(toCTAType(CTA_LABELS[value]), value, CTA_LABELS[value])
+    }
+  })
+
+  it('maps the new enums from their labels and legacy names in any casing', () => {
+    assert.equal(toHookType('Myth Buster'), HookType.MYTH_BUSTER)
+    assert.equal(toHookType('myth'), HookType.MYTH_BUSTER)
+    assert.equal(toHookType('Counterintuitive Take'), HookType.COUNTERINTUITIVE)
+    assert.equal(toHookType('failure-admission'), HookType.FAILURE_ADMISSION)
+    assert.equal(toBodyType('Before-After'), BodyType.BEFORE_AFTER)
+    assert.equal(toBodyType('MYTH_BUSTER'), BodyType.MYTH_BUSTING)
+    assert.equal(toCTAType('Agree/Disagree'), CTAType.DEBATE)
+    assert.equal(toCTAType('soft sell'), CTAType.SOFT_SELL)
+  })
+
+  it('maps legacy agent-skill names onto canonical values', () => {
+    assert.equal(toHookType('hot_take'), HookType.CONTROVERSIAL_TAKE)
+    assert.equal(toHookType('listicle'), HookType.LIST)
+    assert.equal(toBodyType('numbered_list'), BodyType.LISTICLE)
+    assert.equal(toBodyType('story_arc'), BodyType.STORY_DRIVEN)
+    assert.equal(toCTAType('follow_for_more'), CTAType.FOLLOW_UP)
+  })
+
+  it('returns null for unknown values and non-strings', () => {
+    assert.equal(toHookType('interpretive dance'), null)
+    assert.equal(toBodyType(42), null)
+    assert.equal(toCTAType(undefined), null)
+    assert.equal(toPlatform('X'), 'twitter')
+    assert.equal(toPlatform('mastodon'), null)
+  })
+})
+
+describe('parseContentFormat', () => {
+  it('normalizes aliases and accepts FormatPattern field names', () => {
+    const result = parseContentFormat({
+      name: 'Hot take listicle',
+      hookType: 'Hot Take',
+      bodyType: 'numbered list',
+      ctaType: 'agree_disagree',
+      template: '[HOOK]\n\n[POINTS]\n\n[CTA]',
+      examplePost: 'Cold calling is dead.',
+      platform: 'x',
+    })
+
+    assert.ok(result.ok)
+    assert.equal(result.format.id, 'hot-take-listicle')
+    assert.equal(result.format.hookType, HookType.CONTROVERSIAL_TAKE)
+    assert.equal(result.format.bodyStructure, BodyType.LISTICLE)
+    assert.equal(result.format.ctaType, CTAType.DEBATE)
+    assert.equal(result.format.example, 'Cold calling is dead.')
+    assert.equal(result.format.platform, 'twitter')
+  })
+
+  it('reports every invalid field', () => {
+    const result = parseContentFormat({ name: ' ', hookType: 'shrug', bodyStructure: 'listicle', ctaType: 'nope', template: '' })
+
+    assert.ok(!result.ok)
+    assert.equal(result.errors.length, 4)
+    for (const field of ['name', 'template', 'hookType', 'ctaType']) {
+      assert.ok(result.errors.some((error) => error.includes(field)), field)
+    }
+  })
+
+  it('keeps valid formats and reports rejected ones by index', () => {
+    const valid = { name: 'Story', hookType: 'story', bodyStructure: 'story', ctaType: 'question', template: '[HOOK]' }
+    const { formats, rejected } = parseContentFormats([valid, { name: 'Broken' }, valid])
+
+    assert.equal(formats.length, 2)
+    assert.deepEqual(rejected.map((entry) => entry.index), [1])
+  })
+})
+
+describe('normalizeFormatPattern', () => {
+  it('maps imported legacy values and falls back for unknown ones', () => {
+    const pattern = {
+      hookType: 'hot_take',
+      bodyType: 'interpretive dance',
+      ctaType: 'save',
+    } as unknown as FormatPattern
+
+    const normalized = normalizeFormatPattern(pattern)
+    assert.equal(normalized.hookType, HookType.CONTROVERSIAL_TAKE)
+    assert.equal(normalized.bodyType, BodyType.NARRATIVE)
+    assert.equal(normalized.ctaType, CTAType.SAVE_FOR_LATER)
+  })
+})
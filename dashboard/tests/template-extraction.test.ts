@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { renderTemplate } from '@/lib/template-engine'
+import { extractTemplate } from '@/lib/template-extraction'
+
+const POST = [
+  'I grew my newsletter to 10,000 subscribers in 6 months with Beehiiv.',
+  '',
+  'We booked 12 demos in a week. Most came from referrals.',
+  '',
+  'Here is what worked:',
+  '',
+  '1. Block two hours for outreach every morning',
+  '2. Send the follow-up before the first email',
+  '3. Answer every reply within the hour',
+  '',
+  'Which one would you try first?',
+].join('\n')
+
+const SOURCE_TEXT = [
+  'Block two hours for outreach every morning',
+  'Send the follow-up before the first email',
+  'Answer every reply within the hour',
+  'We booked 12 demos in a week.',
+]
+
+describe('extractTemplate', () => {
+  it('replaces list items and claims and keeps the hook and CTA wording', () => {
+    const { template, values } = extractTemplate(POST, { hasCta: true })
+
+    assert.equal(
+      template,
+      [
+        'I grew my newsletter to [METRIC] subscribers in [TIMEFRAME] with [TOOL].',
+        '',
+        '[CLAIM] Most came from referrals.',
+        '',
+        'Here is what worked:',
+        '',
+        '1. [POINT]',
+        '2. [POINT]',
+        '3. [POINT]',
+        '',
+        'Which one would you try first?',
+      ].join('\n')
+    )
+    assert.deepEqual(values.CLAIM, ['We booked 12 demos in a week.'])
+    assert.equal(values.POINT?.length, 3)
+  })
+
+  it('restores the post from the extracted values', () => {
+    const { template, values } = extractTemplate(POST, { hasCta: true })
+    assert.equal(renderTemplate(template, values).text, POST)
+  })
+
+  it('fills into the same structure without the source text', () => {
+    const extracted = extractTemplate(POST, { hasCta: true })
+    const filled = renderTemplate(extracted.template, {
+      ...extracted.values,
+      POINT: ['Write one clear ask', 'Cut the intro', 'Sign with a question'],
+      CLAIM: ['Our reply rate doubled in March.'],
+    })
+    assert.equal(filled.complete, true)
+
+    for (const text of SOURCE_TEXT) {
+      assert.ok(!extracted.template.includes(text), text)
+      assert.ok(!filled.text.includes(text), text)
+    }
+
+    const refilled = extractTemplate(filled.text, { hasCta: true })
+    assert.equal(refilled.template, extracted.template)
+    assert.deepEqual(refilled.lines, extracted.lines)
+  })
+
+  it('treats a sentence with a result but no number as a claim', () => {
+    const { template } = extractTemplate('Cold email is not dead.\n\nRevenue doubled after we fixed onboarding. It was boring work.')
+    assert.equal(template, 'Cold email is not dead.\n\n[CLAIM] It was boring work.')
+  })
+})
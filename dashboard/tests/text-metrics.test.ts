@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import {
+  TCO_URL_LENGTH,
+  TWEET_MAX_LENGTH,
+  emojiCount,
+  findUrls,
+  graphemeLength,
+  linkedInFold,
+  measureText,
+  normalizeTweetUrls,
+  truncateTweet,
+  tweetLength,
+} from '@/lib/text-metrics'
+
+const FAMILY = '👨‍👩‍👧‍👦'
+const FLAG = '🇷🇴'
+
+describe('tweetLength', () => {
+  it('counts every URL as a t.co link', () => {
+    assert.equal(tweetLength('Read https://example.com/a/very/long/path/that/goes/on?utm_source=x'), 5 + TCO_URL_LENGTH)
+    assert.equal(tweetLength('https://a.io'), TCO_URL_LENGTH)
+    assert.equal(tweetLength('See bigzec.com/pricing.'), 4 + TCO_URL_LENGTH + 1)
+  })
+
+  it('finds bare domains but not email addresses or trailing punctuation', () => {
+    assert.deepEqual(findUrls('Docs at bigzec.com/docs, mail me@bigzec.com').map((match) => match.url), ['bigzec.com/docs'])
+    const [url] = findUrls('(https://example.com/x)')
+    assert.equal(url.url, 'https://example.com/x')
+    assert.equal(normalizeTweetUrls('go https://example.com/a/b/c/d/e/f/g/h/i/j').length, 3 + TCO_URL_LENGTH)
+  })
+
+  it('weighs CJK characters 2 and Latin, accents and typographic punctuation 1', () => {
+    assert.equal(tweetLength('日本語'), 6)
+    assert.equal(tweetLength('hi 日本'), 7)
+    assert.equal(tweetLength('café — “quoted”'), 15)
+    // e + combining acute is one character after NFC
+    assert.equal(tweetLength('cafe\u0301'), 4)
+  })
+
+  it('weighs any emoji 2, however many code points it has', () => {
+    assert.equal(FAMILY.length, 11)
+    assert.equal(tweetLength(FAMILY), 2)
+    assert.equal(tweetLength(FLAG), 2)
+    assert.equal(tweetLength('👍🏽'), 2)
+    assert.equal(tweetLength(`ok ${FAMILY}${FLAG}`), 7)
+  })
+})
+
+describe('graphemes and emoji', () => {
+  it('counts ZWJ sequences and flags as one character and one emoji', () => {
+    assert.equal(graphemeLength(FAMILY), 1)
+    assert.equal(graphemeLength(`${FLAG}!`), 2)
+    assert.equal(emojiCount(`Ship it ${FAMILY} ${FLAG} 🚀`), 3)
+    assert.equal(emojiCount('No emoji here, just 𝕏'), 0)
+  })
+})
+
+describe('truncateTweet', () => {
+  it('leaves a tweet that fits alone', () => {
+    assert.equal(truncateTweet('Short and sweet'), 'Short and sweet')
+  })
+
+  it('cuts at a word boundary within the weighted limit', () => {
+    const long = 'word '.repeat(100).trim()
+    const cut = truncateTweet(long)
+
+    assert.ok(tweetLength(cut) <= TWEET_MAX_LENGTH)
+    assert.ok(cut.endsWith('word…'), cut.slice(-10))
+  })
+
+  it('never splits an emoji', () => {
+    const cut = truncateTweet(FAMILY.repeat(200), 10)
+    assert.equal(cut, `${FAMILY.repeat(4)}…`)
+  })
+})
+
+describe('linkedInFold', () => {
+  it('folds after three lines', () => {
+    const fold = linkedInFold('One\nTwo\nThree\nFour\nFive').desktop
+
+    assert.equal(fold.visible, 'One\nTwo\nThree')
+    assert.equal(fold.hidden, 'Four\nFive')
+    assert.equal(fold.truncated, true)
+    assert.equal(fold.lines, 3)
+  })
+
+  it('shows a post that fits exactly', () => {
+    assert.equal(linkedInFold('x'.repeat(210)).desktop.truncated, false)
+    assert.equal(linkedInFold('x'.repeat(211)).desktop.foldIndex, 210)
+    assert.equal(linkedInFold('x'.repeat(140)).mobile.truncated, false)
+    assert.equal(linkedInFold('x'.repeat(141)).mobile.foldIndex, 140)
+  })
+
+  it('moves a cut inside a word back to the word start', () => {
+    const text = 'lorem ipsum '.repeat(30).trim()
+    const { desktop, mobile } = linkedInFold(text)
+
+    for (const fold of [desktop, mobile]) {
+      assert.ok(fold.truncated)
+      assert.ok(/(lorem|ipsum)$/.test(fold.visible), fold.visible.slice(-12))
+      assert.ok(/^(lorem|ipsum)/.test(fold.hidden), fold.hidden.slice(0, 12))
+    }
+    assert.ok(mobile.foldIndex < desktop.foldIndex)
+  })
+
+  it('reports the fold index in the untrimmed text', () => {
+    const text = '\n  One\nTwo\nThree\nFour'
+    const { desktop } = linkedInFold(text)
+
+    assert.equal(text.slice(desktop.foldIndex), '\nFour')
+  })
+})
+
+describe('measureText', () => {
+  it('measures X by weight and LinkedIn by characters, with the fold', () => {
+    const text = `Ship it ${FAMILY} https://example.com/launch`
+
+    const x = measureText(text, 'twitter')
+    assert.equal(x.length, 8 + 2 + 1 + TCO_URL_LENGTH)
+    assert.equal(x.remaining, TWEET_MAX_LENGTH - x.length)
+    assert.equal(x.fold, undefined)
+
+    const linkedIn = measureText(text, 'linkedin')
+    assert.equal(linkedIn.length, graphemeLength(text))
+    assert.equal(linkedIn.emoji, 1)
+    assert.equal(linkedIn.urls, 1)
+    assert.equal(linkedIn.fold?.desktop.truncated, false)
+  })
+})
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { MAX_BODY_TWEETS, MIN_BODY_TWEETS, composeThread, composeThreadWithLLM, type ComposedThread } from '@/lib/thread-composer'
+
+const originalFetch = globalThis.fetch
+const env = { ...process.env }
+
+function replyWith(reply: unknown) {
+  globalThis.fetch = async () =>
+    new Response(JSON.stringify({ id: 'gen-1', choices: [{ message: { role: 'assistant', content: JSON.stringify(reply) }, finish_reason: 'stop' }] }))
+}
+
+function bodyTweets(thread: ComposedThread): number {
+  return thread.tweets.filter((tweet) => tweet.role === 'body').length
+}
+
+// A list item that fills most of a tweet, so no two share one
+function longItem(n: number): string {
+  return `${n}. ${'Write the follow-up before you send the first email, then send it on day three. '.repeat(3).trim()}`
+}
+
+const CTA = 'Which one would you add? Comment below.'
+
+beforeEach(() => {
+  process.env.OPENROUTER_API_KEY = 'test-key'
+})
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+  process.env = { ...env }
+})
+
+describe('composeThread', () => {
+  it('splits a list into body tweets within the range', () => {
+    const items = Array.from({ length: 5 }, (_, i) => longItem(i + 1))
+    const thread = composeThread(`Cold email is not dead. It is just lazy.\n\n${items.join('\n')}\n\n${CTA}`)
+
+    assert.equal(bodyTweets(thread), 5)
+    assert.equal(thread.validation.isValid, true, thread.validation.errors.join('; '))
+  })
+
+  it('fails validation without enough content for the body', () => {
+    const thread = composeThread('Short one.')
+
+    assert.equal(bodyTweets(thread), 0)
+    assert.equal(thread.validation.isValid, false)
+    assert.match(thread.validation.errors.join('\n'), new RegExp(`0 body tweets; it needs ${MIN_BODY_TWEETS}-${MAX_BODY_TWEETS}`))
+  })
+
+  it('fails validation when the body cannot fit in the maximum', () => {
+    const items = Array.from({ length: 9 }, (_, i) => longItem(i + 1))
+    const thread = composeThread(`Cold email is not dead. It is just lazy.\n\n${items.join('\n')}\n\n${CTA}`)
+
+    assert.equal(bodyTweets(thread), 9)
+    assert.equal(thread.validation.isValid, false)
+    assert.match(thread.validation.errors.join('\n'), /9 body tweets/)
+  })
+})
+
+describe('composeThreadWithLLM', () => {
+  it('merges short body tweets down to the maximum', async () => {
+    const tweets = Array.from({ length: 9 }, (_, i) => `Lesson ${i + 1}: follow up on day ${i + 2}.`)
+    replyWith({ hook: 'Cold email is not dead. It is just lazy.', tweets, cta: CTA })
+
+    const thread = await composeThreadWithLLM({ topic: 'cold email' })
+
+    assert.equal(bodyTweets(thread), MAX_BODY_TWEETS)
+    assert.equal(thread.validation.isValid, true, thread.validation.errors.join('; '))
+    const body = thread.tweets.filter((tweet) => tweet.role === 'body').map((tweet) => tweet.text).join('\n')
+    for (const tweet of tweets) assert.ok(body.includes(tweet), tweet)
+  })
+})
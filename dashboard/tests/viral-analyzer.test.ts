@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { analyzePost } from '@/lib/viral-analyzer'
+import type { TextSpan, ViralPost } from '@/lib/types/social-media'
+
+function post(content: string, overrides: Partial<ViralPost> = {}): ViralPost {
+  return {
+    id: 'post-1',
+    platform: 'linkedin',
+    content,
+    metrics: { likes: 120, comments: 14, shares: 3 },
+    createdAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const LISTICLE = post(
+  'Why do most cold emails fail?\n\nI sent 10,000 of them last year. Here is the secret nobody tells you:\n\n1. Short subject lines win\n2. One ask per email\n3. Follow up twice\n\nWhat would you add? Comment below 👇'
+)
+
+const FLAT = post('we shipped the new pricing page today and it went fine and we will see how it does over the next few weeks')
+
+function assertSpanInPost(span: TextSpan, content: string) {
+  assert.ok(span.start >= 0 && span.end <= content.length && span.start <= span.end, JSON.stringify(span))
+  assert.equal(content.slice(span.start, span.end), span.text)
+}
+
+describe('analyzePost score breakdown', () => {
+  for (const example of [LISTICLE, FLAT]) {
+    it(`adds up the components (${example.content.slice(0, 20)}…)`, () => {
+      const { scoreBreakdown: breakdown, viralityScore } = analyzePost(example)
+
+      assert.deepEqual(
+        breakdown.components.map((c) => c.component),
+        ['hook', 'body', 'cta', 'emotion', 'format', 'platform_fit']
+      )
+      for (const component of breakdown.components) {
+        assert.ok(component.score <= component.max, component.component)
+        assert.equal(component.headroom, Math.round((component.max - component.score) * 100) / 100)
+      }
+      const subtotal = breakdown.components.reduce((sum, c) => sum + c.score, 0)
+      assert.ok(Math.abs(breakdown.subtotal - subtotal) < 0.01)
+      assert.equal(breakdown.total, Math.min(100, Math.round(breakdown.subtotal * breakdown.engagementMultiplier)))
+      assert.equal(viralityScore, breakdown.total)
+    })
+  }
+
+  it('applies the engagement multiplier above a 5% engagement rate', () => {
+    const engaged = analyzePost({ ...LISTICLE, metrics: { ...LISTICLE.metrics, engagementRate: 7 } })
+    assert.equal(engaged.scoreBreakdown.engagementMultiplier, 1.1)
+    assert.equal(analyzePost(LISTICLE).scoreBreakdown.engagementMultiplier, 1)
+  })
+
+  it('points every piece of evidence at the text that matched', () => {
+    const { scoreBreakdown } = analyzePost(LISTICLE)
+    const byComponent = Object.fromEntries(scoreBreakdown.components.map((c) => [c.component, c.evidence]))
+
+    for (const evidence of Object.values(byComponent).flat()) {
+      assertSpanInPost(evidence, LISTICLE.content)
+      assert.ok(evidence.source && evidence.pattern, JSON.stringify(evidence))
+    }
+    assert.ok(byComponent.hook.length > 0, 'hook evidence')
+    assert.ok(byComponent.body.some((e) => e.text.startsWith('1.')), 'list items as body evidence')
+    assert.ok(byComponent.format.some((e) => e.text === '👇'), 'emoji evidence')
+  })
+})
+
+describe('analyzePost recommendations', () => {
+  it('only recommends for components with headroom, at spans of the post', () => {
+    const { recommendations, scoreBreakdown } = analyzePost(FLAT)
+    const headroom = new Map(scoreBreakdown.components.map((c) => [c.component, c.headroom]))
+
+    assert.ok(recommendations.length > 0)
+    for (const recommendation of recommendations) {
+      assert.ok((headroom.get(recommendation.component) ?? 0) > 0, recommendation.rule)
+      assert.equal(recommendation.headroom, headroom.get(recommendation.component))
+      assertSpanInPost(recommendation.span, FLAT.content)
+    }
+  })
+
+  it('asks for a call to action at the end of a post without one', () => {
+    const cta = analyzePost(FLAT).recommendations.find((r) => r.component === 'cta')
+
+    assert.ok(cta, 'cta recommendation')
+    assert.equal(cta.span.end, FLAT.content.length)
+  })
+})
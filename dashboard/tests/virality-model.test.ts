@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import {
+  MIN_TRAINING_SAMPLES,
+  ViralityTrainingError,
+  calibrateViralityModel,
+  engagementTarget,
+  predictVirality,
+  spearmanCorrelation,
+  trainViralityModel,
+  type ViralitySample,
+} from '@/lib/virality-model'
+
+// Engagement grows with `lines`, `noise` wobbles without effect and
+// `platform_flag` never changes
+function samples(count: number): ViralitySample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const lines = i % 10
+    return {
+      id: `post-${i}`,
+      platform: 'linkedin',
+      features: { lines, noise: (i * 7) % 3, platform_flag: 1 },
+      metrics: { likes: Math.round(Math.exp(2 + 0.4 * lines)) - 1, comments: 0, shares: 0 },
+      heuristicScore: 50,
+    }
+  })
+}
+
+describe('trainViralityModel', () => {
+  it('needs a minimum number of posts', () => {
+    assert.throws(() => trainViralityModel(samples(MIN_TRAINING_SAMPLES - 1)), ViralityTrainingError)
+  })
+
+  it('puts the weight on the feature that drives engagement', () => {
+    const model = trainViralityModel(samples(40), { id: 'test-model' })
+    const weight = (feature: string) => model.coefficients.find((c) => c.feature === feature)!
+
+    assert.equal(model.id, 'test-model')
+    assert.equal(model.sampleCount, 40)
+    assert.ok(weight('lines').weight > 0.5, String(weight('lines').weight))
+    assert.ok(Math.abs(weight('noise').weight) < 0.1 * weight('lines').weight)
+    assert.deepEqual({ scale: weight('platform_flag').scale, weight: weight('platform_flag').weight }, { scale: 1, weight: 0 })
+  })
+
+  it('shrinks weights as the ridge penalty grows', () => {
+    const loose = trainViralityModel(samples(40), { lambda: 0.01 })
+    const tight = trainViralityModel(samples(40), { lambda: 1000 })
+    const lines = (model: typeof loose) => model.coefficients.find((c) => c.feature === 'lines')!.weight
+
+    assert.ok(lines(tight) < lines(loose) / 10)
+  })
+})
+
+describe('predictVirality', () => {
+  const model = trainViralityModel(samples(40))
+
+  it('recovers the engagement target and ranks posts by it', () => {
+    const low = predictVirality(model, { lines: 1, noise: 1, platform_flag: 1 })
+    const high = predictVirality(model, { lines: 8, noise: 1, platform_flag: 1 })
+
+    assert.ok(Math.abs(high.predicted - engagementTarget({ likes: Math.round(Math.exp(5.2)) - 1, comments: 0, shares: 0 })) < 0.1)
+    assert.ok(high.score > 80 && low.score < 20, `${low.score} / ${high.score}`)
+    assert.equal(high.contributions[0].factor, 'lines')
+  })
+
+  it('scores a post with average features at 50 and treats missing features as average', () => {
+    const average = Object.fromEntries(model.coefficients.map((c) => [c.feature, c.mean]))
+    const prediction = predictVirality(model, {})
+
+    assert.equal(predictVirality(model, average).score, 50)
+    assert.equal(prediction.score, 50)
+    assert.deepEqual(prediction.contributions, [])
+  })
+})
+
+describe('calibrateViralityModel', () => {
+  it('evaluates on a seeded holdout and refits on every post', () => {
+    const first = calibrateViralityModel(samples(40), { seed: 7 })
+    const second = calibrateViralityModel(samples(40), { seed: 7 })
+
+    assert.equal(first.holdoutCount, 8)
+    assert.equal(first.trainCount, 32)
+    assert.equal(first.model.sampleCount, 40)
+    assert.deepEqual(first.model.evaluation, second.model.evaluation)
+    assert.ok(first.model.evaluation!.spearman > 0.95)
+    assert.equal(first.model.evaluation!.heuristicSpearman, 0)
+  })
+
+  it('refuses a holdout that leaves too few training posts', () => {
+    assert.throws(() => calibrateViralityModel(samples(MIN_TRAINING_SAMPLES), { holdoutFraction: 0.5 }), ViralityTrainingError)
+  })
+})
+
+describe('spearmanCorrelation', () => {
+  it('ranks ties together and ignores scale', () => {
+    assert.equal(spearmanCorrelation([1, 2, 3, 4], [10, 200, 3000, 40000]), 1)
+    assert.equal(spearmanCorrelation([1, 2, 3, 4], [4, 3, 2, 1]), -1)
+    assert.equal(spearmanCorrelation([1, 1, 1], [1, 2, 3]), 0)
+  })
+})
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it } from 'node:test'
+
+import type { AnalysisJobDeps } from '@/lib/analysis-jobs'
+import { EXTRACTION_PROMPT_VERSION } from '@/lib/format-extraction'
+import { MemoryKeyValueStore } from '@/lib/storage'
+import { replayApifyWebhook, type WebhookReplayFixture } from '@/lib/webhook-replay'
+
+const fixture: WebhookReplayFixture = JSON.parse(
+  readFileSync(join(__dirname, '../fixtures/apify/linkedin-run-succeeded.json'), 'utf8')
+)
+
+// Recorded extraction that counts how often it runs
+function countingExtraction(): { calls: () => number; extractFormats: AnalysisJobDeps['extractFormats'] } {
+  let calls = 0
+  return {
+    calls: () => calls,
+    extractFormats: async (_posts, model = 'recorded') => {
+      calls++
+      // Yield so concurrent deliveries interleave while extraction is running
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return { formats: fixture.formats ?? [], rejected: [], attempts: 1, model, promptVersion: EXTRACTION_PROMPT_VERSION }
+    },
+  }
+}
+
+// KV round trips take time; every operation here completes on a later tick,
+// so concurrent callers interleave the way separate isolates do
+class SlowStore extends MemoryKeyValueStore {
+  private tick = () => new Promise((resolve) => setImmediate(resolve))
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.tick()
+    return super.get<T>(key)
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    await this.tick()
+    return super.put(key, value)
+  }
+}
+
+describe('replayApifyWebhook (linkedin-run-succeeded)', () => {
+  it('finishes the job from the recorded run', async () => {
+    const { statuses, job } = await replayApifyWebhook(fixture)
+
+    assert.deepEqual(statuses, [202, 202])
+    assert.equal(job?.status, 'done')
+    assert.equal(job?.posts.length, 2, 'the login page is not a post')
+    assert.deepEqual(job?.formats.map((format) => format.id), fixture.formats?.map((format) => format.id))
+    assert.equal(job?.extractionClaim, undefined)
+  })
+
+  it('extracts once when the duplicate webhook arrives after the first finished', async () => {
+    const extraction = countingExtraction()
+    const { job } = await replayApifyWebhook(fixture, { extractFormats: extraction.extractFormats })
+
+    assert.equal(extraction.calls(), 1)
+    assert.equal(job?.extractions.length, 1)
+  })
+
+  it('extracts once when both webhooks arrive at the same time', async () => {
+    const extraction = countingExtraction()
+    const { statuses, job } = await replayApifyWebhook(fixture, {
+      extractFormats: extraction.extractFormats,
+      concurrent: true,
+    })
+
+    assert.deepEqual(statuses, [202, 202])
+    assert.equal(extraction.calls(), 1)
+    assert.equal(job?.status, 'done')
+    assert.equal(job?.extractions.length, 1)
+  })
+
+  it('extracts once when both webhooks read the finished runs before either claims', async () => {
+    const extraction = countingExtraction()
+    const { job } = await replayApifyWebhook(fixture, {
+      extractFormats: extraction.extractFormats,
+      concurrent: true,
+      store: new SlowStore(),
+    })
+
+    assert.equal(extraction.calls(), 1)
+    assert.equal(job?.status, 'done')
+    assert.equal(job?.extractions.length, 1)
+  })
+
+  it('rejects a bad signature without touching the job', async () => {
+    const extraction = countingExtraction()
+    const { statuses, job } = await replayApifyWebhook(fixture, {
+      extractFormats: extraction.extractFormats,
+      signature: 'not-a-signature',
+    })
+
+    assert.ok(statuses.every((status) => status === 401))
+    assert.equal(extraction.calls(), 0)
+    assert.equal(job?.status, 'scraping')
+  })
+})